@@ -80,14 +80,9 @@ const emptyData: InfrastructureData = {
 
 // Network Topology Data - will be fetched from API
 // Default/fallback values
-const defaultTopologyNodes: TopologyNode[] = [
-  { id: 'skynet', name: 'Skynet AI', type: 'skynet', status: 'online', ip: '192.168.195.33', layer: 0, vendor: 'Custom' },
-  { id: 'zerotier-gw', name: 'ZeroTier Gateway', type: 'gateway', status: 'online', ip: '192.168.195.1', layer: 1, vendor: 'ZeroTier' },
-]
+const defaultTopologyNodes: TopologyNode[] = []
 
-const defaultTopologyLinks: TopologyLink[] = [
-  { source: 'skynet', target: 'zerotier-gw', type: 'vpn', status: 'active' },
-]
+const defaultTopologyLinks: TopologyLink[] = []
 
 // Icon components
 const Icons = {
@@ -835,7 +830,7 @@ function App() {
               <div className="topology-header">
                 <h2>🕸️ Interactive Network Topology</h2>
                 <div className="topology-controls">
-                  <span className="hint">Click a device to see path from Skynet • Drag nodes to reposition • Scroll to zoom</span>
+                  <span className="hint">Click a device to see its path from the core • Drag nodes to reposition • Scroll to zoom</span>
                 </div>
               </div>
               <div className="topology-wrapper">
@@ -848,7 +843,7 @@ function App() {
                     console.log('Selected node:', node)
                   }}
                   onPathHighlight={(path) => {
-                    console.log('Path from Skynet:', path.map(n => n.name).join(' → '))
+                    console.log('Path from core:', path.map(n => n.name).join(' → '))
                   }}
                 />
               </div>
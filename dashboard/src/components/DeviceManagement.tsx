@@ -20,7 +20,7 @@ interface Device {
   managementUrl?: string;
   sshPort?: number;
   httpPort?: number;
-  platformType?: 'zerotier' | 'unifi' | 'uisp' | 'manual' | 'other';
+  platformType?: 'zerotier' | 'unifi' | 'uisp' | 'protect' | 'starlink' | 'tailscale' | 'wireguard' | 'manual' | 'other';
   platformDeviceId?: string;
   notes?: string;
   tags?: string[];
@@ -79,17 +79,28 @@ interface Platform {
   status: string;
 }
 
+interface SyncPreviewItem {
+  platformId: string;
+  name: string;
+  type: string;
+  status: 'new' | 'update' | 'unchanged' | 'stale';
+  changes: { field: string; from: unknown; to: unknown }[];
+}
+
 interface SyncPreview {
   platform: string;
   devices: {
     total: number;
     new: number;
     existing: number;
-    items: { platformId: string; name: string; type: string; status: string }[];
+    changed: number;
+    items: SyncPreviewItem[];
+    stale: SyncPreviewItem[];
   };
   networks: {
     total: number;
-    items: { id: string; name: string; type: string }[];
+    items: (SyncPreviewItem & { id: string })[];
+    stale: SyncPreviewItem[];
   };
 }
 
@@ -949,6 +960,7 @@ function PlatformImport({
   const [platforms, setPlatforms] = useState<Platform[]>([]);
   const [selectedPlatform, setSelectedPlatform] = useState<string | null>(null);
   const [preview, setPreview] = useState<SyncPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -974,8 +986,12 @@ function PlatformImport({
         const data = await res.json();
         throw new Error(data.error || 'Failed to preview');
       }
-      const data = await res.json();
+      const data: SyncPreview = await res.json();
       setPreview(data);
+      // Pre-select everything that would actually change
+      setSelectedIds(new Set(
+        data.devices.items.filter(i => i.status !== 'unchanged').map(i => i.platformId)
+      ));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
@@ -994,7 +1010,11 @@ function PlatformImport({
       const res = await fetch(`${API_BASE}/sync/execute/${selectedPlatform}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ includeNetworks: true, updateExisting: true }),
+        body: JSON.stringify({
+          includeNetworks: true,
+          updateExisting: true,
+          deviceIds: Array.from(selectedIds),
+        }),
       });
       
       if (!res.ok) {
@@ -1011,6 +1031,21 @@ function PlatformImport({
     }
   };
 
+  const toggleSelected = (platformId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(platformId)) {
+        next.delete(platformId);
+      } else {
+        next.add(platformId);
+      }
+      return next;
+    });
+  };
+
+  const formatChanges = (item: SyncPreviewItem) =>
+    item.changes.map(c => `${c.field}: ${String(c.from ?? '—')} → ${String(c.to ?? '—')}`).join(', ');
+
   return (
     <div className="platform-import-view">
       <div className="import-header">
@@ -1078,6 +1113,11 @@ function PlatformImport({
                     {platform.id === 'zerotier' && '🔒'}
                     {platform.id === 'unifi' && '📡'}
                     {platform.id === 'uisp' && '🌐'}
+                    {platform.id === 'protect' && '📷'}
+                    {platform.id === 'starlink' && '🛰️'}
+                    {platform.id === 'tailscale' && '🔗'}
+                    {platform.id === 'wireguard' && '🔐'}
+                    {platform.id === 'cloudflare' && '☁️'}
                   </span>
                   <span className="platform-name">{platform.name}</span>
                   <span className={`platform-status ${platform.status}`}>
@@ -1110,6 +1150,14 @@ function PlatformImport({
                   <span className="stat-value">{preview.devices.existing}</span>
                   <span className="stat-label">Existing</span>
                 </div>
+                <div className="preview-stat">
+                  <span className="stat-value">{preview.devices.changed}</span>
+                  <span className="stat-label">Changed</span>
+                </div>
+                <div className="preview-stat">
+                  <span className="stat-value">{preview.devices.stale.length}</span>
+                  <span className="stat-label">Stale</span>
+                </div>
                 <div className="preview-stat">
                   <span className="stat-value">{preview.networks.total}</span>
                   <span className="stat-label">Networks</span>
@@ -1121,39 +1169,55 @@ function PlatformImport({
                 <table className="preview-table">
                   <thead>
                     <tr>
+                      <th></th>
                       <th>Name</th>
                       <th>Type</th>
                       <th>Status</th>
+                      <th>Changes</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {preview.devices.items.slice(0, 10).map((item) => (
+                    {preview.devices.items.map((item) => (
                       <tr key={item.platformId} className={item.status}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(item.platformId)}
+                            onChange={() => toggleSelected(item.platformId)}
+                          />
+                        </td>
                         <td>{item.name}</td>
                         <td>{item.type}</td>
                         <td>
                           <span className={`status-badge ${item.status}`}>
-                            {item.status === 'new' ? '🆕 New' : '↻ Update'}
+                            {item.status === 'new' ? '🆕 New' : item.status === 'update' ? '↻ Update' : '✓ Unchanged'}
                           </span>
                         </td>
+                        <td>{formatChanges(item)}</td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
-                {preview.devices.items.length > 10 && (
-                  <p className="preview-more">
-                    ... and {preview.devices.items.length - 10} more devices
-                  </p>
-                )}
               </div>
 
+              {preview.devices.stale.length > 0 && (
+                <div className="preview-devices">
+                  <h4>No Longer on Platform ({preview.devices.stale.length})</h4>
+                  <ul className="preview-stale">
+                    {preview.devices.stale.map((item) => (
+                      <li key={item.platformId}>{item.name}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="import-actions">
                 <button 
                   className="btn btn-primary btn-lg"
                   onClick={handleSync}
-                  disabled={syncing}
+                  disabled={syncing || selectedIds.size === 0}
                 >
-                  {syncing ? '⏳ Importing...' : '📥 Import All'}
+                  {syncing ? '⏳ Importing...' : `📥 Import Selected (${selectedIds.size})`}
                 </button>
               </div>
             </div>
@@ -2,17 +2,29 @@ import { useEffect, useRef, useState, useCallback } from 'react'
 import * as d3 from 'd3'
 import './NetworkTopology.css'
 
+// Table and row a node or link was built from
+export interface Provenance {
+  table: string
+  id: string
+  column?: string
+  platform?: string | null
+}
+
 // Node types for the network
 export interface TopologyNode {
   id: string
   name: string
-  type: 'skynet' | 'router' | 'switch' | 'gateway' | 'server' | 'camera' | 'workstation' | 'iot' | 'nas' | 'access_point' | 'unknown'
+  type: 'site' | 'network' | 'group' | 'router' | 'switch' | 'gateway' | 'server' | 'camera' | 'workstation' | 'iot' | 'nas' | 'access_point' | 'unknown'
+  kind?: 'site' | 'network' | 'device' | 'discovered' | 'group'
   status: 'online' | 'offline' | 'degraded' | 'unknown'
   ip?: string
   mac?: string
   vendor?: string
   ports?: number[]
-  layer: number // 0 = skynet, 1 = core, 2 = distribution, 3 = access, 4 = edge
+  layer: number // Hops from the core: 0 = core, 1 = backbone, 2 = distribution, 3 = access, 4 = edge
+  siteId?: string | null
+  count?: number // Group nodes: devices folded into this node
+  provenance?: Provenance | null
   x?: number
   y?: number
   fx?: number | null
@@ -26,6 +38,13 @@ export interface TopologyLink {
   status: 'active' | 'degraded' | 'down'
   bandwidth?: string
   latency?: number
+  relation?: string
+  provenance?: Provenance
+  // RF metrics of wireless backhauls
+  frequencyMhz?: number | null
+  signalLocalDbm?: number | null
+  signalRemoteDbm?: number | null
+  distanceM?: number | null
 }
 
 interface NetworkTopologyProps {
@@ -39,7 +58,9 @@ interface NetworkTopologyProps {
 
 // Icons for different device types
 const nodeIcons: Record<string, string> = {
-  skynet: '🤖',
+  site: '🏢',
+  network: '🕸️',
+  group: '📦',
   router: '📡',
   switch: '🔀',
   gateway: '🌐',
@@ -81,10 +102,10 @@ export function NetworkTopology({
   const [highlightedPath, setHighlightedPath] = useState<string[]>([])
   const [tooltip, setTooltip] = useState<{ x: number; y: number; node: TopologyNode } | null>(null)
 
-  // Find path from Skynet to a target node using BFS
-  const findPathFromSkynet = useCallback((targetId: string): string[] => {
-    const skynetNode = nodes.find(n => n.type === 'skynet')
-    if (!skynetNode) return []
+  // Find path from the core (layer 0) to a target node using BFS
+  const findPathFromCore = useCallback((targetId: string): string[] => {
+    const coreNodes = nodes.filter(n => n.layer === 0)
+    if (coreNodes.length === 0) return []
 
     const graph = new Map<string, string[]>()
     
@@ -102,7 +123,7 @@ export function NetworkTopology({
 
     // BFS to find shortest path
     const visited = new Set<string>()
-    const queue: { id: string; path: string[] }[] = [{ id: skynetNode.id, path: [skynetNode.id] }]
+    const queue: { id: string; path: string[] }[] = coreNodes.map(n => ({ id: n.id, path: [n.id] }))
     
     while (queue.length > 0) {
       const { id, path } = queue.shift()!
@@ -127,8 +148,8 @@ export function NetworkTopology({
   const handleNodeClick = useCallback((node: TopologyNode) => {
     setSelectedNode(node)
     
-    // Find and highlight path from Skynet
-    const path = findPathFromSkynet(node.id)
+    // Find and highlight path from the core
+    const path = findPathFromCore(node.id)
     setHighlightedPath(path)
     
     if (onNodeClick) onNodeClick(node)
@@ -136,7 +157,7 @@ export function NetworkTopology({
       const pathNodes = path.map(id => nodes.find(n => n.id === id)!).filter(Boolean)
       onPathHighlight(pathNodes)
     }
-  }, [findPathFromSkynet, nodes, onNodeClick, onPathHighlight])
+  }, [findPathFromCore, nodes, onNodeClick, onPathHighlight])
 
   // Clear selection
   const clearSelection = useCallback(() => {
@@ -250,6 +271,19 @@ export function NetworkTopology({
         return srcIdx !== -1 && tgtIdx !== -1 && Math.abs(srcIdx - tgtIdx) === 1 ? 1 : 0.2
       })
 
+    // Hover text with RF metrics for backhaul links
+    link.append('title')
+      .text(d => [
+        `${d.type} • ${d.status}`,
+        d.provenance ? `from ${d.provenance.table}${d.provenance.column ? `.${d.provenance.column}` : ''}` : null,
+        d.frequencyMhz != null ? `${d.frequencyMhz} MHz` : null,
+        d.signalLocalDbm != null || d.signalRemoteDbm != null
+          ? `Signal ${d.signalLocalDbm ?? '?'} / ${d.signalRemoteDbm ?? '?'} dBm`
+          : null,
+        d.bandwidth ? `Capacity ${d.bandwidth}` : null,
+        d.distanceM != null ? `${(d.distanceM / 1000).toFixed(2)} km` : null,
+      ].filter(Boolean).join('\n'))
+
     // Create node groups
     const nodeGroup = g.append('g').attr('class', 'nodes')
     
@@ -292,7 +326,7 @@ export function NetworkTopology({
 
     // Node background circle
     node.append('circle')
-      .attr('r', d => d.type === 'skynet' ? 40 : d.layer === 1 ? 35 : 30)
+      .attr('r', d => d.layer === 0 ? 40 : d.layer === 1 ? 35 : 30)
       .attr('fill', d => {
         const opacity = highlightedPath.length === 0 || highlightedPath.includes(d.id) ? 0.2 : 0.05
         const color = d3.color(statusColors[d.status])
@@ -311,7 +345,7 @@ export function NetworkTopology({
       .attr('class', 'node-icon')
       .attr('text-anchor', 'middle')
       .attr('dominant-baseline', 'central')
-      .attr('font-size', d => d.type === 'skynet' ? '2rem' : '1.5rem')
+      .attr('font-size', d => d.layer === 0 ? '2rem' : '1.5rem')
       .text(d => nodeIcons[d.type] || '❓')
       .attr('opacity', d => highlightedPath.length === 0 || highlightedPath.includes(d.id) ? 1 : 0.4)
 
@@ -319,7 +353,7 @@ export function NetworkTopology({
     node.append('text')
       .attr('class', 'node-label')
       .attr('text-anchor', 'middle')
-      .attr('y', d => d.type === 'skynet' ? 55 : 45)
+      .attr('y', d => d.layer === 0 ? 55 : 45)
       .attr('font-size', '0.7rem')
       .attr('fill', '#e2e8f0')
       .text(d => d.name.length > 15 ? d.name.substring(0, 12) + '...' : d.name)
@@ -328,8 +362,8 @@ export function NetworkTopology({
     // Status indicator
     node.append('circle')
       .attr('class', 'status-indicator')
-      .attr('cx', d => d.type === 'skynet' ? 28 : 22)
-      .attr('cy', d => d.type === 'skynet' ? -28 : -22)
+      .attr('cx', d => d.layer === 0 ? 28 : 22)
+      .attr('cy', d => d.layer === 0 ? -28 : -22)
       .attr('r', 6)
       .attr('fill', d => statusColors[d.status])
       .attr('stroke', '#0f0f23')
@@ -339,8 +373,8 @@ export function NetworkTopology({
     node.filter(d => highlightedPath.includes(d.id) && highlightedPath.length > 0)
       .append('circle')
       .attr('class', 'hop-badge')
-      .attr('cx', d => d.type === 'skynet' ? -28 : -22)
-      .attr('cy', d => d.type === 'skynet' ? -28 : -22)
+      .attr('cx', d => d.layer === 0 ? -28 : -22)
+      .attr('cy', d => d.layer === 0 ? -28 : -22)
       .attr('r', 12)
       .attr('fill', '#7c3aed')
       .attr('stroke', '#0f0f23')
@@ -349,8 +383,8 @@ export function NetworkTopology({
     node.filter(d => highlightedPath.includes(d.id) && highlightedPath.length > 0)
       .append('text')
       .attr('class', 'hop-number')
-      .attr('x', d => d.type === 'skynet' ? -28 : -22)
-      .attr('y', d => d.type === 'skynet' ? -28 : -22)
+      .attr('x', d => d.layer === 0 ? -28 : -22)
+      .attr('y', d => d.layer === 0 ? -28 : -22)
       .attr('text-anchor', 'middle')
       .attr('dominant-baseline', 'central')
       .attr('font-size', '0.6rem')
@@ -486,7 +520,7 @@ export function NetworkTopology({
                 <span className="label">Type:</span>
                 <span className="value">{selectedNode.type}</span>
                 <span className="label">Layer:</span>
-                <span className="value">{['Core/Skynet', 'Core', 'Distribution', 'Access', 'Edge'][selectedNode.layer]}</span>
+                <span className="value">{['Core', 'Backbone', 'Distribution', 'Access', 'Edge'][selectedNode.layer]}</span>
                 {selectedNode.ip && (
                   <>
                     <span className="label">IP Address:</span>
@@ -505,12 +539,27 @@ export function NetworkTopology({
                     <span className="value">{selectedNode.vendor}</span>
                   </>
                 )}
+                {selectedNode.count !== undefined && (
+                  <>
+                    <span className="label">Devices:</span>
+                    <span className="value">{selectedNode.count}</span>
+                  </>
+                )}
+                {selectedNode.provenance && (
+                  <>
+                    <span className="label">Source:</span>
+                    <span className="value mono">
+                      {selectedNode.provenance.table}
+                      {selectedNode.provenance.platform ? ` (${selectedNode.provenance.platform})` : ''}
+                    </span>
+                  </>
+                )}
               </div>
             </div>
 
             {highlightedPath.length > 0 && (
               <div className="detail-section">
-                <h4>Access Path from Skynet</h4>
+                <h4>Path from Core</h4>
                 <div className="path-display">
                   {highlightedPath.map((id, idx) => {
                     const pathNode = nodes.find(n => n.id === id)
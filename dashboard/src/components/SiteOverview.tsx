@@ -46,6 +46,19 @@ interface Site {
   locations?: Location[];
 }
 
+interface UptimeBucket {
+  start: string;
+  end: string;
+  availabilityPct: number | null;
+}
+
+interface SiteUptime {
+  availabilityPct: number | null;
+  outageCount: number;
+  mttrMs: number | null;
+  buckets?: UptimeBucket[];
+}
+
 interface SiteOverviewProps {
   siteId?: string | null;
   onLocationSelect?: (locationId: string) => void;
@@ -95,6 +108,7 @@ export function SiteOverview({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
+  const [uptime, setUptime] = useState<SiteUptime | null>(null);
 
   // Fetch site data
   useEffect(() => {
@@ -112,6 +126,7 @@ export function SiteOverview({
       if (!response.ok) throw new Error('Failed to fetch site');
       const data = await response.json();
       setSite(data);
+      fetchUptime(id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load site');
       // Use mock data for demo
@@ -121,6 +136,17 @@ export function SiteOverview({
     }
   };
 
+  // Daily availability over the last 30 days
+  const fetchUptime = async (id: string) => {
+    try {
+      const response = await fetch(`${apiUrl}/uptime/sites/${id}?from=-30d&bucket=1d`);
+      if (!response.ok) throw new Error('Failed to fetch uptime');
+      setUptime(await response.json());
+    } catch {
+      setUptime(null);
+    }
+  };
+
   const fetchAllSites = async () => {
     try {
       setLoading(true);
@@ -150,6 +176,21 @@ export function SiteOverview({
     return 'red';
   };
 
+  const getUptimeColor = (percent: number | null) => {
+    if (percent === null) return 'gray';
+    if (percent >= 99.9) return 'green';
+    if (percent >= 99) return 'yellow';
+    return 'red';
+  };
+
+  const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  };
+
   if (loading) {
     return (
       <div className="site-overview loading">
@@ -304,6 +345,33 @@ export function SiteOverview({
         </div>
       </div>
 
+      {/* 30-day Uptime */}
+      {uptime && (
+        <div className="uptime-card">
+          <div className="uptime-header">
+            <h3>📈 Uptime (30 days)</h3>
+            <span className={`uptime-value health-${getUptimeColor(uptime.availabilityPct)}`}>
+              {uptime.availabilityPct === null ? 'No data' : `${uptime.availabilityPct}%`}
+            </span>
+          </div>
+          <div className="uptime-bar">
+            {uptime.buckets?.map(bucket => (
+              <div
+                key={bucket.start}
+                className={`uptime-day health-${getUptimeColor(bucket.availabilityPct)}`}
+                title={`${new Date(bucket.start).toLocaleDateString()}: ${
+                  bucket.availabilityPct === null ? 'no data' : `${bucket.availabilityPct}%`
+                }`}
+              />
+            ))}
+          </div>
+          <div className="uptime-footer">
+            <span>{uptime.outageCount} outage{uptime.outageCount === 1 ? '' : 's'}</span>
+            {uptime.mttrMs !== null && <span>MTTR {formatDuration(uptime.mttrMs)}</span>}
+          </div>
+        </div>
+      )}
+
       {/* Site Details */}
       <div className="site-details-grid">
         <div className="details-card">
@@ -0,0 +1,316 @@
+CREATE TABLE `access_paths` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`target_device_id` text NOT NULL,
+	`is_default` integer DEFAULT false,
+	`last_tested_at` integer,
+	`last_test_status` text DEFAULT 'unknown',
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`target_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_access_paths_device` ON `access_paths` (`target_device_id`);--> statement-breakpoint
+CREATE TABLE `chain_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`chain_id` text NOT NULL,
+	`order` integer NOT NULL,
+	`link_type` text NOT NULL,
+	`device_id` text,
+	`network_id` text,
+	`label` text,
+	`latency_ms` integer,
+	`bandwidth_mbps` integer,
+	`status` text DEFAULT 'unknown',
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`chain_id`) REFERENCES `connectivity_chains`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`network_id`) REFERENCES `networks`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_chain_links_chain` ON `chain_links` (`chain_id`);--> statement-breakpoint
+CREATE TABLE `connectivity_chains` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`source_type` text NOT NULL,
+	`source_id` text NOT NULL,
+	`target_type` text NOT NULL,
+	`target_id` text NOT NULL,
+	`status` text DEFAULT 'unknown',
+	`last_tested_at` integer,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `deployments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`vehicle_id` text,
+	`site_id` text,
+	`location_id` text,
+	`latitude` real,
+	`longitude` real,
+	`address` text,
+	`type` text DEFAULT 'temporary',
+	`status` text DEFAULT 'planned',
+	`scheduled_start` integer,
+	`scheduled_end` integer,
+	`actual_start` integer,
+	`actual_end` integer,
+	`monitored_by_deployment_id` text,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `device_network_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`device_id` text NOT NULL,
+	`network_id` text NOT NULL,
+	`ip_address` text,
+	`mac_address` text,
+	`interface_name` text,
+	`is_management_interface` integer DEFAULT false,
+	`platform_member_id` text,
+	`status` text DEFAULT 'unknown',
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`network_id`) REFERENCES `networks`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_device_network_links_device` ON `device_network_links` (`device_id`);--> statement-breakpoint
+CREATE INDEX `idx_device_network_links_network` ON `device_network_links` (`network_id`);--> statement-breakpoint
+CREATE TABLE `devices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`manufacturer` text,
+	`model` text,
+	`serial_number` text,
+	`firmware_version` text,
+	`location_id` text,
+	`vehicle_id` text,
+	`status` text DEFAULT 'unknown',
+	`last_seen` integer,
+	`primary_ip` text,
+	`primary_mac` text,
+	`hostname` text,
+	`management_url` text,
+	`ssh_port` integer,
+	`http_port` integer,
+	`platform_type` text,
+	`platform_device_id` text,
+	`notes` text,
+	`tags` text,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_devices_location` ON `devices` (`location_id`);--> statement-breakpoint
+CREATE INDEX `idx_devices_vehicle` ON `devices` (`vehicle_id`);--> statement-breakpoint
+CREATE INDEX `idx_devices_status` ON `devices` (`status`);--> statement-breakpoint
+CREATE INDEX `idx_devices_platform` ON `devices` (`platform_device_id`);--> statement-breakpoint
+CREATE TABLE `discovered_connections` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_device_id` text NOT NULL,
+	`target_device_id` text NOT NULL,
+	`connection_type` text DEFAULT 'unknown',
+	`confidence` integer DEFAULT 50,
+	`evidence` text,
+	`last_verified_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`source_device_id`) REFERENCES `discovered_devices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_device_id`) REFERENCES `discovered_devices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `discovered_devices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`ip_address` text NOT NULL,
+	`mac_address` text,
+	`hostname` text,
+	`mac_vendor` text,
+	`mac_vendor_full` text,
+	`classification` text DEFAULT 'unknown',
+	`device_type` text DEFAULT 'unknown',
+	`linked_device_id` text,
+	`network_id` text,
+	`site_id` text,
+	`vlan` integer,
+	`first_seen_at` integer NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	`last_scan_id` text,
+	`response_time_ms` integer,
+	`is_reachable` integer DEFAULT true,
+	`open_ports` text,
+	`services` text,
+	`mdns_name` text,
+	`mdns_services` text,
+	`snmp_sys_name` text,
+	`snmp_sys_descr` text,
+	`snmp_sys_contact` text,
+	`snmp_sys_location` text,
+	`notes` text,
+	`tags` text,
+	`alert_on_disappear` integer DEFAULT false,
+	`alert_on_new_device` integer DEFAULT true,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`linked_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`network_id`) REFERENCES `networks`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`last_scan_id`) REFERENCES `network_scans`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_discovered_devices_ip` ON `discovered_devices` (`ip_address`);--> statement-breakpoint
+CREATE INDEX `idx_discovered_devices_mac` ON `discovered_devices` (`mac_address`);--> statement-breakpoint
+CREATE TABLE `locations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`site_id` text NOT NULL,
+	`name` text NOT NULL,
+	`type` text DEFAULT 'other',
+	`description` text,
+	`floor` text,
+	`coordinates` text,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_locations_site` ON `locations` (`site_id`);--> statement-breakpoint
+CREATE TABLE `mac_vendors` (
+	`id` text PRIMARY KEY NOT NULL,
+	`vendor_short` text NOT NULL,
+	`vendor_full` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `network_scans` (
+	`id` text PRIMARY KEY NOT NULL,
+	`scan_type` text NOT NULL,
+	`target_network` text,
+	`target_network_id` text,
+	`source_device_id` text,
+	`source_site_id` text,
+	`status` text DEFAULT 'pending',
+	`progress` integer DEFAULT 0,
+	`devices_found` integer DEFAULT 0,
+	`new_devices_found` integer DEFAULT 0,
+	`started_at` integer,
+	`completed_at` integer,
+	`duration_ms` integer,
+	`error_message` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`target_network_id`) REFERENCES `networks`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`source_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`source_site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `networks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`topology_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`role` text DEFAULT 'local',
+	`scope` text DEFAULT 'site',
+	`trust_zone` text DEFAULT 'unknown',
+	`requires_vpn` integer DEFAULT false,
+	`provider_device_id` text,
+	`provider_vehicle_id` text,
+	`upstream_network_id` text,
+	`upstream_type` text,
+	`cidr` text,
+	`vlan` integer,
+	`platform_network_id` text,
+	`gateway_ip` text,
+	`dns_servers` text,
+	`status` text DEFAULT 'unknown',
+	`max_clients` integer,
+	`current_clients` integer,
+	`bandwidth_mbps` integer,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`topology_id`) REFERENCES `topologies`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`provider_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`provider_vehicle_id`) REFERENCES `vehicles`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_networks_topology` ON `networks` (`topology_id`);--> statement-breakpoint
+CREATE INDEX `idx_networks_platform` ON `networks` (`platform_network_id`);--> statement-breakpoint
+CREATE TABLE `path_hops` (
+	`id` text PRIMARY KEY NOT NULL,
+	`path_id` text NOT NULL,
+	`order` integer NOT NULL,
+	`type` text NOT NULL,
+	`host_device_id` text,
+	`target_address` text NOT NULL,
+	`target_port` integer,
+	`config` text,
+	`status` text DEFAULT 'unknown',
+	`last_checked_at` integer,
+	`last_latency_ms` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`path_id`) REFERENCES `access_paths`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`host_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_path_hops_path` ON `path_hops` (`path_id`);--> statement-breakpoint
+CREATE TABLE `sites` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`role` text DEFAULT 'other',
+	`is_primary` integer DEFAULT false,
+	`address` text,
+	`latitude` real,
+	`longitude` real,
+	`primary_uplink_type` text,
+	`backup_uplink_type` text,
+	`connects_to_site_id` text,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `topologies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`description` text,
+	`platform_config` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `vehicles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`type` text DEFAULT 'other',
+	`registration` text,
+	`current_site_id` text,
+	`last_known_latitude` real,
+	`last_known_longitude` real,
+	`metadata` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`current_site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,19 @@
+CREATE TABLE `sync_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`platform` text NOT NULL,
+	`trigger` text NOT NULL,
+	`status` text NOT NULL,
+	`devices_found` integer DEFAULT 0,
+	`devices_created` integer DEFAULT 0,
+	`devices_updated` integer DEFAULT 0,
+	`networks_found` integer DEFAULT 0,
+	`networks_created` integer DEFAULT 0,
+	`networks_updated` integer DEFAULT 0,
+	`errors` text,
+	`started_at` integer NOT NULL,
+	`completed_at` integer,
+	`duration_ms` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_sync_runs_platform_started` ON `sync_runs` (`platform`,`started_at`);
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE `device_identities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`device_id` text NOT NULL,
+	`platform_type` text NOT NULL,
+	`platform_device_id` text NOT NULL,
+	`name` text,
+	`mac_address` text,
+	`serial_number` text,
+	`hostname` text,
+	`ip_address` text,
+	`status` text,
+	`last_seen` integer,
+	`merge_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_device_identities_platform` ON `device_identities` (`platform_type`,`platform_device_id`);--> statement-breakpoint
+CREATE INDEX `idx_device_identities_device` ON `device_identities` (`device_id`);--> statement-breakpoint
+CREATE TABLE `device_merges` (
+	`id` text PRIMARY KEY NOT NULL,
+	`canonical_device_id` text NOT NULL,
+	`merged_device_ids` text NOT NULL,
+	`confidence` real NOT NULL,
+	`reasons` text,
+	`trigger` text NOT NULL,
+	`status` text DEFAULT 'applied' NOT NULL,
+	`snapshot` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`undone_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `idx_device_merges_canonical` ON `device_merges` (`canonical_device_id`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE `devices` ADD `missing_since` integer;--> statement-breakpoint
+ALTER TABLE `devices` ADD `retired_at` integer;--> statement-breakpoint
+ALTER TABLE `networks` ADD `missing_since` integer;--> statement-breakpoint
+ALTER TABLE `networks` ADD `retired_at` integer;--> statement-breakpoint
+ALTER TABLE `sync_runs` ADD `devices_removed` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `sync_runs` ADD `networks_removed` integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `audit_log` (
+	`id` text PRIMARY KEY NOT NULL,
+	`actor` text NOT NULL,
+	`action` text NOT NULL,
+	`target_type` text NOT NULL,
+	`target_id` text NOT NULL,
+	`reason` text,
+	`before` text,
+	`after` text,
+	`status` text NOT NULL,
+	`error` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_audit_log_target` ON `audit_log` (`target_type`,`target_id`);--> statement-breakpoint
+CREATE INDEX `idx_audit_log_created` ON `audit_log` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE `device_link_metrics` (
+	`id` text PRIMARY KEY NOT NULL,
+	`link_id` text NOT NULL,
+	`status` text,
+	`frequency_mhz` integer,
+	`signal_local_dbm` integer,
+	`signal_remote_dbm` integer,
+	`downlink_capacity_mbps` real,
+	`uplink_capacity_mbps` real,
+	`distance_m` integer,
+	`recorded_at` integer NOT NULL,
+	FOREIGN KEY (`link_id`) REFERENCES `device_links`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_device_link_metrics_link_recorded` ON `device_link_metrics` (`link_id`,`recorded_at`);--> statement-breakpoint
+CREATE TABLE `device_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_device_id` text NOT NULL,
+	`target_device_id` text NOT NULL,
+	`medium` text NOT NULL,
+	`status` text DEFAULT 'unknown',
+	`platform_type` text NOT NULL,
+	`platform_link_id` text NOT NULL,
+	`frequency_mhz` integer,
+	`signal_local_dbm` integer,
+	`signal_remote_dbm` integer,
+	`downlink_capacity_mbps` real,
+	`uplink_capacity_mbps` real,
+	`distance_m` integer,
+	`metadata` text,
+	`last_seen` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`source_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_device_links_platform` ON `device_links` (`platform_type`,`platform_link_id`);--> statement-breakpoint
+CREATE INDEX `idx_device_links_source` ON `device_links` (`source_device_id`);--> statement-breakpoint
+CREATE INDEX `idx_device_links_target` ON `device_links` (`target_device_id`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `assignment_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`priority` integer DEFAULT 100 NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`name_pattern` text,
+	`cidr` text,
+	`platform_type` text,
+	`platform_site_id` text,
+	`mac_oui` text,
+	`tags` text,
+	`site_id` text NOT NULL,
+	`location_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_assignment_rules_priority` ON `assignment_rules` (`priority`);
\ No newline at end of file
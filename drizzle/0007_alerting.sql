@@ -0,0 +1,65 @@
+CREATE TABLE `alert_channels` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`config` text NOT NULL,
+	`last_sent_at` integer,
+	`last_error` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `alert_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`event_type` text NOT NULL,
+	`severity` text DEFAULT 'warning' NOT NULL,
+	`site_id` text,
+	`platform_type` text,
+	`target_id` text,
+	`threshold` integer DEFAULT 1 NOT NULL,
+	`for_ms` integer DEFAULT 0 NOT NULL,
+	`group_by` text DEFAULT 'none' NOT NULL,
+	`channel_ids` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`site_id`) REFERENCES `sites`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_alert_rules_event` ON `alert_rules` (`event_type`);--> statement-breakpoint
+CREATE TABLE `alerts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`rule_id` text NOT NULL,
+	`event_type` text NOT NULL,
+	`severity` text NOT NULL,
+	`status` text NOT NULL,
+	`target_type` text NOT NULL,
+	`target_id` text NOT NULL,
+	`target_name` text,
+	`site_id` text,
+	`platform_type` text,
+	`message` text NOT NULL,
+	`details` text,
+	`dedupe_key` text NOT NULL,
+	`group_key` text NOT NULL,
+	`count` integer DEFAULT 1 NOT NULL,
+	`first_seen_at` integer NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	`fired_at` integer,
+	`notified_at` integer,
+	`resolved_notified_at` integer,
+	`acknowledged_at` integer,
+	`acknowledged_by` text,
+	`resolved_at` integer,
+	`resolved_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`rule_id`) REFERENCES `alert_rules`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_alerts_status` ON `alerts` (`status`);--> statement-breakpoint
+CREATE INDEX `idx_alerts_dedupe` ON `alerts` (`dedupe_key`);--> statement-breakpoint
+CREATE INDEX `idx_alerts_target` ON `alerts` (`target_type`,`target_id`);
\ No newline at end of file
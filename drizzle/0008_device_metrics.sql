@@ -0,0 +1,14 @@
+CREATE TABLE `device_metrics` (
+	`device_id` text NOT NULL,
+	`metric` text NOT NULL,
+	`resolution` integer NOT NULL,
+	`bucket_at` integer NOT NULL,
+	`avg` real NOT NULL,
+	`min` real NOT NULL,
+	`max` real NOT NULL,
+	`count` integer NOT NULL,
+	PRIMARY KEY(`device_id`, `metric`, `resolution`, `bucket_at`),
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_device_metrics_bucket` ON `device_metrics` (`resolution`,`bucket_at`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `device_status_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`device_id` text NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`source` text NOT NULL,
+	`platform_type` text,
+	`changed_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_device_status_events_device` ON `device_status_events` (`device_id`,`changed_at`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `mac_vendors` ADD `prefix_bits` integer DEFAULT 24 NOT NULL;--> statement-breakpoint
+ALTER TABLE `mac_vendors` ADD `registry` text DEFAULT 'MA-L' NOT NULL;--> statement-breakpoint
+ALTER TABLE `mac_vendors` ADD `address` text;
\ No newline at end of file
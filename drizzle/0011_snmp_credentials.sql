@@ -0,0 +1,24 @@
+CREATE TABLE `snmp_credentials` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`network_id` text,
+	`priority` integer DEFAULT 100 NOT NULL,
+	`version` text NOT NULL,
+	`community` text,
+	`username` text,
+	`security_level` text,
+	`auth_protocol` text,
+	`auth_password` text,
+	`priv_protocol` text,
+	`priv_password` text,
+	`port` integer DEFAULT 161 NOT NULL,
+	`timeout_ms` integer DEFAULT 2000 NOT NULL,
+	`retries` integer DEFAULT 1 NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`last_used_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`network_id`) REFERENCES `networks`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_snmp_credentials_network` ON `snmp_credentials` (`network_id`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `discovered_devices` ADD `manufacturer` text;--> statement-breakpoint
+ALTER TABLE `discovered_devices` ADD `product` text;--> statement-breakpoint
+ALTER TABLE `discovered_devices` ADD `fingerprint_confidence` integer;
\ No newline at end of file
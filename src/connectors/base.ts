@@ -2,6 +2,13 @@
  * Base connector interface for all platform integrations
  */
 
+import {
+    db, devices, networks, deviceIdentities, deviceNetworkLinks, deviceLinks, deviceLinkMetrics, pathHops, chainLinks, networkScans, discoveredDevices,
+    generateId, type Device,
+} from '../db/index.js';
+import { and, eq, isNotNull, lt } from 'drizzle-orm';
+import { isIpInCidr, isValidIpv4 } from '../utils/helpers.js';
+
 export interface PlatformDevice {
     platformId: string;
     name: string;
@@ -27,12 +34,50 @@ export interface PlatformMember {
     deviceId?: string;
     networkId: string;
     ipAddress?: string;
+    /** All addresses on the network when there can be more than one */
+    ipAddresses?: string[];
     macAddress?: string;
     authorized: boolean;
     online: boolean;
     metadata: Record<string, unknown>;
 }
 
+/**
+ * A physical link between two platform devices, e.g. a wireless backhaul
+ */
+export interface PlatformLink {
+    platformId: string;
+    /** Platform device IDs of both ends; from is the AP / upstream side */
+    fromDeviceId: string;
+    toDeviceId: string;
+    medium: 'wireless' | 'wired' | 'fiber' | 'other';
+    status: 'up' | 'degraded' | 'down' | 'unknown';
+    frequencyMhz?: number;
+    signalLocalDbm?: number;
+    signalRemoteDbm?: number;
+    downlinkCapacityMbps?: number;
+    uplinkCapacityMbps?: number;
+    distanceM?: number;
+    metadata: Record<string, unknown>;
+}
+
+/** How long RF samples of device links are kept */
+const LINK_METRICS_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Operations a platform can run on a device, see BaseConnector.getDeviceActions
+ */
+export type DeviceActionName = 'restart' | 'provision' | 'block' | 'unblock';
+
+/**
+ * A local device as a platform sees it
+ */
+export interface DeviceActionTarget {
+    /** The device's ID on this platform, null when the platform doesn't manage it */
+    platformDeviceId: string | null;
+    macAddress: string | null;
+}
+
 export interface SyncResult {
     success: boolean;
     devicesFound: number;
@@ -41,7 +86,99 @@ export interface SyncResult {
     networksFound: number;
     networksCreated: number;
     networksUpdated: number;
+    /** Rows retired or purged because the platform no longer reports them */
+    devicesRemoved: number;
+    networksRemoved: number;
     errors: string[];
+    /** Only present for dry runs */
+    diff?: SyncDiff;
+}
+
+/**
+ * Options controlling what a sync writes
+ */
+export interface SyncOptions {
+    /** Compute the diff against the local database without writing anything */
+    dryRun?: boolean;
+    /** Only write these platform device IDs (all devices when omitted) */
+    deviceIds?: string[];
+    /** Only write these platform network IDs (all networks when omitted) */
+    networkIds?: string[];
+    /** Write networks at all (default true) */
+    includeNetworks?: boolean;
+    /** Update rows that already exist locally (default true) */
+    updateExisting?: boolean;
+    /** How rows missing from the platform are retired and purged */
+    reconcile?: ReconcilePolicy;
+    /** State captured elsewhere to sync instead of reading the platform (WireGuard dump text) */
+    dump?: string;
+    /** Host the dump was captured on */
+    host?: string;
+}
+
+/**
+ * What happens to local rows the platform no longer reports
+ */
+export interface ReconcilePolicy {
+    /** How long a row may be missing before it is marked retired */
+    graceMs: number;
+    /** How long a retired row is kept before it is deleted (null = keep forever) */
+    purgeAfterMs: number | null;
+}
+
+export const DEFAULT_RECONCILE_POLICY: ReconcilePolicy = {
+    graceMs: 24 * 60 * 60 * 1000,
+    purgeAfterMs: null,
+};
+
+export interface FieldChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+export interface SyncDiffItem {
+    platformId: string;
+    name: string;
+    type?: string;
+    action: 'create' | 'update' | 'unchanged' | 'stale';
+    localId?: string;
+    changes: FieldChange[];
+}
+
+export interface SyncDiff {
+    devices: SyncDiffItem[];
+    networks: SyncDiffItem[];
+}
+
+// Fields that change on every sync and would drown out real changes in a diff
+const VOLATILE_FIELDS = new Set(['metadata', 'lastSeen', 'updatedAt', 'createdAt']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+    if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+    if (typeof a === 'object' || typeof b === 'object') {
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return a === b;
+}
+
+/**
+ * Identity attributes of a platform device, as stored in device_identities
+ */
+function identityValues(dev: PlatformDevice) {
+    const meta = dev.metadata || {};
+    return {
+        name: dev.name,
+        macAddress: dev.macAddress || null,
+        serialNumber: (meta.serialNumber as string) || (meta.serial as string) || null,
+        hostname: (meta.hostname as string) || null,
+        ipAddress: dev.ipAddress || null,
+        status: dev.status,
+        lastSeen: dev.lastSeen || null,
+    };
 }
 
 /**
@@ -49,7 +186,7 @@ export interface SyncResult {
  */
 export abstract class BaseConnector {
     protected name: string;
-    protected type: 'zerotier' | 'unifi' | 'uisp' | 'protect' | 'starlink' | 'tailscale' | 'cloudflare' | 'other';
+    protected type: 'zerotier' | 'unifi' | 'uisp' | 'protect' | 'starlink' | 'tailscale' | 'wireguard' | 'cloudflare' | 'other';
 
     constructor(name: string, type: BaseConnector['type']) {
         this.name = name;
@@ -79,7 +216,22 @@ export abstract class BaseConnector {
     /**
      * Sync platform data to local database
      */
-    abstract sync(): Promise<SyncResult>;
+    abstract sync(options?: SyncOptions): Promise<SyncResult>;
+
+    /**
+     * Actions this platform can run on a device. Platforms without any
+     * device control return none.
+     */
+    getDeviceActions(_target: DeviceActionTarget): DeviceActionName[] {
+        return [];
+    }
+
+    /**
+     * Run an action returned by getDeviceActions
+     */
+    async runDeviceAction(action: DeviceActionName, _target: DeviceActionTarget): Promise<void> {
+        throw new Error(`${this.name} does not support ${action}`);
+    }
 
     /**
      * Get connector name
@@ -94,6 +246,490 @@ export abstract class BaseConnector {
     getType(): BaseConnector['type'] {
         return this.type;
     }
+
+    /**
+     * Create an empty sync result, with a diff when this is a dry run
+     */
+    protected createSyncResult(options: SyncOptions): SyncResult {
+        return {
+            success: true,
+            devicesFound: 0,
+            devicesCreated: 0,
+            devicesUpdated: 0,
+            networksFound: 0,
+            networksCreated: 0,
+            networksUpdated: 0,
+            devicesRemoved: 0,
+            networksRemoved: 0,
+            errors: [],
+            diff: options.dryRun ? { devices: [], networks: [] } : undefined,
+        };
+    }
+
+    /**
+     * Record a platform item in the dry-run diff and decide whether to write it.
+     * `values` are the columns the sync would write for an existing row.
+     */
+    protected planWrite(
+        result: SyncResult,
+        options: SyncOptions,
+        kind: 'device' | 'network',
+        item: { platformId: string; name: string; type?: string },
+        existing: { id: string } | undefined,
+        values: Record<string, unknown>
+    ): boolean {
+        if (result.diff) {
+            const changes: FieldChange[] = [];
+            if (existing) {
+                const current = existing as Record<string, unknown>;
+                for (const [field, value] of Object.entries(values)) {
+                    if (VOLATILE_FIELDS.has(field)) continue;
+                    if (!sameValue(current[field], value)) {
+                        changes.push({ field, from: current[field] ?? null, to: value ?? null });
+                    }
+                }
+            }
+
+            result.diff[kind === 'device' ? 'devices' : 'networks'].push({
+                platformId: item.platformId,
+                name: item.name,
+                type: item.type,
+                action: !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged',
+                localId: existing?.id,
+                changes,
+            });
+        }
+
+        if (options.dryRun) return false;
+
+        const selection = kind === 'device' ? options.deviceIds : options.networkIds;
+        if (selection && !selection.includes(item.platformId)) return false;
+        if (kind === 'network' && options.includeNetworks === false) return false;
+        if (existing && options.updateExisting === false) return false;
+
+        return true;
+    }
+
+    /**
+     * Handle a platform device that a merge attached to another platform's device.
+     * Its data only updates its identity row, so platforms don't overwrite each
+     * other's fields on the canonical device. Returns false for unmerged devices.
+     */
+    protected async syncMergedIdentity(result: SyncResult, options: SyncOptions, dev: PlatformDevice): Promise<boolean> {
+        const [identity] = await db.select().from(deviceIdentities)
+            .where(and(
+                eq(deviceIdentities.platformType, this.type),
+                eq(deviceIdentities.platformDeviceId, dev.platformId)
+            ));
+        if (!identity) return false;
+
+        const [device] = await db.select().from(devices).where(eq(devices.id, identity.deviceId));
+        if (!device || (device.platformType === this.type && device.platformDeviceId === dev.platformId)) {
+            return false;
+        }
+
+        const values = identityValues(dev);
+        const item = { platformId: dev.platformId, name: dev.name, type: dev.type };
+        if (this.planWrite(result, options, 'device', item, { ...identity, id: device.id }, values)) {
+            await db.update(deviceIdentities)
+                .set({ ...values, updatedAt: new Date() })
+                .where(eq(deviceIdentities.id, identity.id));
+            result.devicesUpdated++;
+        }
+        return true;
+    }
+
+    /**
+     * Record the platform identity of a device after it was written
+     */
+    protected async recordIdentity(deviceId: string, dev: PlatformDevice): Promise<void> {
+        const values = identityValues(dev);
+        const now = new Date();
+
+        await db.insert(deviceIdentities).values({
+            id: generateId(),
+            deviceId,
+            platformType: this.type,
+            platformDeviceId: dev.platformId,
+            ...values,
+            createdAt: now,
+            updatedAt: now,
+        }).onConflictDoUpdate({
+            target: [deviceIdentities.platformType, deviceIdentities.platformDeviceId],
+            set: { ...values, updatedAt: now },
+        });
+    }
+
+    /**
+     * Find the local device for a platform device ID, following merges
+     */
+    protected async findLocalDevice(platformDeviceId: string): Promise<Device | undefined> {
+        const [identity] = await db.select().from(deviceIdentities)
+            .where(and(
+                eq(deviceIdentities.platformType, this.type),
+                eq(deviceIdentities.platformDeviceId, platformDeviceId)
+            ));
+        const [device] = identity
+            ? await db.select().from(devices).where(eq(devices.id, identity.deviceId))
+            : await db.select().from(devices).where(and(
+                eq(devices.platformType, this.type as NonNullable<Device['platformType']>),
+                eq(devices.platformDeviceId, platformDeviceId)
+            ));
+        return device;
+    }
+
+    /**
+     * Upsert device_network_links for the members of one network of the
+     * connector's topology. Each address of a member becomes its own link;
+     * members without an address are skipped, and platform links whose address
+     * is gone are removed. Links added by hand (no platformMemberId) are never touched.
+     */
+    protected async syncMemberLinks(
+        result: SyncResult,
+        options: SyncOptions,
+        topologyId: string | null,
+        networkPlatformId: string,
+        members: PlatformMember[]
+    ): Promise<void> {
+        if (options.dryRun || options.includeNetworks === false || !topologyId) return;
+        if (options.networkIds && !options.networkIds.includes(networkPlatformId)) return;
+
+        const [network] = await db.select().from(networks)
+            .where(and(
+                eq(networks.topologyId, topologyId),
+                eq(networks.platformNetworkId, networkPlatformId)
+            ));
+        if (!network) return;
+
+        for (const member of members) {
+            if (options.deviceIds && !options.deviceIds.includes(member.platformId)) continue;
+
+            try {
+                const device = await this.findLocalDevice(member.platformId);
+                if (!device) continue;
+
+                // UISP reports addresses with their prefix, e.g. 10.0.0.5/24
+                const addresses = [...new Set(
+                    (member.ipAddresses?.length ? member.ipAddresses : [member.ipAddress])
+                        .map(ip => ip?.split('/')[0])
+                        .filter((ip): ip is string => !!ip)
+                        .filter(ip => !network.cidr || !isValidIpv4(ip) || isIpInCidr(ip, network.cidr))
+                )];
+                // A member without an address still belongs to the network (e.g. a subnet router)
+                const targets: (string | null)[] = addresses.length > 0 ? addresses : [null];
+
+                const existing = await db.select().from(deviceNetworkLinks)
+                    .where(and(
+                        eq(deviceNetworkLinks.deviceId, device.id),
+                        eq(deviceNetworkLinks.networkId, network.id),
+                        isNotNull(deviceNetworkLinks.platformMemberId)
+                    ));
+
+                const status = member.authorized && member.online ? 'active' : 'inactive';
+                const now = new Date();
+
+                for (const ipAddress of targets) {
+                    const values = {
+                        ipAddress,
+                        macAddress: member.macAddress || null,
+                        platformMemberId: member.platformId,
+                        status: status as 'active' | 'inactive',
+                        isManagementInterface: ipAddress !== null && ipAddress === device.primaryIp?.split('/')[0],
+                        updatedAt: now,
+                    };
+
+                    const link = ipAddress !== null
+                        ? existing.find(l => l.ipAddress === ipAddress)
+                        : existing.find(l => l.ipAddress === null && l.platformMemberId === member.platformId);
+                    if (link) {
+                        await db.update(deviceNetworkLinks).set(values).where(eq(deviceNetworkLinks.id, link.id));
+                    } else {
+                        await db.insert(deviceNetworkLinks).values({
+                            id: generateId(),
+                            deviceId: device.id,
+                            networkId: network.id,
+                            ...values,
+                            createdAt: now,
+                        });
+                    }
+                }
+
+                for (const link of existing) {
+                    if (!targets.includes(link.ipAddress)) {
+                        await db.delete(deviceNetworkLinks).where(eq(deviceNetworkLinks.id, link.id));
+                    }
+                }
+            } catch (error) {
+                result.errors.push(`Links for ${member.platformId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+    }
+
+    /**
+     * Derive network members from device addresses, for platforms that only
+     * report which devices exist and which subnets a network covers
+     */
+    protected membersByCidr(devs: PlatformDevice[], nets: PlatformNetwork[]): Map<string, PlatformMember[]> {
+        const members = new Map<string, PlatformMember[]>();
+        for (const net of nets) {
+            if (!net.cidr) continue;
+            members.set(net.platformId, devs
+                .filter(dev => dev.ipAddress && isIpInCidr(dev.ipAddress, net.cidr!))
+                .map(dev => ({
+                    platformId: dev.platformId,
+                    name: dev.name,
+                    networkId: net.platformId,
+                    ipAddress: dev.ipAddress,
+                    macAddress: dev.macAddress,
+                    authorized: true,
+                    online: dev.status === 'online',
+                    metadata: {},
+                })));
+        }
+        return members;
+    }
+
+    /**
+     * Upsert device-to-device links and record a metrics sample for each.
+     * Links whose ends aren't both local devices are skipped. On a full sync,
+     * this platform's links that are no longer reported are deleted.
+     */
+    protected async syncDeviceLinks(result: SyncResult, options: SyncOptions, links: PlatformLink[]): Promise<void> {
+        if (options.dryRun) return;
+
+        const now = new Date();
+        const seen = new Set<string>();
+
+        for (const link of links) {
+            seen.add(link.platformId);
+            if (options.deviceIds && !options.deviceIds.includes(link.fromDeviceId) && !options.deviceIds.includes(link.toDeviceId)) continue;
+
+            try {
+                const source = await this.findLocalDevice(link.fromDeviceId);
+                const target = await this.findLocalDevice(link.toDeviceId);
+                if (!source || !target) continue;
+
+                const metrics = {
+                    status: link.status,
+                    frequencyMhz: link.frequencyMhz ?? null,
+                    signalLocalDbm: link.signalLocalDbm ?? null,
+                    signalRemoteDbm: link.signalRemoteDbm ?? null,
+                    downlinkCapacityMbps: link.downlinkCapacityMbps ?? null,
+                    uplinkCapacityMbps: link.uplinkCapacityMbps ?? null,
+                    distanceM: link.distanceM ?? null,
+                };
+
+                const [existing] = await db.select().from(deviceLinks)
+                    .where(and(eq(deviceLinks.platformType, this.type), eq(deviceLinks.platformLinkId, link.platformId)));
+
+                const linkId = existing?.id || generateId();
+                const values = {
+                    sourceDeviceId: source.id,
+                    targetDeviceId: target.id,
+                    medium: link.medium,
+                    ...metrics,
+                    metadata: link.metadata,
+                    lastSeen: link.status === 'up' || link.status === 'degraded' ? now : existing?.lastSeen ?? null,
+                    updatedAt: now,
+                };
+
+                if (existing) {
+                    await db.update(deviceLinks).set(values).where(eq(deviceLinks.id, linkId));
+                } else {
+                    await db.insert(deviceLinks).values({
+                        id: linkId,
+                        platformType: this.type,
+                        platformLinkId: link.platformId,
+                        ...values,
+                        createdAt: now,
+                    });
+                }
+
+                await db.insert(deviceLinkMetrics).values({ id: generateId(), linkId, ...metrics, recordedAt: now });
+            } catch (error) {
+                result.errors.push(`Link ${link.platformId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        if (!options.deviceIds) {
+            const local = await db.select({ id: deviceLinks.id, platformLinkId: deviceLinks.platformLinkId })
+                .from(deviceLinks).where(eq(deviceLinks.platformType, this.type));
+            for (const row of local) {
+                if (!seen.has(row.platformLinkId)) {
+                    await db.delete(deviceLinks).where(eq(deviceLinks.id, row.id));
+                }
+            }
+        }
+
+        await db.delete(deviceLinkMetrics)
+            .where(lt(deviceLinkMetrics.recordedAt, new Date(now.getTime() - LINK_METRICS_RETENTION_MS)));
+    }
+
+    /**
+     * Reconcile local rows against a complete platform snapshot. Devices and
+     * networks missing from it are marked, retired once the grace period has
+     * passed, and purged when the policy allows. Rows that reappear are restored
+     * by the normal update path. A dry run only adds the missing rows to the diff.
+     *
+     * When the snapshot covers only part of the platform's rows (e.g. one host
+     * of several), `inScope` picks the rows it covers; the others are left alone.
+     */
+    protected async reconcile(
+        result: SyncResult,
+        options: SyncOptions,
+        topologyId: string | null,
+        seenDeviceIds: Set<string>,
+        seenNetworkIds: Set<string>,
+        inScope: (row: { metadata: Record<string, unknown> | null }) => boolean = () => true
+    ): Promise<void> {
+        // A partial sync says nothing about what is missing
+        if (options.deviceIds || options.networkIds || options.updateExisting === false) return;
+
+        const policy = options.reconcile ?? DEFAULT_RECONCILE_POLICY;
+        const now = new Date();
+
+        const localDevices = await db.select().from(devices)
+            .where(eq(devices.platformType, this.type as NonNullable<Device['platformType']>));
+
+        for (const dev of localDevices) {
+            if (!dev.platformDeviceId || !inScope(dev)) continue;
+
+            try {
+                if (seenDeviceIds.has(dev.platformDeviceId)) {
+                    if ((dev.missingSince || dev.retiredAt) && !options.dryRun) {
+                        await db.update(devices).set({ missingSince: null, retiredAt: null })
+                            .where(eq(devices.id, dev.id));
+                    }
+                    continue;
+                }
+
+                // A merged device still reported by another platform is not gone
+                const identities = await db.select().from(deviceIdentities)
+                    .where(eq(deviceIdentities.deviceId, dev.id));
+                if (identities.some(i => i.platformType !== this.type)) continue;
+
+                if (result.diff) {
+                    // Already retired rows are not news
+                    if (!dev.retiredAt) {
+                        result.diff.devices.push({
+                            platformId: dev.platformDeviceId,
+                            name: dev.name,
+                            type: dev.type,
+                            action: 'stale',
+                            localId: dev.id,
+                            changes: [],
+                        });
+                    }
+                    continue;
+                }
+
+                const action = this.reconcileAction(dev, policy, now);
+                if (action === 'purge') {
+                    await this.purgeDevice(dev.id);
+                    result.devicesRemoved++;
+                } else if (action === 'retire') {
+                    await db.update(devices)
+                        .set({ status: 'retired', missingSince: dev.missingSince ?? now, retiredAt: now, updatedAt: now })
+                        .where(eq(devices.id, dev.id));
+                    result.devicesRemoved++;
+                } else if (action === 'mark') {
+                    await db.update(devices).set({ missingSince: now }).where(eq(devices.id, dev.id));
+                }
+            } catch (error) {
+                result.errors.push(`Reconcile device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        if (!topologyId || options.includeNetworks === false) return;
+
+        const localNetworks = await db.select().from(networks)
+            .where(eq(networks.topologyId, topologyId));
+
+        for (const net of localNetworks) {
+            if (!net.platformNetworkId || !inScope(net)) continue;
+
+            try {
+                if (seenNetworkIds.has(net.platformNetworkId)) {
+                    if ((net.missingSince || net.retiredAt) && !options.dryRun) {
+                        await db.update(networks).set({ missingSince: null, retiredAt: null })
+                            .where(eq(networks.id, net.id));
+                    }
+                    continue;
+                }
+
+                if (result.diff) {
+                    // Already retired rows are not news
+                    if (!net.retiredAt) {
+                        result.diff.networks.push({
+                            platformId: net.platformNetworkId,
+                            name: net.name,
+                            action: 'stale',
+                            localId: net.id,
+                            changes: [],
+                        });
+                    }
+                    continue;
+                }
+
+                const action = this.reconcileAction(net, policy, now);
+                if (action === 'purge') {
+                    await this.purgeNetwork(net.id);
+                    result.networksRemoved++;
+                } else if (action === 'retire') {
+                    await db.update(networks)
+                        .set({ status: 'retired', missingSince: net.missingSince ?? now, retiredAt: now, updatedAt: now })
+                        .where(eq(networks.id, net.id));
+                    result.networksRemoved++;
+                } else if (action === 'mark') {
+                    await db.update(networks).set({ missingSince: now }).where(eq(networks.id, net.id));
+                }
+            } catch (error) {
+                result.errors.push(`Reconcile network ${net.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+    }
+
+    /**
+     * Decide what happens to a row missing from the snapshot
+     */
+    private reconcileAction(
+        row: { missingSince: Date | null; retiredAt: Date | null },
+        policy: ReconcilePolicy,
+        now: Date
+    ): 'mark' | 'retire' | 'purge' | 'none' {
+        if (row.retiredAt) {
+            const purgeDue = policy.purgeAfterMs !== null &&
+                now.getTime() - row.retiredAt.getTime() >= policy.purgeAfterMs;
+            return purgeDue ? 'purge' : 'none';
+        }
+
+        const missingSince = row.missingSince ?? now;
+        if (now.getTime() - missingSince.getTime() >= policy.graceMs) return 'retire';
+        return row.missingSince ? 'none' : 'mark';
+    }
+
+    /**
+     * Delete a retired device, detaching rows that only refer to it
+     */
+    private async purgeDevice(id: string): Promise<void> {
+        await db.update(networks).set({ providerDeviceId: null }).where(eq(networks.providerDeviceId, id));
+        await db.update(pathHops).set({ hostDeviceId: null }).where(eq(pathHops.hostDeviceId, id));
+        await db.update(chainLinks).set({ deviceId: null }).where(eq(chainLinks.deviceId, id));
+        await db.update(networkScans).set({ sourceDeviceId: null }).where(eq(networkScans.sourceDeviceId, id));
+        await db.update(discoveredDevices).set({ linkedDeviceId: null }).where(eq(discoveredDevices.linkedDeviceId, id));
+        await db.delete(devices).where(eq(devices.id, id));
+    }
+
+    /**
+     * Delete a retired network, detaching rows that only refer to it
+     */
+    private async purgeNetwork(id: string): Promise<void> {
+        await db.update(networks).set({ upstreamNetworkId: null }).where(eq(networks.upstreamNetworkId, id));
+        await db.update(chainLinks).set({ networkId: null }).where(eq(chainLinks.networkId, id));
+        await db.update(networkScans).set({ targetNetworkId: null }).where(eq(networkScans.targetNetworkId, id));
+        await db.update(discoveredDevices).set({ networkId: null }).where(eq(discoveredDevices.networkId, id));
+        await db.delete(networks).where(eq(networks.id, id));
+    }
 }
 
 /**
@@ -140,4 +776,25 @@ export interface ConnectorConfig {
     starlink?: {
         ip: string;
     };
+    tailscale?: {
+        apiKey: string;
+        /** Tailnet name, or "-" for the key's own tailnet */
+        tailnet?: string;
+        apiUrl?: string;
+        /** Flag node keys expiring within this many days (default 14) */
+        keyExpiryWarningDays?: number;
+    };
+    wireguard?: {
+        /** Command that prints `wg show all dump` output */
+        command?: string;
+        /** Read a saved dump instead of running a command */
+        dumpFile?: string;
+        /** Host name the dump belongs to (default: this machine) */
+        host?: string;
+        staleHandshakeSeconds?: number;
+    };
+    cloudflare?: {
+        apiToken: string;
+        accountId: string;
+    };
 }
@@ -0,0 +1,530 @@
+/**
+ * Cloudflare Tunnel Connector
+ *
+ * Integrates with the Cloudflare API for Cloudflare Tunnels (cloudflared)
+ * API Docs: https://developers.cloudflare.com/api/resources/zero_trust/subresources/tunnels/
+ *
+ * Each tunnel becomes a network. Ingress rules whose service points at a
+ * known device (by IP or hostname) become two-hop access paths: the public
+ * hostname through the tunnel, then the tunnel's host to the origin device.
+ * Loopback origins are the host running cloudflared, found by the origin IPs
+ * of the tunnel's connections.
+ */
+
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions } from './base.js';
+import { db, generateId, topologies, networks, devices, deviceNetworkLinks, accessPaths, pathHops, type Device, type PathHop } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+
+interface CloudflareResponse<T> {
+    success: boolean;
+    errors: Array<{ code: number; message: string }>;
+    result: T;
+    result_info?: {
+        page: number;
+        total_pages: number;
+    };
+}
+
+interface CloudflareTunnel {
+    id: string;
+    name: string;
+    status: 'inactive' | 'degraded' | 'healthy' | 'down';
+    created_at: string;
+    conns_active_at?: string | null;
+    conns_inactive_at?: string | null;
+    tun_type?: string;
+    remote_config?: boolean;
+    connections: Array<{
+        id: string;
+        colo_name: string;
+        client_id: string;
+        client_version: string;
+        origin_ip: string;
+        opened_at: string;
+        is_pending_reconnect: boolean;
+    }>;
+}
+
+interface CloudflareIngressRule {
+    hostname?: string;
+    service: string;
+    path?: string;
+}
+
+interface CloudflareTunnelConfig {
+    tunnel_id: string;
+    config: {
+        ingress?: CloudflareIngressRule[];
+    } | null;
+}
+
+export interface TunnelIngress {
+    hostname: string;
+    path?: string;
+    service: string;
+    protocol: string;
+    originAddress: string;
+    originPort: number | null;
+}
+
+/** Active devices by address and by name, loaded once per sync */
+interface DeviceIndex {
+    byIp: Map<string, Device>;
+    byName: Map<string, Device>;
+}
+
+const DEFAULT_SERVICE_PORTS: Record<string, number> = {
+    http: 80,
+    https: 443,
+    ssh: 22,
+    rdp: 3389,
+    smb: 445,
+};
+
+/**
+ * Parse an ingress service such as "http://192.168.1.10:8080". Returns null for
+ * services that do not target a network origin (http_status:404, hello_world,
+ * unix sockets, bastion mode).
+ */
+export function parseIngressService(service: string): { protocol: string; address: string; port: number | null } | null {
+    let url: URL;
+    try {
+        url = new URL(service);
+    } catch {
+        return null;
+    }
+
+    const protocol = url.protocol.replace(/:$/, '');
+    if (!url.hostname || protocol === 'unix' || protocol === 'http_status') return null;
+
+    return {
+        protocol,
+        address: url.hostname.replace(/^\[|\]$/g, ''),
+        port: url.port ? parseInt(url.port, 10) : DEFAULT_SERVICE_PORTS[protocol] ?? null,
+    };
+}
+
+function isLoopback(address: string): boolean {
+    return address.toLowerCase() === 'localhost' || address === '::1' || address.startsWith('127.');
+}
+
+/**
+ * Hop type for the last leg from the tunnel host to the origin service
+ */
+function originHopType(protocol: string): PathHop['type'] {
+    if (protocol === 'http' || protocol === 'https') return 'http_proxy';
+    if (protocol === 'ssh') return 'ssh_tunnel';
+    if (protocol === 'rdp') return 'rdp';
+    return 'direct';
+}
+
+export class CloudflareConnector extends BaseConnector {
+    private apiToken: string;
+    private accountId: string;
+    private apiUrl: string;
+    private topologyId: string | null = null;
+
+    constructor(apiToken: string, accountId: string, apiUrl = 'https://api.cloudflare.com/client/v4') {
+        super('Cloudflare Tunnel', 'cloudflare');
+        this.apiToken = apiToken;
+        this.accountId = accountId;
+        this.apiUrl = apiUrl.replace(/\/$/, '');
+    }
+
+    private async fetch<T>(endpoint: string, options?: RequestInit): Promise<CloudflareResponse<T>> {
+        const response = await fetch(`${this.apiUrl}${endpoint}`, {
+            ...options,
+            headers: {
+                'Authorization': `Bearer ${this.apiToken}`,
+                'Content-Type': 'application/json',
+                ...options?.headers,
+            },
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Cloudflare API error: ${response.status} - ${error}`);
+        }
+
+        const data = await response.json() as CloudflareResponse<T>;
+        if (!data.success) {
+            throw new Error(`Cloudflare API error: ${data.errors.map(e => e.message).join(', ')}`);
+        }
+        return data;
+    }
+
+    async testConnection(): Promise<{ success: boolean; message: string }> {
+        try {
+            const tunnels = await this.getTunnels();
+            return {
+                success: true,
+                message: `Connected to Cloudflare. Found ${tunnels.length} tunnel(s).`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: error instanceof Error ? error.message : 'Connection failed',
+            };
+        }
+    }
+
+    /**
+     * Get all tunnels that have not been deleted
+     */
+    async getTunnels(): Promise<CloudflareTunnel[]> {
+        const tunnels: CloudflareTunnel[] = [];
+        for (let page = 1; ; page++) {
+            const data = await this.fetch<CloudflareTunnel[]>(
+                `/accounts/${this.accountId}/cfd_tunnel?is_deleted=false&per_page=100&page=${page}`
+            );
+            tunnels.push(...data.result);
+            if (!data.result_info || page >= data.result_info.total_pages) break;
+        }
+        return tunnels;
+    }
+
+    /**
+     * Get the ingress rules of a remotely managed tunnel. Locally managed
+     * tunnels (config.yml on the host) have no configuration in the API.
+     */
+    async getIngress(tunnelId: string): Promise<TunnelIngress[]> {
+        const data = await this.fetch<CloudflareTunnelConfig>(
+            `/accounts/${this.accountId}/cfd_tunnel/${tunnelId}/configurations`
+        );
+
+        const ingress: TunnelIngress[] = [];
+        for (const rule of data.result.config?.ingress || []) {
+            // The catch-all rule has no hostname
+            if (!rule.hostname) continue;
+            const origin = parseIngressService(rule.service);
+            if (!origin) continue;
+            ingress.push({
+                hostname: rule.hostname,
+                path: rule.path,
+                service: rule.service,
+                protocol: origin.protocol,
+                originAddress: origin.address,
+                originPort: origin.port,
+            });
+        }
+        return ingress;
+    }
+
+    async getNetworks(): Promise<PlatformNetwork[]> {
+        const tunnels = await this.getTunnels();
+        const result: PlatformNetwork[] = [];
+        for (const tunnel of tunnels) {
+            result.push(this.toNetwork(tunnel, tunnel.remote_config ? await this.getIngress(tunnel.id) : []));
+        }
+        return result;
+    }
+
+    async getDevices(): Promise<PlatformDevice[]> {
+        // Tunnels point at devices owned by other platforms; they add none of their own
+        return [];
+    }
+
+    async getNetworkMembers(_networkId: string): Promise<PlatformMember[]> {
+        return [];
+    }
+
+    private toNetwork(tunnel: CloudflareTunnel, ingress: TunnelIngress[]): PlatformNetwork {
+        return {
+            platformId: `cloudflare-tunnel:${tunnel.id}`,
+            name: tunnel.name,
+            status: tunnel.status === 'healthy' || tunnel.status === 'degraded' ? 'active' : 'inactive',
+            metadata: {
+                tunnelId: tunnel.id,
+                health: tunnel.status,
+                remoteConfig: !!tunnel.remote_config,
+                connectionsActiveAt: tunnel.conns_active_at ?? null,
+                connectors: [...new Set(tunnel.connections.map(c => c.client_id))].map(clientId => {
+                    const conns = tunnel.connections.filter(c => c.client_id === clientId);
+                    return {
+                        clientId,
+                        version: conns[0].client_version,
+                        originIp: conns[0].origin_ip,
+                        colos: conns.map(c => c.colo_name),
+                        pendingReconnect: conns.some(c => c.is_pending_reconnect),
+                    };
+                }),
+                ingress: ingress.map(i => ({ hostname: i.hostname, path: i.path, service: i.service })),
+            },
+        };
+    }
+
+    /**
+     * Index the active devices by address (primary IPs before link addresses)
+     * and by hostname or name
+     */
+    private async loadDeviceIndex(): Promise<DeviceIndex> {
+        const active = (await db.select().from(devices)).filter(d => d.status !== 'retired');
+        const byId = new Map(active.map(d => [d.id, d]));
+
+        const byIp = new Map<string, Device>();
+        for (const device of active) {
+            const ip = device.primaryIp?.split('/')[0];
+            if (ip && !byIp.has(ip)) byIp.set(ip, device);
+        }
+        for (const link of await db.select().from(deviceNetworkLinks)) {
+            const device = byId.get(link.deviceId);
+            if (device && link.ipAddress && !byIp.has(link.ipAddress)) byIp.set(link.ipAddress, device);
+        }
+
+        const byName = new Map<string, Device>();
+        for (const device of active) {
+            for (const name of [device.hostname, device.name]) {
+                if (name && !byName.has(name.toLowerCase())) byName.set(name.toLowerCase(), device);
+            }
+        }
+
+        return { byIp, byName };
+    }
+
+    /**
+     * The device running cloudflared for a tunnel, by the origin IPs of its connections
+     */
+    private findTunnelHost(tunnel: CloudflareTunnel, index: DeviceIndex): Device | undefined {
+        for (const connection of tunnel.connections) {
+            const device = index.byIp.get(connection.origin_ip);
+            if (device) return device;
+        }
+        return undefined;
+    }
+
+    /**
+     * Find the device an ingress origin points at: the tunnel host for
+     * loopback origins, otherwise by IP or hostname
+     */
+    private findOriginDevice(address: string, index: DeviceIndex, tunnelHost: Device | undefined): Device | undefined {
+        if (isLoopback(address)) return tunnelHost;
+        return index.byIp.get(address) ?? index.byName.get(address.toLowerCase());
+    }
+
+    /**
+     * Create, update or remove the access paths generated from a tunnel's
+     * ingress rules. Paths created by hand are left alone.
+     */
+    private async syncAccessPaths(
+        result: SyncResult,
+        tunnel: CloudflareTunnel,
+        ingress: TunnelIngress[],
+        index: DeviceIndex
+    ): Promise<void> {
+        const generated = (await db.select().from(pathHops).where(eq(pathHops.type, 'cloudflare_tunnel')))
+            .filter(hop => hop.config?.generatedBy === 'cloudflare' && hop.config?.tunnelId === tunnel.id);
+        const keep = new Set<string>();
+        const tunnelHost = this.findTunnelHost(tunnel, index);
+
+        for (const rule of ingress) {
+            try {
+                const device = this.findOriginDevice(rule.originAddress, index, tunnelHost);
+                if (!device) continue;
+
+                const publicUrl = `${rule.hostname}${rule.path || ''}`;
+                const config = {
+                    generatedBy: 'cloudflare',
+                    tunnelId: tunnel.id,
+                    tunnelName: tunnel.name,
+                    service: rule.service,
+                    originAddress: rule.originAddress,
+                    originPort: rule.originPort,
+                    proxyPath: rule.path,
+                };
+                // A loopback origin is only reachable as the tunnel host's own address
+                const originHop = {
+                    type: originHopType(rule.protocol),
+                    hostDeviceId: tunnelHost?.id ?? null,
+                    targetAddress: isLoopback(rule.originAddress)
+                        ? device.primaryIp?.split('/')[0] || device.hostname || rule.originAddress
+                        : rule.originAddress,
+                    targetPort: rule.originPort,
+                    config: {
+                        generatedBy: 'cloudflare',
+                        tunnelId: tunnel.id,
+                        service: rule.service,
+                        tls: rule.protocol === 'https',
+                    },
+                };
+                const now = new Date();
+                const existing = generated.find(hop => hop.targetAddress === rule.hostname && hop.config?.proxyPath === rule.path);
+
+                if (existing) {
+                    keep.add(existing.id);
+                    await db.update(accessPaths).set({
+                        name: `${publicUrl} via ${tunnel.name}`,
+                        targetDeviceId: device.id,
+                        updatedAt: now,
+                    }).where(eq(accessPaths.id, existing.pathId));
+                    await db.update(pathHops).set({ config, updatedAt: now }).where(eq(pathHops.id, existing.id));
+
+                    const [current] = (await db.select().from(pathHops).where(eq(pathHops.pathId, existing.pathId)))
+                        .filter(hop => hop.order === 2);
+                    if (current) {
+                        await db.update(pathHops).set({ ...originHop, updatedAt: now }).where(eq(pathHops.id, current.id));
+                    } else {
+                        await this.insertHop(existing.pathId, 2, originHop, now);
+                    }
+                    continue;
+                }
+
+                const pathId = generateId();
+                await db.insert(accessPaths).values({
+                    id: pathId,
+                    name: `${publicUrl} via ${tunnel.name}`,
+                    description: `Cloudflare Tunnel ${tunnel.name} to ${rule.service}`,
+                    targetDeviceId: device.id,
+                    isDefault: false,
+                    lastTestedAt: null,
+                    lastTestStatus: 'unknown',
+                    createdAt: now,
+                    updatedAt: now,
+                });
+                await this.insertHop(pathId, 1, {
+                    type: 'cloudflare_tunnel',
+                    hostDeviceId: null,
+                    targetAddress: rule.hostname,
+                    targetPort: rule.protocol === 'http' || rule.protocol === 'https' ? 443 : null,
+                    config,
+                }, now);
+                await this.insertHop(pathId, 2, originHop, now);
+            } catch (error) {
+                result.errors.push(`Ingress ${rule.hostname}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        for (const hop of generated) {
+            if (!keep.has(hop.id)) {
+                await db.delete(accessPaths).where(eq(accessPaths.id, hop.pathId));
+            }
+        }
+    }
+
+    private async insertHop(
+        pathId: string,
+        order: number,
+        hop: Pick<PathHop, 'type' | 'hostDeviceId' | 'targetAddress' | 'targetPort' | 'config'>,
+        now: Date
+    ): Promise<void> {
+        await db.insert(pathHops).values({
+            id: generateId(),
+            pathId,
+            order,
+            ...hop,
+            status: 'unknown',
+            lastCheckedAt: null,
+            lastLatencyMs: null,
+            createdAt: now,
+            updatedAt: now,
+        });
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
+        if (this.topologyId) return this.topologyId;
+
+        const existing = await db.select().from(topologies).where(eq(topologies.type, 'cloudflare'));
+
+        if (existing.length > 0) {
+            this.topologyId = existing[0].id;
+            return this.topologyId!;
+        }
+
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
+        const newTopology = {
+            id: generateId(),
+            name: 'Cloudflare Tunnels',
+            type: 'cloudflare' as const,
+            description: 'Cloudflare Tunnels (cloudflared) and their public hostnames',
+            platformConfig: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+
+        await db.insert(topologies).values(newTopology);
+        this.topologyId = newTopology.id;
+        return this.topologyId;
+    }
+
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
+
+        try {
+            const topologyId = await this.ensureTopology(options.dryRun);
+
+            const tunnels = await this.getTunnels();
+            result.networksFound = tunnels.length;
+            const index = await this.loadDeviceIndex();
+
+            for (const tunnel of tunnels) {
+                try {
+                    const ingress = tunnel.remote_config ? await this.getIngress(tunnel.id) : [];
+                    const net = this.toNetwork(tunnel, ingress);
+
+                    const existing = await db.select().from(networks)
+                        .where(eq(networks.platformNetworkId, net.platformId));
+
+                    const updates = {
+                        name: net.name,
+                        status: net.status,
+                        metadata: net.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: net.platformId, name: net.name, type: 'cloudflare_tunnel' };
+                    if (!this.planWrite(result, options, 'network', item, existing[0], updates)) continue;
+
+                    if (existing.length === 0) {
+                        await db.insert(networks).values({
+                            id: generateId(),
+                            topologyId,
+                            name: net.name,
+                            description: `Cloudflare Tunnel: ${tunnel.id}`,
+                            cidr: null,
+                            vlan: null,
+                            platformNetworkId: net.platformId,
+                            gatewayIp: null,
+                            dnsServers: null,
+                            status: net.status,
+                            metadata: net.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.networksCreated++;
+                    } else {
+                        await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
+                        result.networksUpdated++;
+                    }
+
+                    await this.syncAccessPaths(result, tunnel, ingress, index);
+                } catch (error) {
+                    result.errors.push(`Tunnel ${tunnel.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            // Paths through tunnels that were deleted go with them
+            if (!options.dryRun && !options.networkIds) {
+                const live = new Set(tunnels.map(t => t.id));
+                for (const hop of await db.select().from(pathHops).where(eq(pathHops.type, 'cloudflare_tunnel'))) {
+                    if (hop.config?.generatedBy === 'cloudflare' && !live.has(hop.config.tunnelId as string)) {
+                        await db.delete(accessPaths).where(eq(accessPaths.id, hop.pathId));
+                    }
+                }
+            }
+
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(),
+                new Set(tunnels.map(t => `cloudflare-tunnel:${t.id}`))
+            );
+
+        } catch (error) {
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        return result;
+    }
+}
@@ -4,13 +4,16 @@
  * Export all platform connectors and factory functions
  */
 
-export { BaseConnector, type ConnectorConfig, type PlatformDevice, type PlatformNetwork, type PlatformMember, type SyncResult, type UniFiMode } from './base.js';
+export { BaseConnector, type ConnectorConfig, type PlatformDevice, type PlatformNetwork, type PlatformMember, type PlatformLink, type SyncResult, type SyncOptions, type DeviceActionName, type DeviceActionTarget, type ReconcilePolicy, DEFAULT_RECONCILE_POLICY, type SyncDiff, type SyncDiffItem, type FieldChange, type UniFiMode } from './base.js';
 export { ZeroTierConnector } from './zerotier.js';
 export { UniFiConnector } from './unifi.js';
 export { UniFiSiteManagerConnector, type UniFiSiteManagerConfig, type UniFiSiteManagerMode } from './unifi-sitemanager.js';
 export { UISPConnector } from './uisp.js';
 export { ProtectConnector } from './protect.js';
 export { StarlinkConnector } from './starlink.js';
+export { TailscaleConnector } from './tailscale.js';
+export { CloudflareConnector, parseIngressService, type TunnelIngress } from './cloudflare.js';
+export { WireGuardConnector, parseWgDump, type WireGuardInterface, type WireGuardPeer } from './wireguard.js';
 
 import { ZeroTierConnector } from './zerotier.js';
 import { UniFiConnector } from './unifi.js';
@@ -18,6 +21,9 @@ import { UniFiSiteManagerConnector } from './unifi-sitemanager.js';
 import { UISPConnector } from './uisp.js';
 import { ProtectConnector } from './protect.js';
 import { StarlinkConnector } from './starlink.js';
+import { TailscaleConnector } from './tailscale.js';
+import { WireGuardConnector } from './wireguard.js';
+import { CloudflareConnector } from './cloudflare.js';
 import type { BaseConnector, ConnectorConfig, UniFiMode } from './base.js';
 
 /**
@@ -85,6 +91,26 @@ export function createConnectors(config: ConnectorConfig): BaseConnector[] {
         ));
     }
 
+    if (config.tailscale) {
+        connectors.push(new TailscaleConnector(
+            config.tailscale.apiKey,
+            config.tailscale.tailnet,
+            config.tailscale.apiUrl,
+            config.tailscale.keyExpiryWarningDays
+        ));
+    }
+
+    if (config.wireguard) {
+        connectors.push(new WireGuardConnector(config.wireguard));
+    }
+
+    if (config.cloudflare) {
+        connectors.push(new CloudflareConnector(
+            config.cloudflare.apiToken,
+            config.cloudflare.accountId
+        ));
+    }
+
     return connectors;
 }
 
@@ -188,5 +214,33 @@ export function getConnectorConfigFromEnv(): ConnectorConfig {
         };
     }
 
+    if (process.env.TAILSCALE_API_KEY) {
+        config.tailscale = {
+            apiKey: process.env.TAILSCALE_API_KEY,
+            tailnet: process.env.TAILSCALE_TAILNET || '-',
+            keyExpiryWarningDays: process.env.TAILSCALE_KEY_EXPIRY_WARN_DAYS
+                ? parseInt(process.env.TAILSCALE_KEY_EXPIRY_WARN_DAYS, 10)
+                : undefined,
+        };
+    }
+
+    if (process.env.WIREGUARD_COMMAND || process.env.WIREGUARD_DUMP_FILE) {
+        config.wireguard = {
+            command: process.env.WIREGUARD_COMMAND,
+            dumpFile: process.env.WIREGUARD_DUMP_FILE,
+            host: process.env.WIREGUARD_HOST,
+            staleHandshakeSeconds: process.env.WIREGUARD_STALE_HANDSHAKE_SECONDS
+                ? parseInt(process.env.WIREGUARD_STALE_HANDSHAKE_SECONDS, 10)
+                : undefined,
+        };
+    }
+
+    if (process.env.CLOUDFLARE_API_TOKEN && process.env.CLOUDFLARE_ACCOUNT_ID) {
+        config.cloudflare = {
+            apiToken: process.env.CLOUDFLARE_API_TOKEN,
+            accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
+        };
+    }
+
     return config;
 }
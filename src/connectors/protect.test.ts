@@ -0,0 +1,265 @@
+/**
+ * UniFi Protect connector tests against a stand-in console on loopback
+ * serving a recorded bootstrap
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { eq } from 'drizzle-orm';
+import { db, initializeDatabase } from '../db/index.js';
+import { devices } from '../db/schema.js';
+import { ProtectConnector } from './protect.js';
+
+const USERNAME = 'netops';
+const PASSWORD = 'stand-in-password';
+const CSRF_TOKEN = 'stand-in-csrf';
+const HOUR_MS = 60 * 60 * 1000;
+
+const now = Date.now();
+
+/**
+ * Bootstrap of a UDM Pro, trimmed to the fields the connector reads
+ */
+const BOOTSTRAP = {
+    nvr: {
+        id: '61b3f5c90054a703e70003ea',
+        name: 'Office UDM Pro',
+        host: '192.168.1.1',
+        mac: '245A4C7B1D20',
+        type: 'UDMPRO',
+        version: '2.9.42',
+        firmwareVersion: '3.1.16',
+        uptime: 1209600,
+    },
+    cameras: [
+        {
+            id: '61b3f5c9017fa703e7000410',
+            name: 'Front Yard',
+            type: 'UVC G4 Bullet',
+            marketName: 'G4 Bullet',
+            mac: 'F4E2C6A1B2C3',
+            host: '192.168.1.31',
+            state: 'CONNECTED',
+            firmwareVersion: '4.69.55',
+            upSince: now - 3 * HOUR_MS,
+            lastSeen: now - 2000,
+            isRecording: true,
+            recordingSettings: { mode: 'always' },
+            featureFlags: { isDoorbell: false },
+        },
+        {
+            id: '61b3f5c9017fa703e7000411',
+            name: 'Front Door',
+            type: 'UVC G4 Doorbell',
+            marketName: 'G4 Doorbell',
+            mac: 'F4E2C6A1B2C4',
+            host: '192.168.1.32',
+            state: 'DISCONNECTED',
+            firmwareVersion: '4.69.55',
+            upSince: null,
+            lastSeen: now - 6 * HOUR_MS,
+            isRecording: false,
+            recordingSettings: { mode: 'detections' },
+            featureFlags: { isDoorbell: true },
+        },
+    ],
+    sensors: [
+        {
+            id: '61b3f5c9019ca703e7000520',
+            name: 'Garage Door',
+            type: 'UFP-SENSE',
+            marketName: 'UP-Sense',
+            mac: 'F4E2C6D4E5F6',
+            state: 'CONNECTED',
+            firmwareVersion: '1.7.5',
+            upSince: now - 24 * HOUR_MS,
+            lastSeen: now - 60000,
+            batteryStatus: { percentage: 84, isLow: false },
+            mountType: 'garage',
+        },
+    ],
+};
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => resolve(body));
+    });
+}
+
+describe('ProtectConnector', () => {
+    let server: Server;
+    let connector: ProtectConnector;
+    let sessionToken = 'session-1';
+    const logins: Array<{ username: string; password: string }> = [];
+    const apiRequests: Array<{ cookie?: string; csrf?: string }> = [];
+
+    beforeAll(async () => {
+        await initializeDatabase({ autoMigrate: true });
+
+        server = createServer(async (req, res) => {
+            if (req.method === 'POST' && req.url === '/api/auth/login') {
+                const { username, password } = JSON.parse(await readBody(req));
+                logins.push({ username, password });
+                if (username !== USERNAME || password !== PASSWORD) {
+                    res.writeHead(401).end();
+                    return;
+                }
+                res.writeHead(200, {
+                    'Set-Cookie': `TOKEN=${sessionToken}; path=/; httponly`,
+                    'X-CSRF-Token': CSRF_TOKEN,
+                    'Content-Type': 'application/json',
+                });
+                res.end(JSON.stringify({ username }));
+                return;
+            }
+
+            if (req.url === '/proxy/protect/api/bootstrap') {
+                apiRequests.push({ cookie: req.headers.cookie, csrf: req.headers['x-csrf-token'] as string | undefined });
+                if (req.headers.cookie !== `TOKEN=${sessionToken}`) {
+                    res.writeHead(401).end();
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(BOOTSTRAP));
+                return;
+            }
+
+            res.writeHead(404).end();
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        const { port } = server.address() as AddressInfo;
+        connector = new ProtectConnector(`http://127.0.0.1:${port}/`, USERNAME, PASSWORD);
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    describe('login', () => {
+        it('logs in once and sends the session cookie and CSRF token', async () => {
+            const result = await connector.testConnection();
+            expect(result).toEqual({
+                success: true,
+                message: 'Connected to Office UDM Pro (Protect 2.9.42). Found 2 camera(s).',
+            });
+
+            await connector.getBootstrap();
+            expect(logins).toEqual([{ username: USERNAME, password: PASSWORD }]);
+            expect(apiRequests.slice(-2)).toEqual([
+                { cookie: 'TOKEN=session-1', csrf: CSRF_TOKEN },
+                { cookie: 'TOKEN=session-1', csrf: CSRF_TOKEN },
+            ]);
+        });
+
+        it('logs in again when the session expires', async () => {
+            sessionToken = 'session-2';
+            await connector.getBootstrap();
+
+            expect(logins).toHaveLength(2);
+            expect(apiRequests.slice(-2).map(r => r.cookie)).toEqual(['TOKEN=session-1', 'TOKEN=session-2']);
+        });
+
+        it('reports a failed login', async () => {
+            const { port } = server.address() as AddressInfo;
+            const wrong = new ProtectConnector(`http://127.0.0.1:${port}`, USERNAME, 'wrong');
+
+            expect(await wrong.testConnection()).toEqual({ success: false, message: 'Protect login failed: 401' });
+        });
+    });
+
+    describe('getDevices', () => {
+        it('maps cameras and doorbells to cameras with recording state', async () => {
+            const found = await connector.getDevices();
+            const bullet = found.find(d => d.name === 'Front Yard')!;
+            const doorbell = found.find(d => d.name === 'Front Door')!;
+
+            expect(bullet).toMatchObject({
+                platformId: '61b3f5c9017fa703e7000410',
+                type: 'camera',
+                ipAddress: '192.168.1.31',
+                macAddress: 'f4:e2:c6:a1:b2:c3',
+                status: 'online',
+                lastSeen: new Date(now - 2000),
+                metadata: {
+                    kind: 'camera',
+                    model: 'G4 Bullet',
+                    firmwareVersion: '4.69.55',
+                    connectionState: 'CONNECTED',
+                    isRecording: true,
+                    recordingMode: 'always',
+                    nvr: { id: BOOTSTRAP.nvr.id, name: 'Office UDM Pro' },
+                },
+            });
+            expect(bullet.metadata.uptime).toBeGreaterThanOrEqual(3 * 3600);
+            expect(bullet.metadata.uptime).toBeLessThan(3 * 3600 + 60);
+
+            expect(doorbell).toMatchObject({
+                type: 'camera',
+                status: 'offline',
+                metadata: { kind: 'doorbell', model: 'G4 Doorbell', isRecording: false, recordingMode: 'detections' },
+            });
+            expect(doorbell.metadata.uptime).toBeUndefined();
+        });
+
+        it('maps sensors with their battery', async () => {
+            const [sensor] = (await connector.getDevices()).filter(d => d.type === 'sensor');
+
+            expect(sensor).toMatchObject({
+                platformId: '61b3f5c9019ca703e7000520',
+                name: 'Garage Door',
+                macAddress: 'f4:e2:c6:d4:e5:f6',
+                status: 'online',
+                metadata: {
+                    kind: 'sensor',
+                    model: 'UP-Sense',
+                    firmwareVersion: '1.7.5',
+                    batteryPercentage: 84,
+                    batteryLow: false,
+                    mountType: 'garage',
+                },
+            });
+            expect(sensor.ipAddress).toBeUndefined();
+            expect(sensor.metadata.uptime).toBeGreaterThanOrEqual(24 * 3600);
+        });
+    });
+
+    describe('sync', () => {
+        it('stores camera and sensor rows', async () => {
+            const result = await connector.sync();
+
+            expect(result.errors).toEqual([]);
+            expect(result).toMatchObject({ success: true, devicesFound: 3, devicesCreated: 3 });
+
+            const rows = await db.select().from(devices).where(eq(devices.platformType, 'protect'));
+            const byName = new Map(rows.map(r => [r.name, r]));
+            expect(byName.get('Front Yard')).toMatchObject({
+                type: 'camera',
+                manufacturer: 'Ubiquiti',
+                model: 'G4 Bullet',
+                firmwareVersion: '4.69.55',
+                status: 'online',
+                primaryIp: '192.168.1.31',
+                primaryMac: 'f4:e2:c6:a1:b2:c3',
+            });
+            expect(byName.get('Front Door')).toMatchObject({ type: 'camera', status: 'offline' });
+            expect(byName.get('Garage Door')).toMatchObject({
+                type: 'sensor',
+                model: 'UP-Sense',
+                firmwareVersion: '1.7.5',
+                status: 'online',
+                primaryIp: null,
+            });
+            expect(byName.get('Front Yard')!.metadata).toMatchObject({ isRecording: true, recordingMode: 'always' });
+        });
+
+        it('updates the rows on the next sync', async () => {
+            const result = await connector.sync();
+
+            expect(result).toMatchObject({ success: true, devicesCreated: 0, devicesUpdated: 3 });
+        });
+    });
+});
@@ -0,0 +1,368 @@
+/**
+ * UniFi Protect Connector
+ *
+ * Integrates with a UniFi Protect NVR (UDM Pro, UNVR, Cloud Key Gen2+)
+ * Logs in through UniFi OS and reads cameras, doorbells and sensors from the
+ * Protect API at /proxy/protect/api
+ */
+
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions } from './base.js';
+import { db, generateId, topologies, devices } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+
+interface ProtectNvr {
+    id: string;
+    name: string;
+    host: string;
+    mac: string;
+    type: string;
+    version: string;
+    firmwareVersion?: string;
+    uptime?: number;
+}
+
+interface ProtectCamera {
+    id: string;
+    name: string;
+    type: string;
+    marketName?: string;
+    mac: string;
+    host?: string;
+    state: string;
+    firmwareVersion?: string;
+    upSince?: number | null;
+    lastSeen?: number | null;
+    isRecording?: boolean;
+    recordingSettings?: {
+        mode?: string;
+    };
+    featureFlags?: {
+        isDoorbell?: boolean;
+    };
+}
+
+interface ProtectSensor {
+    id: string;
+    name: string;
+    type: string;
+    marketName?: string;
+    mac: string;
+    state: string;
+    firmwareVersion?: string;
+    upSince?: number | null;
+    lastSeen?: number | null;
+    batteryStatus?: {
+        percentage?: number;
+        isLow?: boolean;
+    };
+    mountType?: string;
+}
+
+interface ProtectBootstrap {
+    nvr: ProtectNvr;
+    cameras: ProtectCamera[];
+    sensors?: ProtectSensor[];
+}
+
+export class ProtectConnector extends BaseConnector {
+    private baseUrl: string;
+    private username: string;
+    private password: string;
+    private token: string | null = null;
+    private csrfToken: string | null = null;
+    private topologyId: string | null = null;
+
+    constructor(baseUrl: string, username: string, password: string) {
+        super('UniFi Protect', 'protect');
+        // Remove trailing slash
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.username = username;
+        this.password = password;
+    }
+
+    /**
+     * Login to UniFi OS and keep the TOKEN cookie
+     */
+    private async login(): Promise<void> {
+        if (this.token) return;
+
+        const response = await fetch(`${this.baseUrl}/api/auth/login`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                username: this.username,
+                password: this.password,
+                rememberMe: true,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Protect login failed: ${response.status}`);
+        }
+
+        const cookies = response.headers.get('set-cookie');
+        const match = cookies?.match(/TOKEN=([^;]+)/);
+        if (!match) {
+            throw new Error('Failed to extract UniFi OS session cookie');
+        }
+
+        this.token = match[1];
+        this.csrfToken = response.headers.get('x-csrf-token');
+    }
+
+    private async fetch<T>(endpoint: string, options?: RequestInit, retried = false): Promise<T> {
+        await this.login();
+
+        const response = await fetch(`${this.baseUrl}/proxy/protect/api${endpoint}`, {
+            ...options,
+            headers: {
+                'Content-Type': 'application/json',
+                'Cookie': `TOKEN=${this.token}`,
+                ...(this.csrfToken ? { 'X-CSRF-Token': this.csrfToken } : {}),
+                ...options?.headers,
+            },
+        });
+
+        if (response.status === 401 && !retried) {
+            // Session expired, login again once
+            this.token = null;
+            this.csrfToken = null;
+            return this.fetch(endpoint, options, true);
+        }
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Protect API error: ${response.status} - ${error}`);
+        }
+
+        return response.json() as Promise<T>;
+    }
+
+    async testConnection(): Promise<{ success: boolean; message: string }> {
+        try {
+            const bootstrap = await this.getBootstrap();
+            return {
+                success: true,
+                message: `Connected to ${bootstrap.nvr.name} (Protect ${bootstrap.nvr.version}). Found ${bootstrap.cameras.length} camera(s).`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: error instanceof Error ? error.message : 'Connection failed',
+            };
+        }
+    }
+
+    /**
+     * Get the NVR and all adopted devices in one request
+     */
+    async getBootstrap(): Promise<ProtectBootstrap> {
+        return this.fetch<ProtectBootstrap>('/bootstrap');
+    }
+
+    async getNetworks(): Promise<PlatformNetwork[]> {
+        // Protect has no network concept of its own; devices live on the console's LAN
+        return [];
+    }
+
+    async getDevices(): Promise<PlatformDevice[]> {
+        const bootstrap = await this.getBootstrap();
+        const nvr = {
+            id: bootstrap.nvr.id,
+            name: bootstrap.nvr.name,
+        };
+
+        const cameras = bootstrap.cameras.map(cam => {
+            const isDoorbell = !!cam.featureFlags?.isDoorbell;
+            return {
+                platformId: cam.id,
+                name: cam.name,
+                type: 'camera',
+                ipAddress: cam.host || undefined,
+                macAddress: this.formatMac(cam.mac),
+                status: this.mapState(cam.state),
+                lastSeen: cam.lastSeen ? new Date(cam.lastSeen) : undefined,
+                metadata: {
+                    kind: isDoorbell ? 'doorbell' : 'camera',
+                    model: cam.marketName || cam.type,
+                    firmwareVersion: cam.firmwareVersion,
+                    connectionState: cam.state,
+                    isRecording: cam.isRecording ?? false,
+                    recordingMode: cam.recordingSettings?.mode,
+                    uptime: this.uptimeSeconds(cam.upSince),
+                    nvr,
+                },
+            } as PlatformDevice;
+        });
+
+        const sensors = (bootstrap.sensors || []).map(sensor => ({
+            platformId: sensor.id,
+            name: sensor.name,
+            type: 'sensor',
+            macAddress: this.formatMac(sensor.mac),
+            status: this.mapState(sensor.state),
+            lastSeen: sensor.lastSeen ? new Date(sensor.lastSeen) : undefined,
+            metadata: {
+                kind: 'sensor',
+                model: sensor.marketName || sensor.type,
+                firmwareVersion: sensor.firmwareVersion,
+                connectionState: sensor.state,
+                uptime: this.uptimeSeconds(sensor.upSince),
+                batteryPercentage: sensor.batteryStatus?.percentage,
+                batteryLow: sensor.batteryStatus?.isLow,
+                mountType: sensor.mountType,
+                nvr,
+            },
+        }) as PlatformDevice);
+
+        return [...cameras, ...sensors];
+    }
+
+    async getNetworkMembers(_networkId: string): Promise<PlatformMember[]> {
+        return [];
+    }
+
+    /**
+     * Protect reports MACs without separators, e.g. "F4E2C6123456"
+     */
+    private formatMac(mac: string | undefined): string | undefined {
+        if (!mac) return undefined;
+        const hex = mac.replace(/[^0-9a-fA-F]/g, '').toLowerCase();
+        if (hex.length !== 12) return mac;
+        return hex.match(/.{2}/g)!.join(':');
+    }
+
+    private mapState(state: string | undefined): PlatformDevice['status'] {
+        switch (state?.toUpperCase()) {
+            case 'CONNECTED': return 'online';
+            case 'DISCONNECTED': return 'offline';
+            case 'CONNECTING':
+            case 'UPDATING':
+            case 'ADOPTING':
+            case 'REBOOTING': return 'degraded';
+            default: return 'unknown';
+        }
+    }
+
+    private uptimeSeconds(upSince: number | null | undefined): number | undefined {
+        if (!upSince) return undefined;
+        return Math.max(0, Math.floor((Date.now() - upSince) / 1000));
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
+        if (this.topologyId) return this.topologyId;
+
+        const existing = await db.select().from(topologies).where(eq(topologies.type, 'protect'));
+
+        if (existing.length > 0) {
+            this.topologyId = existing[0].id;
+            return this.topologyId!;
+        }
+
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
+        const newTopology = {
+            id: generateId(),
+            name: 'UniFi Protect',
+            type: 'protect' as const,
+            description: 'UniFi Protect cameras and sensors',
+            platformConfig: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+
+        await db.insert(topologies).values(newTopology);
+        this.topologyId = newTopology.id;
+        return this.topologyId;
+    }
+
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
+
+        try {
+            const topologyId = await this.ensureTopology(options.dryRun);
+
+            const protectDevices = await this.getDevices();
+            result.devicesFound = protectDevices.length;
+
+            for (const dev of protectDevices) {
+                try {
+                    if (await this.syncMergedIdentity(result, options, dev)) continue;
+
+                    const existing = await db.select().from(devices)
+                        .where(eq(devices.platformDeviceId, dev.platformId));
+
+                    const updates = {
+                        name: dev.name,
+                        status: dev.status,
+                        lastSeen: dev.lastSeen || null,
+                        primaryIp: dev.ipAddress || null,
+                        model: (dev.metadata.model as string) || null,
+                        firmwareVersion: (dev.metadata.firmwareVersion as string) || null,
+                        metadata: dev.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const deviceType = dev.type === 'sensor' ? 'sensor' : 'camera';
+                    const item = { platformId: dev.platformId, name: dev.name, type: deviceType };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
+
+                    if (existing.length === 0) {
+                        await db.insert(devices).values({
+                            id: deviceId,
+                            name: dev.name,
+                            type: deviceType,
+                            manufacturer: 'Ubiquiti',
+                            model: (dev.metadata.model as string) || null,
+                            serialNumber: null,
+                            firmwareVersion: (dev.metadata.firmwareVersion as string) || null,
+                            locationId: null,
+                            vehicleId: null,
+                            status: dev.status,
+                            lastSeen: dev.lastSeen || null,
+                            primaryIp: dev.ipAddress || null,
+                            primaryMac: dev.macAddress || null,
+                            hostname: null,
+                            managementUrl: null,
+                            sshPort: null,
+                            httpPort: null,
+                            platformType: 'protect',
+                            platformDeviceId: dev.platformId,
+                            notes: null,
+                            tags: null,
+                            metadata: dev.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.devicesCreated++;
+                    } else {
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
+                        result.devicesUpdated++;
+                    }
+
+                    await this.recordIdentity(deviceId, dev);
+                } catch (error) {
+                    result.errors.push(`Device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(protectDevices.map(d => d.platformId)),
+                new Set()
+            );
+
+        } catch (error) {
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        return result;
+    }
+}
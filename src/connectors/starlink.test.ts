@@ -0,0 +1,179 @@
+/**
+ * Starlink connector and gRPC client tests against a stand-in dish on
+ * loopback answering with hand-encoded protobuf
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http2 from 'node:http2';
+import type { AddressInfo } from 'net';
+import { grpcUnary } from '../utils/grpc.js';
+import { StarlinkConnector } from './starlink.js';
+
+const HANDLE_PATH = '/SpaceX.API.Device.Device/Handle';
+const DISH_ID = 'ut01000000-00000000-00abcdef';
+
+// ============================================
+// Protobuf, just enough for the dish
+// ============================================
+
+function varint(value: number): Buffer {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value & 0x7f) | 0x80);
+        value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+}
+
+function uint(field: number, value: number): Buffer {
+    return Buffer.concat([varint(field * 8), varint(value)]);
+}
+
+function float(field: number, value: number): Buffer {
+    const data = Buffer.alloc(4);
+    data.writeFloatLE(value, 0);
+    return Buffer.concat([varint(field * 8 + 5), data]);
+}
+
+function bytes(field: number, ...parts: Buffer[]): Buffer {
+    const data = Buffer.concat(parts);
+    return Buffer.concat([varint(field * 8 + 2), varint(data.length), data]);
+}
+
+function string(field: number, value: string): Buffer {
+    return bytes(field, Buffer.from(value));
+}
+
+function frame(message: Buffer): Buffer {
+    const prefix = Buffer.alloc(5);
+    prefix.writeUInt32BE(message.length, 1);
+    return Buffer.concat([prefix, message]);
+}
+
+/**
+ * Response { dish_get_status (2004) } of a dish that is up and heating
+ */
+const STATUS_RESPONSE = bytes(2004,
+    bytes(1, string(1, DISH_ID), string(2, 'rev3_proto2'), string(3, '2024.05.0.mr3'), string(4, 'US')),
+    bytes(2, uint(1, 86400)),
+    float(1003, 0.01),
+    bytes(1004, float(1, 0.02)),
+    bytes(1005, uint(9, 1)),
+    float(1007, 50_000_000),
+    float(1008, 4_000_000),
+    float(1009, 31.5),
+);
+
+describe('Starlink', () => {
+    let server: http2.Http2Server;
+    let port: number;
+    const requests: Buffer[] = [];
+
+    beforeAll(async () => {
+        server = http2.createServer();
+        server.on('stream', (stream, headers) => {
+            const chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('end', () => {
+                const body = Buffer.concat(chunks);
+                const path = headers[':path'];
+
+                if (path === '/test.Service/Hang') return;
+                if (path === '/test.Service/BadMessage') {
+                    stream.respond({ ':status': 200, 'content-type': 'application/grpc', 'grpc-status': '13', 'grpc-message': 'bad %E0%A4%A' }, { endStream: true });
+                    return;
+                }
+
+                const request = body.subarray(5);
+                requests.push(request);
+                if (path === HANDLE_PATH && request.equals(bytes(1004))) {
+                    stream.respond({ ':status': 200, 'content-type': 'application/grpc' }, { waitForTrailers: true });
+                    stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+                    stream.end(frame(STATUS_RESPONSE));
+                    return;
+                }
+
+                // Trailers-only response, as older firmware sends for get_history
+                stream.respond({
+                    ':status': 200,
+                    'content-type': 'application/grpc',
+                    'grpc-status': '12',
+                    'grpc-message': 'Unimplemented%3A request not supported',
+                }, { endStream: true });
+            });
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    describe('grpcUnary', () => {
+        it('returns the response message of a unary call', async () => {
+            const raw = await grpcUnary(`http://127.0.0.1:${port}`, HANDLE_PATH, bytes(1004));
+            expect(raw.equals(STATUS_RESPONSE)).toBe(true);
+        });
+
+        it('reports the status of a trailers-only response', async () => {
+            await expect(grpcUnary(`http://127.0.0.1:${port}`, HANDLE_PATH, bytes(1007)))
+                .rejects.toThrow(`gRPC call ${HANDLE_PATH} failed with status 12: Unimplemented: request not supported`);
+        });
+
+        it('keeps a grpc-message that is not valid percent-encoding', async () => {
+            await expect(grpcUnary(`http://127.0.0.1:${port}`, '/test.Service/BadMessage', Buffer.alloc(0)))
+                .rejects.toThrow('failed with status 13: bad %E0%A4%A');
+        });
+
+        it('times out when the server never answers', async () => {
+            const started = Date.now();
+            await expect(grpcUnary(`http://127.0.0.1:${port}`, '/test.Service/Hang', Buffer.alloc(0), 200))
+                .rejects.toThrow('gRPC call /test.Service/Hang timed out after 200ms');
+            expect(Date.now() - started).toBeLessThan(2000);
+        });
+    });
+
+    describe('StarlinkConnector', () => {
+        it('decodes get_status', async () => {
+            const status = await new StarlinkConnector('127.0.0.1', 2000, port).getStatus();
+
+            expect(status).toMatchObject({
+                id: DISH_ID,
+                hardwareVersion: 'rev3_proto2',
+                softwareVersion: '2024.05.0.mr3',
+                countryCode: 'US',
+                uptimeSeconds: 86400,
+                downlinkThroughputBps: 50_000_000,
+                uplinkThroughputBps: 4_000_000,
+                currentlyObstructed: false,
+                alerts: ['is_heating'],
+                outage: undefined,
+            });
+            expect(status.popPingLatencyMs).toBeCloseTo(31.5);
+            expect(status.popPingDropRate).toBeCloseTo(0.01);
+            expect(status.obstructionFraction).toBeCloseTo(0.02);
+        });
+
+        it('reports the dish without history when get_history is refused', async () => {
+            const [dish] = await new StarlinkConnector('127.0.0.1', 2000, port).getDevices();
+
+            expect(requests.at(-1)!.equals(bytes(1007))).toBe(true);
+            expect(dish).toMatchObject({
+                platformId: DISH_ID,
+                name: 'Starlink 00abcdef',
+                ipAddress: '127.0.0.1',
+                // Heating is informational, so the dish is not degraded
+                status: 'online',
+                metadata: { firmwareVersion: '2024.05.0.mr3', uptime: 86400, history: undefined },
+            });
+        });
+
+        it('fails the connection test when nothing listens', async () => {
+            const result = await new StarlinkConnector('127.0.0.1', 2000, 1).testConnection();
+            expect(result.success).toBe(false);
+        });
+    });
+});
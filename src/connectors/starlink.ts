@@ -0,0 +1,397 @@
+/**
+ * Starlink Connector
+ *
+ * Reads status and telemetry from a Starlink dish over its local gRPC API
+ * (port 9200, SpaceX.API.Device.Device/Handle). The dish is registered as a
+ * device, and every connectivity chain link of type "starlink" through that
+ * device gets live latency, throughput and status.
+ */
+
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions } from './base.js';
+import { db, generateId, topologies, devices, chainLinks } from '../db/index.js';
+import { and, eq } from 'drizzle-orm';
+import { grpcUnary, ProtoMessage, ProtoWriter } from '../utils/grpc.js';
+
+const GRPC_PORT = 9200;
+const HANDLE_PATH = '/SpaceX.API.Device.Device/Handle';
+
+// Request/Response oneof field numbers from spacex.api.device
+const REQUEST_GET_STATUS = 1004;
+const REQUEST_GET_HISTORY = 1007;
+const RESPONSE_DISH_GET_STATUS = 2004;
+const RESPONSE_DISH_GET_HISTORY = 2006;
+
+/** History samples (one per second) averaged into the summary */
+const HISTORY_WINDOW = 300;
+
+/** Drop rate above which the link counts as degraded */
+const DEGRADED_DROP_RATE = 0.05;
+
+const ALERT_NAMES: Record<number, string> = {
+    1: 'motors_stuck',
+    2: 'thermal_shutdown',
+    3: 'thermal_throttle',
+    4: 'unexpected_location',
+    5: 'mast_not_near_vertical',
+    6: 'slow_ethernet_speeds',
+    7: 'roaming',
+    8: 'install_pending',
+    9: 'is_heating',
+    10: 'power_supply_thermal_throttle',
+    11: 'is_power_save_idle',
+    12: 'moving_while_not_mobile',
+    13: 'moving_too_fast_for_policy',
+    14: 'dbf_telem_stale',
+    15: 'low_motor_current',
+    16: 'lower_signal_than_predicted',
+    17: 'slow_ethernet_speeds_100',
+    18: 'obstruction_map_reset',
+};
+
+// Alerts that are informational rather than a sign of trouble
+const INFO_ALERTS = new Set(['roaming', 'install_pending', 'is_heating', 'is_power_save_idle']);
+
+const OUTAGE_CAUSES = [
+    'UNKNOWN', 'BOOTING', 'STOWED', 'THERMAL_SHUTDOWN', 'NO_SCHEDULE', 'NO_SATS',
+    'OBSTRUCTED', 'NO_DOWNLINK', 'NO_PINGS', 'ACTUATOR_ACTIVITY', 'CABLE_TEST', 'SLEEPING',
+];
+
+export interface StarlinkStatus {
+    id: string;
+    hardwareVersion?: string;
+    softwareVersion?: string;
+    countryCode?: string;
+    uptimeSeconds?: number;
+    popPingLatencyMs?: number;
+    popPingDropRate: number;
+    downlinkThroughputBps: number;
+    uplinkThroughputBps: number;
+    obstructionFraction: number;
+    currentlyObstructed: boolean;
+    alerts: string[];
+    outage?: {
+        cause: string;
+        durationSeconds?: number;
+    };
+}
+
+export interface StarlinkHistorySummary {
+    samples: number;
+    popPingLatencyMsAvg?: number;
+    popPingDropRateAvg?: number;
+    downlinkThroughputBpsAvg?: number;
+    uplinkThroughputBpsAvg?: number;
+}
+
+export class StarlinkConnector extends BaseConnector {
+    private ip: string;
+    private timeoutMs: number;
+    private port: number;
+    private topologyId: string | null = null;
+
+    constructor(ip: string, timeoutMs = 5000, port = GRPC_PORT) {
+        super('Starlink', 'starlink');
+        this.ip = ip;
+        this.timeoutMs = timeoutMs;
+        this.port = port;
+    }
+
+    /**
+     * Send a Request with one empty oneof member set and return the
+     * matching Response member
+     */
+    private async handle(requestField: number, responseField: number): Promise<ProtoMessage> {
+        const request = new ProtoWriter().message(requestField, new ProtoWriter()).finish();
+        const raw = await grpcUnary(`http://${this.ip}:${this.port}`, HANDLE_PATH, request, this.timeoutMs);
+
+        const body = ProtoMessage.decode(raw).message(responseField);
+        if (!body) {
+            throw new Error(`Starlink dish returned no response for request ${requestField}`);
+        }
+        return body;
+    }
+
+    async testConnection(): Promise<{ success: boolean; message: string }> {
+        try {
+            const status = await this.getStatus();
+            return {
+                success: true,
+                message: `Connected to Starlink dish ${status.id} (firmware ${status.softwareVersion || 'unknown'})`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: error instanceof Error ? error.message : 'Connection failed',
+            };
+        }
+    }
+
+    /**
+     * get_status: identity, current latency/throughput, obstruction and alerts
+     */
+    async getStatus(): Promise<StarlinkStatus> {
+        const status = await this.handle(REQUEST_GET_STATUS, RESPONSE_DISH_GET_STATUS);
+        const info = status.message(1);
+        const state = status.message(2);
+        const obstruction = status.message(1004);
+        const alerts = status.message(1005);
+        const outage = status.message(1014);
+
+        return {
+            id: info?.string(1) || 'unknown',
+            hardwareVersion: info?.string(2),
+            softwareVersion: info?.string(3),
+            countryCode: info?.string(4),
+            uptimeSeconds: state?.uint(1),
+            popPingLatencyMs: status.float(1009),
+            popPingDropRate: status.float(1003) ?? 0,
+            downlinkThroughputBps: status.float(1007) ?? 0,
+            uplinkThroughputBps: status.float(1008) ?? 0,
+            obstructionFraction: obstruction?.float(1) ?? 0,
+            currentlyObstructed: obstruction?.bool(5) ?? false,
+            alerts: (alerts?.trueFields() || []).map(field => ALERT_NAMES[field] || `alert_${field}`),
+            outage: outage ? {
+                cause: OUTAGE_CAUSES[outage.uint(1) ?? 0] || 'UNKNOWN',
+                durationSeconds: outage.uint(3) !== undefined ? Math.round(outage.uint(3)! / 1e9) : undefined,
+            } : undefined,
+        };
+    }
+
+    /**
+     * get_history: averages over the most recent samples of the ring buffers
+     */
+    async getHistorySummary(window = HISTORY_WINDOW): Promise<StarlinkHistorySummary> {
+        const history = await this.handle(REQUEST_GET_HISTORY, RESPONSE_DISH_GET_HISTORY);
+        const current = history.uint(1) ?? 0;
+
+        // Newest samples first; unfiltered so the series stay aligned by index
+        const recent = (values: number[]): number[] => {
+            const available = Math.min(current, values.length);
+            const count = Math.min(window, available);
+            const result: number[] = [];
+            for (let i = 1; i <= count; i++) {
+                result.push(values[((current - i) % values.length + values.length) % values.length]);
+            }
+            return result;
+        };
+        const finite = (values: number[]): number[] => values.filter(v => Number.isFinite(v));
+        const average = (values: number[]): number | undefined =>
+            values.length ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+        const dropRate = recent(history.floats(1001));
+        // Latency samples are meaningless while every ping was dropped
+        const latency = recent(history.floats(1002))
+            .filter((value, i) => Number.isFinite(value) && (Number.isFinite(dropRate[i]) ? dropRate[i] : 0) < 1);
+
+        return {
+            samples: finite(dropRate).length,
+            popPingDropRateAvg: average(finite(dropRate)),
+            popPingLatencyMsAvg: average(latency),
+            downlinkThroughputBpsAvg: average(finite(recent(history.floats(1003)))),
+            uplinkThroughputBpsAvg: average(finite(recent(history.floats(1004)))),
+        };
+    }
+
+    async getNetworks(): Promise<PlatformNetwork[]> {
+        return [];
+    }
+
+    async getDevices(): Promise<PlatformDevice[]> {
+        const status = await this.getStatus();
+        let history: StarlinkHistorySummary | undefined;
+        try {
+            history = await this.getHistorySummary();
+        } catch {
+            // Older firmware can refuse get_history; status alone is still useful
+        }
+
+        const troubled = status.alerts.some(alert => !INFO_ALERTS.has(alert));
+        const degraded = !!status.outage || status.currentlyObstructed || troubled
+            || status.popPingDropRate > DEGRADED_DROP_RATE;
+
+        return [{
+            platformId: status.id,
+            name: `Starlink ${status.id.slice(-8)}`,
+            type: 'other',
+            ipAddress: this.ip,
+            status: degraded ? 'degraded' : 'online',
+            lastSeen: new Date(),
+            metadata: {
+                hardwareVersion: status.hardwareVersion,
+                firmwareVersion: status.softwareVersion,
+                countryCode: status.countryCode,
+                uptime: status.uptimeSeconds,
+                popPingLatencyMs: status.popPingLatencyMs,
+                popPingDropRate: status.popPingDropRate,
+                downlinkThroughputBps: status.downlinkThroughputBps,
+                uplinkThroughputBps: status.uplinkThroughputBps,
+                obstructionFraction: status.obstructionFraction,
+                currentlyObstructed: status.currentlyObstructed,
+                alerts: status.alerts,
+                outage: status.outage,
+                history,
+            },
+        }];
+    }
+
+    async getNetworkMembers(_networkId: string): Promise<PlatformMember[]> {
+        return [];
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
+        if (this.topologyId) return this.topologyId;
+
+        const existing = await db.select().from(topologies).where(eq(topologies.type, 'starlink'));
+
+        if (existing.length > 0) {
+            this.topologyId = existing[0].id;
+            return this.topologyId!;
+        }
+
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
+        const newTopology = {
+            id: generateId(),
+            name: 'Starlink',
+            type: 'starlink' as const,
+            description: 'Starlink satellite uplinks',
+            platformConfig: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+
+        await db.insert(topologies).values(newTopology);
+        this.topologyId = newTopology.id;
+        return this.topologyId;
+    }
+
+    /**
+     * Copy live telemetry onto the chain links that run through the dish
+     */
+    private async updateChainLinks(deviceId: string, dish: PlatformDevice | null): Promise<void> {
+        const meta = dish?.metadata;
+        const latency = (meta?.popPingLatencyMs ?? (meta?.history as StarlinkHistorySummary | undefined)?.popPingLatencyMsAvg) as number | undefined;
+        const downlink = meta?.downlinkThroughputBps as number | undefined;
+
+        await db.update(chainLinks).set({
+            status: !dish ? 'down' : dish.status === 'degraded' ? 'degraded' : 'up',
+            ...(dish ? {
+                latencyMs: latency !== undefined ? Math.round(latency) : null,
+                bandwidthMbps: downlink !== undefined ? Math.round(downlink / 1e6) : null,
+            } : {}),
+            updatedAt: new Date(),
+        }).where(and(eq(chainLinks.linkType, 'starlink'), eq(chainLinks.deviceId, deviceId)));
+    }
+
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
+
+        let dishes: PlatformDevice[];
+        try {
+            dishes = await this.getDevices();
+        } catch (error) {
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+
+            // An unreachable dish takes its chain links down with it
+            if (!options.dryRun) {
+                const known = await db.select().from(devices).where(and(
+                    eq(devices.platformType, 'starlink'),
+                    eq(devices.primaryIp, this.ip)
+                ));
+                for (const dish of known) {
+                    await db.update(devices).set({ status: 'offline', updatedAt: new Date() }).where(eq(devices.id, dish.id));
+                    await this.updateChainLinks(dish.id, null);
+                }
+            }
+            return result;
+        }
+
+        try {
+            const topologyId = await this.ensureTopology(options.dryRun);
+            result.devicesFound = dishes.length;
+
+            for (const dev of dishes) {
+                try {
+                    if (await this.syncMergedIdentity(result, options, dev)) {
+                        const merged = await this.findLocalDevice(dev.platformId);
+                        if (merged && !options.dryRun) await this.updateChainLinks(merged.id, dev);
+                        continue;
+                    }
+
+                    const existing = await db.select().from(devices)
+                        .where(eq(devices.platformDeviceId, dev.platformId));
+
+                    const updates = {
+                        name: dev.name,
+                        status: dev.status,
+                        lastSeen: dev.lastSeen || null,
+                        primaryIp: dev.ipAddress || null,
+                        model: (dev.metadata.hardwareVersion as string) || null,
+                        firmwareVersion: (dev.metadata.firmwareVersion as string) || null,
+                        metadata: dev.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: dev.platformId, name: dev.name, type: 'other' };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
+
+                    if (existing.length === 0) {
+                        await db.insert(devices).values({
+                            id: deviceId,
+                            name: dev.name,
+                            type: 'other',
+                            manufacturer: 'SpaceX',
+                            model: (dev.metadata.hardwareVersion as string) || null,
+                            serialNumber: null,
+                            firmwareVersion: (dev.metadata.firmwareVersion as string) || null,
+                            locationId: null,
+                            vehicleId: null,
+                            status: dev.status,
+                            lastSeen: dev.lastSeen || null,
+                            primaryIp: dev.ipAddress || null,
+                            primaryMac: null,
+                            hostname: null,
+                            managementUrl: null,
+                            sshPort: null,
+                            httpPort: null,
+                            platformType: 'starlink',
+                            platformDeviceId: dev.platformId,
+                            notes: null,
+                            tags: null,
+                            metadata: dev.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.devicesCreated++;
+                    } else {
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
+                        result.devicesUpdated++;
+                    }
+
+                    await this.recordIdentity(deviceId, dev);
+                    await this.updateChainLinks(deviceId, dev);
+                } catch (error) {
+                    result.errors.push(`Device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            // Each connector talks to one dish, so a swapped dish retires the old one
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(dishes.map(d => d.platformId)),
+                new Set()
+            );
+
+        } catch (error) {
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        return result;
+    }
+}
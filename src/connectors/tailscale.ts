@@ -0,0 +1,478 @@
+/**
+ * Tailscale API Connector
+ *
+ * Integrates with the Tailscale v2 API for tailnet devices and routes
+ * API Docs: https://tailscale.com/api
+ *
+ * The tailnet itself becomes one network (100.64.0.0/10) and every approved
+ * subnet route becomes a network of its own, with its subnet routers as members.
+ * Devices whose node key has expired or expires soon are tagged and reported
+ * to alerting as key_expiring.
+ */
+
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions } from './base.js';
+import { db, generateId, topologies, networks, devices } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+import { isValidIpv4 } from '../utils/helpers.js';
+import { alertService } from '../services/alerting.js';
+
+interface TailscaleDevice {
+    id: string;
+    nodeId: string;
+    name: string;
+    hostname: string;
+    addresses: string[];
+    os: string;
+    clientVersion?: string;
+    user?: string;
+    authorized: boolean;
+    isExternal?: boolean;
+    lastSeen?: string;
+    expires?: string;
+    keyExpiryDisabled?: boolean;
+    updateAvailable?: boolean;
+    connectedToControl?: boolean;
+    tags?: string[];
+    advertisedRoutes?: string[];
+    enabledRoutes?: string[];
+}
+
+const TAILNET_CIDR = '100.64.0.0/10';
+const EXIT_ROUTES = ['0.0.0.0/0', '::/0'];
+
+/** Device tags for node key state, replaced on every sync */
+const KEY_EXPIRED_TAG = 'key-expired';
+const KEY_EXPIRING_TAG = 'key-expiring';
+
+/** A device not seen for this long is considered offline */
+const ONLINE_WINDOW_MS = 5 * 60 * 1000;
+
+export class TailscaleConnector extends BaseConnector {
+    private apiKey: string;
+    private tailnet: string;
+    private apiUrl: string;
+    private keyExpiryWarningMs: number;
+    private topologyId: string | null = null;
+
+    /**
+     * @param tailnet Tailnet name, or "-" for the tailnet the key belongs to
+     * @param keyExpiryWarningDays Flag node keys expiring within this many days
+     */
+    constructor(apiKey: string, tailnet = '-', apiUrl = 'https://api.tailscale.com/api/v2', keyExpiryWarningDays = 14) {
+        super('Tailscale', 'tailscale');
+        this.apiKey = apiKey;
+        this.tailnet = tailnet;
+        this.apiUrl = apiUrl.replace(/\/$/, '');
+        this.keyExpiryWarningMs = keyExpiryWarningDays * 24 * 60 * 60 * 1000;
+    }
+
+    private async fetch<T>(endpoint: string, options?: RequestInit): Promise<T> {
+        const response = await fetch(`${this.apiUrl}${endpoint}`, {
+            ...options,
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json',
+                ...options?.headers,
+            },
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Tailscale API error: ${response.status} - ${error}`);
+        }
+
+        return response.json() as Promise<T>;
+    }
+
+    async testConnection(): Promise<{ success: boolean; message: string }> {
+        try {
+            const tsDevices = await this.getTailnetDevices();
+            return {
+                success: true,
+                message: `Connected to Tailscale. Found ${tsDevices.length} device(s).`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: error instanceof Error ? error.message : 'Connection failed',
+            };
+        }
+    }
+
+    /**
+     * Get all devices in the tailnet, including their routes
+     */
+    async getTailnetDevices(): Promise<TailscaleDevice[]> {
+        const data = await this.fetch<{ devices: TailscaleDevice[] }>(
+            `/tailnet/${encodeURIComponent(this.tailnet)}/devices?fields=all`
+        );
+        return data.devices;
+    }
+
+    async getNetworks(): Promise<PlatformNetwork[]> {
+        return this.toNetworks(await this.getTailnetDevices());
+    }
+
+    async getDevices(): Promise<PlatformDevice[]> {
+        return this.toDevices(await this.getTailnetDevices());
+    }
+
+    async getNetworkMembers(networkId: string): Promise<PlatformMember[]> {
+        return this.toMembers(await this.getTailnetDevices()).get(networkId) || [];
+    }
+
+    /**
+     * Approve subnet routes for a device (replaces the enabled set)
+     */
+    async setEnabledRoutes(deviceId: string, routes: string[]): Promise<void> {
+        await this.fetch(`/device/${deviceId}/routes`, {
+            method: 'POST',
+            body: JSON.stringify({ routes }),
+        });
+    }
+
+    private tailnetNetworkId(): string {
+        return `tailscale:${this.tailnet}`;
+    }
+
+    private routeNetworkId(cidr: string): string {
+        return `tailscale-route:${cidr}`;
+    }
+
+    private isOnline(dev: TailscaleDevice): boolean {
+        if (dev.connectedToControl !== undefined) return dev.connectedToControl;
+        return !!dev.lastSeen && Date.now() - new Date(dev.lastSeen).getTime() < ONLINE_WINDOW_MS;
+    }
+
+    private subnetRoutes(routes: string[] | undefined): string[] {
+        return (routes || []).filter(route => !EXIT_ROUTES.includes(route));
+    }
+
+    private toNetworks(tsDevices: TailscaleDevice[]): PlatformNetwork[] {
+        const tailnet: PlatformNetwork = {
+            platformId: this.tailnetNetworkId(),
+            name: this.tailnet === '-' ? 'Tailnet' : `Tailnet ${this.tailnet}`,
+            cidr: TAILNET_CIDR,
+            status: 'active',
+            metadata: {
+                tailnet: this.tailnet,
+                deviceCount: tsDevices.length,
+            },
+        };
+
+        // Only approved routes are reachable; advertised-only ones stay on the device
+        const routers = new Map<string, string[]>();
+        for (const dev of tsDevices) {
+            for (const route of this.subnetRoutes(dev.enabledRoutes)) {
+                routers.set(route, [...(routers.get(route) || []), dev.id]);
+            }
+        }
+
+        const routeNetworks = [...routers.entries()].map(([route, routerIds]) => ({
+            platformId: this.routeNetworkId(route),
+            name: `Tailscale route ${route}`,
+            cidr: route,
+            status: routerIds.some(id => this.isOnline(tsDevices.find(d => d.id === id)!)) ? 'active' : 'inactive',
+            metadata: {
+                tailnet: this.tailnet,
+                subnetRouters: routerIds,
+            },
+        }) as PlatformNetwork);
+
+        return [tailnet, ...routeNetworks];
+    }
+
+    private toDevices(tsDevices: TailscaleDevice[]): PlatformDevice[] {
+        const now = Date.now();
+
+        return tsDevices.map(dev => {
+            const advertisedRoutes = dev.advertisedRoutes || [];
+            const enabledRoutes = dev.enabledRoutes || [];
+            const keyExpiry = dev.expires && !dev.keyExpiryDisabled ? new Date(dev.expires) : null;
+            const keyExpiresInMs = keyExpiry ? keyExpiry.getTime() - now : null;
+
+            let type: PlatformDevice['type'] = 'other';
+            if (this.subnetRoutes(advertisedRoutes).length > 0 || advertisedRoutes.some(r => EXIT_ROUTES.includes(r))) type = 'router';
+            else if (dev.os === 'linux') type = 'server';
+            else if (dev.os === 'windows' || dev.os === 'macOS') type = 'workstation';
+
+            return {
+                platformId: dev.id,
+                name: dev.name.split('.')[0] || dev.hostname,
+                type,
+                ipAddress: dev.addresses.find(isValidIpv4) || dev.addresses[0],
+                status: this.isOnline(dev) ? 'online' : 'offline',
+                lastSeen: dev.lastSeen ? new Date(dev.lastSeen) : undefined,
+                metadata: {
+                    nodeId: dev.nodeId,
+                    hostname: dev.hostname,
+                    fqdn: dev.name,
+                    addresses: dev.addresses,
+                    os: dev.os,
+                    clientVersion: dev.clientVersion,
+                    updateAvailable: dev.updateAvailable,
+                    user: dev.user,
+                    tags: dev.tags,
+                    authorized: dev.authorized,
+                    isExternal: dev.isExternal,
+                    advertisedRoutes: this.subnetRoutes(advertisedRoutes),
+                    enabledRoutes: this.subnetRoutes(enabledRoutes),
+                    exitNode: advertisedRoutes.some(r => EXIT_ROUTES.includes(r)),
+                    exitNodeApproved: enabledRoutes.some(r => EXIT_ROUTES.includes(r)),
+                    keyExpiry: keyExpiry?.toISOString() ?? null,
+                    keyExpiryDisabled: !!dev.keyExpiryDisabled,
+                    keyExpired: keyExpiresInMs !== null && keyExpiresInMs <= 0,
+                    keyExpiringSoon: keyExpiresInMs !== null && keyExpiresInMs > 0 && keyExpiresInMs <= this.keyExpiryWarningMs,
+                },
+            } as PlatformDevice;
+        });
+    }
+
+    /**
+     * Device tags with the node key tag for the device's current key state
+     */
+    private withKeyTag(tags: string[] | null, dev: PlatformDevice): string[] | null {
+        const keyTag = dev.metadata.keyExpired ? KEY_EXPIRED_TAG : dev.metadata.keyExpiringSoon ? KEY_EXPIRING_TAG : null;
+        const kept = (tags || []).filter(tag => tag !== KEY_EXPIRED_TAG && tag !== KEY_EXPIRING_TAG);
+        const result = keyTag ? [...kept, keyTag] : kept;
+        return result.length > 0 ? result : null;
+    }
+
+    /**
+     * Raise key_expiring for devices whose node key expired or expires soon,
+     * and clear it for the rest
+     */
+    private async reportKeyExpiry(tsPlatformDevices: PlatformDevice[], deviceIds: Map<string, string>): Promise<void> {
+        for (const dev of tsPlatformDevices) {
+            const deviceId = deviceIds.get(dev.platformId);
+            if (!deviceId) continue;
+
+            try {
+                if (dev.metadata.keyExpired || dev.metadata.keyExpiringSoon) {
+                    await alertService.report({
+                        type: 'key_expiring',
+                        targetType: 'device',
+                        targetId: deviceId,
+                        targetName: dev.name,
+                        siteId: await alertService.siteOfDevice(deviceId),
+                        platformType: 'tailscale',
+                        message: dev.metadata.keyExpired
+                            ? `Node key of ${dev.name} expired at ${dev.metadata.keyExpiry}`
+                            : `Node key of ${dev.name} expires at ${dev.metadata.keyExpiry}`,
+                        details: { keyExpiry: dev.metadata.keyExpiry, keyExpired: dev.metadata.keyExpired },
+                    });
+                } else {
+                    await alertService.clear('key_expiring', 'device', deviceId);
+                }
+            } catch (error) {
+                console.error('[Tailscale] Alerting error:', error);
+            }
+        }
+    }
+
+    private toMembers(tsDevices: TailscaleDevice[]): Map<string, PlatformMember[]> {
+        const members = new Map<string, PlatformMember[]>();
+        const add = (networkId: string, member: PlatformMember) => {
+            members.set(networkId, [...(members.get(networkId) || []), member]);
+        };
+
+        for (const dev of tsDevices) {
+            const online = this.isOnline(dev);
+
+            add(this.tailnetNetworkId(), {
+                platformId: dev.id,
+                name: dev.hostname,
+                networkId: this.tailnetNetworkId(),
+                ipAddress: dev.addresses[0],
+                ipAddresses: dev.addresses,
+                authorized: dev.authorized,
+                online,
+                metadata: {},
+            });
+
+            // Subnet routers reach the route without an address of their own in it
+            for (const route of this.subnetRoutes(dev.enabledRoutes)) {
+                add(this.routeNetworkId(route), {
+                    platformId: dev.id,
+                    name: dev.hostname,
+                    networkId: this.routeNetworkId(route),
+                    authorized: dev.authorized,
+                    online,
+                    metadata: {},
+                });
+            }
+        }
+
+        return members;
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
+        if (this.topologyId) return this.topologyId;
+
+        const existing = await db.select().from(topologies).where(eq(topologies.type, 'tailscale'));
+
+        if (existing.length > 0) {
+            this.topologyId = existing[0].id;
+            return this.topologyId!;
+        }
+
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
+        const newTopology = {
+            id: generateId(),
+            name: 'Tailscale',
+            type: 'tailscale' as const,
+            description: 'Tailscale tailnet and subnet routes',
+            platformConfig: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+
+        await db.insert(topologies).values(newTopology);
+        this.topologyId = newTopology.id;
+        return this.topologyId;
+    }
+
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
+
+        try {
+            const topologyId = await this.ensureTopology(options.dryRun);
+
+            // One API call covers devices, routes and membership
+            const tsDevices = await this.getTailnetDevices();
+            const tsNetworks = this.toNetworks(tsDevices);
+            const tsPlatformDevices = this.toDevices(tsDevices);
+            result.networksFound = tsNetworks.length;
+
+            for (const net of tsNetworks) {
+                try {
+                    const existing = await db.select().from(networks)
+                        .where(eq(networks.platformNetworkId, net.platformId));
+
+                    const updates = {
+                        name: net.name,
+                        cidr: net.cidr || null,
+                        status: net.status,
+                        metadata: net.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: net.platformId, name: net.name, type: 'tailscale' };
+                    if (!this.planWrite(result, options, 'network', item, existing[0], updates)) continue;
+
+                    if (existing.length === 0) {
+                        await db.insert(networks).values({
+                            id: generateId(),
+                            topologyId,
+                            name: net.name,
+                            description: net.platformId === this.tailnetNetworkId()
+                                ? 'Tailscale tailnet'
+                                : `Tailscale subnet route via ${(net.metadata.subnetRouters as string[]).length} router(s)`,
+                            cidr: net.cidr || null,
+                            vlan: null,
+                            platformNetworkId: net.platformId,
+                            gatewayIp: null,
+                            dnsServers: null,
+                            status: net.status,
+                            metadata: net.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.networksCreated++;
+                    } else {
+                        await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
+                        result.networksUpdated++;
+                    }
+                } catch (error) {
+                    result.errors.push(`Network ${net.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            result.devicesFound = tsPlatformDevices.length;
+            const deviceIds = new Map<string, string>();
+
+            for (const dev of tsPlatformDevices) {
+                try {
+                    if (await this.syncMergedIdentity(result, options, dev)) continue;
+
+                    const existing = await db.select().from(devices)
+                        .where(eq(devices.platformDeviceId, dev.platformId));
+
+                    const updates = {
+                        name: dev.name,
+                        status: dev.status,
+                        lastSeen: dev.lastSeen || null,
+                        primaryIp: dev.ipAddress || null,
+                        hostname: (dev.metadata.hostname as string) || null,
+                        tags: this.withKeyTag(existing[0]?.tags ?? null, dev),
+                        metadata: dev.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: dev.platformId, name: dev.name, type: dev.type };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
+
+                    if (existing.length === 0) {
+                        await db.insert(devices).values({
+                            id: deviceId,
+                            name: dev.name,
+                            type: dev.type as 'router' | 'server' | 'workstation' | 'other',
+                            manufacturer: null,
+                            model: null,
+                            serialNumber: null,
+                            firmwareVersion: null,
+                            locationId: null,
+                            vehicleId: null,
+                            status: dev.status,
+                            lastSeen: dev.lastSeen || null,
+                            primaryIp: dev.ipAddress || null,
+                            primaryMac: null,
+                            hostname: (dev.metadata.hostname as string) || null,
+                            managementUrl: null,
+                            sshPort: null,
+                            httpPort: null,
+                            platformType: 'tailscale',
+                            platformDeviceId: dev.platformId,
+                            notes: null,
+                            tags: this.withKeyTag((dev.metadata.tags as string[]) || null, dev),
+                            metadata: dev.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.devicesCreated++;
+                    } else {
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
+                        result.devicesUpdated++;
+                    }
+
+                    await this.recordIdentity(deviceId, dev);
+                    deviceIds.set(dev.platformId, deviceId);
+                } catch (error) {
+                    result.errors.push(`Device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            await this.reportKeyExpiry(tsPlatformDevices, deviceIds);
+
+            for (const [networkId, members] of this.toMembers(tsDevices)) {
+                await this.syncMemberLinks(result, options, topologyId || null, networkId, members);
+            }
+
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(tsPlatformDevices.map(d => d.platformId)),
+                new Set(tsNetworks.map(n => n.platformId))
+            );
+
+        } catch (error) {
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        return result;
+    }
+}
@@ -5,7 +5,7 @@
  * API Docs: Available at https://your-uisp-hostname/api-docs/
  */
 
-import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult } from './base.js';
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions, PlatformLink, DeviceActionName, DeviceActionTarget } from './base.js';
 import { db, generateId, topologies, networks, devices } from '../db/index.js';
 import { eq } from 'drizzle-orm';
 
@@ -27,7 +27,9 @@ interface UISPDevice {
         cpu?: number;
         ram?: number;
         signal?: number;
-        distance?: number;
+        distance?: number; // Meters
+        downlinkCapacity?: number; // bit/s
+        uplinkCapacity?: number; // bit/s
     };
     ipAddress?: string;
     site?: {
@@ -68,6 +70,8 @@ interface UISPDataLink {
         };
     };
     state: string;
+    type?: string; // wireless, ethernet, pon, ...
+    ssid?: string;
     frequency?: number;
     signal?: {
         local?: number;
@@ -180,6 +184,8 @@ export class UISPConnector extends BaseConnector {
                     ram: dev.overview.ram,
                     signal: dev.overview.signal,
                     distance: dev.overview.distance,
+                    downlinkCapacity: dev.overview.downlinkCapacity,
+                    uplinkCapacity: dev.overview.uplinkCapacity,
                 },
             } as PlatformDevice;
         });
@@ -212,6 +218,57 @@ export class UISPConnector extends BaseConnector {
         return this.fetch<UISPDataLink[]>('/data-links');
     }
 
+    /**
+     * Data links as device-to-device links. Distance and capacity come from
+     * the station end's overview, falling back to the AP end.
+     */
+    async getLinks(platformDevices: PlatformDevice[]): Promise<PlatformLink[]> {
+        const dataLinks = await this.getDataLinks();
+        const byId = new Map(platformDevices.map(d => [d.platformId, d]));
+        const mbps = (bps: unknown) => typeof bps === 'number' ? Math.round(bps / 1e4) / 100 : undefined;
+
+        return dataLinks.map(link => {
+            const fromId = link.from.device.identification.id;
+            const toId = link.to.device.identification.id;
+            const ends = [byId.get(toId)?.metadata, byId.get(fromId)?.metadata];
+            const pick = (key: string) => ends.map(m => m?.[key]).find(v => typeof v === 'number');
+
+            let status: PlatformLink['status'] = 'unknown';
+            switch (link.state?.toLowerCase()) {
+                case 'active': status = 'up'; break;
+                case 'inactive':
+                case 'disconnected': status = 'down'; break;
+            }
+
+            let medium: PlatformLink['medium'];
+            switch (link.type?.toLowerCase()) {
+                case 'wireless': medium = 'wireless'; break;
+                case 'ethernet': medium = 'wired'; break;
+                case 'pon': medium = 'fiber'; break;
+                default: medium = link.frequency ? 'wireless' : 'other';
+            }
+
+            return {
+                platformId: link.id,
+                fromDeviceId: fromId,
+                toDeviceId: toId,
+                medium,
+                status,
+                frequencyMhz: link.frequency,
+                signalLocalDbm: link.signal?.local,
+                signalRemoteDbm: link.signal?.remote,
+                downlinkCapacityMbps: mbps(pick('downlinkCapacity')),
+                uplinkCapacityMbps: mbps(pick('uplinkCapacity')),
+                distanceM: pick('distance') as number | undefined,
+                metadata: {
+                    ssid: link.ssid,
+                    from: link.from.device.identification.name,
+                    to: link.to.device.identification.name,
+                },
+            };
+        });
+    }
+
     /**
      * Restart a device
      */
@@ -221,7 +278,18 @@ export class UISPConnector extends BaseConnector {
         });
     }
 
-    private async ensureTopology(): Promise<string> {
+    getDeviceActions(target: DeviceActionTarget): DeviceActionName[] {
+        return target.platformDeviceId ? ['restart'] : [];
+    }
+
+    async runDeviceAction(action: DeviceActionName, target: DeviceActionTarget): Promise<void> {
+        if (action !== 'restart' || !target.platformDeviceId) {
+            throw new Error(`UISP cannot ${action} this device`);
+        }
+        await this.restartDevice(target.platformDeviceId);
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
         if (this.topologyId) return this.topologyId;
 
         const existing = await db.select().from(topologies).where(eq(topologies.type, 'uisp'));
@@ -231,6 +299,9 @@ export class UISPConnector extends BaseConnector {
             return this.topologyId!;
         }
 
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
         const newTopology = {
             id: generateId(),
             name: 'UISP',
@@ -246,20 +317,11 @@ export class UISPConnector extends BaseConnector {
         return this.topologyId;
     }
 
-    async sync(): Promise<SyncResult> {
-        const result: SyncResult = {
-            success: true,
-            devicesFound: 0,
-            devicesCreated: 0,
-            devicesUpdated: 0,
-            networksFound: 0,
-            networksCreated: 0,
-            networksUpdated: 0,
-            errors: [],
-        };
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
 
         try {
-            const topologyId = await this.ensureTopology();
+            const topologyId = await this.ensureTopology(options.dryRun);
 
             // Sync networks (sites)
             const uispSites = await this.getNetworks();
@@ -270,6 +332,14 @@ export class UISPConnector extends BaseConnector {
                     const existing = await db.select().from(networks)
                         .where(eq(networks.platformNetworkId, site.platformId));
 
+                    const updates = {
+                        name: site.name,
+                        status: site.status,
+                        metadata: site.metadata,
+                        updatedAt: new Date(),
+                    };
+                    if (!this.planWrite(result, options, 'network', { platformId: site.platformId, name: site.name, type: 'site' }, existing[0], updates)) continue;
+
                     if (existing.length === 0) {
                         await db.insert(networks).values({
                             id: generateId(),
@@ -288,12 +358,7 @@ export class UISPConnector extends BaseConnector {
                         });
                         result.networksCreated++;
                     } else {
-                        await db.update(networks).set({
-                            name: site.name,
-                            status: site.status,
-                            metadata: site.metadata,
-                            updatedAt: new Date(),
-                        }).where(eq(networks.id, existing[0].id));
+                        await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
                         result.networksUpdated++;
                     }
                 } catch (error) {
@@ -307,14 +372,29 @@ export class UISPConnector extends BaseConnector {
 
             for (const dev of uispDevices) {
                 try {
+                    if (await this.syncMergedIdentity(result, options, dev)) continue;
+
                     const existing = await db.select().from(devices)
                         .where(eq(devices.platformDeviceId, dev.platformId));
 
+                    const updates = {
+                        name: dev.name,
+                        status: dev.status,
+                        lastSeen: dev.lastSeen || null,
+                        primaryIp: dev.ipAddress || null,
+                        firmwareVersion: (dev.metadata.firmwareVersion as string) || null,
+                        metadata: dev.metadata,
+                        updatedAt: new Date(),
+                    };
                     const deviceType = dev.type === 'access_point' ? 'access_point' : 'other';
+                    const item = { platformId: dev.platformId, name: dev.name, type: deviceType };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
 
                     if (existing.length === 0) {
                         await db.insert(devices).values({
-                            id: generateId(),
+                            id: deviceId,
                             name: dev.name,
                             type: deviceType as any,
                             manufacturer: 'Ubiquiti',
@@ -341,22 +421,53 @@ export class UISPConnector extends BaseConnector {
                         });
                         result.devicesCreated++;
                     } else {
-                        await db.update(devices).set({
-                            name: dev.name,
-                            status: dev.status,
-                            lastSeen: dev.lastSeen || null,
-                            primaryIp: dev.ipAddress || null,
-                            firmwareVersion: (dev.metadata.firmwareVersion as string) || null,
-                            metadata: dev.metadata,
-                            updatedAt: new Date(),
-                        }).where(eq(devices.id, existing[0].id));
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
                         result.devicesUpdated++;
                     }
+
+                    await this.recordIdentity(deviceId, dev);
                 } catch (error) {
                     result.errors.push(`Device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
             }
 
+            // Sites are the networks here, so each device is a member of its site
+            const membersBySite = new Map<string, PlatformMember[]>();
+            for (const dev of uispDevices) {
+                const siteId = (dev.metadata.site as { id?: string } | undefined)?.id;
+                if (!siteId) continue;
+                const members = membersBySite.get(siteId) || [];
+                members.push({
+                    platformId: dev.platformId,
+                    name: dev.name,
+                    networkId: siteId,
+                    ipAddress: dev.ipAddress,
+                    macAddress: dev.macAddress,
+                    authorized: true,
+                    online: dev.status === 'online',
+                    metadata: {},
+                });
+                membersBySite.set(siteId, members);
+            }
+            for (const [siteId, members] of membersBySite) {
+                await this.syncMemberLinks(result, options, topologyId || null, siteId, members);
+            }
+
+            // PtP / PtMP data links between devices, with RF metrics
+            try {
+                await this.syncDeviceLinks(result, options, await this.getLinks(uispDevices));
+            } catch (error) {
+                result.errors.push(`Data links: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(uispDevices.map(d => d.platformId)),
+                new Set(uispSites.map(s => s.platformId))
+            );
+
         } catch (error) {
             result.success = false;
             result.errors.push(error instanceof Error ? error.message : 'Unknown error');
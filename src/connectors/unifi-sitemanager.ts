@@ -8,7 +8,7 @@
  * @see https://apidoc-cdn.ui.com/network/v10.0.162/integration.json
  */
 
-import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult } from './base.js';
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions, DeviceActionName, DeviceActionTarget } from './base.js';
 import { db, generateId, topologies, networks, devices, sites as sitesTable } from '../db/index.js';
 import { eq } from 'drizzle-orm';
 import { classifyTrustZone } from '../utils/helpers.js';
@@ -120,6 +120,8 @@ interface SiteManagerNetwork {
 
 interface ExtendedDeviceData extends PlatformDevice {
     metadata: {
+        siteId: string;
+        hostId?: string;
         model: string;
         version: string;
         state: string;
@@ -216,7 +218,9 @@ export class UniFiSiteManagerConnector extends BaseConnector {
             throw new Error(`UniFi API error ${response.status}: ${errorMessage}`);
         }
 
-        return response.json() as Promise<T>;
+        // Actions answer with an empty body
+        const body = await response.text();
+        return (body ? JSON.parse(body) : undefined) as T;
     }
 
     /**
@@ -313,10 +317,47 @@ export class UniFiSiteManagerConnector extends BaseConnector {
         return this.fetchAllPages<SiteManagerNetwork>(`/v1/sites/${siteId}/networks`);
     }
 
+    /**
+     * POST /v1/sites/{siteId}/devices/{deviceId}/actions - Restart a device
+     */
+    async restartDevice(siteId: string, deviceId: string): Promise<void> {
+        await this.fetch(`/v1/sites/${siteId}/devices/${deviceId}/actions`, {
+            method: 'POST',
+            body: JSON.stringify({ action: 'RESTART' }),
+        });
+    }
+
     // ============================================================
     // BaseConnector Interface Implementation
     // ============================================================
 
+    /**
+     * The Integration API can restart adopted devices; it has no client blocking
+     */
+    getDeviceActions(target: DeviceActionTarget): DeviceActionName[] {
+        return target.platformDeviceId ? ['restart'] : [];
+    }
+
+    async runDeviceAction(action: DeviceActionName, target: DeviceActionTarget): Promise<void> {
+        if (action !== 'restart' || !target.platformDeviceId) {
+            throw new Error(`UniFi cannot ${action} this device`);
+        }
+        await this.restartDevice(await this.siteOfDevice(target.platformDeviceId), target.platformDeviceId);
+    }
+
+    /**
+     * The site a device belongs to: as recorded by the last sync, else by asking each site
+     */
+    private async siteOfDevice(deviceId: string): Promise<string> {
+        const recorded = (await this.findLocalDevice(deviceId))?.metadata?.siteId;
+        if (typeof recorded === 'string') return recorded;
+
+        for (const site of await this.getSites()) {
+            if ((await this.getSiteDevices(site.id)).some(d => d.id === deviceId)) return site.id;
+        }
+        throw new Error(`UniFi device ${deviceId} not found in any site`);
+    }
+
     /**
      * Set the current site for operations
      */
@@ -336,6 +377,8 @@ export class UniFiSiteManagerConnector extends BaseConnector {
             name: net.name,
             status: net.enabled ? 'active' : 'inactive',
             metadata: {
+                siteId,
+                hostId: this.config.consoleId,
                 vlan: net.vlanId,
                 management: net.management,
                 origin: net.metadata?.origin,
@@ -406,6 +449,9 @@ export class UniFiSiteManagerConnector extends BaseConnector {
                 status,
                 lastSeen: stats?.lastHeartbeatAt ? new Date(stats.lastHeartbeatAt) : undefined,
                 metadata: {
+                    // Matched by assignment rules' platformSiteId
+                    siteId,
+                    hostId: this.config.consoleId,
                     model: dev.model,
                     version: dev.firmwareVersion,
                     state: dev.state,
@@ -498,7 +544,7 @@ export class UniFiSiteManagerConnector extends BaseConnector {
     /**
      * Ensure topology exists in database
      */
-    private async ensureTopology(): Promise<string> {
+    private async ensureTopology(dryRun = false): Promise<string> {
         if (this.topologyId) return this.topologyId;
 
         const existing = await db.select().from(topologies).where(eq(topologies.type, 'unifi'));
@@ -508,6 +554,9 @@ export class UniFiSiteManagerConnector extends BaseConnector {
             return this.topologyId!;
         }
 
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
         const newTopology = {
             id: generateId(),
             name: 'UniFi',
@@ -526,32 +575,29 @@ export class UniFiSiteManagerConnector extends BaseConnector {
     /**
      * Sync all data to local database
      */
-    async sync(): Promise<SyncResult> {
-        const result: SyncResult = {
-            success: true,
-            devicesFound: 0,
-            devicesCreated: 0,
-            devicesUpdated: 0,
-            networksFound: 0,
-            networksCreated: 0,
-            networksUpdated: 0,
-            errors: [],
-        };
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
 
         try {
-            const topologyId = await this.ensureTopology();
+            const topologyId = await this.ensureTopology(options.dryRun);
 
             // Get all sites
             const unifiSites = await this.getSites();
             console.log(`[UniFi SM] Found ${unifiSites.length} sites`);
 
+            const seenDeviceIds = new Set<string>();
+            const seenNetworkIds = new Set<string>();
+            let complete = true;
+
             for (const site of unifiSites) {
                 this.setSite(site.id);
 
                 // Sync networks for this site
+                let siteNetworks: PlatformNetwork[] = [];
                 try {
-                    const siteNetworks = await this.getNetworks();
+                    siteNetworks = await this.getNetworks();
                     result.networksFound += siteNetworks.length;
+                    siteNetworks.forEach(n => seenNetworkIds.add(n.platformId));
 
                     for (const net of siteNetworks) {
                         try {
@@ -565,6 +611,17 @@ export class UniFiSiteManagerConnector extends BaseConnector {
                                 metadata: net.metadata,
                             });
 
+                            const updates = {
+                                name: net.name,
+                                vlan: (net.metadata.vlan as number) || null,
+                                status: net.status,
+                                trustZone,
+                                metadata: { ...net.metadata, siteId: site.id, siteName: site.name },
+                                updatedAt: new Date(),
+                            };
+                            const item = { platformId: net.platformId, name: net.name, type: 'unifi' };
+                            if (!this.planWrite(result, options, 'network', item, existing[0], updates)) continue;
+
                             if (existing.length === 0) {
                                 await db.insert(networks).values({
                                     id: generateId(),
@@ -584,14 +641,7 @@ export class UniFiSiteManagerConnector extends BaseConnector {
                                 });
                                 result.networksCreated++;
                             } else {
-                                await db.update(networks).set({
-                                    name: net.name,
-                                    vlan: (net.metadata.vlan as number) || null,
-                                    status: net.status,
-                                    trustZone,
-                                    metadata: { ...net.metadata, siteId: site.id, siteName: site.name },
-                                    updatedAt: new Date(),
-                                }).where(eq(networks.id, existing[0].id));
+                                await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
                                 result.networksUpdated++;
                             }
                         } catch (error) {
@@ -599,6 +649,7 @@ export class UniFiSiteManagerConnector extends BaseConnector {
                         }
                     }
                 } catch (error) {
+                    complete = false;
                     result.errors.push(`Site ${site.name} networks: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
 
@@ -606,20 +657,36 @@ export class UniFiSiteManagerConnector extends BaseConnector {
                 try {
                     const siteDevices = await this.getDevices();
                     result.devicesFound += siteDevices.length;
+                    siteDevices.forEach(d => seenDeviceIds.add(d.platformId));
 
                     for (const dev of siteDevices) {
                         try {
+                            if (await this.syncMergedIdentity(result, options, dev)) continue;
+
                             const existing = await db.select().from(devices)
                                 .where(eq(devices.platformDeviceId, dev.platformId));
 
+                            const updates = {
+                                name: dev.name,
+                                status: dev.status,
+                                lastSeen: dev.lastSeen || null,
+                                primaryIp: dev.ipAddress || null,
+                                firmwareVersion: (dev.metadata.version as string) || null,
+                                metadata: { ...dev.metadata, siteId: site.id, siteName: site.name, apiVersion: 'v1.0' },
+                                updatedAt: new Date(),
+                            };
                             const deviceType = dev.type === 'access_point' ? 'access_point'
                                 : dev.type === 'switch' ? 'switch'
                                     : dev.type === 'router' ? 'router'
                                         : 'other';
+                            const item = { platformId: dev.platformId, name: dev.name, type: deviceType };
+                            if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                            const deviceId = existing[0]?.id || generateId();
 
                             if (existing.length === 0) {
                                 await db.insert(devices).values({
-                                    id: generateId(),
+                                    id: deviceId,
                                     name: dev.name,
                                     type: deviceType as any,
                                     manufacturer: 'Ubiquiti',
@@ -646,26 +713,30 @@ export class UniFiSiteManagerConnector extends BaseConnector {
                                 });
                                 result.devicesCreated++;
                             } else {
-                                await db.update(devices).set({
-                                    name: dev.name,
-                                    status: dev.status,
-                                    lastSeen: dev.lastSeen || null,
-                                    primaryIp: dev.ipAddress || null,
-                                    firmwareVersion: (dev.metadata.version as string) || null,
-                                    metadata: { ...dev.metadata, siteId: site.id, siteName: site.name, apiVersion: 'v1.0' },
-                                    updatedAt: new Date(),
-                                }).where(eq(devices.id, existing[0].id));
+                                await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
                                 result.devicesUpdated++;
                             }
+
+                            await this.recordIdentity(deviceId, dev);
                         } catch (error) {
                             result.errors.push(`Device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
                         }
                     }
+
+                    for (const [networkId, members] of this.membersByCidr(siteDevices, siteNetworks)) {
+                        await this.syncMemberLinks(result, options, topologyId || null, networkId, members);
+                    }
                 } catch (error) {
+                    complete = false;
                     result.errors.push(`Site ${site.name} devices: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
             }
 
+            // A site that failed to load would make all of its items look missing
+            if (complete) {
+                await this.reconcile(result, options, topologyId || null, seenDeviceIds, seenNetworkIds);
+            }
+
         } catch (error) {
             result.success = false;
             result.errors.push(error instanceof Error ? error.message : 'Unknown error');
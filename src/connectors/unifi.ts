@@ -5,7 +5,7 @@
  * Supports both official and community-documented API endpoints
  */
 
-import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult } from './base.js';
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions, DeviceActionName, DeviceActionTarget } from './base.js';
 import { db, generateId, topologies, networks, devices, deviceNetworkLinks, sites, locations } from '../db/index.js';
 import { eq } from 'drizzle-orm';
 
@@ -208,6 +208,7 @@ export class UniFiConnector extends BaseConnector {
                     adopted: dev.adopted,
                     uptime: dev.uptime,
                     satisfaction: dev.satisfaction,
+                    siteId: this.currentSite,
                 },
             } as PlatformDevice;
         });
@@ -293,7 +294,29 @@ export class UniFiConnector extends BaseConnector {
         });
     }
 
-    private async ensureTopology(): Promise<string> {
+    /**
+     * Adopted UniFi devices can be restarted and provisioned; anything else
+     * with a MAC may be a client, which can be blocked
+     */
+    getDeviceActions(target: DeviceActionTarget): DeviceActionName[] {
+        if (!target.macAddress) return [];
+        return target.platformDeviceId ? ['restart', 'provision'] : ['block', 'unblock'];
+    }
+
+    async runDeviceAction(action: DeviceActionName, target: DeviceActionTarget): Promise<void> {
+        if (!this.getDeviceActions(target).includes(action)) {
+            throw new Error(`UniFi cannot ${action} this device`);
+        }
+        const mac = target.macAddress!.toLowerCase();
+        switch (action) {
+            case 'restart': return this.restartDevice(mac);
+            case 'provision': return this.forceProvision(mac);
+            case 'block': return this.blockClient(mac);
+            case 'unblock': return this.unblockClient(mac);
+        }
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
         if (this.topologyId) return this.topologyId;
 
         const existing = await db.select().from(topologies).where(eq(topologies.type, 'unifi'));
@@ -303,6 +326,9 @@ export class UniFiConnector extends BaseConnector {
             return this.topologyId!;
         }
 
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
         const newTopology = {
             id: generateId(),
             name: 'UniFi',
@@ -318,20 +344,11 @@ export class UniFiConnector extends BaseConnector {
         return this.topologyId;
     }
 
-    async sync(): Promise<SyncResult> {
-        const result: SyncResult = {
-            success: true,
-            devicesFound: 0,
-            devicesCreated: 0,
-            devicesUpdated: 0,
-            networksFound: 0,
-            networksCreated: 0,
-            networksUpdated: 0,
-            errors: [],
-        };
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
 
         try {
-            const topologyId = await this.ensureTopology();
+            const topologyId = await this.ensureTopology(options.dryRun);
 
             // Sync networks
             const unifiNetworks = await this.getNetworks();
@@ -342,6 +359,16 @@ export class UniFiConnector extends BaseConnector {
                     const existing = await db.select().from(networks)
                         .where(eq(networks.platformNetworkId, net.platformId));
 
+                    const updates = {
+                        name: net.name,
+                        cidr: net.cidr || null,
+                        vlan: (net.metadata.vlan as number) || null,
+                        status: net.status,
+                        metadata: net.metadata,
+                        updatedAt: new Date(),
+                    };
+                    if (!this.planWrite(result, options, 'network', { platformId: net.platformId, name: net.name, type: 'unifi' }, existing[0], updates)) continue;
+
                     if (existing.length === 0) {
                         await db.insert(networks).values({
                             id: generateId(),
@@ -360,14 +387,7 @@ export class UniFiConnector extends BaseConnector {
                         });
                         result.networksCreated++;
                     } else {
-                        await db.update(networks).set({
-                            name: net.name,
-                            cidr: net.cidr || null,
-                            vlan: (net.metadata.vlan as number) || null,
-                            status: net.status,
-                            metadata: net.metadata,
-                            updatedAt: new Date(),
-                        }).where(eq(networks.id, existing[0].id));
+                        await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
                         result.networksUpdated++;
                     }
                 } catch (error) {
@@ -381,17 +401,32 @@ export class UniFiConnector extends BaseConnector {
 
             for (const dev of unifiDevices) {
                 try {
+                    if (await this.syncMergedIdentity(result, options, dev)) continue;
+
                     const existing = await db.select().from(devices)
                         .where(eq(devices.platformDeviceId, dev.platformId));
 
+                    const updates = {
+                        name: dev.name,
+                        status: dev.status,
+                        lastSeen: dev.lastSeen || null,
+                        primaryIp: dev.ipAddress || null,
+                        firmwareVersion: (dev.metadata.version as string) || null,
+                        metadata: dev.metadata,
+                        updatedAt: new Date(),
+                    };
                     const deviceType = dev.type === 'access_point' ? 'access_point'
                         : dev.type === 'switch' ? 'switch'
                             : dev.type === 'router' ? 'router'
                                 : 'other';
+                    const item = { platformId: dev.platformId, name: dev.name, type: deviceType };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
 
                     if (existing.length === 0) {
                         await db.insert(devices).values({
-                            id: generateId(),
+                            id: deviceId,
                             name: dev.name,
                             type: deviceType as any,
                             manufacturer: 'Ubiquiti',
@@ -418,22 +453,29 @@ export class UniFiConnector extends BaseConnector {
                         });
                         result.devicesCreated++;
                     } else {
-                        await db.update(devices).set({
-                            name: dev.name,
-                            status: dev.status,
-                            lastSeen: dev.lastSeen || null,
-                            primaryIp: dev.ipAddress || null,
-                            firmwareVersion: (dev.metadata.version as string) || null,
-                            metadata: dev.metadata,
-                            updatedAt: new Date(),
-                        }).where(eq(devices.id, existing[0].id));
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
                         result.devicesUpdated++;
                     }
+
+                    await this.recordIdentity(deviceId, dev);
                 } catch (error) {
                     result.errors.push(`Device ${dev.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
             }
 
+            // Infrastructure devices belong to the networks their addresses fall in
+            for (const [networkId, members] of this.membersByCidr(unifiDevices, unifiNetworks)) {
+                await this.syncMemberLinks(result, options, topologyId || null, networkId, members);
+            }
+
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(unifiDevices.map(d => d.platformId)),
+                new Set(unifiNetworks.map(n => n.platformId))
+            );
+
         } catch (error) {
             result.success = false;
             result.errors.push(error instanceof Error ? error.message : 'Unknown error');
@@ -0,0 +1,164 @@
+/**
+ * WireGuard connector tests: `wg show dump` parsing and syncs of fixture dumps
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, initializeDatabase } from '../db/index.js';
+import { devices, networks, deviceNetworkLinks } from '../db/schema.js';
+import { WireGuardConnector, parseWgDump } from './wireguard.js';
+
+const now = Math.floor(Date.now() / 1000);
+
+const key = (c: string) => `${c.repeat(43)}=`;
+
+const SERVER_PRIVATE = key('P');
+const PEERS = {
+    laptop: key('L'),
+    phone: key('M'),
+    office: key('O'),
+    retired: key('R'),
+    backup: key('B'),
+};
+
+/**
+ * `wg show all dump` of a gateway with a road-warrior interface (wg0) and a
+ * site-to-site interface (wg1)
+ */
+const GATEWAY_DUMP = [
+    ['wg0', SERVER_PRIVATE, key('S'), '51820', 'off'],
+    // Handshake 30 s ago, preshared key, keepalive
+    ['wg0', PEERS.laptop, key('K'), '203.0.113.7:51413', '10.8.0.2/32', String(now - 30), '1024', '2048', '25'],
+    // Stale handshake an hour ago, IPv4 and IPv6 host addresses
+    ['wg0', PEERS.phone, '(none)', '198.51.100.20:40001', '10.8.0.3/32,fd00:8::3/128', String(now - 3600), '10', '20', 'off'],
+    // Never completed a handshake, no endpoint and no allowed IPs
+    ['wg0', PEERS.retired, '(none)', '(none)', '(none)', '0', '0', '0', 'off'],
+    ['wg1', SERVER_PRIVATE, key('T'), '(none)', '0xca6c'],
+    // Site router with only its LAN behind it
+    ['wg1', PEERS.office, '(none)', '192.0.2.44:51820', '10.20.0.0/24,10.21.0.0/24', String(now - 10), '5000', '6000', 'off'],
+].map(fields => fields.join('\t')).join('\n');
+
+describe('WireGuard', () => {
+    describe('parseWgDump', () => {
+        it('reads every interface and its peers', () => {
+            const interfaces = parseWgDump(GATEWAY_DUMP);
+
+            expect(interfaces.map(i => [i.name, i.listenPort, i.fwmark, i.peers.length])).toEqual([
+                ['wg0', 51820, null, 3],
+                ['wg1', null, '0xca6c', 1],
+            ]);
+            expect(interfaces[0].publicKey).toBe(key('S'));
+            expect(JSON.stringify(interfaces)).not.toContain(SERVER_PRIVATE);
+        });
+
+        it('turns (none), off and a zero handshake into nulls', () => {
+            const [wg0] = parseWgDump(GATEWAY_DUMP);
+            const [laptop, phone, retired] = wg0.peers;
+
+            expect(laptop).toEqual({
+                publicKey: PEERS.laptop,
+                hasPresharedKey: true,
+                endpoint: '203.0.113.7:51413',
+                allowedIps: ['10.8.0.2/32'],
+                latestHandshake: new Date((now - 30) * 1000),
+                transferRx: 1024,
+                transferTx: 2048,
+                persistentKeepalive: 25,
+            });
+            expect(phone).toMatchObject({ hasPresharedKey: false, allowedIps: ['10.8.0.3/32', 'fd00:8::3/128'], persistentKeepalive: null });
+            expect(retired).toMatchObject({ endpoint: null, allowedIps: [], latestHandshake: null });
+        });
+
+        it('attributes single-interface dumps to the default interface', () => {
+            const dump = [
+                [SERVER_PRIVATE, key('S'), '51820', 'off'],
+                [PEERS.laptop, '(none)', '(none)', '10.8.0.2/32', '0', '0', '0', 'off'],
+            ].map(fields => fields.join('\t')).join('\r\n');
+
+            const interfaces = parseWgDump(dump, 'wg7');
+            expect(interfaces).toHaveLength(1);
+            expect(interfaces[0]).toMatchObject({ name: 'wg7', listenPort: 51820 });
+            expect(interfaces[0].peers[0].publicKey).toBe(PEERS.laptop);
+        });
+
+        it('rejects a malformed line', () => {
+            expect(() => parseWgDump(`${GATEWAY_DUMP}\nwg0\tgarbage\t1`)).toThrow('Unrecognised wg dump line with 3 fields');
+        });
+    });
+
+    describe('sync', () => {
+        let connector: WireGuardConnector;
+
+        beforeAll(async () => {
+            await initializeDatabase({ autoMigrate: true });
+            connector = new WireGuardConnector({ host: 'gw1', staleHandshakeSeconds: 300 });
+        });
+
+        it('creates a network per interface and a device per peer', async () => {
+            const result = await connector.sync({ dump: GATEWAY_DUMP, host: 'gw1' });
+
+            expect(result.errors).toEqual([]);
+            expect(result).toMatchObject({
+                success: true,
+                networksFound: 2,
+                networksCreated: 2,
+                devicesFound: 4,
+                devicesCreated: 4,
+            });
+
+            const rows = await db.select().from(networks);
+            expect(rows.map(n => [n.platformNetworkId, n.status]).sort()).toEqual([
+                ['wireguard:gw1:wg0', 'active'],
+                ['wireguard:gw1:wg1', 'active'],
+            ]);
+        });
+
+        it('marks peers by the age of their latest handshake', async () => {
+            const statusOf = async (publicKey: string) =>
+                (await db.select().from(devices).where(eq(devices.platformDeviceId, publicKey)))[0];
+
+            expect(await statusOf(PEERS.laptop)).toMatchObject({ status: 'online', primaryIp: '10.8.0.2', name: 'WireGuard peer 10.8.0.2' });
+            expect(await statusOf(PEERS.phone)).toMatchObject({ status: 'degraded', primaryIp: '10.8.0.3' });
+            expect(await statusOf(PEERS.retired)).toMatchObject({ status: 'offline', lastSeen: null });
+        });
+
+        it('links a peer with only subnets behind it without an address', async () => {
+            const [office] = await db.select().from(devices).where(eq(devices.platformDeviceId, PEERS.office));
+            expect(office).toMatchObject({ status: 'online', primaryIp: null });
+            expect(office.metadata).toMatchObject({ interface: 'wg1', allowedIps: ['10.20.0.0/24', '10.21.0.0/24'] });
+
+            const links = await db.select().from(deviceNetworkLinks).where(eq(deviceNetworkLinks.deviceId, office.id));
+            expect(links).toHaveLength(1);
+            expect(links[0]).toMatchObject({ ipAddress: null, platformMemberId: PEERS.office });
+
+            const [phone] = await db.select().from(devices).where(eq(devices.platformDeviceId, PEERS.phone));
+            const phoneLinks = await db.select().from(deviceNetworkLinks).where(eq(deviceNetworkLinks.deviceId, phone.id));
+            expect(phoneLinks.map(l => l.ipAddress).sort()).toEqual(['10.8.0.3', 'fd00:8::3']);
+        });
+
+        it('keeps the interfaces of another host apart', async () => {
+            const dump = [
+                ['wg0', SERVER_PRIVATE, key('U'), '51820', 'off'],
+                ['wg0', PEERS.backup, '(none)', '(none)', '10.9.0.2/32', String(now - 5), '0', '0', 'off'],
+            ].map(fields => fields.join('\t')).join('\n');
+
+            const result = await connector.sync({ dump, host: 'gw2' });
+            expect(result).toMatchObject({ success: true, networksCreated: 1, devicesCreated: 1, devicesRemoved: 0, networksRemoved: 0 });
+
+            const rows = await db.select().from(networks);
+            expect(rows.map(n => n.platformNetworkId).sort()).toEqual([
+                'wireguard:gw1:wg0',
+                'wireguard:gw1:wg1',
+                'wireguard:gw2:wg0',
+            ]);
+        });
+
+        it('fails without writing on a malformed dump', async () => {
+            const result = await connector.sync({ dump: `${GATEWAY_DUMP}\nnot a dump line`, host: 'gw1' });
+
+            expect(result.success).toBe(false);
+            expect(result.errors).toEqual(['Unrecognised wg dump line with 1 fields']);
+            expect(result.devicesUpdated).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,431 @@
+/**
+ * WireGuard Connector
+ *
+ * Imports WireGuard state from `wg show all dump` output, either by running
+ * the command locally, reading a dump file, or from text uploaded through the
+ * API. Each interface becomes a network and each peer a device linked to it.
+ *
+ * Dumps are tagged with the host they came from, so interfaces such as wg0 on
+ * different servers stay separate and one host's import never retires another's.
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { readFile } from 'fs/promises';
+import { hostname } from 'os';
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions } from './base.js';
+import { db, generateId, topologies, networks, devices } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+
+const execAsync = promisify(exec);
+
+export interface WireGuardPeer {
+    publicKey: string;
+    hasPresharedKey: boolean;
+    endpoint: string | null;
+    allowedIps: string[];
+    /** null when the peer has never completed a handshake */
+    latestHandshake: Date | null;
+    transferRx: number;
+    transferTx: number;
+    persistentKeepalive: number | null;
+}
+
+export interface WireGuardInterface {
+    name: string;
+    publicKey: string;
+    listenPort: number | null;
+    fwmark: string | null;
+    peers: WireGuardPeer[];
+}
+
+const none = (value: string | undefined): string | null =>
+    !value || value === '(none)' || value === 'off' ? null : value;
+
+/**
+ * Parse `wg show all dump` output. Also accepts `wg show <iface> dump`, which
+ * omits the interface column; those lines are attributed to `defaultInterface`.
+ * Private keys are never kept.
+ */
+export function parseWgDump(dump: string, defaultInterface = 'wg0'): WireGuardInterface[] {
+    const interfaces = new Map<string, WireGuardInterface>();
+
+    const getInterface = (name: string): WireGuardInterface => {
+        let iface = interfaces.get(name);
+        if (!iface) {
+            iface = { name, publicKey: '', listenPort: null, fwmark: null, peers: [] };
+            interfaces.set(name, iface);
+        }
+        return iface;
+    };
+
+    for (const rawLine of dump.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        let fields = line.split('\t');
+        // Single-interface dumps have one column less
+        if (fields.length === 4 || fields.length === 8) {
+            fields = [defaultInterface, ...fields];
+        }
+
+        if (fields.length === 5) {
+            // interface, private-key, public-key, listen-port, fwmark
+            const iface = getInterface(fields[0]);
+            iface.publicKey = fields[2];
+            iface.listenPort = none(fields[3]) ? parseInt(fields[3], 10) : null;
+            iface.fwmark = none(fields[4]);
+        } else if (fields.length === 9) {
+            // interface, public-key, preshared-key, endpoint, allowed-ips,
+            // latest-handshake, transfer-rx, transfer-tx, persistent-keepalive
+            const handshake = parseInt(fields[5], 10);
+            getInterface(fields[0]).peers.push({
+                publicKey: fields[1],
+                hasPresharedKey: none(fields[2]) !== null,
+                endpoint: none(fields[3]),
+                allowedIps: none(fields[4])?.split(',').map(ip => ip.trim()).filter(Boolean) || [],
+                latestHandshake: handshake > 0 ? new Date(handshake * 1000) : null,
+                transferRx: parseInt(fields[6], 10) || 0,
+                transferTx: parseInt(fields[7], 10) || 0,
+                persistentKeepalive: none(fields[8]) ? parseInt(fields[8], 10) : null,
+            });
+        } else {
+            throw new Error(`Unrecognised wg dump line with ${fields.length} fields`);
+        }
+    }
+
+    return [...interfaces.values()];
+}
+
+/**
+ * Addresses that identify the peer itself (/32 and /128 allowed IPs)
+ */
+function hostAddresses(allowedIps: string[]): string[] {
+    return allowedIps
+        .filter(cidr => cidr.endsWith('/32') || cidr.endsWith('/128'))
+        .map(cidr => cidr.split('/')[0]);
+}
+
+export interface WireGuardSource {
+    /** Command that prints the dump, e.g. "sudo wg show all dump" */
+    command?: string;
+    /** File containing a saved dump */
+    dumpFile?: string;
+    /** Host name the dump belongs to (default: this machine's hostname) */
+    host?: string;
+    /** Handshakes older than this mark the peer degraded (default 300) */
+    staleHandshakeSeconds?: number;
+}
+
+export class WireGuardConnector extends BaseConnector {
+    private source: WireGuardSource;
+    private host: string;
+    private staleMs: number;
+    private topologyId: string | null = null;
+
+    constructor(source: WireGuardSource = {}) {
+        super('WireGuard', 'wireguard');
+        this.source = source;
+        this.host = source.host || hostname();
+        this.staleMs = (source.staleHandshakeSeconds ?? 300) * 1000;
+    }
+
+    /**
+     * Read the dump from the configured command or file
+     */
+    private async readDump(): Promise<string> {
+        if (this.source.dumpFile) {
+            return readFile(this.source.dumpFile, 'utf8');
+        }
+        const { stdout } = await execAsync(this.source.command || 'wg show all dump', { timeout: 15000 });
+        return stdout;
+    }
+
+    async testConnection(): Promise<{ success: boolean; message: string }> {
+        try {
+            const interfaces = parseWgDump(await this.readDump());
+            const peers = interfaces.reduce((n, i) => n + i.peers.length, 0);
+            return {
+                success: true,
+                message: `Read ${interfaces.length} WireGuard interface(s) with ${peers} peer(s) on ${this.host}`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: error instanceof Error ? error.message : 'Failed to read WireGuard state',
+            };
+        }
+    }
+
+    async getNetworks(): Promise<PlatformNetwork[]> {
+        return this.toNetworks(parseWgDump(await this.readDump()), this.host);
+    }
+
+    async getDevices(): Promise<PlatformDevice[]> {
+        return this.toDevices(parseWgDump(await this.readDump()), this.host);
+    }
+
+    async getNetworkMembers(networkId: string): Promise<PlatformMember[]> {
+        return this.toMembers(parseWgDump(await this.readDump()), this.host).get(networkId) || [];
+    }
+
+    private networkId(host: string, iface: string): string {
+        return `wireguard:${host}:${iface}`;
+    }
+
+    private peerStatus(peer: WireGuardPeer): PlatformDevice['status'] {
+        if (!peer.latestHandshake) return 'offline';
+        return Date.now() - peer.latestHandshake.getTime() > this.staleMs ? 'degraded' : 'online';
+    }
+
+    private toNetworks(interfaces: WireGuardInterface[], host: string): PlatformNetwork[] {
+        return interfaces.map(iface => ({
+            platformId: this.networkId(host, iface.name),
+            name: `${iface.name} (${host})`,
+            status: iface.peers.some(p => this.peerStatus(p) === 'online') ? 'active' : 'inactive',
+            metadata: {
+                host,
+                interface: iface.name,
+                publicKey: iface.publicKey,
+                listenPort: iface.listenPort,
+                fwmark: iface.fwmark,
+                peerCount: iface.peers.length,
+            },
+        }) as PlatformNetwork);
+    }
+
+    private toDevices(interfaces: WireGuardInterface[], host: string): PlatformDevice[] {
+        const now = Date.now();
+        const result = new Map<string, PlatformDevice>();
+
+        for (const iface of interfaces) {
+            for (const peer of iface.peers) {
+                const addresses = hostAddresses(peer.allowedIps);
+                result.set(peer.publicKey, {
+                    platformId: peer.publicKey,
+                    name: `WireGuard peer ${addresses[0] || peer.publicKey.slice(0, 8)}`,
+                    type: 'other',
+                    ipAddress: addresses[0],
+                    status: this.peerStatus(peer),
+                    lastSeen: peer.latestHandshake || undefined,
+                    metadata: {
+                        host,
+                        interface: iface.name,
+                        publicKey: peer.publicKey,
+                        endpoint: peer.endpoint,
+                        allowedIps: peer.allowedIps,
+                        latestHandshake: peer.latestHandshake?.toISOString() ?? null,
+                        handshakeAgeSeconds: peer.latestHandshake
+                            ? Math.round((now - peer.latestHandshake.getTime()) / 1000)
+                            : null,
+                        transferRx: peer.transferRx,
+                        transferTx: peer.transferTx,
+                        persistentKeepalive: peer.persistentKeepalive,
+                        hasPresharedKey: peer.hasPresharedKey,
+                    },
+                });
+            }
+        }
+
+        return [...result.values()];
+    }
+
+    private toMembers(interfaces: WireGuardInterface[], host: string): Map<string, PlatformMember[]> {
+        return new Map(interfaces.map(iface => {
+            const networkId = this.networkId(host, iface.name);
+            return [networkId, iface.peers.map(peer => {
+                const addresses = hostAddresses(peer.allowedIps);
+                return {
+                    platformId: peer.publicKey,
+                    networkId,
+                    ipAddress: addresses[0],
+                    ipAddresses: addresses,
+                    authorized: true,
+                    online: this.peerStatus(peer) === 'online',
+                    metadata: {},
+                };
+            })];
+        }));
+    }
+
+    private async ensureTopology(dryRun = false): Promise<string> {
+        if (this.topologyId) return this.topologyId;
+
+        const existing = await db.select().from(topologies).where(eq(topologies.type, 'wireguard'));
+
+        if (existing.length > 0) {
+            this.topologyId = existing[0].id;
+            return this.topologyId!;
+        }
+
+        // A dry run never creates the topology
+        if (dryRun) return '';
+
+        const newTopology = {
+            id: generateId(),
+            name: 'WireGuard',
+            type: 'wireguard' as const,
+            description: 'WireGuard tunnels and peers',
+            platformConfig: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+
+        await db.insert(topologies).values(newTopology);
+        this.topologyId = newTopology.id;
+        return this.topologyId;
+    }
+
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        if (options.dump !== undefined) {
+            return this.syncDump(options.dump, options, options.host || this.host);
+        }
+
+        let dump: string;
+        try {
+            dump = await this.readDump();
+        } catch (error) {
+            const result = this.createSyncResult(options);
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Failed to read WireGuard state');
+            return result;
+        }
+        return this.syncDump(dump, options);
+    }
+
+    /**
+     * Sync from dump text, e.g. a file uploaded for another host
+     */
+    private async syncDump(dump: string, options: SyncOptions = {}, host = this.host): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
+
+        try {
+            const interfaces = parseWgDump(dump);
+            const topologyId = await this.ensureTopology(options.dryRun);
+
+            const wgNetworks = this.toNetworks(interfaces, host);
+            result.networksFound = wgNetworks.length;
+
+            for (const net of wgNetworks) {
+                try {
+                    const existing = await db.select().from(networks)
+                        .where(eq(networks.platformNetworkId, net.platformId));
+
+                    const updates = {
+                        status: net.status,
+                        metadata: net.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: net.platformId, name: net.name, type: 'wireguard' };
+                    if (!this.planWrite(result, options, 'network', item, existing[0], updates)) continue;
+
+                    if (existing.length === 0) {
+                        await db.insert(networks).values({
+                            id: generateId(),
+                            topologyId,
+                            name: net.name,
+                            description: `WireGuard interface ${net.metadata.interface} on ${host}`,
+                            cidr: null,
+                            vlan: null,
+                            platformNetworkId: net.platformId,
+                            gatewayIp: null,
+                            dnsServers: null,
+                            status: net.status,
+                            metadata: net.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.networksCreated++;
+                    } else {
+                        await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
+                        result.networksUpdated++;
+                    }
+                } catch (error) {
+                    result.errors.push(`Interface ${net.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            const wgDevices = this.toDevices(interfaces, host);
+            result.devicesFound = wgDevices.length;
+
+            for (const dev of wgDevices) {
+                try {
+                    if (await this.syncMergedIdentity(result, options, dev)) continue;
+
+                    const existing = await db.select().from(devices)
+                        .where(eq(devices.platformDeviceId, dev.platformId));
+
+                    // Peers have no name of their own, so a name given locally is kept
+                    const updates = {
+                        status: dev.status,
+                        lastSeen: dev.lastSeen || existing[0]?.lastSeen || null,
+                        primaryIp: dev.ipAddress || null,
+                        metadata: dev.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: dev.platformId, name: existing[0]?.name || dev.name, type: 'other' };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
+
+                    if (existing.length === 0) {
+                        await db.insert(devices).values({
+                            id: deviceId,
+                            name: dev.name,
+                            type: 'other',
+                            manufacturer: null,
+                            model: null,
+                            serialNumber: null,
+                            firmwareVersion: null,
+                            locationId: null,
+                            vehicleId: null,
+                            status: dev.status,
+                            lastSeen: dev.lastSeen || null,
+                            primaryIp: dev.ipAddress || null,
+                            primaryMac: null,
+                            hostname: null,
+                            managementUrl: null,
+                            sshPort: null,
+                            httpPort: null,
+                            platformType: 'wireguard',
+                            platformDeviceId: dev.platformId,
+                            notes: null,
+                            tags: null,
+                            metadata: dev.metadata,
+                            createdAt: new Date(),
+                            updatedAt: new Date(),
+                        });
+                        result.devicesCreated++;
+                    } else {
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
+                        result.devicesUpdated++;
+                    }
+
+                    await this.recordIdentity(deviceId, dev);
+                } catch (error) {
+                    result.errors.push(`Peer ${dev.platformId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+
+            for (const [networkId, members] of this.toMembers(interfaces, host)) {
+                await this.syncMemberLinks(result, options, topologyId || null, networkId, members);
+            }
+
+            // Rows last seen on other hosts are not part of this snapshot
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(wgDevices.map(d => d.platformId)),
+                new Set(wgNetworks.map(n => n.platformId)),
+                row => row.metadata?.host === host
+            );
+
+        } catch (error) {
+            result.success = false;
+            result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        return result;
+    }
+}
@@ -5,7 +5,7 @@
  * API Docs: https://docs.zerotier.com/central/v1
  */
 
-import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult } from './base.js';
+import { BaseConnector, PlatformDevice, PlatformNetwork, PlatformMember, SyncResult, SyncOptions } from './base.js';
 import { db, generateId, topologies, networks, devices, deviceNetworkLinks } from '../db/index.js';
 import { eq } from 'drizzle-orm';
 
@@ -35,14 +35,17 @@ interface ZeroTierNetwork {
     creationTime: number;
 }
 
-interface ZeroTierMember {
+export interface ZeroTierMember {
     nodeId: string;
     networkId: string;
     name?: string;
     description?: string;
+    hidden?: boolean;
     config: {
         authorized: boolean;
         ipAssignments: string[];
+        /** [tagId, value] pairs used by flow rules */
+        tags?: Array<[number, number]>;
     };
     lastOnline: number;
     physicalAddress?: string;
@@ -113,39 +116,50 @@ export class ZeroTierConnector extends BaseConnector {
     async getDevices(): Promise<PlatformDevice[]> {
         // ZeroTier devices are network members, so we need to get all networks first
         const ztNetworks = await this.fetch<ZeroTierNetwork[]>('/network');
-        const allDevices: PlatformDevice[] = [];
+        const allMembers: PlatformMember[] = [];
 
         for (const network of ztNetworks) {
-            const members = await this.getNetworkMembers(network.id);
-            members.forEach(member => {
-                // Check if device already exists in our list
-                const existing = allDevices.find(d => d.platformId === member.platformId);
-                if (!existing) {
-                    allDevices.push({
-                        platformId: member.platformId,
-                        name: member.name || `ZT Node ${member.platformId.substring(0, 8)}`,
-                        type: 'other',
-                        ipAddress: member.ipAddress,
-                        macAddress: member.macAddress,
-                        status: member.online ? 'online' : 'offline',
-                        lastSeen: member.metadata.lastOnline ? new Date(member.metadata.lastOnline as number) : undefined,
-                        metadata: member.metadata,
-                    });
-                }
-            });
+            allMembers.push(...await this.getNetworkMembers(network.id));
         }
 
+        return this.membersToDevices(allMembers);
+    }
+
+    /**
+     * Collapse network members into one device per node
+     */
+    private membersToDevices(members: PlatformMember[]): PlatformDevice[] {
+        const allDevices: PlatformDevice[] = [];
+
+        members.forEach(member => {
+            // Check if device already exists in our list
+            const existing = allDevices.find(d => d.platformId === member.platformId);
+            if (!existing) {
+                allDevices.push({
+                    platformId: member.platformId,
+                    name: member.name || `ZT Node ${member.platformId.substring(0, 8)}`,
+                    type: 'other',
+                    ipAddress: member.ipAddress,
+                    macAddress: member.macAddress,
+                    status: member.online ? 'online' : 'offline',
+                    lastSeen: member.metadata.lastOnline ? new Date(member.metadata.lastOnline as number) : undefined,
+                    metadata: member.metadata,
+                });
+            }
+        });
+
         return allDevices;
     }
 
     async getNetworkMembers(networkId: string): Promise<PlatformMember[]> {
-        const members = await this.fetch<ZeroTierMember[]>(`/network/${networkId}/member`);
+        const members = await this.fetch<ZeroTierMember[]>(`/network/${encodeURIComponent(networkId)}/member`);
 
         return members.map(member => ({
             platformId: member.nodeId,
             name: member.name || member.description,
             networkId: member.networkId,
             ipAddress: member.config.ipAssignments[0],
+            ipAddresses: member.config.ipAssignments,
             macAddress: undefined, // ZeroTier uses node IDs, not MACs
             authorized: member.config.authorized,
             online: Date.now() - member.lastOnline < 300000, // Online if seen in last 5 minutes
@@ -164,7 +178,7 @@ export class ZeroTierConnector extends BaseConnector {
      * Authorize a member on a network
      */
     async authorizeMember(networkId: string, memberId: string): Promise<void> {
-        await this.fetch(`/network/${networkId}/member/${memberId}`, {
+        await this.fetch(`/network/${encodeURIComponent(networkId)}/member/${encodeURIComponent(memberId)}`, {
             method: 'POST',
             body: JSON.stringify({
                 config: { authorized: true },
@@ -176,7 +190,7 @@ export class ZeroTierConnector extends BaseConnector {
      * Deauthorize a member on a network
      */
     async deauthorizeMember(networkId: string, memberId: string): Promise<void> {
-        await this.fetch(`/network/${networkId}/member/${memberId}`, {
+        await this.fetch(`/network/${encodeURIComponent(networkId)}/member/${encodeURIComponent(memberId)}`, {
             method: 'POST',
             body: JSON.stringify({
                 config: { authorized: false },
@@ -185,9 +199,49 @@ export class ZeroTierConnector extends BaseConnector {
     }
 
     /**
-     * Get or create the ZeroTier topology in the database
+     * Get a single member with its raw ZeroTier configuration
+     */
+    async getMember(networkId: string, memberId: string): Promise<ZeroTierMember> {
+        return this.fetch<ZeroTierMember>(`/network/${encodeURIComponent(networkId)}/member/${encodeURIComponent(memberId)}`);
+    }
+
+    /**
+     * Get raw members of a network, including hidden ones
+     */
+    async listMembers(networkId: string): Promise<ZeroTierMember[]> {
+        return this.fetch<ZeroTierMember[]>(`/network/${encodeURIComponent(networkId)}/member`);
+    }
+
+    /**
+     * Change a member's name, description, authorization, IP assignments or tags
+     */
+    async updateMember(networkId: string, memberId: string, updates: {
+        name?: string;
+        description?: string;
+        authorized?: boolean;
+        ipAssignments?: string[];
+        tags?: Array<[number, number]>;
+    }): Promise<ZeroTierMember> {
+        const config: Record<string, unknown> = {};
+        if (updates.authorized !== undefined) config.authorized = updates.authorized;
+        if (updates.ipAssignments !== undefined) config.ipAssignments = updates.ipAssignments;
+        if (updates.tags !== undefined) config.tags = updates.tags;
+
+        return this.fetch<ZeroTierMember>(`/network/${encodeURIComponent(networkId)}/member/${encodeURIComponent(memberId)}`, {
+            method: 'POST',
+            body: JSON.stringify({
+                ...(updates.name !== undefined ? { name: updates.name } : {}),
+                ...(updates.description !== undefined ? { description: updates.description } : {}),
+                ...(Object.keys(config).length ? { config } : {}),
+            }),
+        });
+    }
+
+    /**
+     * Get or create the ZeroTier topology in the database.
+     * A dry run never creates it and gets '' when it does not exist yet.
      */
-    private async ensureTopology(): Promise<string> {
+    private async ensureTopology(dryRun = false): Promise<string> {
         if (this.topologyId) return this.topologyId;
 
         // Check if ZeroTier topology exists
@@ -198,6 +252,8 @@ export class ZeroTierConnector extends BaseConnector {
             return this.topologyId!;
         }
 
+        if (dryRun) return '';
+
         // Create new topology
         const newTopology = {
             id: generateId(),
@@ -214,20 +270,11 @@ export class ZeroTierConnector extends BaseConnector {
         return this.topologyId;
     }
 
-    async sync(): Promise<SyncResult> {
-        const result: SyncResult = {
-            success: true,
-            devicesFound: 0,
-            devicesCreated: 0,
-            devicesUpdated: 0,
-            networksFound: 0,
-            networksCreated: 0,
-            networksUpdated: 0,
-            errors: [],
-        };
+    async sync(options: SyncOptions = {}): Promise<SyncResult> {
+        const result = this.createSyncResult(options);
 
         try {
-            const topologyId = await this.ensureTopology();
+            const topologyId = await this.ensureTopology(options.dryRun);
 
             // Sync networks
             const ztNetworks = await this.getNetworks();
@@ -239,6 +286,16 @@ export class ZeroTierConnector extends BaseConnector {
                     const existing = await db.select().from(networks)
                         .where(eq(networks.platformNetworkId, ztNet.platformId));
 
+                    const updates = {
+                        name: ztNet.name,
+                        cidr: ztNet.cidr || null,
+                        status: ztNet.status,
+                        metadata: ztNet.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: ztNet.platformId, name: ztNet.name, type: 'zerotier' };
+                    if (!this.planWrite(result, options, 'network', item, existing[0], updates)) continue;
+
                     if (existing.length === 0) {
                         // Create new network
                         await db.insert(networks).values({
@@ -259,13 +316,7 @@ export class ZeroTierConnector extends BaseConnector {
                         result.networksCreated++;
                     } else {
                         // Update existing network
-                        await db.update(networks).set({
-                            name: ztNet.name,
-                            cidr: ztNet.cidr || null,
-                            status: ztNet.status,
-                            metadata: ztNet.metadata,
-                            updatedAt: new Date(),
-                        }).where(eq(networks.id, existing[0].id));
+                        await db.update(networks).set(updates).where(eq(networks.id, existing[0].id));
                         result.networksUpdated++;
                     }
                 } catch (error) {
@@ -273,21 +324,39 @@ export class ZeroTierConnector extends BaseConnector {
                 }
             }
 
-            // Sync devices (members)
-            const ztDevices = await this.getDevices();
+            // Sync devices (members), fetching each network's members once
+            const membersByNetwork = new Map<string, PlatformMember[]>();
+            for (const ztNet of ztNetworks) {
+                membersByNetwork.set(ztNet.platformId, await this.getNetworkMembers(ztNet.platformId));
+            }
+            const ztDevices = this.membersToDevices([...membersByNetwork.values()].flat());
             result.devicesFound = ztDevices.length;
 
             for (const ztDev of ztDevices) {
                 try {
+                    if (await this.syncMergedIdentity(result, options, ztDev)) continue;
+
                     // Check if device exists
                     const existing = await db.select().from(devices)
                         .where(eq(devices.platformDeviceId, ztDev.platformId));
 
+                    const updates = {
+                        name: ztDev.name,
+                        status: ztDev.status,
+                        lastSeen: ztDev.lastSeen || null,
+                        primaryIp: ztDev.ipAddress || null,
+                        metadata: ztDev.metadata,
+                        updatedAt: new Date(),
+                    };
+                    const item = { platformId: ztDev.platformId, name: ztDev.name, type: 'other' };
+                    if (!this.planWrite(result, options, 'device', item, existing[0], updates)) continue;
+
+                    const deviceId = existing[0]?.id || generateId();
+
                     if (existing.length === 0) {
                         // Create new device
-                        const newDeviceId = generateId();
                         await db.insert(devices).values({
-                            id: newDeviceId,
+                            id: deviceId,
                             name: ztDev.name,
                             type: 'other',
                             manufacturer: null,
@@ -315,21 +384,29 @@ export class ZeroTierConnector extends BaseConnector {
                         result.devicesCreated++;
                     } else {
                         // Update existing device
-                        await db.update(devices).set({
-                            name: ztDev.name,
-                            status: ztDev.status,
-                            lastSeen: ztDev.lastSeen || null,
-                            primaryIp: ztDev.ipAddress || null,
-                            metadata: ztDev.metadata,
-                            updatedAt: new Date(),
-                        }).where(eq(devices.id, existing[0].id));
+                        await db.update(devices).set(updates).where(eq(devices.id, existing[0].id));
                         result.devicesUpdated++;
                     }
+
+                    await this.recordIdentity(deviceId, ztDev);
                 } catch (error) {
                     result.errors.push(`Device ${ztDev.platformId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
             }
 
+            // Link devices to every network they are a member of
+            for (const [networkId, members] of membersByNetwork) {
+                await this.syncMemberLinks(result, options, topologyId || null, networkId, members);
+            }
+
+            await this.reconcile(
+                result,
+                options,
+                topologyId || null,
+                new Set(ztDevices.map(d => d.platformId)),
+                new Set(ztNetworks.map(n => n.platformId))
+            );
+
         } catch (error) {
             result.success = false;
             result.errors.push(error instanceof Error ? error.message : 'Unknown error');
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+/**
+ * IEEE OUI Import CLI
+ *
+ * Loads the IEEE MA-L / MA-M / MA-S registries into mac_vendors. Download
+ * the CSVs from https://standards-oui.ieee.org (oui/oui.csv, oui28/mam.csv,
+ * oui36/oui36.csv and optionally iab/iab.csv).
+ *
+ * Usage:
+ *   npm run db:import-oui -- <file-or-directory>...
+ *   npm run db:import-oui -- --stats    Show imported prefixes per registry
+ */
+
+import 'dotenv/config';
+import { initializeDatabase, closeDatabase } from './index.js';
+import { macVendorService } from '../services/mac-vendors.js';
+
+async function main() {
+    await initializeDatabase();
+
+    const args = process.argv.slice(2);
+    if (args.includes('--stats')) {
+        const stats = await macVendorService.stats();
+        for (const [registry, count] of Object.entries(stats)) {
+            console.log(`  ${registry.padEnd(5)} ${count}`);
+        }
+        return;
+    }
+
+    if (args.length === 0) {
+        throw new Error('Usage: npm run db:import-oui -- <file-or-directory>...');
+    }
+
+    const result = await macVendorService.importFiles(args);
+    for (const file of result.files) {
+        console.log(`  ✓ ${file.path}  ${file.rows} prefixes`);
+    }
+    const registries = Object.entries(result.byRegistry).map(([registry, count]) => `${registry} ${count}`).join(', ');
+    console.log(`Imported ${result.imported} prefixes (${registries})${result.skipped ? `; skipped ${result.skipped} rows` : ''}`);
+}
+
+try {
+    await main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    closeDatabase();
+}
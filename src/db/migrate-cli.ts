@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+/**
+ * Migration CLI
+ *
+ * Usage:
+ *   npm run db:migrate            Apply pending migrations
+ *   npm run db:migrate -- --status  Show applied and pending migrations
+ */
+
+import 'dotenv/config';
+import { getSchemaStatus, migrateDatabase, closeDatabase } from './index.js';
+
+function main() {
+    const status = getSchemaStatus();
+
+    if (process.argv.includes('--status')) {
+        console.log(`Current version: ${status.currentVersion ?? 'none'}${status.legacy ? ' (unversioned legacy database)' : ''}`);
+        console.log(`Latest version:  ${status.latestVersion ?? 'none'}`);
+        for (const m of status.applied) {
+            console.log(`  ✓ ${m.tag}  ${m.appliedAt.toISOString()}`);
+        }
+        for (const m of status.pending) {
+            console.log(`  … ${m.tag}  (pending)`);
+        }
+        return;
+    }
+
+    const applied = migrateDatabase();
+    console.log(applied.length > 0
+        ? `Applied ${applied.length} migration(s); schema is at version ${status.latestVersion}`
+        : `Schema is up to date (version ${status.currentVersion})`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    closeDatabase();
+}
@@ -0,0 +1,235 @@
+/**
+ * Schema Migration Runner
+ *
+ * Applies the SQL migrations generated by drizzle-kit (see drizzle.config.ts)
+ * in journal order. Each applied migration is recorded in `schema_migrations`
+ * together with a SHA-256 checksum of its SQL so edited or unknown migrations
+ * are detected instead of silently diverging.
+ *
+ * Databases created before migrations existed (tables created by hand in
+ * initializeDatabase) are adopted: the baseline migration creates missing
+ * tables and adds missing columns in place, then later migrations run as usual.
+ *
+ * To change the schema: edit schema.ts, then run `npm run db:generate`.
+ */
+
+import type Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+// Resolves to <project>/drizzle from both src/db and dist/db
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../drizzle', import.meta.url));
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+export interface Migration {
+    version: number;
+    tag: string;
+    checksum: string;
+    statements: string[];
+}
+
+export interface AppliedMigration {
+    version: number;
+    tag: string;
+    checksum: string;
+    appliedAt: Date;
+}
+
+export interface MigrationStatus {
+    currentVersion: number | null;
+    latestVersion: number | null;
+    applied: AppliedMigration[];
+    pending: Migration[];
+    legacy: boolean;
+}
+
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+/**
+ * Load migrations listed in the drizzle-kit journal
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+    const journalPath = `${dir}/meta/_journal.json`;
+    if (!existsSync(journalPath)) {
+        throw new MigrationError(`Migration journal not found at ${journalPath}`);
+    }
+
+    const journal = JSON.parse(readFileSync(journalPath, 'utf8')) as {
+        entries: Array<{ idx: number; tag: string }>;
+    };
+
+    return journal.entries
+        .sort((a, b) => a.idx - b.idx)
+        .map(entry => {
+            const sql = readFileSync(`${dir}/${entry.tag}.sql`, 'utf8');
+            return {
+                version: entry.idx,
+                tag: entry.tag,
+                checksum: createHash('sha256').update(sql).digest('hex'),
+                statements: sql
+                    .split('--> statement-breakpoint')
+                    .map(s => s.trim())
+                    .filter(s => s.length > 0),
+            };
+        });
+}
+
+function tableExists(sqlite: Database.Database, table: string): boolean {
+    const row = sqlite
+        .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`)
+        .get(table);
+    return row !== undefined;
+}
+
+function ensureMigrationsTable(sqlite: Database.Database): void {
+    sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+            version INTEGER PRIMARY KEY,
+            tag TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            applied_at INTEGER NOT NULL
+        );
+    `);
+}
+
+function readApplied(sqlite: Database.Database): AppliedMigration[] {
+    if (!tableExists(sqlite, MIGRATIONS_TABLE)) return [];
+
+    const rows = sqlite
+        .prepare(`SELECT version, tag, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`)
+        .all() as Array<{ version: number; tag: string; checksum: string; applied_at: number }>;
+
+    return rows.map(r => ({
+        version: r.version,
+        tag: r.tag,
+        checksum: r.checksum,
+        appliedAt: new Date(r.applied_at),
+    }));
+}
+
+/**
+ * Compare the database against the known migrations.
+ * Throws if an applied migration was edited or is unknown to this build.
+ */
+export function getMigrationStatus(sqlite: Database.Database, migrations: Migration[] = loadMigrations()): MigrationStatus {
+    const applied = readApplied(sqlite);
+    const known = new Map(migrations.map(m => [m.version, m]));
+
+    for (const record of applied) {
+        const migration = known.get(record.version);
+        if (!migration) {
+            throw new MigrationError(
+                `Database has migration ${record.version} (${record.tag}) which this build does not know about. ` +
+                'It was upgraded by a newer NetOps version.'
+            );
+        }
+        if (migration.checksum !== record.checksum) {
+            throw new MigrationError(
+                `Checksum mismatch for migration ${record.version} (${record.tag}). ` +
+                'Applied migrations must not be edited; generate a new migration instead.'
+            );
+        }
+    }
+
+    const appliedVersions = new Set(applied.map(a => a.version));
+
+    return {
+        currentVersion: applied.length > 0 ? applied[applied.length - 1].version : null,
+        latestVersion: migrations.length > 0 ? migrations[migrations.length - 1].version : null,
+        applied,
+        pending: migrations.filter(m => !appliedVersions.has(m.version)),
+        legacy: applied.length === 0 && tableExists(sqlite, 'sites'),
+    };
+}
+
+/**
+ * Rewrite a baseline statement so it applies on top of a hand-created database
+ */
+function adoptLegacyStatement(sqlite: Database.Database, statement: string): string[] {
+    const createTable = statement.match(/^CREATE TABLE `([^`]+)` \(([\s\S]*)\);?$/);
+    if (createTable) {
+        const [, table, body] = createTable;
+        if (!tableExists(sqlite, table)) return [statement];
+
+        const existing = new Set(
+            (sqlite.prepare(`PRAGMA table_info(\`${table}\`)`).all() as Array<{ name: string }>).map(c => c.name)
+        );
+        const lines = body.split('\n').map(l => l.trim().replace(/,$/, '')).filter(Boolean);
+
+        // FOREIGN KEY (`col`) REFERENCES `other`(`id`) ...
+        const references = new Map<string, string>();
+        for (const line of lines) {
+            const fk = line.match(/^FOREIGN KEY \(`([^`]+)`\) (REFERENCES .*)$/);
+            if (fk) references.set(fk[1], fk[2].replace(/ ON UPDATE no action/, '').replace(/ ON DELETE no action/, ''));
+        }
+
+        const alters: string[] = [];
+        for (const line of lines) {
+            const column = line.match(/^`([^`]+)` (.*)$/);
+            if (!column || existing.has(column[1])) continue;
+
+            const [, name, definition] = column;
+            if (/NOT NULL/.test(definition) && !/DEFAULT/.test(definition)) {
+                throw new MigrationError(`Cannot add NOT NULL column ${table}.${name} without a default to an existing table`);
+            }
+            const reference = references.get(name);
+            alters.push(`ALTER TABLE \`${table}\` ADD COLUMN \`${name}\` ${definition}${reference ? ` ${reference}` : ''};`);
+        }
+        return alters;
+    }
+
+    // The hand-written schema already created some of the same indexes
+    return [statement.replace(/^CREATE (UNIQUE )?INDEX /, 'CREATE $1INDEX IF NOT EXISTS ')];
+}
+
+/**
+ * Apply all pending migrations, each in its own transaction
+ */
+export function runMigrations(sqlite: Database.Database, migrations: Migration[] = loadMigrations()): Migration[] {
+    const status = getMigrationStatus(sqlite, migrations);
+    if (status.pending.length === 0) return [];
+
+    ensureMigrationsTable(sqlite);
+    const record = sqlite.prepare(
+        `INSERT INTO ${MIGRATIONS_TABLE} (version, tag, checksum, applied_at) VALUES (?, ?, ?, ?)`
+    );
+
+    // Table rebuilds generated by drizzle-kit need foreign keys off, which cannot
+    // be changed inside a transaction
+    const foreignKeys = sqlite.pragma('foreign_keys', { simple: true });
+    sqlite.pragma('foreign_keys = OFF');
+
+    try {
+        for (const migration of status.pending) {
+            const adopt = status.legacy && migration.version === migrations[0].version;
+
+            sqlite.transaction(() => {
+                for (const statement of migration.statements) {
+                    const statements = adopt ? adoptLegacyStatement(sqlite, statement) : [statement];
+                    for (const sql of statements) {
+                        sqlite.exec(sql);
+                    }
+                }
+
+                const violations = sqlite.pragma('foreign_key_check') as unknown[];
+                if (violations.length > 0) {
+                    throw new MigrationError(`Migration ${migration.tag} left ${violations.length} foreign key violation(s)`);
+                }
+
+                record.run(migration.version, migration.tag, migration.checksum, Date.now());
+            })();
+
+            console.log(`[NetOps] Applied migration ${migration.tag}${adopt ? ' (adopted existing database)' : ''}`);
+        }
+    } finally {
+        sqlite.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
+
+    return status.pending;
+}
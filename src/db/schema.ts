@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex, primaryKey } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
 
 // ============================================
@@ -56,7 +56,9 @@ export const locations = sqliteTable('locations', {
     metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_locations_site').on(table.siteId),
+]);
 
 /**
  * Vehicles are mobile locations that can move between sites
@@ -87,7 +89,7 @@ export const vehicles = sqliteTable('vehicles', {
 export const topologies = sqliteTable('topologies', {
     id: text('id').primaryKey(),
     name: text('name').notNull(),
-    type: text('type').notNull().$type<'zerotier' | 'unifi' | 'uisp' | 'lan' | 'wan' | 'tailscale' | 'wireguard' | 'cloudflare' | 'other'>(),
+    type: text('type').notNull().$type<'zerotier' | 'unifi' | 'uisp' | 'protect' | 'starlink' | 'lan' | 'wan' | 'tailscale' | 'wireguard' | 'cloudflare' | 'other'>(),
     description: text('description'),
     platformConfig: text('platform_config', { mode: 'json' }).$type<Record<string, unknown>>(),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -135,7 +137,11 @@ export const networks = sqliteTable('networks', {
     platformNetworkId: text('platform_network_id'), // ID from external platform (ZeroTier network ID, etc.)
     gatewayIp: text('gateway_ip'),
     dnsServers: text('dns_servers', { mode: 'json' }).$type<string[]>(),
-    status: text('status').$type<'active' | 'inactive' | 'degraded' | 'unknown'>().default('unknown'),
+    status: text('status').$type<'active' | 'inactive' | 'degraded' | 'unknown' | 'retired'>().default('unknown'),
+
+    // Reconciliation - set while the network is missing from its platform's snapshot
+    missingSince: integer('missing_since', { mode: 'timestamp' }),
+    retiredAt: integer('retired_at', { mode: 'timestamp' }),
 
     // Capacity and monitoring
     maxClients: integer('max_clients'),
@@ -145,7 +151,10 @@ export const networks = sqliteTable('networks', {
     metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_networks_topology').on(table.topologyId),
+    index('idx_networks_platform').on(table.platformNetworkId),
+]);
 
 // ============================================
 // DEVICES
@@ -172,9 +181,13 @@ export const devices = sqliteTable('devices', {
     vehicleId: text('vehicle_id').references(() => vehicles.id),
 
     // Status
-    status: text('status').$type<'online' | 'offline' | 'degraded' | 'unknown'>().default('unknown'),
+    status: text('status').$type<'online' | 'offline' | 'degraded' | 'unknown' | 'retired'>().default('unknown'),
     lastSeen: integer('last_seen', { mode: 'timestamp' }),
 
+    // Reconciliation - set while the device is missing from its platform's snapshot
+    missingSince: integer('missing_since', { mode: 'timestamp' }),
+    retiredAt: integer('retired_at', { mode: 'timestamp' }),
+
     // Primary connection info
     primaryIp: text('primary_ip'),
     primaryMac: text('primary_mac'),
@@ -186,7 +199,7 @@ export const devices = sqliteTable('devices', {
     httpPort: integer('http_port'),
 
     // Platform integration
-    platformType: text('platform_type').$type<'zerotier' | 'unifi' | 'uisp' | 'manual' | 'other'>(),
+    platformType: text('platform_type').$type<'zerotier' | 'unifi' | 'uisp' | 'protect' | 'starlink' | 'tailscale' | 'wireguard' | 'manual' | 'other'>(),
     platformDeviceId: text('platform_device_id'), // ID from external platform
 
     // Metadata
@@ -196,7 +209,12 @@ export const devices = sqliteTable('devices', {
 
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_devices_location').on(table.locationId),
+    index('idx_devices_vehicle').on(table.vehicleId),
+    index('idx_devices_status').on(table.status),
+    index('idx_devices_platform').on(table.platformDeviceId),
+]);
 
 /**
  * Links between devices and networks (many-to-many)
@@ -214,7 +232,10 @@ export const deviceNetworkLinks = sqliteTable('device_network_links', {
     status: text('status').$type<'active' | 'inactive' | 'unknown'>().default('unknown'),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_device_network_links_device').on(table.deviceId),
+    index('idx_device_network_links_network').on(table.networkId),
+]);
 
 // ============================================
 // ACCESS PATHS
@@ -234,7 +255,9 @@ export const accessPaths = sqliteTable('access_paths', {
     lastTestStatus: text('last_test_status').$type<'success' | 'partial' | 'failed' | 'unknown'>().default('unknown'),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_access_paths_device').on(table.targetDeviceId),
+]);
 
 /**
  * Individual hops within an access path
@@ -282,7 +305,9 @@ export const pathHops = sqliteTable('path_hops', {
 
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_path_hops_path').on(table.pathId),
+]);
 
 // ============================================
 // DEPLOYMENTS (Temporary/Hybrid Scenarios)
@@ -384,7 +409,9 @@ export const chainLinks = sqliteTable('chain_links', {
     metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_chain_links_chain').on(table.chainId),
+]);
 
 // ============================================
 // RELATIONS
@@ -555,6 +582,11 @@ export const discoveredDevices = sqliteTable('discovered_devices', {
     openPorts: text('open_ports', { mode: 'json' }).$type<number[]>(),
     services: text('services', { mode: 'json' }).$type<{ port: number; service: string; version?: string }[]>(),
 
+    // Service fingerprinting (banners of open ports matched against known products)
+    manufacturer: text('manufacturer'),
+    product: text('product'), // e.g. "RouterOS", "UniFi OS"
+    fingerprintConfidence: integer('fingerprint_confidence'), // 0-100
+
     // mDNS/Bonjour info
     mdnsName: text('mdns_name'),
     mdnsServices: text('mdns_services', { mode: 'json' }).$type<string[]>(),
@@ -576,16 +608,22 @@ export const discoveredDevices = sqliteTable('discovered_devices', {
     metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
-});
+}, (table) => [
+    index('idx_discovered_devices_ip').on(table.ipAddress),
+    index('idx_discovered_devices_mac').on(table.macAddress),
+]);
 
 /**
  * MAC vendor database for OUI lookups
- * Populated from IEEE OUI database
+ * Populated from the IEEE MA-L, MA-M and MA-S (and legacy IAB) registries
  */
 export const macVendors = sqliteTable('mac_vendors', {
-    id: text('id').primaryKey(), // The OUI prefix, e.g., "00:1A:2B"
+    id: text('id').primaryKey(), // The prefix, e.g., "00:1A:2B", "70:B3:D5:1" (28-bit) or "70:B3:D5:12:3" (36-bit)
+    prefixBits: integer('prefix_bits').notNull().default(24), // 24, 28 or 36
+    registry: text('registry').$type<'MA-L' | 'MA-M' | 'MA-S' | 'IAB'>().notNull().default('MA-L'),
     vendorShort: text('vendor_short').notNull(), // Short name
     vendorFull: text('vendor_full'), // Full company name
+    address: text('address'),
 
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
@@ -634,3 +672,454 @@ export type NewMacVendor = typeof macVendors.$inferInsert;
 
 export type DiscoveredConnection = typeof discoveredConnections.$inferSelect;
 export type NewDiscoveredConnection = typeof discoveredConnections.$inferInsert;
+
+// ============================================
+// PLATFORM SYNC
+// ============================================
+
+/**
+ * History of platform sync runs
+ * One row per connector sync, whether scheduled or triggered manually
+ */
+export const syncRuns = sqliteTable('sync_runs', {
+    id: text('id').primaryKey(),
+    platform: text('platform').notNull(), // Connector type, e.g. "zerotier", "uisp"
+    trigger: text('trigger').$type<'scheduled' | 'manual'>().notNull(),
+    status: text('status').$type<'running' | 'success' | 'failed'>().notNull(),
+
+    // Counts from the connector's SyncResult
+    devicesFound: integer('devices_found').default(0),
+    devicesCreated: integer('devices_created').default(0),
+    devicesUpdated: integer('devices_updated').default(0),
+    networksFound: integer('networks_found').default(0),
+    networksCreated: integer('networks_created').default(0),
+    networksUpdated: integer('networks_updated').default(0),
+    devicesRemoved: integer('devices_removed').default(0),
+    networksRemoved: integer('networks_removed').default(0),
+    errors: text('errors', { mode: 'json' }).$type<string[]>(),
+
+    // Timing
+    startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+    completedAt: integer('completed_at', { mode: 'timestamp' }),
+    durationMs: integer('duration_ms'),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    index('idx_sync_runs_platform_started').on(table.platform, table.startedAt),
+]);
+
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type NewSyncRun = typeof syncRuns.$inferInsert;
+
+// ============================================
+// DEVICE IDENTITY
+// ============================================
+
+/**
+ * Per-platform identities of a canonical device
+ * A gateway seen by ZeroTier, UISP and UniFi is one device with three identities
+ */
+export const deviceIdentities = sqliteTable('device_identities', {
+    id: text('id').primaryKey(),
+    deviceId: text('device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+    platformType: text('platform_type').notNull(), // Connector type, e.g. "zerotier"
+    platformDeviceId: text('platform_device_id').notNull(),
+
+    // Identifying attributes as last reported by the platform
+    name: text('name'),
+    macAddress: text('mac_address'),
+    serialNumber: text('serial_number'),
+    hostname: text('hostname'),
+    ipAddress: text('ip_address'),
+    status: text('status').$type<'online' | 'offline' | 'degraded' | 'unknown'>(),
+    lastSeen: integer('last_seen', { mode: 'timestamp' }),
+
+    // Merge that attached this identity to its device, if any
+    mergeId: text('merge_id'),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    uniqueIndex('idx_device_identities_platform').on(table.platformType, table.platformDeviceId),
+    index('idx_device_identities_device').on(table.deviceId),
+]);
+
+/**
+ * Record of each device merge, with enough state to undo it
+ */
+export const deviceMerges = sqliteTable('device_merges', {
+    id: text('id').primaryKey(),
+    canonicalDeviceId: text('canonical_device_id').notNull(), // No FK: the record outlives the device
+    mergedDeviceIds: text('merged_device_ids', { mode: 'json' }).$type<string[]>().notNull(),
+    confidence: real('confidence').notNull(), // 0-1
+    reasons: text('reasons', { mode: 'json' }).$type<string[]>(),
+    trigger: text('trigger').$type<'auto' | 'manual'>().notNull(),
+    status: text('status').$type<'applied' | 'undone'>().notNull().default('applied'),
+
+    // State needed for undo
+    snapshot: text('snapshot', { mode: 'json' }).$type<{
+        canonical: Record<string, unknown>; // Canonical device row before the merge
+        filled: Record<string, unknown>; // Canonical fields the merge filled in from removed devices
+        removed: Record<string, unknown>[]; // Device rows deleted by the merge
+        identities: Array<{ id: string; deviceId: string }>; // Identities moved to the canonical device
+        references: Array<{ table: string; column: string; id: string; deviceId: string }>; // Rows re-pointed
+        // Metric buckets of removed devices, and the canonical buckets they were combined into (bucketAt in epoch seconds)
+        metrics?: Array<{
+            deviceId: string; metric: string; resolution: number; bucketAt: number;
+            avg: number; min: number; max: number; count: number;
+        }>;
+    }>().notNull(),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    undoneAt: integer('undone_at', { mode: 'timestamp' }),
+}, (table) => [
+    index('idx_device_merges_canonical').on(table.canonicalDeviceId),
+]);
+
+export type DeviceIdentity = typeof deviceIdentities.$inferSelect;
+export type NewDeviceIdentity = typeof deviceIdentities.$inferInsert;
+
+export type DeviceMerge = typeof deviceMerges.$inferSelect;
+export type NewDeviceMerge = typeof deviceMerges.$inferInsert;
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+/**
+ * Changes NetOps made on external platforms, e.g. authorizing a ZeroTier member
+ */
+export const auditLog = sqliteTable('audit_log', {
+    id: text('id').primaryKey(),
+    actor: text('actor').notNull(), // Who asked: "api", "mcp", or a user name
+    action: text('action').notNull(), // e.g. "zerotier.member.authorize"
+    targetType: text('target_type').notNull(), // e.g. "zerotier_member"
+    targetId: text('target_id').notNull(), // e.g. "<networkId>/<memberId>"
+    reason: text('reason'),
+    before: text('before', { mode: 'json' }).$type<Record<string, unknown>>(),
+    after: text('after', { mode: 'json' }).$type<Record<string, unknown>>(),
+    status: text('status').$type<'success' | 'failed'>().notNull(),
+    error: text('error'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    index('idx_audit_log_target').on(table.targetType, table.targetId),
+    index('idx_audit_log_created').on(table.createdAt),
+]);
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type NewAuditLogEntry = typeof auditLog.$inferInsert;
+
+// ============================================
+// DEVICE LINKS
+// ============================================
+
+/**
+ * Physical links between two devices, e.g. a UISP PtP backhaul or an AP
+ * serving a station. One row per platform link, with the latest RF metrics.
+ */
+export const deviceLinks = sqliteTable('device_links', {
+    id: text('id').primaryKey(),
+    sourceDeviceId: text('source_device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+    targetDeviceId: text('target_device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+    medium: text('medium').$type<'wireless' | 'wired' | 'fiber' | 'other'>().notNull(),
+    status: text('status').$type<'up' | 'degraded' | 'down' | 'unknown'>().default('unknown'),
+
+    // Platform that reported the link
+    platformType: text('platform_type').notNull(), // Connector type, e.g. "uisp"
+    platformLinkId: text('platform_link_id').notNull(),
+
+    // Latest RF metrics (wireless only)
+    frequencyMhz: integer('frequency_mhz'),
+    signalLocalDbm: integer('signal_local_dbm'),
+    signalRemoteDbm: integer('signal_remote_dbm'),
+    downlinkCapacityMbps: real('downlink_capacity_mbps'),
+    uplinkCapacityMbps: real('uplink_capacity_mbps'),
+    distanceM: integer('distance_m'),
+
+    metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
+    lastSeen: integer('last_seen', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    uniqueIndex('idx_device_links_platform').on(table.platformType, table.platformLinkId),
+    index('idx_device_links_source').on(table.sourceDeviceId),
+    index('idx_device_links_target').on(table.targetDeviceId),
+]);
+
+/**
+ * RF metrics of a device link over time, one sample per sync
+ */
+export const deviceLinkMetrics = sqliteTable('device_link_metrics', {
+    id: text('id').primaryKey(),
+    linkId: text('link_id').notNull().references(() => deviceLinks.id, { onDelete: 'cascade' }),
+    status: text('status').$type<'up' | 'degraded' | 'down' | 'unknown'>(),
+    frequencyMhz: integer('frequency_mhz'),
+    signalLocalDbm: integer('signal_local_dbm'),
+    signalRemoteDbm: integer('signal_remote_dbm'),
+    downlinkCapacityMbps: real('downlink_capacity_mbps'),
+    uplinkCapacityMbps: real('uplink_capacity_mbps'),
+    distanceM: integer('distance_m'),
+    recordedAt: integer('recorded_at', { mode: 'timestamp' }).notNull(),
+}, (table) => [
+    index('idx_device_link_metrics_link_recorded').on(table.linkId, table.recordedAt),
+]);
+
+export type DeviceLink = typeof deviceLinks.$inferSelect;
+export type NewDeviceLink = typeof deviceLinks.$inferInsert;
+
+export type DeviceLinkMetric = typeof deviceLinkMetrics.$inferSelect;
+export type NewDeviceLinkMetric = typeof deviceLinkMetrics.$inferInsert;
+
+// ============================================
+// ASSIGNMENT RULES
+// ============================================
+
+/**
+ * Rules placing devices at a site / location. Rules are tried in priority
+ * order (lowest first); every condition a rule sets must match.
+ */
+export const assignmentRules = sqliteTable('assignment_rules', {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    description: text('description'),
+    priority: integer('priority').notNull().default(100),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+
+    // Conditions
+    namePattern: text('name_pattern'), // Case-insensitive regex on the device name
+    cidr: text('cidr'), // Contains the device's primary IP
+    platformType: text('platform_type'), // e.g. "uisp"; narrows platformSiteId
+    platformSiteId: text('platform_site_id'), // UISP site ID, UniFi site
+    macOui: text('mac_oui'), // e.g. "00:1A:2B"
+    tags: text('tags', { mode: 'json' }).$type<string[]>(), // Device has any of these
+
+    // Target
+    siteId: text('site_id').notNull().references(() => sites.id, { onDelete: 'cascade' }),
+    locationId: text('location_id').references(() => locations.id, { onDelete: 'set null' }), // Site's default location when empty
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    index('idx_assignment_rules_priority').on(table.priority),
+]);
+
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+export type NewAssignmentRule = typeof assignmentRules.$inferInsert;
+
+// ============================================
+// ALERTING
+// ============================================
+
+export type AlertEventType =
+    | 'device_offline'
+    | 'network_degraded'
+    | 'hop_down'
+    | 'new_device'
+    | 'device_disappeared'
+    | 'sync_failed'
+    | 'key_expiring';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * When an event raises an alert. A rule fires once the condition has been
+ * reported `threshold` times and has held for `forMs`.
+ */
+export const alertRules = sqliteTable('alert_rules', {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    description: text('description'),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    eventType: text('event_type').$type<AlertEventType>().notNull(),
+    severity: text('severity').$type<AlertSeverity>().notNull().default('warning'),
+
+    // Filters (all optional)
+    siteId: text('site_id').references(() => sites.id, { onDelete: 'cascade' }),
+    platformType: text('platform_type'), // e.g. "uisp", or the platform of a failing sync
+    targetId: text('target_id'), // One device, network, hop or platform
+
+    // Thresholds
+    threshold: integer('threshold').notNull().default(1), // Consecutive reports before firing
+    forMs: integer('for_ms').notNull().default(0), // How long the condition must hold
+
+    // Delivery
+    groupBy: text('group_by').$type<'none' | 'site' | 'platform'>().notNull().default('none'),
+    channelIds: text('channel_ids', { mode: 'json' }).$type<string[]>(),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    index('idx_alert_rules_event').on(table.eventType),
+]);
+
+/**
+ * Where alert notifications go
+ */
+export const alertChannels = sqliteTable('alert_channels', {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    type: text('type').$type<'webhook' | 'smtp'>().notNull(),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    config: text('config', { mode: 'json' }).$type<{
+        // Webhook
+        url?: string;
+        headers?: Record<string, string>;
+
+        // SMTP
+        host?: string;
+        port?: number;
+        secure?: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+        username?: string;
+        password?: string;
+        allowInsecureAuth?: boolean; // Send credentials without TLS
+        from?: string;
+        to?: string[];
+    }>().notNull(),
+    lastSentAt: integer('last_sent_at', { mode: 'timestamp' }),
+    lastError: text('last_error'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+/**
+ * Alerts raised by rules. One open alert per rule and target; repeated
+ * reports only bump its count.
+ */
+export const alerts = sqliteTable('alerts', {
+    id: text('id').primaryKey(),
+    ruleId: text('rule_id').notNull().references(() => alertRules.id, { onDelete: 'cascade' }),
+    eventType: text('event_type').$type<AlertEventType>().notNull(),
+    severity: text('severity').$type<AlertSeverity>().notNull(),
+    status: text('status').$type<'pending' | 'firing' | 'acknowledged' | 'resolved'>().notNull(),
+
+    // What it is about
+    targetType: text('target_type').notNull(), // device, network, path_hop, discovered_device, platform
+    targetId: text('target_id').notNull(),
+    targetName: text('target_name'),
+    siteId: text('site_id'),
+    platformType: text('platform_type'),
+    message: text('message').notNull(),
+    details: text('details', { mode: 'json' }).$type<Record<string, unknown>>(),
+
+    // Dedupe and grouping
+    dedupeKey: text('dedupe_key').notNull(), // "<ruleId>:<targetType>:<targetId>"
+    groupKey: text('group_key').notNull(), // Alerts with the same key are notified together
+    count: integer('count').notNull().default(1),
+
+    // Lifecycle
+    firstSeenAt: integer('first_seen_at', { mode: 'timestamp' }).notNull(),
+    lastSeenAt: integer('last_seen_at', { mode: 'timestamp' }).notNull(),
+    firedAt: integer('fired_at', { mode: 'timestamp' }),
+    notifiedAt: integer('notified_at', { mode: 'timestamp' }),
+    resolvedNotifiedAt: integer('resolved_notified_at', { mode: 'timestamp' }),
+    acknowledgedAt: integer('acknowledged_at', { mode: 'timestamp' }),
+    acknowledgedBy: text('acknowledged_by'),
+    resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+    resolvedBy: text('resolved_by'), // "system" when the condition cleared
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    index('idx_alerts_status').on(table.status),
+    index('idx_alerts_dedupe').on(table.dedupeKey),
+    index('idx_alerts_target').on(table.targetType, table.targetId),
+]);
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type NewAlertRule = typeof alertRules.$inferInsert;
+
+export type AlertChannel = typeof alertChannels.$inferSelect;
+export type NewAlertChannel = typeof alertChannels.$inferInsert;
+
+export type Alert = typeof alerts.$inferSelect;
+export type NewAlert = typeof alerts.$inferInsert;
+
+// ============================================
+// METRICS
+// ============================================
+
+/**
+ * Device telemetry over time (CPU, memory, throughput, signal, ...), taken
+ * from each sync. Every sample is added to a raw, an hourly and a daily
+ * bucket; each resolution is kept for its own retention period.
+ */
+export const deviceMetrics = sqliteTable('device_metrics', {
+    deviceId: text('device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+    metric: text('metric').notNull(), // e.g. "cpu_pct"
+    resolution: integer('resolution').notNull(), // Bucket size in seconds; 0 = raw sample
+    bucketAt: integer('bucket_at', { mode: 'timestamp' }).notNull(), // Bucket start (sample time for raw)
+    avg: real('avg').notNull(),
+    min: real('min').notNull(),
+    max: real('max').notNull(),
+    count: integer('count').notNull(),
+}, (table) => [
+    primaryKey({ columns: [table.deviceId, table.metric, table.resolution, table.bucketAt] }),
+    index('idx_device_metrics_bucket').on(table.resolution, table.bucketAt),
+]);
+
+export type DeviceMetric = typeof deviceMetrics.$inferSelect;
+export type NewDeviceMetric = typeof deviceMetrics.$inferInsert;
+
+// ============================================
+// STATUS HISTORY
+// ============================================
+
+/**
+ * Every change of a device's status, for uptime and outage reporting.
+ * `devices.status` only holds the latest value.
+ */
+export const deviceStatusEvents = sqliteTable('device_status_events', {
+    id: text('id').primaryKey(),
+    deviceId: text('device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+    fromStatus: text('from_status').$type<NonNullable<Device['status']>>(), // null when the device was first seen
+    toStatus: text('to_status').$type<NonNullable<Device['status']>>().notNull(),
+    source: text('source').$type<'sync' | 'manual'>().notNull(),
+    platformType: text('platform_type'), // Platform whose sync made the change
+    changedAt: integer('changed_at', { mode: 'timestamp' }).notNull(),
+}, (table) => [
+    index('idx_device_status_events_device').on(table.deviceId, table.changedAt),
+]);
+
+export type DeviceStatusEvent = typeof deviceStatusEvents.$inferSelect;
+export type NewDeviceStatusEvent = typeof deviceStatusEvents.$inferInsert;
+
+// ============================================
+// SNMP
+// ============================================
+
+/**
+ * SNMP credentials. Polls try the credentials of the networks containing
+ * the address, then those without a network, each by ascending priority.
+ */
+export const snmpCredentials = sqliteTable('snmp_credentials', {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    networkId: text('network_id').references(() => networks.id, { onDelete: 'cascade' }), // null = any network
+    priority: integer('priority').notNull().default(100),
+    version: text('version').$type<'v2c' | 'v3'>().notNull(),
+
+    // v2c
+    community: text('community'),
+
+    // v3 (USM)
+    username: text('username'),
+    securityLevel: text('security_level').$type<'noAuthNoPriv' | 'authNoPriv' | 'authPriv'>(),
+    authProtocol: text('auth_protocol').$type<'md5' | 'sha' | 'sha256'>(),
+    authPassword: text('auth_password'),
+    privProtocol: text('priv_protocol').$type<'des' | 'aes'>(),
+    privPassword: text('priv_password'),
+
+    port: integer('port').notNull().default(161),
+    timeoutMs: integer('timeout_ms').notNull().default(2000),
+    retries: integer('retries').notNull().default(1),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    lastUsedAt: integer('last_used_at', { mode: 'timestamp' }), // Last poll this credential answered
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+    index('idx_snmp_credentials_network').on(table.networkId),
+]);
+
+export type SnmpCredential = typeof snmpCredentials.$inferSelect;
+export type NewSnmpCredential = typeof snmpCredentials.$inferInsert;
@@ -0,0 +1,357 @@
+/**
+ * Service Fingerprinting
+ *
+ * Grabs banners from open ports (SSH version strings, HTTP Server headers
+ * and page titles, TLS certificates, RTSP OPTIONS replies, greetings of
+ * text protocols) and matches them against a table of product signatures
+ * to name the service, the vendor and the kind of device.
+ */
+
+import { Socket } from 'net';
+import { connect as tlsConnect, type PeerCertificate, type TLSSocket } from 'tls';
+import { mapConcurrent } from './scan-engine.js';
+import type { DiscoveredDevice } from '../db/index.js';
+
+export const BANNER_TIMEOUT_MS = 3000;
+
+/** Ports of one host grabbed at once */
+const PORT_CONCURRENCY = 8;
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+const HTTP_PORTS = new Set([80, 5000, 7080, 8000, 8008, 8080, 8081, 8880, 8888]);
+const HTTPS_PORTS = new Set([443, 5001, 7443, 8443, 8843, 9443, 10443]);
+const SSH_PORTS = new Set([22, 2222]);
+const RTSP_PORTS = new Set([554, 8554]);
+// Protocols where the server speaks first
+const GREETING_PORTS = new Set([21, 23, 25, 110, 143, 587]);
+
+/** Services of ports that aren't probed beyond the connect */
+const WELL_KNOWN_PORTS: Record<number, string> = {
+    21: 'ftp', 22: 'ssh', 23: 'telnet', 25: 'smtp', 53: 'dns', 80: 'http', 110: 'pop3', 139: 'netbios-ssn',
+    143: 'imap', 443: 'https', 445: 'smb', 554: 'rtsp', 587: 'submission', 1883: 'mqtt', 2222: 'ssh',
+    3389: 'rdp', 5000: 'http', 5001: 'https', 7443: 'https', 8000: 'http', 8080: 'http', 8081: 'http',
+    8291: 'winbox', 8443: 'https', 8554: 'rtsp', 8728: 'mikrotik-api', 8883: 'mqtts', 9100: 'jetdirect', 9443: 'https',
+};
+
+type DeviceType = NonNullable<DiscoveredDevice['deviceType']>;
+
+export interface CertificateInfo {
+    subject: string | null; // e.g. "CN=UniFi, O=Ubiquiti Inc."
+    issuer: string | null;
+    validTo: string | null; // ISO 8601
+    selfSigned: boolean;
+}
+
+export interface Banner {
+    port: number;
+    service: string; // e.g. ssh, http, https, rtsp, ftp
+    banner?: string; // First line the server sent (SSH, FTP, SMTP, ...)
+    statusLine?: string; // HTTP / RTSP
+    server?: string; // HTTP / RTSP Server header
+    title?: string; // HTML <title>
+    realm?: string; // WWW-Authenticate realm
+    certificate?: CertificateInfo;
+}
+
+export interface Fingerprint {
+    /** Same shape as discoveredDevices.services */
+    services: { port: number; service: string; version?: string }[];
+    vendor: string | null;
+    product: string | null;
+    deviceType: DeviceType | null;
+    /** 0-100; 0 when no signature matched */
+    confidence: number;
+    /** What matched, e.g. 'ssh/22 ssh: SSH-2.0-ROSSSH' */
+    evidence: string[];
+    banners: Banner[];
+}
+
+type BannerField = 'ssh' | 'banner' | 'server' | 'title' | 'realm' | 'certificate' | 'service';
+
+interface Signature {
+    vendor: string | null;
+    product: string;
+    deviceType: DeviceType | null;
+    /** For one matching rule; every further rule that matches adds a little */
+    confidence: number;
+    rules: [BannerField, RegExp][];
+}
+
+/**
+ * Product signatures, most specific first; ties go to the earlier one
+ */
+export const SIGNATURES: Signature[] = [
+    // Ubiquiti
+    { vendor: 'Ubiquiti', product: 'UniFi OS', deviceType: 'router', confidence: 85, rules: [['title', /^UniFi OS/i], ['certificate', /UniFi OS|unifi\.local/i]] },
+    { vendor: 'Ubiquiti', product: 'UniFi Network', deviceType: 'server', confidence: 80, rules: [['title', /UniFi (Network|Controller)/i], ['certificate', /CN=UniFi\b/i]] },
+    { vendor: 'Ubiquiti', product: 'UISP', deviceType: 'server', confidence: 80, rules: [['title', /^(UISP|UNMS)\b/i]] },
+    { vendor: 'Ubiquiti', product: 'EdgeOS', deviceType: 'router', confidence: 85, rules: [['title', /EdgeOS|EdgeRouter/i], ['certificate', /UbiquitiRouterUI/i]] },
+    { vendor: 'Ubiquiti', product: 'EdgeSwitch', deviceType: 'switch', confidence: 85, rules: [['title', /EdgeSwitch/i]] },
+    { vendor: 'Ubiquiti', product: 'airOS', deviceType: 'access_point', confidence: 85, rules: [['title', /airOS|airMAX|airCube/i]] },
+
+    // Cameras
+    { vendor: 'Hikvision', product: 'IP camera / NVR', deviceType: 'camera', confidence: 85, rules: [['server', /Hikvision|App-webs|DNVRS-Webs/i], ['realm', /Hikvision|^DS-/i], ['title', /Hikvision/i]] },
+    { vendor: 'Dahua', product: 'IP camera / NVR', deviceType: 'camera', confidence: 75, rules: [['server', /Dahua|DH-/i], ['title', /^WEB SERVICE$/i], ['realm', /Dahua/i]] },
+    { vendor: 'Axis', product: 'Network camera', deviceType: 'camera', confidence: 85, rules: [['title', /^AXIS\b/i], ['realm', /^AXIS_/i], ['server', /\bAXIS\b/i]] },
+
+    // Storage
+    { vendor: 'Synology', product: 'DiskStation Manager', deviceType: 'nas', confidence: 85, rules: [['title', /Synology|DiskStation/i], ['certificate', /Synology/i]] },
+    { vendor: 'QNAP', product: 'QTS', deviceType: 'nas', confidence: 85, rules: [['title', /QNAP|\bQTS\b/i], ['certificate', /QNAP/i]] },
+    { vendor: 'iXsystems', product: 'TrueNAS', deviceType: 'nas', confidence: 80, rules: [['title', /TrueNAS|FreeNAS/i]] },
+
+    // Routers and firewalls
+    { vendor: 'MikroTik', product: 'RouterOS', deviceType: 'router', confidence: 90, rules: [['ssh', /ROSSSH/i], ['title', /RouterOS|MikroTik/i], ['banner', /MikroTik/i]] },
+    { vendor: 'SpaceX', product: 'Starlink', deviceType: 'router', confidence: 85, rules: [['title', /Starlink/i], ['certificate', /starlink/i]] },
+    { vendor: 'Netgate', product: 'pfSense', deviceType: 'router', confidence: 85, rules: [['title', /pfSense/i], ['certificate', /pfSense/i]] },
+    { vendor: 'Deciso', product: 'OPNsense', deviceType: 'router', confidence: 85, rules: [['title', /OPNsense/i], ['certificate', /OPNsense/i]] },
+    { vendor: 'OpenWrt', product: 'OpenWrt', deviceType: 'router', confidence: 75, rules: [['title', /OpenWrt|LuCI/i]] },
+    { vendor: 'Cisco', product: 'IOS', deviceType: null, confidence: 75, rules: [['ssh', /Cisco/i], ['server', /cisco-IOS/i]] },
+
+    // Servers and printers
+    { vendor: 'Proxmox', product: 'Proxmox VE', deviceType: 'server', confidence: 85, rules: [['title', /Proxmox/i], ['certificate', /Proxmox/i]] },
+    { vendor: 'HP', product: 'Printer', deviceType: 'printer', confidence: 80, rules: [['server', /HP HTTP Server|HP-ChaiSOE|Virata-EmWeb/i]] },
+    { vendor: 'Brother', product: 'Printer', deviceType: 'printer', confidence: 80, rules: [['server', /^debut\b/i], ['title', /^Brother\b/i]] },
+
+    // Services that hint at a kind of device without naming the vendor
+    { vendor: null, product: 'RTSP stream', deviceType: 'camera', confidence: 50, rules: [['service', /^rtsp$/]] },
+    { vendor: null, product: 'Raw printing', deviceType: 'printer', confidence: 50, rules: [['service', /^jetdirect$/]] },
+];
+
+function valuesOf(banner: Banner, field: BannerField): string[] {
+    switch (field) {
+        case 'ssh': return banner.service === 'ssh' && banner.banner ? [banner.banner] : [];
+        case 'banner': return banner.service !== 'ssh' && banner.banner ? [banner.banner] : [];
+        case 'certificate': return [banner.certificate?.subject, banner.certificate?.issuer].filter((v): v is string => !!v);
+        case 'service': return [banner.service];
+        default: return banner[field] ? [banner[field]!] : [];
+    }
+}
+
+function formatName(name: PeerCertificate['subject'] | undefined): string | null {
+    if (!name) return null;
+    const parts = Object.entries(name).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`);
+    return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function certificateInfo(certificate: PeerCertificate | null): CertificateInfo | undefined {
+    if (!certificate || Object.keys(certificate).length === 0) return undefined;
+    const subject = formatName(certificate.subject);
+    const issuer = formatName(certificate.issuer);
+    const validTo = certificate.valid_to ? new Date(certificate.valid_to) : null;
+    return {
+        subject,
+        issuer,
+        validTo: validTo && !isNaN(validTo.getTime()) ? validTo.toISOString() : null,
+        selfSigned: !!subject && subject === issuer,
+    };
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Status line, headers and title of an HTTP or RTSP response
+ */
+function parseResponse(data: Buffer): { statusLine?: string; headers: Record<string, string>; title?: string } {
+    const text = data.toString('utf-8');
+    const headerEnd = text.search(/\r?\n\r?\n/);
+    const lines = (headerEnd >= 0 ? text.slice(0, headerEnd) : text).split(/\r?\n/);
+    if (!/^(HTTP|RTSP)\/\d/.test(lines[0] ?? '')) return { headers: {} };
+
+    const headers: Record<string, string> = {};
+    for (const line of lines.slice(1)) {
+        const colon = line.indexOf(':');
+        if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+
+    const body = headerEnd >= 0 ? text.slice(headerEnd) : '';
+    const title = /<title[^>]*>([^<]*)<\/title>/i.exec(body)?.[1];
+    return {
+        statusLine: lines[0].trim(),
+        headers,
+        title: title ? decodeEntities(title).replace(/\s+/g, ' ').trim().slice(0, 200) || undefined : undefined,
+    };
+}
+
+export class Fingerprinter {
+    /**
+     * Banners of a host's open ports, matched against the signatures
+     */
+    async fingerprint(ip: string, ports: number[], timeoutMs: number = BANNER_TIMEOUT_MS): Promise<Fingerprint> {
+        const banners = await mapConcurrent(ports, PORT_CONCURRENCY, port => this.grab(ip, port, timeoutMs));
+        return this.identify(banners);
+    }
+
+    /**
+     * What a port says about itself. Ports of protocols without a probe
+     * are named by their well-known service only.
+     */
+    async grab(ip: string, port: number, timeoutMs: number = BANNER_TIMEOUT_MS): Promise<Banner> {
+        if (HTTP_PORTS.has(port)) return this.grabHttp(ip, port, false, timeoutMs);
+        if (HTTPS_PORTS.has(port)) return this.grabHttp(ip, port, true, timeoutMs);
+        if (RTSP_PORTS.has(port)) return this.grabRtsp(ip, port, timeoutMs);
+        if (SSH_PORTS.has(port) || GREETING_PORTS.has(port)) return this.grabGreeting(ip, port, timeoutMs);
+        return { port, service: WELL_KNOWN_PORTS[port] ?? 'unknown' };
+    }
+
+    /**
+     * Match banners against the signatures; the best match names the device
+     */
+    identify(banners: Banner[]): Fingerprint {
+        const services = banners.map(b => {
+            const version = b.service === 'ssh' ? b.banner?.replace(/^SSH-[\d.]+-/, '') : b.server;
+            return version ? { port: b.port, service: b.service, version } : { port: b.port, service: b.service };
+        });
+
+        let best: { signature: Signature; confidence: number; evidence: string[] } | null = null;
+        for (const signature of SIGNATURES) {
+            const evidence: string[] = [];
+            let matchedRules = 0;
+            for (const [field, pattern] of signature.rules) {
+                const hits = banners.flatMap(b => valuesOf(b, field)
+                    .filter(value => pattern.test(value))
+                    .map(value => `${b.service}/${b.port} ${field}: ${value}`));
+                if (hits.length > 0) matchedRules++;
+                evidence.push(...hits);
+            }
+            if (matchedRules === 0) continue;
+
+            const confidence = Math.min(99, signature.confidence + 5 * (matchedRules - 1));
+            if (!best || confidence > best.confidence) best = { signature, confidence, evidence };
+        }
+
+        return {
+            services,
+            vendor: best?.signature.vendor ?? null,
+            product: best?.signature.product ?? null,
+            deviceType: best?.signature.deviceType ?? null,
+            confidence: best?.confidence ?? 0,
+            evidence: best?.evidence ?? [],
+            banners,
+        };
+    }
+
+    private async grabHttp(ip: string, port: number, secure: boolean, timeoutMs: number): Promise<Banner> {
+        const get = (path: string) => this.exchange(ip, port, {
+            secure,
+            timeoutMs,
+            request: `GET ${path} HTTP/1.0\r\nHost: ${ip}\r\nUser-Agent: NetOps\r\nAccept: */*\r\nConnection: close\r\n\r\n`,
+            complete: data => /<\/title>/i.test(data.toString('latin1')),
+        });
+
+        const { data, certificate } = await get('/');
+        let response = parseResponse(data);
+
+        // Follow one redirect on the same port to reach the login page's title
+        const location = response.headers.location;
+        if (/^HTTP\/\S+ 30\d/.test(response.statusLine ?? '') && location && !response.title) {
+            const path = location.startsWith('/') ? location : this.samePortPath(location, ip, port, secure);
+            if (path) {
+                const redirected = parseResponse((await get(path)).data);
+                if (redirected.statusLine) response = { ...redirected, headers: { ...response.headers, ...redirected.headers } };
+            }
+        }
+
+        const realm = /realm="([^"]*)"/i.exec(response.headers['www-authenticate'] ?? '')?.[1];
+        return {
+            port,
+            service: secure ? 'https' : 'http',
+            statusLine: response.statusLine,
+            server: response.headers.server,
+            title: response.title,
+            realm: realm || undefined,
+            certificate: certificateInfo(certificate),
+        };
+    }
+
+    private samePortPath(location: string, ip: string, port: number, secure: boolean): string | null {
+        try {
+            const url = new URL(location);
+            const urlPort = url.port ? parseInt(url.port, 10) : url.protocol === 'https:' ? 443 : 80;
+            if (url.hostname !== ip || urlPort !== port || (url.protocol === 'https:') !== secure) return null;
+            return `${url.pathname}${url.search}`;
+        } catch {
+            return null;
+        }
+    }
+
+    private async grabRtsp(ip: string, port: number, timeoutMs: number): Promise<Banner> {
+        const { data } = await this.exchange(ip, port, {
+            timeoutMs,
+            request: `OPTIONS rtsp://${ip}:${port}/ RTSP/1.0\r\nCSeq: 1\r\nUser-Agent: NetOps\r\n\r\n`,
+            complete: data => /\r?\n\r?\n/.test(data.toString('latin1')),
+        });
+        const response = parseResponse(data);
+        return { port, service: 'rtsp', statusLine: response.statusLine, server: response.headers.server };
+    }
+
+    private async grabGreeting(ip: string, port: number, timeoutMs: number): Promise<Banner> {
+        const { data } = await this.exchange(ip, port, { timeoutMs, complete: data => data.includes(0x0a) });
+        const line = data.toString('utf-8').split(/\r?\n/)[0].replace(/[^\x20-\x7e]/g, '').trim().slice(0, 200);
+        const service = line.startsWith('SSH-') ? 'ssh' : WELL_KNOWN_PORTS[port] ?? 'unknown';
+        return line ? { port, service, banner: line } : { port, service };
+    }
+
+    /**
+     * Connect, optionally send a request, and collect what comes back until
+     * `complete` says enough, the server closes, or the timeout passes.
+     * Failures just give an empty response.
+     */
+    private exchange(ip: string, port: number, options: {
+        secure?: boolean;
+        request?: string;
+        timeoutMs: number;
+        complete: (data: Buffer) => boolean;
+    }): Promise<{ data: Buffer; certificate: PeerCertificate | null }> {
+        return new Promise((resolve) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            let certificate: PeerCertificate | null = null;
+            let settled = false;
+
+            const socket: Socket | TLSSocket = options.secure
+                ? tlsConnect({ host: ip, port, rejectUnauthorized: false })
+                : new Socket();
+
+            const finish = () => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                socket.destroy();
+                resolve({ data: Buffer.concat(chunks), certificate });
+            };
+            const timer = setTimeout(finish, options.timeoutMs);
+
+            socket.on('data', (chunk: Buffer) => {
+                chunks.push(chunk);
+                size += chunk.length;
+                if (size >= MAX_RESPONSE_BYTES || options.complete(Buffer.concat(chunks))) finish();
+            });
+            socket.once('end', finish);
+            socket.once('close', finish);
+            socket.once('error', finish);
+
+            const connected = () => {
+                if (options.secure) certificate = (socket as TLSSocket).getPeerCertificate();
+                if (options.request) socket.write(options.request);
+            };
+            if (options.secure) {
+                socket.once('secureConnect', connected);
+            } else {
+                socket.once('connect', connected);
+                socket.connect({ host: ip, port });
+            }
+        });
+    }
+}
+
+// Export singleton instance
+export const fingerprinter = new Fingerprinter();
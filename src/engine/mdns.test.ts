@@ -0,0 +1,130 @@
+/**
+ * mDNS browser tests against a responder on loopback
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createSocket, type Socket } from 'dgram';
+import type { AddressInfo } from 'net';
+import { mdnsBrowser, encodeQuery, decodeResponse } from './mdns.js';
+
+const TYPE_A = 1;
+const TYPE_PTR = 12;
+const TYPE_TXT = 16;
+const TYPE_SRV = 33;
+
+function encodeName(name: string): Buffer {
+    return Buffer.concat([
+        ...name.split('.').map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])),
+        Buffer.from([0]),
+    ]);
+}
+
+function encodeRecord(name: string, type: number, data: Buffer): Buffer {
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(type, 0);
+    fixed.writeUInt16BE(1, 2);
+    fixed.writeUInt32BE(120, 4);
+    fixed.writeUInt16BE(data.length, 8);
+    return Buffer.concat([encodeName(name), fixed, data]);
+}
+
+function encodeResponse(records: Buffer[]): Buffer {
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(0x8400, 2); // Authoritative response
+    header.writeUInt16BE(records.length, 6);
+    return Buffer.concat([header, ...records]);
+}
+
+/**
+ * Question names of a query; the browser never compresses them
+ */
+function questionNames(packet: Buffer): string[] {
+    const names: string[] = [];
+    let offset = 12;
+    for (let i = 0; i < packet.readUInt16BE(4); i++) {
+        const labels: string[] = [];
+        while (packet[offset] !== 0) {
+            labels.push(packet.toString('utf-8', offset + 1, offset + 1 + packet[offset]));
+            offset += packet[offset] + 1;
+        }
+        names.push(labels.join('.'));
+        offset += 5;
+    }
+    return names;
+}
+
+/**
+ * Records of a printer advertising "_printer._tcp", only listed by the meta query
+ */
+function answer(name: string): Buffer[] {
+    if (name === '_services._dns-sd._udp.local') {
+        return [encodeRecord(name, TYPE_PTR, encodeName('_printer._tcp.local'))];
+    }
+    if (name === '_printer._tcp.local') {
+        const srv = Buffer.alloc(6);
+        srv.writeUInt16BE(515, 4);
+        return [
+            encodeRecord(name, TYPE_PTR, encodeName('Office Printer._printer._tcp.local')),
+            encodeRecord('Office Printer._printer._tcp.local', TYPE_SRV, Buffer.concat([srv, encodeName('printer.local')])),
+            encodeRecord('Office Printer._printer._tcp.local', TYPE_TXT, Buffer.concat(
+                ['rp=queue', 'note=Hallway'].map(entry => Buffer.concat([Buffer.from([entry.length]), Buffer.from(entry)]))
+            )),
+            encodeRecord('printer.local', TYPE_A, Buffer.from([192, 0, 2, 10])),
+        ];
+    }
+    return [];
+}
+
+describe('MdnsBrowser', () => {
+    let responder: Socket;
+    let port: number;
+    const asked: string[] = [];
+
+    beforeAll(async () => {
+        responder = createSocket('udp4');
+        responder.on('message', (packet, remote) => {
+            for (const name of questionNames(packet)) {
+                asked.push(name);
+                const records = answer(name);
+                if (records.length) responder.send(encodeResponse(records), remote.port, remote.address);
+            }
+        });
+        await new Promise<void>(resolve => responder.bind(0, '127.0.0.1', () => resolve()));
+        port = (responder.address() as AddressInfo).port;
+    });
+
+    afterAll(() => {
+        responder.close();
+    });
+
+    it('asks for unicast responses', () => {
+        const query = encodeQuery(['_http._tcp.local']);
+        expect(query.readUInt16BE(4)).toBe(1);
+        // QTYPE PTR, QCLASS IN with the unicast-response bit
+        expect(query.readUInt16BE(query.length - 4)).toBe(TYPE_PTR);
+        expect(query.readUInt16BE(query.length - 2)).toBe(0x8001);
+    });
+
+    it('ignores queries and rejects truncated packets', () => {
+        expect(decodeResponse(encodeQuery(['_ssh._tcp.local']))).toEqual([]);
+        const response = encodeResponse(answer('_printer._tcp.local'));
+        expect(() => decodeResponse(response.subarray(0, response.length - 3))).toThrow();
+    });
+
+    it('follows the meta query and joins PTR, SRV, TXT and A records into a host', async () => {
+        const hosts = await mdnsBrowser.browse({ address: '127.0.0.1', port, durationMs: 300 });
+
+        expect(asked).toContain('_services._dns-sd._udp.local');
+        expect(asked).toContain('_printer._tcp.local');
+        expect(hosts).toEqual([{
+            ipAddress: '192.0.2.10',
+            hostname: 'printer.local',
+            services: [{
+                type: '_printer._tcp',
+                name: 'Office Printer',
+                port: 515,
+                txt: { rp: 'queue', note: 'Hallway' },
+            }],
+        }]);
+    });
+});
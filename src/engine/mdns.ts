@@ -0,0 +1,284 @@
+/**
+ * mDNS / DNS-SD Browser
+ *
+ * Finds devices that advertise services over multicast DNS (printers,
+ * cameras, HomeKit and AirPlay devices, NAS boxes, ...). Queries are sent
+ * one-shot from an ephemeral port (RFC 6762 section 5.1), so responders
+ * answer by unicast and port 5353 doesn't need to be free. The target
+ * address and port can be changed, e.g. to browse a responder on loopback.
+ */
+
+import { createSocket, type RemoteInfo } from 'dgram';
+
+export const MDNS_ADDRESS = '224.0.0.251';
+export const MDNS_PORT = 5353;
+
+const META_QUERY = '_services._dns-sd._udp.local';
+
+/** Service types always asked for, besides those the meta query turns up */
+export const COMMON_SERVICE_TYPES = [
+    '_http._tcp',
+    '_ssh._tcp',
+    '_rtsp._tcp',
+    '_ipp._tcp',
+    '_airplay._tcp',
+    '_hap._tcp',
+];
+
+// DNS record types
+const TYPE_A = 1;
+const TYPE_PTR = 12;
+const TYPE_TXT = 16;
+const TYPE_AAAA = 28;
+const TYPE_SRV = 33;
+
+// Top bit of the question class: ask for a unicast response
+const CLASS_IN_QU = 0x8001;
+
+export interface MdnsBrowseOptions {
+    /** How long to listen for responses (default 3000 ms) */
+    durationMs?: number;
+    /** Service types to query besides those found by the meta query */
+    serviceTypes?: string[];
+    /** Local address of the interface to send multicast from */
+    interfaceAddress?: string;
+    address?: string;
+    port?: number;
+}
+
+export interface MdnsService {
+    type: string; // e.g. "_http._tcp"
+    name: string; // Instance name, e.g. "Office Printer"
+    port: number | null;
+    txt: Record<string, string>;
+}
+
+export interface MdnsHost {
+    ipAddress: string;
+    hostname: string | null; // e.g. "printer.local"
+    services: MdnsService[];
+}
+
+interface DnsRecord {
+    name: string;
+    type: number;
+    data: string | string[] | { target: string; port: number } | null;
+}
+
+function encodeName(name: string): Buffer {
+    const parts = name.replace(/\.$/, '').split('.').map(label => {
+        const bytes = Buffer.from(label, 'utf-8');
+        return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    });
+    return Buffer.concat([...parts, Buffer.from([0])]);
+}
+
+/**
+ * A query packet asking for the PTR records of every name
+ */
+export function encodeQuery(names: string[]): Buffer {
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(names.length, 4);
+    const questions = names.map(name => {
+        const tail = Buffer.alloc(4);
+        tail.writeUInt16BE(TYPE_PTR, 0);
+        tail.writeUInt16BE(CLASS_IN_QU, 2);
+        return Buffer.concat([encodeName(name), tail]);
+    });
+    return Buffer.concat([header, ...questions]);
+}
+
+/**
+ * Read a (possibly compressed) name at `offset`
+ */
+function readName(packet: Buffer, offset: number): { name: string; next: number } {
+    const labels: string[] = [];
+    let next = -1;
+    let position = offset;
+
+    for (let jumps = 0; jumps < 64; jumps++) {
+        const length = packet[position];
+        if (length === undefined) throw new Error('Truncated name');
+        if (length === 0) {
+            return { name: labels.join('.'), next: next >= 0 ? next : position + 1 };
+        }
+        if ((length & 0xc0) === 0xc0) {
+            if (next < 0) next = position + 2;
+            position = packet.readUInt16BE(position) & 0x3fff;
+            continue;
+        }
+        labels.push(packet.toString('utf-8', position + 1, position + 1 + length));
+        position += length + 1;
+    }
+    throw new Error('Name compression loop');
+}
+
+/**
+ * The answer, authority and additional records of a response
+ */
+export function decodeResponse(packet: Buffer): DnsRecord[] {
+    if (packet.length < 12) throw new Error('Packet too short');
+    const flags = packet.readUInt16BE(2);
+    if ((flags & 0x8000) === 0) return []; // A query, not a response
+
+    const questions = packet.readUInt16BE(4);
+    const recordCount = packet.readUInt16BE(6) + packet.readUInt16BE(8) + packet.readUInt16BE(10);
+    let offset = 12;
+
+    for (let i = 0; i < questions; i++) {
+        offset = readName(packet, offset).next + 4;
+    }
+
+    const records: DnsRecord[] = [];
+    for (let i = 0; i < recordCount; i++) {
+        const { name, next } = readName(packet, offset);
+        const type = packet.readUInt16BE(next);
+        const length = packet.readUInt16BE(next + 8);
+        const start = next + 10;
+        offset = start + length;
+        if (offset > packet.length) throw new Error('Truncated record');
+
+        let data: DnsRecord['data'] = null;
+        if (type === TYPE_A && length === 4) {
+            data = [...packet.subarray(start, start + 4)].join('.');
+        } else if (type === TYPE_AAAA && length === 16) {
+            const groups: string[] = [];
+            for (let g = 0; g < 8; g++) groups.push(packet.readUInt16BE(start + g * 2).toString(16));
+            data = groups.join(':');
+        } else if (type === TYPE_PTR) {
+            data = readName(packet, start).name;
+        } else if (type === TYPE_SRV) {
+            data = { port: packet.readUInt16BE(start + 4), target: readName(packet, start + 6).name };
+        } else if (type === TYPE_TXT) {
+            const strings: string[] = [];
+            for (let p = start; p < offset;) {
+                const size = packet[p];
+                if (size > 0) strings.push(packet.toString('utf-8', p + 1, p + 1 + size));
+                p += size + 1;
+            }
+            data = strings;
+        }
+        records.push({ name, type, data });
+    }
+    return records;
+}
+
+/**
+ * "_http._tcp.local" -> "_http._tcp"
+ */
+function serviceType(name: string): string {
+    return name.replace(/\.local\.?$/i, '');
+}
+
+export class MdnsBrowser {
+    /**
+     * Query for services and collect the hosts that answer
+     */
+    async browse(options: MdnsBrowseOptions = {}): Promise<MdnsHost[]> {
+        const durationMs = options.durationMs ?? 3000;
+        const address = options.address ?? MDNS_ADDRESS;
+        const port = options.port ?? MDNS_PORT;
+
+        const socket = createSocket({ type: 'udp4', reuseAddr: true });
+        const queried = new Set<string>();
+        const records: { record: DnsRecord; source: string }[] = [];
+
+        const send = (names: string[]) => {
+            const fresh = names.filter(name => !queried.has(name.toLowerCase()));
+            if (fresh.length === 0) return;
+            fresh.forEach(name => queried.add(name.toLowerCase()));
+            socket.send(encodeQuery(fresh), port, address);
+        };
+
+        socket.on('message', (packet: Buffer, remote: RemoteInfo) => {
+            let decoded: DnsRecord[];
+            try {
+                decoded = decodeResponse(packet);
+            } catch {
+                return; // Malformed packets are ignored
+            }
+
+            const discovered: string[] = [];
+            for (const record of decoded) {
+                records.push({ record, source: remote.address });
+                // Ask for each service type the meta query turns up
+                if (record.type === TYPE_PTR && record.name.toLowerCase() === META_QUERY && typeof record.data === 'string') {
+                    discovered.push(record.data);
+                }
+            }
+            if (discovered.length > 0) send(discovered);
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            socket.once('error', reject);
+            socket.bind(0, () => {
+                socket.off('error', reject);
+                resolve();
+            });
+        });
+        socket.on('error', (error) => console.error('mDNS socket error:', error.message));
+
+        try {
+            if (address === MDNS_ADDRESS) {
+                socket.setMulticastTTL(255);
+                if (options.interfaceAddress) socket.setMulticastInterface(options.interfaceAddress);
+            }
+
+            const types = [...COMMON_SERVICE_TYPES, ...(options.serviceTypes ?? [])];
+            send([META_QUERY, ...types.map(type => `${serviceType(type)}.local`)]);
+            await new Promise(resolve => setTimeout(resolve, durationMs));
+        } finally {
+            socket.close();
+        }
+
+        return this.collect(records);
+    }
+
+    /**
+     * Join PTR, SRV, TXT and address records into hosts. A service's host is
+     * the address of its SRV target, or the address that sent the record.
+     */
+    private collect(records: { record: DnsRecord; source: string }[]): MdnsHost[] {
+        const addresses = new Map<string, string>();
+        const instances = new Map<string, { name: string; type: string; source: string }>();
+        const srv = new Map<string, { target: string; port: number }>();
+        const txt = new Map<string, Record<string, string>>();
+
+        for (const { record, source } of records) {
+            const key = record.name.toLowerCase();
+            if (record.type === TYPE_A && typeof record.data === 'string') {
+                addresses.set(key, record.data);
+            } else if (record.type === TYPE_PTR && typeof record.data === 'string' && key !== META_QUERY) {
+                const type = serviceType(record.name);
+                // "Office Printer._ipp._tcp.local" -> "Office Printer"
+                const name = record.data.slice(0, Math.max(0, record.data.length - `.${type}.local`.length));
+                instances.set(record.data.toLowerCase(), { name, type, source });
+            } else if (record.type === TYPE_SRV && record.data && typeof record.data === 'object' && !Array.isArray(record.data)) {
+                srv.set(key, record.data);
+            } else if (record.type === TYPE_TXT && Array.isArray(record.data)) {
+                txt.set(key, Object.fromEntries(record.data.map(entry => {
+                    const split = entry.indexOf('=');
+                    return split < 0 ? [entry, ''] : [entry.slice(0, split), entry.slice(split + 1)];
+                })));
+            }
+        }
+
+        const hosts = new Map<string, MdnsHost>();
+        for (const [instance, { name, type, source }] of instances) {
+            const target = srv.get(instance);
+            const ipAddress = (target && addresses.get(target.target.toLowerCase())) || source;
+
+            const host = hosts.get(ipAddress) ?? { ipAddress, hostname: null, services: [] };
+            if (target && !host.hostname) host.hostname = target.target;
+
+            if (!host.services.some(s => s.type === type && s.name === name)) {
+                host.services.push({ type, name, port: target?.port ?? null, txt: txt.get(instance) ?? {} });
+            }
+            hosts.set(ipAddress, host);
+        }
+        return [...hosts.values()];
+    }
+}
+
+// Export singleton instance
+export const mdnsBrowser = new MdnsBrowser();
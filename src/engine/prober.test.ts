@@ -0,0 +1,198 @@
+/**
+ * Access Path Prober tests against local TCP, HTTP and SSH stand-in servers
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer as createTcpServer, type Server as TcpServer, type AddressInfo } from 'net';
+import { createServer as createHttpServer, type Server as HttpServer } from 'http';
+import ssh2 from 'ssh2';
+import { eq } from 'drizzle-orm';
+import { db, initializeDatabase, generateId } from '../db/index.js';
+import { accessPaths, devices, pathHops } from '../db/schema.js';
+import { accessPathProber } from './prober.js';
+
+const SSH_USER = 'netops';
+const SSH_PASSWORD = 'stand-in-password';
+
+function listen(server: TcpServer | HttpServer | ssh2.Server): Promise<number> {
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+    });
+}
+
+/**
+ * A port nothing listens on: bind one, then close it again
+ */
+async function closedPort(): Promise<number> {
+    const server = createTcpServer();
+    const port = await listen(server);
+    await new Promise(resolve => server.close(resolve));
+    return port;
+}
+
+describe('AccessPathProber', () => {
+    let tcpServer: TcpServer;
+    let httpServer: HttpServer;
+    let sshServer: ssh2.Server;
+    let tcpPort: number;
+    let httpPort: number;
+    let sshPort: number;
+    let deadPort: number;
+
+    beforeAll(async () => {
+        await initializeDatabase({ autoMigrate: true });
+
+        tcpServer = createTcpServer(socket => socket.end());
+        httpServer = createHttpServer((req, res) => {
+            res.writeHead(req.url === '/broken' ? 503 : 200, { 'Content-Type': 'text/plain' });
+            res.end('ok');
+        });
+        sshServer = new ssh2.Server({ hostKeys: [ssh2.utils.generateKeyPairSync('ed25519').private] }, (client) => {
+            client.on('error', () => undefined);
+            client.on('authentication', (ctx) => {
+                if (ctx.method === 'password' && ctx.username === SSH_USER && ctx.password === SSH_PASSWORD) {
+                    ctx.accept();
+                } else {
+                    ctx.reject(['password']);
+                }
+            });
+            client.on('ready', () => client.end());
+        });
+
+        tcpPort = await listen(tcpServer);
+        httpPort = await listen(httpServer);
+        sshPort = await listen(sshServer);
+        deadPort = await closedPort();
+    });
+
+    afterAll(async () => {
+        await Promise.all([tcpServer, httpServer, sshServer].map(server =>
+            new Promise(resolve => server.close(resolve))));
+    });
+
+    describe('probeTcp', () => {
+        it('succeeds against a listening port', async () => {
+            const result = await accessPathProber.probeTcp('127.0.0.1', tcpPort, 2000);
+            expect(result.success).toBe(true);
+            expect(result.latencyMs).not.toBeNull();
+        });
+
+        it('fails against a closed port', async () => {
+            const result = await accessPathProber.probeTcp('127.0.0.1', deadPort, 2000);
+            expect(result.success).toBe(false);
+            expect(result.latencyMs).toBeNull();
+        });
+    });
+
+    describe('probeHttp', () => {
+        it('treats a 2xx response as reachable', async () => {
+            const result = await accessPathProber.probeHttp(`http://127.0.0.1:${httpPort}/`, 2000);
+            expect(result.success).toBe(true);
+            expect(result.message).toContain('HTTP 200');
+        });
+
+        it('treats a 5xx response as down', async () => {
+            const result = await accessPathProber.probeHttp(`http://127.0.0.1:${httpPort}/broken`, 2000);
+            expect(result.success).toBe(false);
+            expect(result.message).toContain('HTTP 503');
+        });
+    });
+
+    describe('probeSsh', () => {
+        it('reads the banner when no user is configured', async () => {
+            const result = await accessPathProber.probeSsh('127.0.0.1', sshPort, {}, 2000);
+            expect(result.success).toBe(true);
+            expect(result.message).toMatch(/SSH banner: SSH-2\.0-/);
+            expect(result.message).toContain('authentication skipped');
+        });
+
+        it('authenticates with valid credentials', async () => {
+            const result = await accessPathProber.probeSsh('127.0.0.1', sshPort, {
+                username: SSH_USER,
+                password: SSH_PASSWORD,
+            }, 2000);
+            expect(result.success).toBe(true);
+            expect(result.message).toContain(`authenticated as ${SSH_USER}`);
+        });
+
+        it('fails with a wrong password', async () => {
+            const result = await accessPathProber.probeSsh('127.0.0.1', sshPort, {
+                username: SSH_USER,
+                password: 'wrong',
+            }, 2000);
+            expect(result.success).toBe(false);
+            expect(result.message).toContain('authentication');
+        });
+
+        it('fails against a server that sends no banner', async () => {
+            const result = await accessPathProber.readSshBanner('127.0.0.1', tcpPort, 2000);
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('testPath', () => {
+        async function createPath(hops: { type: 'direct' | 'http_proxy' | 'ssh_tunnel'; port: number; config?: Record<string, unknown> }[]) {
+            const deviceId = generateId();
+            const pathId = generateId();
+            await db.insert(devices).values({ id: deviceId, name: 'Stand-in target', type: 'server' });
+            await db.insert(accessPaths).values({ id: pathId, name: 'Stand-in path', targetDeviceId: deviceId });
+            for (const [index, hop] of hops.entries()) {
+                await db.insert(pathHops).values({
+                    id: generateId(),
+                    pathId,
+                    order: index + 1,
+                    type: hop.type,
+                    targetAddress: '127.0.0.1',
+                    targetPort: hop.port,
+                    config: hop.config,
+                });
+            }
+            return pathId;
+        }
+
+        it('records every hop as up when all succeed', async () => {
+            const pathId = await createPath([
+                { type: 'direct', port: tcpPort },
+                { type: 'ssh_tunnel', port: sshPort, config: { sshUser: SSH_USER, sshPassword: SSH_PASSWORD } },
+                { type: 'http_proxy', port: httpPort },
+            ]);
+
+            const result = await accessPathProber.testPath(pathId);
+            expect(result?.overallStatus).toBe('success');
+            expect(result?.failedHop).toBeNull();
+            expect(result?.hops.map(h => h.status)).toEqual(['up', 'up', 'up']);
+
+            const stored = await db.select().from(pathHops).where(eq(pathHops.pathId, pathId));
+            for (const hop of stored) {
+                expect(hop.status).toBe('up');
+                expect(hop.lastCheckedAt).toBeInstanceOf(Date);
+                expect(hop.lastLatencyMs).not.toBeNull();
+            }
+            const [path] = await db.select().from(accessPaths).where(eq(accessPaths.id, pathId));
+            expect(path.lastTestStatus).toBe('success');
+        });
+
+        it('stops at the first failed hop and reports it', async () => {
+            const pathId = await createPath([
+                { type: 'direct', port: tcpPort },
+                { type: 'direct', port: deadPort },
+                { type: 'http_proxy', port: httpPort },
+            ]);
+
+            const result = await accessPathProber.testPath(pathId);
+            expect(result?.overallStatus).toBe('partial');
+            expect(result?.failedHop?.order).toBe(2);
+            expect(result?.hops.map(h => h.status)).toEqual(['up', 'down', 'unknown']);
+
+            const stored = (await db.select().from(pathHops).where(eq(pathHops.pathId, pathId)))
+                .sort((a, b) => a.order - b.order);
+            expect(stored[2].lastCheckedAt).toBeNull();
+            const [path] = await db.select().from(accessPaths).where(eq(accessPaths.id, pathId));
+            expect(path.lastTestStatus).toBe('partial');
+        });
+
+        it('returns null for an unknown path', async () => {
+            expect(await accessPathProber.testPath('missing')).toBeNull();
+        });
+    });
+});
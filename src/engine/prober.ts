@@ -0,0 +1,440 @@
+/**
+ * Access Path Prober
+ *
+ * Walks the hops of an access path in order and checks each one:
+ * - direct: TCP connect
+ * - http_proxy: TCP connect + HTTP request
+ * - ssh_tunnel: SSH banner + authentication
+ * - other types: TCP connect when a port is known
+ *
+ * Probing stops at the first hop that fails, since nothing behind it
+ * can be reached through this path. Down hops are reported to alerting.
+ */
+
+import { Socket } from 'net';
+import { readFile } from 'fs/promises';
+import { Client as SshClient } from 'ssh2';
+import { db } from '../db/index.js';
+import { accessPaths, pathHops, AccessPath, PathHop } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { alertService } from '../services/alerting.js';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Fallback ports for hop types when the hop has no targetPort
+const DEFAULT_PORTS: Partial<Record<PathHop['type'], number>> = {
+    ssh_tunnel: 22,
+    http_proxy: 80,
+    rdp: 3389,
+    cloudflare_tunnel: 443,
+};
+
+export interface ProbeResult {
+    success: boolean;
+    latencyMs: number | null;
+    message: string;
+}
+
+export interface HopProbeResult {
+    hopId: string;
+    order: number;
+    type: PathHop['type'];
+    targetAddress: string;
+    targetPort: number | null;
+    status: 'up' | 'down' | 'unknown';
+    latencyMs: number | null;
+    message: string;
+}
+
+export interface PathProbeResult {
+    pathId: string;
+    pathName: string;
+    testTime: string;
+    overallStatus: 'success' | 'partial' | 'failed' | 'unknown';
+    failedHop: HopProbeResult | null;
+    hops: HopProbeResult[];
+}
+
+export class AccessPathProber {
+    /**
+     * Open a TCP connection and close it again
+     */
+    probeTcp(host: string, port: number, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<ProbeResult> {
+        return new Promise((resolve) => {
+            const started = Date.now();
+            const socket = new Socket();
+
+            const finish = (result: ProbeResult) => {
+                socket.destroy();
+                resolve(result);
+            };
+
+            socket.setTimeout(timeoutMs);
+            socket.once('connect', () => finish({
+                success: true,
+                latencyMs: Date.now() - started,
+                message: `TCP connect to ${host}:${port} succeeded`,
+            }));
+            socket.once('timeout', () => finish({
+                success: false,
+                latencyMs: null,
+                message: `TCP connect to ${host}:${port} timed out after ${timeoutMs}ms`,
+            }));
+            socket.once('error', (error) => finish({
+                success: false,
+                latencyMs: null,
+                message: `TCP connect to ${host}:${port} failed: ${error.message}`,
+            }));
+
+            socket.connect(port, host);
+        });
+    }
+
+    /**
+     * Send an HTTP GET and treat any non-5xx response as reachable
+     */
+    async probeHttp(url: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<ProbeResult> {
+        const started = Date.now();
+
+        try {
+            const response = await fetch(url, {
+                method: 'GET',
+                redirect: 'manual',
+                signal: AbortSignal.timeout(timeoutMs),
+            });
+            const latencyMs = Date.now() - started;
+
+            // Drain the body so the connection can be released
+            await response.arrayBuffer().catch(() => undefined);
+
+            if (response.status >= 500) {
+                return {
+                    success: false,
+                    latencyMs,
+                    message: `HTTP ${response.status} from ${url}`,
+                };
+            }
+
+            return {
+                success: true,
+                latencyMs,
+                message: `HTTP ${response.status} from ${url}`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                latencyMs: null,
+                message: `HTTP request to ${url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+    }
+
+    /**
+     * Read the SSH identification banner sent by the server
+     */
+    readSshBanner(host: string, port: number, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<ProbeResult & { banner?: string }> {
+        return new Promise((resolve) => {
+            const started = Date.now();
+            const socket = new Socket();
+            let buffer = '';
+
+            const finish = (result: ProbeResult & { banner?: string }) => {
+                socket.destroy();
+                resolve(result);
+            };
+
+            socket.setTimeout(timeoutMs);
+            socket.on('data', (chunk) => {
+                buffer += chunk.toString('latin1');
+
+                // Servers may send other lines before the identification string (RFC 4253 4.2)
+                const lines = buffer.split('\r\n');
+                const banner = lines.find(line => line.startsWith('SSH-'));
+                if (banner) {
+                    finish({
+                        success: true,
+                        latencyMs: Date.now() - started,
+                        message: `SSH banner: ${banner}`,
+                        banner,
+                    });
+                } else if (buffer.length > 8192) {
+                    finish({
+                        success: false,
+                        latencyMs: null,
+                        message: `No SSH banner from ${host}:${port}`,
+                    });
+                }
+            });
+            socket.once('timeout', () => finish({
+                success: false,
+                latencyMs: null,
+                message: `No SSH banner from ${host}:${port} within ${timeoutMs}ms`,
+            }));
+            socket.once('error', (error) => finish({
+                success: false,
+                latencyMs: null,
+                message: `SSH connect to ${host}:${port} failed: ${error.message}`,
+            }));
+            socket.once('end', () => finish({
+                success: false,
+                latencyMs: null,
+                message: `${host}:${port} closed the connection without an SSH banner`,
+            }));
+
+            socket.connect(port, host);
+        });
+    }
+
+    /**
+     * Check the SSH banner, then authenticate if credentials are configured
+     */
+    async probeSsh(
+        host: string,
+        port: number,
+        auth: { username?: string; privateKeyPath?: string; password?: string },
+        timeoutMs: number = DEFAULT_TIMEOUT_MS
+    ): Promise<ProbeResult> {
+        const bannerResult = await this.readSshBanner(host, port, timeoutMs);
+        if (!bannerResult.success) {
+            return bannerResult;
+        }
+
+        if (!auth.username) {
+            return {
+                ...bannerResult,
+                message: `${bannerResult.message} (authentication skipped: no sshUser configured)`,
+            };
+        }
+
+        let privateKey: Buffer | undefined;
+        if (auth.privateKeyPath) {
+            try {
+                privateKey = await readFile(auth.privateKeyPath);
+            } catch (error) {
+                return {
+                    success: false,
+                    latencyMs: null,
+                    message: `Cannot read SSH key ${auth.privateKeyPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                };
+            }
+        }
+
+        return new Promise((resolve) => {
+            const started = Date.now();
+            const client = new SshClient();
+
+            const finish = (result: ProbeResult) => {
+                client.removeAllListeners();
+                client.on('error', () => undefined);
+                client.end();
+                resolve(result);
+            };
+
+            client.once('ready', () => finish({
+                success: true,
+                latencyMs: Date.now() - started,
+                message: `${bannerResult.message}; authenticated as ${auth.username}`,
+            }));
+            client.once('error', (error) => finish({
+                success: false,
+                latencyMs: null,
+                message: `SSH authentication as ${auth.username} failed: ${error.message}`,
+            }));
+
+            client.connect({
+                host,
+                port,
+                username: auth.username,
+                privateKey,
+                password: auth.password,
+                readyTimeout: timeoutMs,
+                tryKeyboard: false,
+            });
+        });
+    }
+
+    /**
+     * Run the check matching a single hop's type
+     */
+    async probeHop(hop: PathHop): Promise<HopProbeResult> {
+        const config = hop.config || {};
+        const timeoutMs = typeof config.timeout === 'number' ? config.timeout : DEFAULT_TIMEOUT_MS;
+        const port = hop.targetPort ?? DEFAULT_PORTS[hop.type] ?? null;
+
+        const base = {
+            hopId: hop.id,
+            order: hop.order,
+            type: hop.type,
+            targetAddress: hop.targetAddress,
+            targetPort: port,
+        };
+
+        if (port === null) {
+            return {
+                ...base,
+                status: 'unknown',
+                latencyMs: null,
+                message: `No target port for ${hop.type} hop; cannot probe`,
+            };
+        }
+
+        let result: ProbeResult;
+
+        switch (hop.type) {
+            case 'ssh_tunnel':
+                result = await this.probeSsh(hop.targetAddress, port, {
+                    username: config.sshUser,
+                    privateKeyPath: config.sshKeyPath,
+                    password: typeof config.sshPassword === 'string' ? config.sshPassword : undefined,
+                }, timeoutMs);
+                break;
+
+            case 'http_proxy': {
+                const tcp = await this.probeTcp(hop.targetAddress, port, timeoutMs);
+                if (!tcp.success) {
+                    result = tcp;
+                    break;
+                }
+                const scheme = config.tls === true || port === 443 ? 'https' : 'http';
+                const path = config.proxyPath || '/';
+                result = await this.probeHttp(
+                    `${scheme}://${hop.targetAddress}:${port}${path.startsWith('/') ? path : `/${path}`}`,
+                    timeoutMs
+                );
+                break;
+            }
+
+            case 'cloudflare_tunnel': {
+                // Cloudflare answers 502/530 when the tunnel or its origin is down
+                const path = config.proxyPath || '/';
+                result = await this.probeHttp(
+                    `https://${hop.targetAddress}${port === 443 ? '' : `:${port}`}${path.startsWith('/') ? path : `/${path}`}`,
+                    timeoutMs
+                );
+                break;
+            }
+
+            default:
+                result = await this.probeTcp(hop.targetAddress, port, timeoutMs);
+        }
+
+        return {
+            ...base,
+            status: result.success ? 'up' : 'down',
+            latencyMs: result.latencyMs,
+            message: result.message,
+        };
+    }
+
+    /**
+     * Probe every hop of an access path in order and record the results
+     */
+    async testPath(pathId: string): Promise<PathProbeResult | null> {
+        const path = await db.select().from(accessPaths).where(eq(accessPaths.id, pathId));
+        if (path.length === 0) {
+            return null;
+        }
+
+        const hops = await db.select().from(pathHops).where(eq(pathHops.pathId, pathId));
+        const sortedHops = hops.sort((a, b) => a.order - b.order);
+
+        const results: HopProbeResult[] = [];
+        let failedHop: HopProbeResult | null = null;
+
+        for (const hop of sortedHops) {
+            if (failedHop) {
+                // Hops behind a failed hop are not reachable through this path
+                results.push({
+                    hopId: hop.id,
+                    order: hop.order,
+                    type: hop.type,
+                    targetAddress: hop.targetAddress,
+                    targetPort: hop.targetPort,
+                    status: 'unknown',
+                    latencyMs: null,
+                    message: `Not tested: hop ${failedHop.order} failed`,
+                });
+                continue;
+            }
+
+            const result = await this.probeHop(hop);
+            results.push(result);
+
+            const checkedAt = new Date();
+            await db.update(pathHops)
+                .set({
+                    status: result.status,
+                    lastCheckedAt: checkedAt,
+                    lastLatencyMs: result.latencyMs,
+                    updatedAt: checkedAt,
+                })
+                .where(eq(pathHops.id, hop.id));
+
+            if (result.status === 'down') {
+                failedHop = result;
+            }
+            await this.reportHop(path[0], hop, result);
+        }
+
+        const overallStatus = this.summarize(results, failedHop);
+        const testedAt = new Date();
+
+        await db.update(accessPaths)
+            .set({
+                lastTestStatus: overallStatus,
+                lastTestedAt: testedAt,
+                updatedAt: testedAt,
+            })
+            .where(eq(accessPaths.id, pathId));
+
+        return {
+            pathId,
+            pathName: path[0].name,
+            testTime: testedAt.toISOString(),
+            overallStatus,
+            failedHop,
+            hops: results,
+        };
+    }
+
+    /**
+     * Raise or clear the hop_down alert for a probed hop
+     */
+    private async reportHop(path: AccessPath, hop: PathHop, result: HopProbeResult): Promise<void> {
+        try {
+            if (result.status === 'up') {
+                await alertService.clear('hop_down', 'path_hop', hop.id);
+            } else if (result.status === 'down') {
+                await alertService.report({
+                    type: 'hop_down',
+                    targetType: 'path_hop',
+                    targetId: hop.id,
+                    targetName: `${path.name} hop ${hop.order}`,
+                    siteId: await alertService.siteOfDevice(path.targetDeviceId),
+                    message: `Hop ${hop.order} (${hop.type} ${hop.targetAddress}) of ${path.name} is down: ${result.message}`,
+                    details: { pathId: path.id, targetAddress: hop.targetAddress, targetPort: hop.targetPort },
+                });
+            }
+        } catch (error) {
+            console.error('[Prober] Alerting error:', error);
+        }
+    }
+
+    /**
+     * Derive the path status from its hop results
+     */
+    private summarize(results: HopProbeResult[], failedHop: HopProbeResult | null): PathProbeResult['overallStatus'] {
+        const anyUp = results.some(r => r.status === 'up');
+
+        if (failedHop) {
+            return anyUp ? 'partial' : 'failed';
+        }
+        if (results.length > 0 && results.every(r => r.status === 'up')) {
+            return 'success';
+        }
+        return anyUp ? 'partial' : 'unknown';
+    }
+}
+
+// Export singleton instance
+export const accessPathProber = new AccessPathProber();
@@ -0,0 +1,244 @@
+/**
+ * Scan Engine
+ *
+ * Native building blocks for network scans: CIDR expansion, a bounded
+ * concurrent TCP connect scanner and ARP table reading. Nothing is passed
+ * through a shell, so user-supplied addresses can't inject commands.
+ *
+ * Hosts are found with TCP "pings": a connect that succeeds or is refused
+ * proves the host is up. ICMP needs raw sockets (root), so it isn't used;
+ * on a local network the connect attempts populate the ARP table, which
+ * still finds hosts that drop every probe.
+ */
+
+import { Socket } from 'net';
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { platform } from 'os';
+import { promisify } from 'util';
+import { isValidCidr, isValidIpv4, ipv4ToNumber } from '../utils/helpers.js';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_TIMEOUT_MS = 500;
+export const DEFAULT_CONCURRENCY = 256;
+
+/** Largest network a scan will expand (a /16) */
+export const MAX_SCAN_HOSTS = 65536;
+
+/** Ports tried on every address to find live hosts */
+export const DISCOVERY_PORTS = [22, 80, 443, 445];
+
+/** Ports checked on live hosts when no port list is given */
+export const COMMON_PORTS = [
+    21, 22, 23, 25, 53, 80, 110, 139, 143, 443,
+    445, 554, 1883, 3389, 5000, 5001, 7443, 8000, 8080, 8081,
+    8291, 8443, 8554, 8728, 9100, 9443,
+];
+
+export type PortState = 'open' | 'closed' | 'filtered' | 'unreachable';
+
+export interface PortProbe {
+    ip: string;
+    port: number;
+    state: PortState;
+    latencyMs: number | null;
+}
+
+export interface HostProbe {
+    ip: string;
+    alive: boolean;
+    latencyMs: number | null;
+}
+
+export interface ProbeOptions {
+    timeoutMs?: number;
+    concurrency?: number;
+    /** Called with the number of finished and total tasks */
+    onProgress?: (done: number, total: number) => void;
+}
+
+function numberToIpv4(value: number): string {
+    return [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.');
+}
+
+/**
+ * Host addresses of a CIDR block. Network and broadcast addresses are left
+ * out except for /31 and /32, which have none.
+ */
+export function expandCidr(cidr: string, maxHosts: number = MAX_SCAN_HOSTS): string[] {
+    if (!isValidCidr(cidr)) throw new Error(`Invalid CIDR: ${cidr}`);
+
+    const [base, prefix] = cidr.split('/');
+    const bits = parseInt(prefix, 10);
+    const size = 2 ** (32 - bits);
+    const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+    const network = (ipv4ToNumber(base) & mask) >>> 0;
+
+    const first = bits >= 31 ? network : network + 1;
+    const last = bits >= 31 ? network + size - 1 : network + size - 2;
+    if (last - first + 1 > maxHosts) {
+        throw new Error(`${cidr} has ${last - first + 1} hosts; at most ${maxHosts} can be scanned at once`);
+    }
+
+    const hosts: string[] = [];
+    for (let n = first; n <= last; n++) hosts.push(numberToIpv4(n));
+    return hosts;
+}
+
+/**
+ * Parse a port list such as "22,80,443", "1-1024" or "22,8000-8100"
+ */
+export function parsePortSpec(spec: string): number[] {
+    const ports = new Set<number>();
+    for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+        const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+        const from = match ? parseInt(match[1], 10) : NaN;
+        const to = match?.[2] ? parseInt(match[2], 10) : from;
+        if (!match || from < 1 || to > 65535 || from > to) {
+            throw new Error(`Invalid port range: ${part}`);
+        }
+        for (let port = from; port <= to; port++) ports.add(port);
+    }
+    if (ports.size === 0) throw new Error('No ports given');
+    return [...ports].sort((a, b) => a - b);
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` running at once
+ */
+export async function mapConcurrent<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const run = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run));
+    return results;
+}
+
+export class ScanEngine {
+    /**
+     * Try a TCP connection. A refused connection means the host is up
+     * but nothing listens; no answer within the timeout means filtered.
+     */
+    probePort(ip: string, port: number, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<PortProbe> {
+        return new Promise((resolve) => {
+            const started = Date.now();
+            const socket = new Socket();
+
+            const finish = (state: PortState) => {
+                socket.destroy();
+                resolve({ ip, port, state, latencyMs: state === 'open' || state === 'closed' ? Date.now() - started : null });
+            };
+
+            socket.setTimeout(timeoutMs);
+            socket.once('connect', () => finish('open'));
+            socket.once('timeout', () => finish('filtered'));
+            socket.once('error', (error: NodeJS.ErrnoException) => {
+                if (error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET') finish('closed');
+                else if (error.code === 'EHOSTUNREACH' || error.code === 'ENETUNREACH' || error.code === 'EHOSTDOWN') finish('unreachable');
+                else finish('filtered');
+            });
+
+            socket.connect({ host: ip, port });
+        });
+    }
+
+    /**
+     * Find live hosts by trying the discovery ports on every address
+     */
+    async sweep(hosts: string[], ports: number[] = DISCOVERY_PORTS, options: ProbeOptions = {}): Promise<HostProbe[]> {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        // Each host opens one socket per discovery port
+        const limit = Math.max(1, Math.floor((options.concurrency ?? DEFAULT_CONCURRENCY) / ports.length));
+        let done = 0;
+
+        return mapConcurrent(this.validHosts(hosts), limit, async (ip) => {
+            const probes = await Promise.all(ports.map(port => this.probePort(ip, port, timeoutMs)));
+            const answered = probes.filter(p => p.latencyMs !== null);
+
+            options.onProgress?.(++done, hosts.length);
+            return {
+                ip,
+                alive: answered.length > 0,
+                latencyMs: answered.length > 0 ? Math.min(...answered.map(p => p.latencyMs!)) : null,
+            };
+        });
+    }
+
+    /**
+     * Open ports per host. Host and port pairs are generated as workers
+     * take them and only open ports are kept, so a large network times a
+     * large port list never sits in memory.
+     */
+    async scanPorts(hosts: string[], ports: number[] = COMMON_PORTS, options: ProbeOptions = {}): Promise<Map<string, number[]>> {
+        const valid = this.validHosts(hosts);
+        const total = valid.length * ports.length;
+        const open = new Map<string, number[]>(hosts.map(ip => [ip, []]));
+        let next = 0;
+        let done = 0;
+
+        const run = async () => {
+            while (next < total) {
+                const index = next++;
+                const ip = valid[Math.floor(index / ports.length)];
+                const probe = await this.probePort(ip, ports[index % ports.length], options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+                if (probe.state === 'open') open.get(ip)?.push(probe.port);
+                options.onProgress?.(++done, total);
+            }
+        };
+
+        const limit = options.concurrency ?? DEFAULT_CONCURRENCY;
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, total)) }, run));
+        for (const list of open.values()) list.sort((a, b) => a - b);
+        return open;
+    }
+
+    /**
+     * Resolved entries of the kernel's ARP table (IP -> MAC, upper case).
+     * Linux is read from /proc/net/arp; elsewhere `arp -an` is run directly.
+     */
+    async readArpTable(): Promise<Map<string, string>> {
+        const table = new Map<string, string>();
+        const add = (ip: string, mac: string) => {
+            const normalized = mac.toUpperCase().split(/[:-]/).map(part => part.padStart(2, '0')).join(':');
+            if (isValidIpv4(ip) && /^([0-9A-F]{2}:){5}[0-9A-F]{2}$/.test(normalized) && normalized !== '00:00:00:00:00:00') {
+                table.set(ip, normalized);
+            }
+        };
+
+        if (platform() === 'linux') {
+            // IP address  HW type  Flags  HW address  Mask  Device
+            const content = await readFile('/proc/net/arp', 'utf-8');
+            for (const line of content.split('\n').slice(1)) {
+                const [ip, , flags, mac] = line.trim().split(/\s+/);
+                // 0x2 = ATF_COM: the entry is resolved
+                if (ip && flags && (parseInt(flags, 16) & 0x2)) add(ip, mac);
+            }
+            return table;
+        }
+
+        // BSD / macOS: "? (192.168.1.1) at 0:11:22:33:44:55 on en0 ..."
+        const { stdout } = await execFileAsync('arp', ['-an'], { timeout: 10000 });
+        for (const line of stdout.split('\n')) {
+            const match = /\((\d+\.\d+\.\d+\.\d+)\)\s+at\s+([0-9a-f:-]+)/i.exec(line);
+            if (match) add(match[1], match[2]);
+        }
+        return table;
+    }
+
+    private validHosts(hosts: string[]): string[] {
+        const invalid = hosts.find(ip => !isValidIpv4(ip));
+        if (invalid) throw new Error(`Invalid IPv4 address: ${invalid}`);
+        return hosts;
+    }
+}
+
+// Export singleton instance
+export const scanEngine = new ScanEngine();
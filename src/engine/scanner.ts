@@ -2,176 +2,60 @@
  * Network Scanner Service
  * 
  * Provides local network discovery capabilities:
- * - ARP scanning (fast local discovery)
- * - Port scanning (service detection)
- * - mDNS/Bonjour discovery
+ * - Host discovery (concurrent TCP sweep plus the ARP table)
+ * - Port scanning and banner fingerprinting (service, vendor and device type)
+ * - mDNS/DNS-SD discovery
  * - SNMP device info
  * - MAC vendor lookup
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { networkInterfaces } from 'os';
 import { db } from '../db/index.js';
-import { networkScans, discoveredDevices, discoveredConnections, macVendors } from '../db/schema.js';
-import { generateId } from '../utils/helpers.js';
+import { networkScans, discoveredDevices, discoveredConnections, type DiscoveredDevice } from '../db/schema.js';
+import { generateId, isIpInCidr, isValidCidr } from '../utils/helpers.js';
+import { alertService, type AlertEvent } from '../services/alerting.js';
+import { scanEngine, expandCidr, mapConcurrent, parsePortSpec, COMMON_PORTS } from './scan-engine.js';
+import { macVendorService, type MacLookup } from '../services/mac-vendors.js';
+import { mdnsBrowser, type MdnsHost } from './mdns.js';
+import { snmpService, SnmpError } from '../services/snmp.js';
+import { fingerprinter, type Fingerprint } from './fingerprint.js';
 import { eq, and, or, like } from 'drizzle-orm';
 
-const execAsync = promisify(exec);
-
-// MAC OUI vendor database (common vendors - in production, load full IEEE database)
-const COMMON_MAC_VENDORS: Record<string, string> = {
-    '00:50:56': 'VMware',
-    '00:0C:29': 'VMware',
-    '00:1C:42': 'Parallels',
-    '00:16:3E': 'Xen',
-    'AC:DE:48': 'Private',
-    '00:1A:79': 'Ubiquiti',
-    '00:27:22': 'Ubiquiti',
-    '24:5A:4C': 'Ubiquiti',
-    '78:8A:20': 'Ubiquiti',
-    'DC:9F:DB': 'Ubiquiti',
-    'E0:63:DA': 'Ubiquiti',
-    'F0:9F:C2': 'Ubiquiti',
-    '18:E8:29': 'Ubiquiti',
-    '80:2A:A8': 'Ubiquiti',
-    '74:83:C2': 'Ubiquiti',
-    'B4:FB:E4': 'Ubiquiti',
-    '44:D9:E7': 'Ubiquiti',
-    '60:22:32': 'Ubiquiti',
-    '68:D7:9A': 'Ubiquiti',
-    '78:45:58': 'Ubiquiti',
-    'AC:8B:A9': 'Ubiquiti',
-    'D0:21:F9': 'Synology',
-    '00:11:32': 'Synology',
-    '00:1E:C9': 'Dell',
-    '00:14:22': 'Dell',
-    '00:21:9B': 'Dell',
-    '14:FE:B5': 'Dell',
-    '00:0D:3A': 'Microsoft',
-    '00:15:5D': 'Microsoft Hyper-V',
-    '00:17:F2': 'Apple',
-    '00:1C:B3': 'Apple',
-    '00:1D:4F': 'Apple',
-    '00:21:E9': 'Apple',
-    '00:23:12': 'Apple',
-    '00:25:00': 'Apple',
-    '00:26:08': 'Apple',
-    '28:E0:2C': 'Apple',
-    '3C:D0:F8': 'Apple',
-    '40:6C:8F': 'Apple',
-    '48:60:BC': 'Apple',
-    '50:BC:96': 'Apple',
-    '54:26:96': 'Apple',
-    '60:03:08': 'Apple',
-    '64:A3:CB': 'Apple',
-    '68:5B:35': 'Apple',
-    '70:56:81': 'Apple',
-    '78:4F:43': 'Apple',
-    '80:E6:50': 'Apple',
-    '84:38:35': 'Apple',
-    '88:66:A5': 'Apple',
-    '8C:85:90': 'Apple',
-    '9C:20:7B': 'Apple',
-    'A4:83:E7': 'Apple',
-    'A8:88:08': 'Apple',
-    'AC:87:A3': 'Apple',
-    'B8:17:C2': 'Apple',
-    'B8:E8:56': 'Apple',
-    'BC:54:36': 'Apple',
-    'C8:69:CD': 'Apple',
-    'D4:61:9D': 'Apple',
-    'D8:30:62': 'Apple',
-    'DC:A4:CA': 'Apple',
-    'E0:B5:2D': 'Apple',
-    'E4:25:E7': 'Apple',
-    'F0:99:BF': 'Apple',
-    'F4:5C:89': 'Apple',
-    'F8:1E:DF': 'Apple',
-    '00:1E:58': 'D-Link',
-    '00:05:5D': 'D-Link',
-    '00:0F:3D': 'D-Link',
-    '00:13:46': 'D-Link',
-    '00:17:9A': 'D-Link',
-    '00:1B:11': 'D-Link',
-    '00:40:05': 'Ani Communications',
-    '00:E0:4C': 'Realtek',
-    '00:00:00': 'Xerox',
-    '08:00:20': 'Sun',
-    '08:00:27': 'VirtualBox',
-    '52:54:00': 'QEMU/KVM',
-    'B8:27:EB': 'Raspberry Pi',
-    'DC:A6:32': 'Raspberry Pi',
-    'E4:5F:01': 'Raspberry Pi',
-    '28:CD:C1': 'Raspberry Pi',
-    '00:04:4B': 'Nvidia',
-    '00:24:8C': 'Nvidia',
-    '2C:26:17': 'Oculus',
-    '00:09:0F': 'Fortinet',
-    '00:60:6E': 'Davicom',
-    '08:00:2B': 'DEC',
-    'B0:5A:DA': 'TP-Link',
-    '14:CC:20': 'TP-Link',
-    '60:E3:27': 'TP-Link',
-    'AC:84:C6': 'TP-Link',
-    'C0:25:E9': 'TP-Link',
-    'E8:94:F6': 'TP-Link',
-    'F4:F2:6D': 'TP-Link',
-    '00:1F:33': 'Netgear',
-    '00:1E:2A': 'Netgear',
-    '00:22:3F': 'Netgear',
-    '00:24:B2': 'Netgear',
-    '00:26:F2': 'Netgear',
-    '2C:B0:5D': 'Netgear',
-    '84:1B:5E': 'Netgear',
-    'A4:2B:8C': 'Netgear',
-    'C0:FF:D4': 'Netgear',
-    'E0:91:F5': 'Netgear',
-    '30:46:9C': 'Netgear',
-    '00:18:4D': 'Netgear',
-    '00:0F:B5': 'Netgear',
-    '00:09:5B': 'Netgear',
-    '00:14:6C': 'Netgear',
-    '00:1B:2F': 'Netgear',
-    '18:31:BF': 'Starlink',
-    '66:48:e6': 'Starlink',
-    '98:25:4A': 'Starlink',
-    'E4:F0:42': 'Google',
-    '94:EB:2C': 'Google',
-    'F4:F5:D8': 'Google',
-    '00:1A:11': 'Google',
-    '54:60:09': 'Google Nest',
-    'F8:0F:F9': 'Google Nest',
-    '18:D6:C7': 'Google Nest',
-    '1C:F2:9A': 'Google Nest',
-    '54:C8:0F': 'TP-Link',
-    'B0:A7:B9': 'TP-Link',
-    '30:D3:2D': 'TP-Link',
-    '74:DA:38': 'TP-Link',
-    '3C:52:82': 'Hewlett Packard',
-    '00:0A:57': 'Hewlett Packard',
-    '00:1E:0B': 'Hewlett Packard',
-    '2C:44:FD': 'Hewlett Packard',
-    '3C:D9:2B': 'Hewlett Packard',
-    '48:0F:CF': 'Hewlett Packard',
-    '68:B5:99': 'Hewlett Packard',
-    'A0:2B:B8': 'Hewlett Packard',
-    'A4:5D:36': 'Hewlett Packard',
-    'B4:B5:2F': 'Hewlett Packard',
-    'C8:CB:B8': 'Hewlett Packard',
-    'E4:11:5B': 'Hewlett Packard',
-    'F4:39:09': 'Hewlett Packard',
-    '00:50:C2': 'IEEE Registration Auth',
-    'CE:8C:0E': 'QNAP',
-    '00:08:9B': 'QNAP',
-    '24:5E:BE': 'QNAP',
-};
+// SNMP polls in flight at once; each waits out its timeouts on hosts without an agent
+const SNMP_CONCURRENCY = 32;
+
+// Hosts whose banners are grabbed at once
+const FINGERPRINT_CONCURRENCY = 16;
+
+// Fingerprints at least this confident replace types guessed from the MAC or mDNS
+const FINGERPRINT_TYPE_CONFIDENCE = 70;
+
+// Advertised mDNS services that give a device away, most specific first
+const SERVICE_DEVICE_TYPES: [string, NonNullable<DiscoveredDevice['deviceType']>][] = [
+    ['_ipp._tcp', 'printer'],
+    ['_ipps._tcp', 'printer'],
+    ['_printer._tcp', 'printer'],
+    ['_pdl-datastream._tcp', 'printer'],
+    ['_rtsp._tcp', 'camera'],
+    ['_adisk._tcp', 'nas'],
+    ['_afpovertcp._tcp', 'nas'],
+    ['_apple-mobdev2._tcp', 'mobile'],
+    ['_workstation._tcp', 'workstation'],
+    ['_hap._tcp', 'iot'],
+    ['_airplay._tcp', 'iot'],
+    ['_raop._tcp', 'iot'],
+    ['_googlecast._tcp', 'iot'],
+];
 
 export interface ScanResult {
     ipAddress: string;
     macAddress?: string;
     hostname?: string;
     vendor?: string;
+    vendorFull?: string;
+    randomizedMac?: boolean;
+    mdnsName?: string;
+    mdnsServices?: string[]; // e.g. ["_ipp._tcp", "_http._tcp"]
     responseTimeMs?: number;
     isAlive: boolean;
 }
@@ -180,7 +64,8 @@ export interface ScanOptions {
     targetNetwork?: string;
     scanType: 'arp' | 'mdns' | 'port' | 'snmp' | 'full' | 'quick';
     portRange?: string; // e.g., "1-1000" or "22,80,443"
-    timeout?: number; // ms
+    timeout?: number; // ms per connection attempt
+    concurrency?: number; // Connection attempts in flight at once
 }
 
 export class NetworkScanner {
@@ -230,139 +115,90 @@ export class NetworkScanner {
     }
 
     /**
-     * Look up MAC vendor from OUI database
+     * Look up MAC vendor from the OUI database
      */
-    lookupMacVendor(mac: string): string | undefined {
+    async lookupMacVendor(mac: string): Promise<MacLookup | undefined> {
         if (!mac) return undefined;
-
-        const normalizedMac = mac.toUpperCase().replace(/[:-]/g, ':');
-        const prefix = normalizedMac.substring(0, 8);
-
-        return COMMON_MAC_VENDORS[prefix];
+        try {
+            return await macVendorService.lookup(mac);
+        } catch {
+            return undefined;
+        }
     }
 
     /**
-     * Run ARP scan on local network (uses system arp command)
+     * Find live hosts in a network: a TCP sweep of every address, plus
+     * anything the sweep left in the ARP table for local networks
      */
-    async scanArp(cidr?: string): Promise<ScanResult[]> {
-        const results: ScanResult[] = [];
+    async discoverHosts(
+        cidr: string,
+        options: Pick<ScanOptions, 'timeout' | 'concurrency'> & { onProgress?: (done: number, total: number) => void } = {}
+    ): Promise<ScanResult[]> {
+        const hosts = expandCidr(cidr);
+        const swept = await scanEngine.sweep(hosts, undefined, {
+            timeoutMs: options.timeout,
+            concurrency: options.concurrency,
+            onProgress: options.onProgress,
+        });
 
+        let arp = new Map<string, string>();
         try {
-            // Use arp -a to get current ARP table (works on macOS)
-            const { stdout } = await execAsync('arp -a', { timeout: 30000 });
-
-            // Parse ARP output - macOS format: hostname (ip) at mac on interface
-            const lines = stdout.split('\n');
-            const arpRegex = /\(?(\d+\.\d+\.\d+\.\d+)\)?\s+at\s+([0-9a-f:]+)/gi;
-
-            for (const line of lines) {
-                const match = arpRegex.exec(line);
-                if (match) {
-                    const ip = match[1];
-                    const mac = match[2];
-
-                    if (mac && mac !== '(incomplete)') {
-                        results.push({
-                            ipAddress: ip,
-                            macAddress: mac.toUpperCase(),
-                            vendor: this.lookupMacVendor(mac),
-                            isAlive: true,
-                        });
-                    }
-                }
-                arpRegex.lastIndex = 0; // Reset regex
-            }
-
-            // Also try to ping sweep to populate ARP cache
-            if (cidr) {
-                await this.pingSweep(cidr);
-                // Re-scan ARP table after ping sweep
-                const { stdout: newArp } = await execAsync('arp -a', { timeout: 30000 });
-                const newLines = newArp.split('\n');
-
-                for (const line of newLines) {
-                    const match = arpRegex.exec(line);
-                    if (match) {
-                        const ip = match[1];
-                        const mac = match[2];
-
-                        if (mac && mac !== '(incomplete)' && !results.find(r => r.ipAddress === ip)) {
-                            results.push({
-                                ipAddress: ip,
-                                macAddress: mac.toUpperCase(),
-                                vendor: this.lookupMacVendor(mac),
-                                isAlive: true,
-                            });
-                        }
-                    }
-                    arpRegex.lastIndex = 0;
-                }
-            }
+            arp = await scanEngine.readArpTable();
         } catch (error) {
-            console.error('ARP scan error:', error);
+            console.error('ARP table read error:', error);
         }
 
+        const results: ScanResult[] = [];
+        for (const host of swept) {
+            const mac = arp.get(host.ip);
+            if (!host.alive && !mac) continue;
+            const vendor = mac ? await this.lookupMacVendor(mac) : undefined;
+            results.push({
+                ipAddress: host.ip,
+                macAddress: mac,
+                vendor: vendor?.vendor ?? undefined,
+                vendorFull: vendor?.vendorFull ?? undefined,
+                randomizedMac: vendor?.randomized,
+                responseTimeMs: host.latencyMs ?? undefined,
+                isAlive: true,
+            });
+        }
         return results;
     }
 
     /**
-     * Ping sweep a network range
+     * Hosts in a network that advertise services over mDNS
      */
-    private async pingSweep(cidr: string): Promise<void> {
-        // Parse CIDR to get IP range
-        const [baseIp, bits] = cidr.split('/');
-        const prefixBits = parseInt(bits, 10);
-
-        if (prefixBits < 24) {
-            // Don't sweep networks larger than /24
-            console.log('Network too large for ping sweep, limiting to first 254 hosts');
-        }
-
-        const baseParts = baseIp.split('.').map(Number);
-        const promises: Promise<void>[] = [];
-
-        // Ping first 254 addresses in the subnet
-        for (let i = 1; i <= 254; i++) {
-            const targetIp = `${baseParts[0]}.${baseParts[1]}.${baseParts[2]}.${i}`;
-            promises.push(this.pingHost(targetIp));
-        }
-
-        // Run in parallel with concurrency limit
-        const batchSize = 50;
-        for (let i = 0; i < promises.length; i += batchSize) {
-            await Promise.allSettled(promises.slice(i, i + batchSize));
-        }
+    async discoverMdns(cidr: string, durationMs?: number): Promise<MdnsHost[]> {
+        const local = (await this.getLocalNetworks()).find(n => isIpInCidr(n.ip, cidr));
+        const hosts = await mdnsBrowser.browse({ durationMs, interfaceAddress: local?.ip });
+        return hosts.filter(host => isIpInCidr(host.ipAddress, cidr));
     }
 
     /**
-     * Ping a single host
+     * Add mDNS names and services to the scan results; hosts only mDNS
+     * found are added as new results
      */
-    private async pingHost(ip: string): Promise<void> {
-        try {
-            // macOS ping with 1 packet, 500ms timeout
-            await execAsync(`ping -c 1 -W 500 ${ip}`, { timeout: 2000 });
-        } catch {
-            // Ignore ping failures
+    private mergeMdns(results: ScanResult[], hosts: MdnsHost[]): void {
+        for (const host of hosts) {
+            let result = results.find(r => r.ipAddress === host.ipAddress);
+            if (!result) {
+                result = { ipAddress: host.ipAddress, isAlive: true };
+                results.push(result);
+            }
+            const hostname = host.hostname?.replace(/\.$/, '');
+            result.hostname = result.hostname ?? hostname;
+            result.mdnsName = hostname ?? host.services[0]?.name;
+            result.mdnsServices = [...new Set(host.services.map(s => s.type))];
         }
     }
 
     /**
-     * Scan common ports on a host
+     * Scan ports on a host
      */
-    async scanPorts(ip: string, ports: number[] = [22, 80, 443, 8080, 8443]): Promise<{ port: number; open: boolean }[]> {
-        const results: { port: number; open: boolean }[] = [];
-
-        for (const port of ports) {
-            try {
-                // Try to connect with netcat (nc)
-                await execAsync(`nc -z -w 1 ${ip} ${port}`, { timeout: 2000 });
-                results.push({ port, open: true });
-            } catch {
-                results.push({ port, open: false });
-            }
-        }
-
-        return results;
+    async scanPorts(ip: string, ports: number[] = COMMON_PORTS, timeout?: number): Promise<{ port: number; open: boolean }[]> {
+        const open = (await scanEngine.scanPorts([ip], ports, { timeoutMs: timeout })).get(ip) ?? [];
+        return ports.map(port => ({ port, open: open.includes(port) }));
     }
 
     /**
@@ -370,7 +206,7 @@ export class NetworkScanner {
      */
     async startScan(options: ScanOptions): Promise<string> {
         // Get target network if not specified
-        let targetNetwork = options.targetNetwork;
+        let targetNetwork = options.targetNetwork?.trim();
         if (!targetNetwork) {
             const networks = await this.getLocalNetworks();
             if (networks.length > 0) {
@@ -380,6 +216,10 @@ export class NetworkScanner {
             }
         }
 
+        // Reject bad input before a scan record is created
+        expandCidr(targetNetwork);
+        if (options.portRange) parsePortSpec(options.portRange);
+
         // Create scan record
         const scanId = generateId();
         const now = new Date();
@@ -427,13 +267,25 @@ export class NetworkScanner {
                 .set({ progress: 10, updatedAt: new Date() })
                 .where(eq(networkScans.id, scanId));
 
-            // Run ARP scan
-            const arpResults = await this.scanArp(targetNetwork);
+            // Sweep the network for live hosts; an mDNS scan only listens
+            const arpResults = options.scanType === 'mdns' ? [] : await this.discoverHosts(targetNetwork, {
+                timeout: options.timeout,
+                concurrency: options.concurrency,
+                onProgress: this.progressReporter(scanId, 10, 50),
+            });
 
             await db.update(networkScans)
                 .set({ progress: 50, updatedAt: new Date() })
                 .where(eq(networkScans.id, scanId));
 
+            if (options.scanType === 'mdns' || options.scanType === 'full') {
+                this.mergeMdns(arpResults, await this.discoverMdns(targetNetwork));
+
+                await db.update(networkScans)
+                    .set({ progress: 60, updatedAt: new Date() })
+                    .where(eq(networkScans.id, scanId));
+            }
+
             // Process discovered devices
             for (const result of arpResults) {
                 devicesFound++;
@@ -452,13 +304,18 @@ export class NetworkScanner {
                     // New device discovered
                     newDevicesFound++;
 
-                    await db.insert(discoveredDevices).values({
-                        id: generateId(),
+                    const id = generateId();
+                    const [created] = await db.insert(discoveredDevices).values({
+                        id,
                         ipAddress: result.ipAddress,
                         macAddress: result.macAddress || null,
+                        hostname: result.hostname || null,
                         macVendor: result.vendor || null,
+                        macVendorFull: result.vendorFull || null,
+                        mdnsName: result.mdnsName || null,
+                        mdnsServices: result.mdnsServices || null,
                         classification: 'unknown',
-                        deviceType: this.guessDeviceType(result.vendor),
+                        deviceType: this.guessDeviceType(result),
                         firstSeenAt: now,
                         lastSeenAt: now,
                         lastScanId: scanId,
@@ -466,42 +323,83 @@ export class NetworkScanner {
                         isReachable: result.isAlive,
                         createdAt: now,
                         updatedAt: now,
-                    });
+                    }).returning({ alertOnNewDevice: discoveredDevices.alertOnNewDevice });
+
+                    // alertOnNewDevice comes from the column default
+                    if (created.alertOnNewDevice) {
+                        await this.reportAlert({
+                            type: 'new_device',
+                            targetType: 'discovered_device',
+                            targetId: id,
+                            targetName: result.ipAddress,
+                            message: `New device ${result.ipAddress}${result.macAddress ? ` (${result.macAddress}${result.vendor ? `, ${result.vendor}` : ''})` : ''} on ${targetNetwork}`,
+                            details: { ipAddress: result.ipAddress, macAddress: result.macAddress, vendor: result.vendor, scanId },
+                        });
+                    }
                 } else {
-                    // Update existing device
+                    // Update existing device; a type guessed before is kept
+                    const deviceType = existing[0].deviceType === 'unknown' ? this.guessDeviceType(result) : existing[0].deviceType;
                     await db.update(discoveredDevices)
                         .set({
                             ipAddress: result.ipAddress,
                             macAddress: result.macAddress || existing[0].macAddress,
+                            hostname: result.hostname || existing[0].hostname,
                             macVendor: result.vendor || existing[0].macVendor,
+                            macVendorFull: result.vendorFull || existing[0].macVendorFull,
+                            mdnsName: result.mdnsName || existing[0].mdnsName,
+                            mdnsServices: result.mdnsServices || existing[0].mdnsServices,
+                            deviceType,
                             lastSeenAt: now,
                             lastScanId: scanId,
                             isReachable: result.isAlive,
                             updatedAt: now,
                         })
                         .where(eq(discoveredDevices.id, existing[0].id));
+
+                    // Alerts for this device were turned off since it was first seen
+                    if (!existing[0].alertOnNewDevice) {
+                        await this.clearAlert('new_device', existing[0].id);
+                    }
                 }
             }
 
+            // Plenty of devices never answer mDNS, so only sweeps can tell what is gone
+            if (options.scanType !== 'mdns') {
+                await this.reportDisappeared(scanId, targetNetwork);
+            }
+
+            // System info, interfaces and LLDP neighbours from hosts with an SNMP agent
+            if (options.scanType === 'snmp' || options.scanType === 'full') {
+                await this.pollSnmp(scanId, this.progressReporter(scanId, 60, 70));
+            }
+
             // Port scan on interesting devices (if full scan)
             if (options.scanType === 'full' || options.scanType === 'port') {
                 await db.update(networkScans)
                     .set({ progress: 70, updatedAt: new Date() })
                     .where(eq(networkScans.id, scanId));
 
-                for (const result of arpResults) {
-                    const ports = await this.scanPorts(result.ipAddress);
-                    const openPorts = ports.filter(p => p.open).map(p => p.port);
-
-                    if (openPorts.length > 0) {
-                        await db.update(discoveredDevices)
-                            .set({
-                                openPorts: openPorts,
-                                updatedAt: new Date(),
-                            })
-                            .where(eq(discoveredDevices.ipAddress, result.ipAddress));
+                const openByHost = await scanEngine.scanPorts(
+                    arpResults.map(r => r.ipAddress),
+                    options.portRange ? parsePortSpec(options.portRange) : COMMON_PORTS,
+                    {
+                        timeoutMs: options.timeout,
+                        concurrency: options.concurrency,
+                        onProgress: this.progressReporter(scanId, 70, 90),
                     }
-                }
+                );
+
+                // Grab banners from the open ports to tell what the hosts are
+                const withOpenPorts = arpResults.filter(r => (openByHost.get(r.ipAddress) ?? []).length > 0);
+                const reportFingerprints = this.progressReporter(scanId, 90, 98);
+                let fingerprinted = 0;
+
+                await mapConcurrent(withOpenPorts, FINGERPRINT_CONCURRENCY, async (result) => {
+                    const openPorts = openByHost.get(result.ipAddress)!;
+                    const fingerprint = await fingerprinter.fingerprint(result.ipAddress, openPorts);
+                    await this.applyFingerprint(result.ipAddress, openPorts, fingerprint);
+                    reportFingerprints(++fingerprinted, withOpenPorts.length);
+                });
             }
 
             // Complete the scan
@@ -526,10 +424,139 @@ export class NetworkScanner {
     }
 
     /**
-     * Guess device type from vendor
+     * Store a host's open ports and services, and what the latest fingerprint
+     * says it is. A host without a match loses the manufacturer and product
+     * of an earlier one, since the address may now belong to another device.
      */
-    private guessDeviceType(vendor?: string): 'router' | 'switch' | 'access_point' | 'camera' | 'server' | 'workstation' | 'mobile' | 'iot' | 'printer' | 'nas' | 'unknown' {
-        if (!vendor) return 'unknown';
+    private async applyFingerprint(ipAddress: string, openPorts: number[], fingerprint: Fingerprint): Promise<void> {
+        const rows = await db.select().from(discoveredDevices).where(eq(discoveredDevices.ipAddress, ipAddress));
+        const matched = fingerprint.confidence > 0;
+        const now = new Date();
+
+        for (const device of rows) {
+            const replaceType = matched && fingerprint.deviceType !== null
+                && (device.deviceType === 'unknown' || fingerprint.confidence >= FINGERPRINT_TYPE_CONFIDENCE);
+
+            await db.update(discoveredDevices)
+                .set({
+                    openPorts,
+                    services: fingerprint.services,
+                    manufacturer: matched ? fingerprint.vendor : null,
+                    product: matched ? fingerprint.product : null,
+                    fingerprintConfidence: matched ? fingerprint.confidence : null,
+                    deviceType: replaceType ? fingerprint.deviceType : device.deviceType,
+                    metadata: {
+                        ...device.metadata,
+                        fingerprint: {
+                            fingerprintedAt: now.toISOString(),
+                            evidence: fingerprint.evidence,
+                            banners: fingerprint.banners,
+                        },
+                    },
+                    updatedAt: now,
+                })
+                .where(eq(discoveredDevices.id, device.id));
+        }
+    }
+
+    /**
+     * Poll every host this scan saw over SNMP. Most hosts run no agent, so
+     * polls that get no answer are skipped.
+     */
+    private async pollSnmp(scanId: string, onProgress: (done: number, total: number) => void): Promise<void> {
+        if (!(await snmpService.hasCredentials())) return;
+
+        const seen = await db.select({ id: discoveredDevices.id })
+            .from(discoveredDevices)
+            .where(eq(discoveredDevices.lastScanId, scanId));
+        let done = 0;
+
+        await mapConcurrent(seen, SNMP_CONCURRENCY, async ({ id }) => {
+            try {
+                await snmpService.pollDiscovered(id);
+            } catch (error) {
+                if (!(error instanceof SnmpError)) console.error('SNMP poll error:', error);
+            }
+            onProgress(++done, seen.length);
+        });
+    }
+
+    /**
+     * Map engine progress onto part of the scan's 0-100 progress, writing
+     * at most once per percent
+     */
+    private progressReporter(scanId: string, from: number, to: number): (done: number, total: number) => void {
+        let reported = from;
+        return (done, total) => {
+            const progress = Math.floor(from + ((to - from) * done) / total);
+            if (progress <= reported) return;
+            reported = progress;
+            db.update(networkScans)
+                .set({ progress, updatedAt: new Date() })
+                .where(eq(networkScans.id, scanId))
+                .catch(error => console.error('Scan progress error:', error));
+        };
+    }
+
+    /**
+     * Raise device_disappeared for watched devices in the scanned network
+     * that this scan didn't see, and clear it for those it did
+     */
+    private async reportDisappeared(scanId: string, targetNetwork: string): Promise<void> {
+        if (!isValidCidr(targetNetwork)) return;
+
+        const watched = await db.select().from(discoveredDevices)
+            .where(eq(discoveredDevices.alertOnDisappear, true));
+
+        for (const device of watched) {
+            if (!isIpInCidr(device.ipAddress, targetNetwork)) continue;
+
+            if (device.lastScanId === scanId) {
+                await this.clearAlert('device_disappeared', device.id);
+            } else {
+                await this.reportAlert({
+                    type: 'device_disappeared',
+                    targetType: 'discovered_device',
+                    targetId: device.id,
+                    targetName: device.hostname || device.ipAddress,
+                    siteId: device.siteId,
+                    message: `${device.hostname || device.ipAddress} was not found on ${targetNetwork}`,
+                    details: { ipAddress: device.ipAddress, macAddress: device.macAddress, lastSeenAt: device.lastSeenAt, scanId },
+                });
+            }
+        }
+    }
+
+    private async reportAlert(event: AlertEvent): Promise<void> {
+        try {
+            await alertService.report(event);
+        } catch (error) {
+            console.error('[Alerting] Scan alert error:', error);
+        }
+    }
+
+    private async clearAlert(type: AlertEvent['type'], deviceId: string): Promise<void> {
+        try {
+            await alertService.clear(type, 'discovered_device', deviceId);
+        } catch (error) {
+            console.error('[Alerting] Scan alert error:', error);
+        }
+    }
+
+    /**
+     * Guess device type from advertised services, then from the MAC
+     */
+    private guessDeviceType(result: ScanResult): 'router' | 'switch' | 'access_point' | 'camera' | 'server' | 'workstation' | 'mobile' | 'iot' | 'printer' | 'nas' | 'unknown' {
+        const services = new Set(result.mdnsServices ?? []);
+        for (const [type, guess] of SERVICE_DEVICE_TYPES) {
+            if (services.has(type)) return guess;
+        }
+
+        // Private (randomized) MACs are almost always phones and tablets
+        if (result.randomizedMac) return 'mobile';
+
+        const vendor = result.vendor;
+        if (!vendor) return services.has('_ssh._tcp') ? 'server' : 'unknown';
 
         const v = vendor.toLowerCase();
 
@@ -543,7 +570,7 @@ export class NetworkScanner {
         if (v.includes('starlink')) return 'router';
         if (v.includes('google') || v.includes('nest')) return 'iot';
 
-        return 'unknown';
+        return services.has('_ssh._tcp') ? 'server' : 'unknown';
     }
 
     /**
@@ -578,6 +605,11 @@ export class NetworkScanner {
                 updatedAt: new Date(),
             })
             .where(eq(discoveredDevices.id, deviceId));
+
+        // Once someone has vouched for it, it is no longer a new unknown device
+        if (classification === 'known' || classification === 'authorized') {
+            await this.clearAlert('new_device', deviceId);
+        }
     }
 
     /**
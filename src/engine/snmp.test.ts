@@ -0,0 +1,315 @@
+/**
+ * SNMP client tests: RFC 3414 key vectors, and v2c and v3 requests against
+ * an agent on loopback
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createSocket, type Socket } from 'dgram';
+import type { AddressInfo } from 'net';
+import { createCipheriv, createDecipheriv, createHmac } from 'crypto';
+import { SnmpSession, compareOids, localizeKey, passwordToKey, type SnmpTarget } from './snmp.js';
+
+const COMMUNITY = 'stand-in';
+const USER = 'netops';
+const AUTH_PASSWORD = 'stand-in-auth';
+const PRIV_PASSWORD = 'stand-in-priv';
+const ENGINE_ID = Buffer.from('80001f8880a1b2c3d4e5f60708', 'hex');
+
+const MIB: Record<string, { tag: number; value: Buffer | number }> = {
+    '1.3.6.1.2.1.1.1.0': { tag: 0x04, value: Buffer.from('Stand-in agent') },
+    '1.3.6.1.2.1.1.3.0': { tag: 0x43, value: 12345 },
+    '1.3.6.1.2.1.1.5.0': { tag: 0x04, value: Buffer.from('agent-1') },
+    '1.3.6.1.2.1.2.2.1.2.1': { tag: 0x04, value: Buffer.from('eth0') },
+    '1.3.6.1.2.1.2.2.1.2.2': { tag: 0x04, value: Buffer.from('eth1') },
+    '1.3.6.1.2.1.2.2.1.3.1': { tag: 0x02, value: 6 },
+};
+const MIB_ORDER = Object.keys(MIB).sort(compareOids);
+
+// ============================================
+// BER, just enough for the agent
+// ============================================
+
+function tlv(tag: number, value: Buffer): Buffer {
+    const length = value.length < 0x80 ? Buffer.from([value.length]) : Buffer.from([0x82, value.length >> 8, value.length & 0xff]);
+    return Buffer.concat([Buffer.from([tag]), length, value]);
+}
+
+function integer(value: number, tag = 0x02): Buffer {
+    const bytes = [value & 0xff];
+    for (let n = Math.floor(value / 256); n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff);
+    if (bytes[0] & 0x80) bytes.unshift(0);
+    return tlv(tag, Buffer.from(bytes));
+}
+
+function octets(value: Buffer | string): Buffer {
+    return tlv(0x04, Buffer.from(value));
+}
+
+function seq(items: Buffer[], tag = 0x30): Buffer {
+    return tlv(tag, Buffer.concat(items));
+}
+
+function oid(value: string): Buffer {
+    const arcs = value.split('.').map(Number);
+    const bytes: number[] = [];
+    for (const arc of [arcs[0] * 40 + arcs[1], ...arcs.slice(2)]) {
+        const chunk = [arc % 128];
+        for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift((n % 128) | 0x80);
+        bytes.push(...chunk);
+    }
+    return tlv(0x06, Buffer.from(bytes));
+}
+
+interface Node { tag: number; value: Buffer }
+
+/**
+ * The TLVs in `buffer`; values are views into it, so their byteOffset
+ * locates them in the packet
+ */
+function parse(buffer: Buffer): Node[] {
+    const nodes: Node[] = [];
+    for (let offset = 0; offset < buffer.length;) {
+        let length = buffer[offset + 1];
+        let start = offset + 2;
+        if (length & 0x80) {
+            const count = length & 0x7f;
+            length = 0;
+            for (let i = 0; i < count; i++) length = length * 256 + buffer[start + i];
+            start += count;
+        }
+        nodes.push({ tag: buffer[offset], value: buffer.subarray(start, start + length) });
+        offset = start + length;
+    }
+    return nodes;
+}
+
+function toNumber(value: Buffer): number {
+    return [...value].reduce((n, byte) => n * 256 + byte, 0);
+}
+
+function toOid(value: Buffer): string {
+    const arcs: number[] = [];
+    let n = 0;
+    for (const byte of value) {
+        n = n * 128 + (byte & 0x7f);
+        if (byte & 0x80) continue;
+        if (arcs.length === 0) arcs.push(Math.floor(n / 40), n % 40);
+        else arcs.push(n);
+        n = 0;
+    }
+    return arcs.join('.');
+}
+
+function varbind(name: string): Buffer {
+    const entry = MIB[name];
+    if (!entry) return seq([oid(name), tlv(0x80, Buffer.alloc(0))]); // noSuchObject
+    return seq([oid(name), typeof entry.value === 'number' ? integer(entry.value, entry.tag) : tlv(entry.tag, entry.value)]);
+}
+
+/**
+ * Answer a GET, GETNEXT or GETBULK from the MIB
+ */
+function respond(pdu: Node): Buffer {
+    const [requestId, nonRepeaters, maxRepetitions, list] = parse(pdu.value);
+    const names = parse(list.value).map(vb => toOid(parse(vb.value)[0].value));
+
+    let varbinds: Buffer[];
+    if (pdu.tag === 0xa0) {
+        varbinds = names.map(varbind);
+    } else {
+        const count = pdu.tag === 0xa5 ? toNumber(maxRepetitions.value) : 1;
+        varbinds = names.slice(pdu.tag === 0xa5 ? toNumber(nonRepeaters.value) : 0).flatMap(name => {
+            const after = MIB_ORDER.filter(o => compareOids(o, name) > 0).slice(0, count);
+            const rows = after.map(varbind);
+            if (after.length < count) rows.push(seq([oid(after.at(-1) ?? name), tlv(0x82, Buffer.alloc(0))]));
+            return rows;
+        });
+    }
+    return seq([integer(toNumber(requestId.value)), integer(0), integer(0), seq(varbinds)], 0xa2);
+}
+
+// ============================================
+// AGENT
+// ============================================
+
+function handleV2c(message: Node[]): Buffer | null {
+    const [, community, pdu] = message;
+    if (community.value.toString() !== COMMUNITY) return null; // Wrong communities are ignored
+    return seq([integer(1), octets(COMMUNITY), respond(pdu)]);
+}
+
+/**
+ * A USM agent for one user with HMAC-SHA-96 and AES-128
+ */
+function handleV3(packet: Buffer, message: Node[]): Buffer {
+    const authKey = localizeKey(passwordToKey(AUTH_PASSWORD, 'sha'), ENGINE_ID, 'sha');
+    const privKey = localizeKey(passwordToKey(PRIV_PASSWORD, 'sha'), ENGINE_ID, 'sha').subarray(0, 16);
+    const boots = 3;
+    const time = 1000;
+
+    const [, header, securityNode, scopedNode] = message;
+    const msgId = toNumber(parse(header.value)[0].value);
+    const flags = parse(header.value)[2].value[0];
+    const [engineId, requestBoots, requestTime, , authParams, privParams] = parse(parse(securityNode.value)[0].value);
+
+    const reply = (pdu: Buffer, secure: boolean): Buffer => {
+        let scoped = seq([octets(ENGINE_ID), octets(''), pdu]);
+        const salt = Buffer.from('0011223344556677', 'hex');
+        if (secure) {
+            const iv = Buffer.concat([integerBytes(boots), integerBytes(time), salt]);
+            const cipher = createCipheriv('aes-128-cfb', privKey, iv);
+            scoped = octets(Buffer.concat([cipher.update(scoped), cipher.final()]));
+        }
+        const security = seq([
+            octets(ENGINE_ID), integer(boots), integer(time), octets(secure ? USER : ''),
+            octets(Buffer.alloc(secure ? 12 : 0)), octets(secure ? salt : Buffer.alloc(0)),
+        ]);
+        const out = seq([
+            integer(3),
+            seq([integer(msgId), integer(65507), octets(Buffer.from([secure ? 0x03 : 0x00])), integer(3)]),
+            octets(security),
+            scoped,
+        ]);
+        if (secure) {
+            const mac = createHmac('sha1', authKey).update(out).digest().subarray(0, 12);
+            mac.copy(out, out.indexOf(security) + security.length - 2 - 8 - 12);
+        }
+        return out;
+    };
+    const report = (counter: string) => reply(seq([
+        integer(0), integer(0), integer(0), seq([seq([oid(counter), integer(1, 0x41)])]),
+    ], 0xa8), false);
+
+    // Discovery: tell the manager our engine ID, boots and time
+    if (engineId.value.length === 0) return report('1.3.6.1.6.3.15.1.1.4.0');
+
+    const zeroed = Buffer.from(packet);
+    const authAt = authParams.value.byteOffset - packet.byteOffset;
+    zeroed.fill(0, authAt, authAt + authParams.value.length);
+    const expected = createHmac('sha1', authKey).update(zeroed).digest().subarray(0, 12);
+    if (!(flags & 0x01) || !expected.equals(authParams.value)) return report('1.3.6.1.6.3.15.1.1.5.0');
+
+    let scoped = scopedNode;
+    if (flags & 0x02) {
+        const iv = Buffer.concat([
+            integerBytes(toNumber(requestBoots.value)), integerBytes(toNumber(requestTime.value)), privParams.value,
+        ]);
+        const decipher = createDecipheriv('aes-128-cfb', privKey, iv);
+        scoped = parse(Buffer.concat([decipher.update(scopedNode.value), decipher.final()]))[0];
+    }
+    return reply(respond(parse(scoped.value)[2]), true);
+}
+
+function integerBytes(value: number): Buffer {
+    const bytes = Buffer.alloc(4);
+    bytes.writeUInt32BE(value);
+    return bytes;
+}
+
+describe('SNMP', () => {
+    let agent: Socket;
+    let port: number;
+
+    beforeAll(async () => {
+        agent = createSocket('udp4');
+        agent.on('message', (packet, remote) => {
+            const message = parse(parse(packet)[0].value);
+            const version = toNumber(message[0].value);
+            const reply = version === 3 ? handleV3(packet, message) : handleV2c(message);
+            if (reply) agent.send(reply, remote.port, remote.address);
+        });
+        await new Promise<void>(resolve => agent.bind(0, '127.0.0.1', () => resolve()));
+        port = (agent.address() as AddressInfo).port;
+    });
+
+    afterAll(() => {
+        agent.close();
+    });
+
+    function session(target: Partial<SnmpTarget>): SnmpSession {
+        return new SnmpSession({ host: '127.0.0.1', port, version: 'v2c', timeoutMs: 300, retries: 0, ...target });
+    }
+
+    describe('USM keys (RFC 3414 A.3)', () => {
+        const engineId = Buffer.from('000000000000000000000002', 'hex');
+
+        it('derives and localizes an MD5 key', () => {
+            const key = passwordToKey('maplesyrup', 'md5');
+            expect(key.toString('hex')).toBe('9faf3283884e92834ebc9847d8edd963');
+            expect(localizeKey(key, engineId, 'md5').toString('hex')).toBe('526f5eed9fcce26f8964c2930787d82b');
+        });
+
+        it('derives and localizes a SHA key', () => {
+            const key = passwordToKey('maplesyrup', 'sha');
+            expect(key.toString('hex')).toBe('9fb5cc0381497b3793528939ff788d5d79145211');
+            expect(localizeKey(key, engineId, 'sha').toString('hex')).toBe('6695febc9288e36282235fc7151f128497b38f3f');
+        });
+    });
+
+    describe('v2c', () => {
+        it('gets values and reports missing objects', async () => {
+            const client = session({ community: COMMUNITY });
+            try {
+                const varbinds = await client.get(['1.3.6.1.2.1.1.5.0', '1.3.6.1.2.1.1.3.0', '1.3.6.1.2.1.1.9.0']);
+                expect(varbinds[0]).toEqual({ oid: '1.3.6.1.2.1.1.5.0', type: 'octets', value: Buffer.from('agent-1') });
+                expect(varbinds[1]).toEqual({ oid: '1.3.6.1.2.1.1.3.0', type: 'timeticks', value: 12345 });
+                expect(varbinds[2].type).toBe('noSuchObject');
+            } finally {
+                client.close();
+            }
+        });
+
+        it('walks a subtree and stops at its end', async () => {
+            const client = session({ community: COMMUNITY });
+            try {
+                const rows = await client.walk('1.3.6.1.2.1.2.2.1.2', 1);
+                expect(rows.map(r => r.value?.toString())).toEqual(['eth0', 'eth1']);
+            } finally {
+                client.close();
+            }
+        });
+
+        it('times out on a wrong community', async () => {
+            const client = session({ community: 'wrong' });
+            try {
+                await expect(client.get(['1.3.6.1.2.1.1.5.0'])).rejects.toThrow(/No SNMP response/);
+            } finally {
+                client.close();
+            }
+        });
+    });
+
+    describe('v3', () => {
+        const v3: Partial<SnmpTarget> = {
+            version: 'v3',
+            username: USER,
+            securityLevel: 'authPriv',
+            authProtocol: 'sha',
+            authPassword: AUTH_PASSWORD,
+            privProtocol: 'aes',
+            privPassword: PRIV_PASSWORD,
+        };
+
+        it('discovers the engine and gets values with authPriv', async () => {
+            const client = session(v3);
+            try {
+                const [descr] = await client.get(['1.3.6.1.2.1.1.1.0']);
+                expect(descr.value).toEqual(Buffer.from('Stand-in agent'));
+
+                const rows = await client.walk('1.3.6.1.2.1.2.2.1');
+                expect(rows.map(r => r.oid)).toEqual(['1.3.6.1.2.1.2.2.1.2.1', '1.3.6.1.2.1.2.2.1.2.2', '1.3.6.1.2.1.2.2.1.3.1']);
+            } finally {
+                client.close();
+            }
+        });
+
+        it('reports a wrong auth password', async () => {
+            const client = session({ ...v3, authPassword: 'not-the-password' });
+            try {
+                await expect(client.get(['1.3.6.1.2.1.1.1.0'])).rejects.toThrow(/wrong digest/);
+            } finally {
+                client.close();
+            }
+        });
+    });
+});
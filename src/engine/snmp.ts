@@ -0,0 +1,679 @@
+/**
+ * SNMP Client
+ *
+ * A small SNMP manager with its own BER codec: GET, GETNEXT, GETBULK and
+ * subtree walks over UDP, for SNMPv2c communities and SNMPv3 users (USM).
+ * v3 authenticates with HMAC-MD5-96, HMAC-SHA-96 or HMAC-SHA-256-192
+ * (RFC 3414, RFC 7860) and encrypts with CBC-DES or AES-128-CFB (RFC 3414,
+ * RFC 3826). OpenSSL 3 no longer offers single DES, so it runs as triple DES
+ * with the key repeated three times, which is the same cipher.
+ */
+
+import { createSocket, type Socket } from 'dgram';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SNMP_PORT = 161;
+
+const DEFAULT_TIMEOUT_MS = 2000;
+const DEFAULT_RETRIES = 1;
+const MAX_MESSAGE_SIZE = 65507;
+
+/** Stop a walk that returns more rows than any real table has */
+const MAX_WALK_ROWS = 100000;
+
+// Universal and SNMP application tags
+const TAG_INTEGER = 0x02;
+const TAG_OCTET_STRING = 0x04;
+const TAG_NULL = 0x05;
+const TAG_OID = 0x06;
+const TAG_SEQUENCE = 0x30;
+const TAG_IP_ADDRESS = 0x40;
+const TAG_COUNTER32 = 0x41;
+const TAG_GAUGE32 = 0x42;
+const TAG_TIMETICKS = 0x43;
+const TAG_OPAQUE = 0x44;
+const TAG_COUNTER64 = 0x46;
+const TAG_NO_SUCH_OBJECT = 0x80;
+const TAG_NO_SUCH_INSTANCE = 0x81;
+const TAG_END_OF_MIB_VIEW = 0x82;
+
+// PDU types
+const PDU_GET = 0xa0;
+const PDU_GET_NEXT = 0xa1;
+const PDU_RESPONSE = 0xa2;
+const PDU_GET_BULK = 0xa5;
+const PDU_REPORT = 0xa8;
+
+// msgFlags
+const FLAG_AUTH = 0x01;
+const FLAG_PRIV = 0x02;
+const FLAG_REPORTABLE = 0x04;
+
+const USM_SECURITY_MODEL = 3;
+
+const ERROR_STATUS = [
+    'noError', 'tooBig', 'noSuchName', 'badValue', 'readOnly', 'genErr', 'noAccess', 'wrongType',
+    'wrongLength', 'wrongEncoding', 'wrongValue', 'noCreation', 'inconsistentValue',
+    'resourceUnavailable', 'commitFailed', 'undoFailed', 'authorizationError', 'notWritable',
+    'inconsistentName',
+];
+
+// usmStats counters an agent reports instead of answering (RFC 3414 section 5)
+const USM_STATS = '1.3.6.1.6.3.15.1.1';
+const REPORTS: Record<string, string> = {
+    [`${USM_STATS}.1.0`]: 'unsupported security level',
+    [`${USM_STATS}.2.0`]: 'not in time window',
+    [`${USM_STATS}.3.0`]: 'unknown user name',
+    [`${USM_STATS}.4.0`]: 'unknown engine ID',
+    [`${USM_STATS}.5.0`]: 'wrong digest (bad auth password?)',
+    [`${USM_STATS}.6.0`]: 'decryption error (bad privacy password?)',
+};
+
+export type AuthProtocol = 'md5' | 'sha' | 'sha256';
+export type PrivProtocol = 'des' | 'aes';
+export type SecurityLevel = 'noAuthNoPriv' | 'authNoPriv' | 'authPriv';
+
+const AUTH_PROTOCOLS: Record<AuthProtocol, { hash: string; macLength: number }> = {
+    md5: { hash: 'md5', macLength: 12 },
+    sha: { hash: 'sha1', macLength: 12 },
+    sha256: { hash: 'sha256', macLength: 24 },
+};
+
+export interface SnmpTarget {
+    host: string;
+    port?: number;
+    version: 'v2c' | 'v3';
+    timeoutMs?: number;
+    /** Resends after a timeout */
+    retries?: number;
+
+    // v2c
+    community?: string;
+
+    // v3
+    username?: string;
+    securityLevel?: SecurityLevel;
+    authProtocol?: AuthProtocol;
+    authPassword?: string;
+    privProtocol?: PrivProtocol;
+    privPassword?: string;
+}
+
+export type VarbindType =
+    | 'integer' | 'octets' | 'null' | 'oid' | 'ipAddress' | 'counter32' | 'gauge32'
+    | 'timeticks' | 'opaque' | 'counter64' | 'noSuchObject' | 'noSuchInstance' | 'endOfMibView';
+
+export interface Varbind {
+    oid: string;
+    type: VarbindType;
+    /** Numbers for the integer types, Buffers for octets and opaque, strings for OIDs and addresses */
+    value: number | string | Buffer | null;
+}
+
+interface BerNode {
+    tag: number;
+    value: Buffer;
+    /** Where the value starts in the outermost buffer */
+    offset: number;
+}
+
+interface Pdu {
+    type: number;
+    requestId: number;
+    errorStatus: number;
+    errorIndex: number;
+    varbinds: Varbind[];
+}
+
+interface SecurityParameters {
+    engineId: Buffer;
+    engineBoots: number;
+    engineTime: number;
+    username: string;
+    authParams: BerNode;
+    privParams: Buffer;
+}
+
+interface Engine {
+    id: Buffer;
+    boots: number;
+    time: number;
+    /** When `time` was learned, to keep the estimate current */
+    learnedAt: number;
+}
+
+// ============================================
+// BER
+// ============================================
+
+function encodeLength(length: number): Buffer {
+    if (length < 0x80) return Buffer.from([length]);
+    const bytes: number[] = [];
+    for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff);
+    return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function tlv(tag: number, value: Buffer): Buffer {
+    return Buffer.concat([Buffer.from([tag]), encodeLength(value.length), value]);
+}
+
+function sequence(items: Buffer[], tag: number = TAG_SEQUENCE): Buffer {
+    return tlv(tag, Buffer.concat(items));
+}
+
+function encodeInteger(value: number): Buffer {
+    const bytes: number[] = [];
+    let n = value;
+    for (;;) {
+        bytes.unshift(n & 0xff);
+        n = n >> 8;
+        // Stop once the sign bit of the leading byte matches what is left
+        if ((n === 0 && (bytes[0] & 0x80) === 0) || (n === -1 && (bytes[0] & 0x80) !== 0)) break;
+    }
+    return tlv(TAG_INTEGER, Buffer.from(bytes));
+}
+
+function encodeOctets(value: Buffer | string): Buffer {
+    return tlv(TAG_OCTET_STRING, typeof value === 'string' ? Buffer.from(value, 'utf-8') : value);
+}
+
+function encodeOid(oid: string): Buffer {
+    const arcs = oid.replace(/^\./, '').split('.').map(Number);
+    if (arcs.length < 2 || arcs.some(arc => !Number.isInteger(arc) || arc < 0) || arcs[0] > 2) {
+        throw new Error(`Invalid OID: ${oid}`);
+    }
+
+    const bytes: number[] = [];
+    for (const arc of [arcs[0] * 40 + arcs[1], ...arcs.slice(2)]) {
+        const chunk = [arc % 128];
+        for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift((n % 128) | 0x80);
+        bytes.push(...chunk);
+    }
+    return tlv(TAG_OID, Buffer.from(bytes));
+}
+
+/**
+ * Read one TLV at `offset`; `base` is where `buffer` sits in the outermost buffer
+ */
+function readTlv(buffer: Buffer, offset: number, base: number = 0): { node: BerNode; next: number } {
+    if (offset + 2 > buffer.length) throw new Error('Truncated BER data');
+    const tag = buffer[offset];
+    let length = buffer[offset + 1];
+    let start = offset + 2;
+
+    if (length & 0x80) {
+        const count = length & 0x7f;
+        if (count === 0 || count > 4 || start + count > buffer.length) throw new Error('Bad BER length');
+        length = 0;
+        for (let i = 0; i < count; i++) length = length * 256 + buffer[start + i];
+        start += count;
+    }
+    if (start + length > buffer.length) throw new Error('Truncated BER data');
+
+    return { node: { tag, value: buffer.subarray(start, start + length), offset: base + start }, next: start + length };
+}
+
+function children(node: BerNode): BerNode[] {
+    const items: BerNode[] = [];
+    for (let offset = 0; offset < node.value.length;) {
+        const { node: child, next } = readTlv(node.value, offset, node.offset);
+        items.push(child);
+        offset = next;
+    }
+    return items;
+}
+
+function decodeInteger(value: Buffer, signed: boolean = true): number {
+    let n = signed && value.length > 0 && (value[0] & 0x80) ? -1 : 0;
+    for (const byte of value) n = n * 256 + byte;
+    return n;
+}
+
+function decodeOid(value: Buffer): string {
+    const arcs: number[] = [];
+    let n = 0;
+    for (const byte of value) {
+        n = n * 128 + (byte & 0x7f);
+        if (byte & 0x80) continue;
+        if (arcs.length === 0) {
+            const first = n < 40 ? 0 : n < 80 ? 1 : 2;
+            arcs.push(first, n - first * 40);
+        } else {
+            arcs.push(n);
+        }
+        n = 0;
+    }
+    return arcs.join('.');
+}
+
+function decodeVarbind(node: BerNode): Varbind {
+    const [name, data] = children(node);
+    if (!name || name.tag !== TAG_OID || !data) throw new Error('Malformed varbind');
+    const oid = decodeOid(name.value);
+
+    switch (data.tag) {
+        case TAG_INTEGER: return { oid, type: 'integer', value: decodeInteger(data.value) };
+        case TAG_OCTET_STRING: return { oid, type: 'octets', value: Buffer.from(data.value) };
+        case TAG_NULL: return { oid, type: 'null', value: null };
+        case TAG_OID: return { oid, type: 'oid', value: decodeOid(data.value) };
+        case TAG_IP_ADDRESS: return { oid, type: 'ipAddress', value: [...data.value].join('.') };
+        case TAG_COUNTER32: return { oid, type: 'counter32', value: decodeInteger(data.value, false) };
+        case TAG_GAUGE32: return { oid, type: 'gauge32', value: decodeInteger(data.value, false) };
+        case TAG_TIMETICKS: return { oid, type: 'timeticks', value: decodeInteger(data.value, false) };
+        case TAG_OPAQUE: return { oid, type: 'opaque', value: Buffer.from(data.value) };
+        // Loses precision above 2^53, far beyond any real octet counter
+        case TAG_COUNTER64: return { oid, type: 'counter64', value: decodeInteger(data.value, false) };
+        case TAG_NO_SUCH_OBJECT: return { oid, type: 'noSuchObject', value: null };
+        case TAG_NO_SUCH_INSTANCE: return { oid, type: 'noSuchInstance', value: null };
+        case TAG_END_OF_MIB_VIEW: return { oid, type: 'endOfMibView', value: null };
+        default: throw new Error(`Unknown value type 0x${data.tag.toString(16)} for ${oid}`);
+    }
+}
+
+function encodePdu(pdu: Pdu): Buffer {
+    const varbinds = pdu.varbinds.map(vb => sequence([encodeOid(vb.oid), tlv(TAG_NULL, Buffer.alloc(0))]));
+    return sequence([
+        encodeInteger(pdu.requestId),
+        encodeInteger(pdu.errorStatus), // non-repeaters for GETBULK
+        encodeInteger(pdu.errorIndex), // max-repetitions for GETBULK
+        sequence(varbinds),
+    ], pdu.type);
+}
+
+function decodePdu(node: BerNode): Pdu {
+    const [requestId, errorStatus, errorIndex, varbinds] = children(node);
+    if (!varbinds || varbinds.tag !== TAG_SEQUENCE) throw new Error('Malformed PDU');
+    return {
+        type: node.tag,
+        requestId: decodeInteger(requestId.value),
+        errorStatus: decodeInteger(errorStatus.value),
+        errorIndex: decodeInteger(errorIndex.value),
+        varbinds: children(varbinds).map(decodeVarbind),
+    };
+}
+
+// ============================================
+// USM KEYS
+// ============================================
+
+/**
+ * Turn a password into a key: hash 1 MB of the repeated password (RFC 3414 A.2)
+ */
+export function passwordToKey(password: string, protocol: AuthProtocol): Buffer {
+    const bytes = Buffer.from(password, 'utf-8');
+    if (bytes.length === 0) throw new Error('Password is empty');
+
+    const expanded = Buffer.alloc(1024 * 1024);
+    for (let offset = 0; offset < expanded.length; offset += bytes.length) bytes.copy(expanded, offset);
+    return createHash(AUTH_PROTOCOLS[protocol].hash).update(expanded).digest();
+}
+
+/**
+ * Bind a key to one agent's engine ID (RFC 3414 A.2)
+ */
+export function localizeKey(key: Buffer, engineId: Buffer, protocol: AuthProtocol): Buffer {
+    return createHash(AUTH_PROTOCOLS[protocol].hash).update(Buffer.concat([key, engineId, key])).digest();
+}
+
+// ============================================
+// SESSION
+// ============================================
+
+export class SnmpSession {
+    private socket: Socket | null = null;
+    private pending = new Map<number, (message: Buffer) => void>();
+    private nextId = randomBytes(4).readUInt32BE(0) & 0x3fffffff;
+
+    // v3 state
+    private engine: Engine | null = null;
+    private authKey: Buffer | null = null;
+    private privKey: Buffer | null = null;
+    private salt = randomBytes(8).readBigUInt64BE(0);
+
+    constructor(private readonly target: SnmpTarget) {
+        if (target.version === 'v3') {
+            const level = target.securityLevel ?? 'noAuthNoPriv';
+            if (!target.username) throw new Error('SNMPv3 needs a username');
+            if (level !== 'noAuthNoPriv' && !target.authPassword) throw new Error(`${level} needs an auth password`);
+            if (level === 'authPriv' && !target.privPassword) throw new Error('authPriv needs a privacy password');
+        } else if (!target.community) {
+            throw new Error('SNMPv2c needs a community');
+        }
+    }
+
+    async get(oids: string[]): Promise<Varbind[]> {
+        return this.checked(await this.request(PDU_GET, oids));
+    }
+
+    async getNext(oids: string[]): Promise<Varbind[]> {
+        return this.checked(await this.request(PDU_GET_NEXT, oids));
+    }
+
+    async getBulk(oids: string[], nonRepeaters: number, maxRepetitions: number): Promise<Varbind[]> {
+        return this.checked(await this.request(PDU_GET_BULK, oids, nonRepeaters, maxRepetitions));
+    }
+
+    /**
+     * Every variable under `base`, in OID order
+     */
+    async walk(base: string, maxRepetitions: number = 25): Promise<Varbind[]> {
+        const root = base.replace(/^\./, '');
+        const rows: Varbind[] = [];
+        let current = root;
+
+        for (;;) {
+            const varbinds = await this.getBulk([current], 0, maxRepetitions);
+            if (varbinds.length === 0) return rows;
+
+            for (const vb of varbinds) {
+                if (vb.type === 'endOfMibView' || !vb.oid.startsWith(`${root}.`)) return rows;
+                if (compareOids(vb.oid, current) <= 0) throw new Error(`Agent returned OIDs out of order at ${vb.oid}`);
+                rows.push(vb);
+                current = vb.oid;
+            }
+            if (rows.length > MAX_WALK_ROWS) throw new Error(`Walk of ${root} returned more than ${MAX_WALK_ROWS} rows`);
+        }
+    }
+
+    close(): void {
+        this.socket?.close();
+        this.socket = null;
+        this.pending.clear();
+    }
+
+    private checked(pdu: Pdu): Varbind[] {
+        if (pdu.errorStatus !== 0) {
+            const name = ERROR_STATUS[pdu.errorStatus] ?? `error ${pdu.errorStatus}`;
+            const oid = pdu.varbinds[pdu.errorIndex - 1]?.oid;
+            throw new Error(`Agent returned ${name}${oid ? ` for ${oid}` : ''}`);
+        }
+        return pdu.varbinds;
+    }
+
+    private async request(type: number, oids: string[], errorStatus: number = 0, errorIndex: number = 0): Promise<Pdu> {
+        const pdu: Pdu = {
+            type,
+            requestId: 0,
+            errorStatus,
+            errorIndex,
+            varbinds: oids.map(oid => ({ oid, type: 'null', value: null })),
+        };
+
+        if (this.target.version === 'v2c') {
+            pdu.requestId = this.newId();
+            const message = sequence([encodeInteger(1), encodeOctets(this.target.community!), encodePdu(pdu)]);
+            return this.decodeV2c(await this.exchange(pdu.requestId, message));
+        }
+
+        if (!this.engine) await this.discoverEngine();
+
+        // A report of a stale time or engine ID is answered once by resyncing
+        for (let attempt = 0; ; attempt++) {
+            pdu.requestId = this.newId();
+            const { pdu: response, security } = this.decodeV3(await this.exchange(pdu.requestId, this.encodeV3(pdu)));
+            if (response.type !== PDU_REPORT) return response;
+
+            const report = response.varbinds[0]?.oid ?? '';
+            const resync = report === `${USM_STATS}.2.0` || report === `${USM_STATS}.4.0`;
+            if (!resync || attempt > 0) throw new Error(`SNMPv3 ${REPORTS[report] ?? `report ${report}`}`);
+            this.learnEngine(security);
+        }
+    }
+
+    /**
+     * Ask the agent for its engine ID, boots and time with an empty request
+     */
+    private async discoverEngine(): Promise<void> {
+        const requestId = this.newId();
+        const message = this.encodeV3({ type: PDU_GET, requestId, errorStatus: 0, errorIndex: 0, varbinds: [] }, true);
+        const { security } = this.decodeV3(await this.exchange(requestId, message), true);
+        if (security.engineId.length === 0) throw new Error('Agent did not report its engine ID');
+        this.learnEngine(security);
+    }
+
+    private learnEngine(security: SecurityParameters): void {
+        const changed = !this.engine || !this.engine.id.equals(security.engineId);
+        this.engine = { id: security.engineId, boots: security.engineBoots, time: security.engineTime, learnedAt: Date.now() };
+        if (!changed) return;
+
+        const { authProtocol = 'sha', authPassword, privPassword } = this.target;
+        const level = this.target.securityLevel ?? 'noAuthNoPriv';
+        this.authKey = level !== 'noAuthNoPriv'
+            ? localizeKey(passwordToKey(authPassword!, authProtocol), security.engineId, authProtocol)
+            : null;
+        this.privKey = level === 'authPriv'
+            ? localizeKey(passwordToKey(privPassword!, authProtocol), security.engineId, authProtocol)
+            : null;
+    }
+
+    private encodeV3(pdu: Pdu, discovery: boolean = false): Buffer {
+        const engine = discovery ? null : this.engine;
+        const engineId = engine?.id ?? Buffer.alloc(0);
+        const boots = engine?.boots ?? 0;
+        const time = engine ? engine.time + Math.floor((Date.now() - engine.learnedAt) / 1000) : 0;
+        const auth = !discovery && this.authKey ? AUTH_PROTOCOLS[this.target.authProtocol ?? 'sha'] : null;
+        const priv = !discovery && this.privKey !== null;
+
+        let scoped = sequence([encodeOctets(engineId), encodeOctets(''), encodePdu(pdu)]);
+        let privParams: Buffer = Buffer.alloc(0);
+        if (priv) {
+            const encrypted = this.encrypt(scoped, boots, time);
+            scoped = encodeOctets(encrypted.data);
+            privParams = encrypted.salt;
+        }
+
+        const authField = encodeOctets(Buffer.alloc(auth?.macLength ?? 0));
+        const privField = encodeOctets(privParams);
+        const security = sequence([
+            encodeOctets(engineId),
+            encodeInteger(boots),
+            encodeInteger(time),
+            encodeOctets(discovery ? '' : this.target.username!),
+            authField,
+            privField,
+        ]);
+        const flags = FLAG_REPORTABLE | (auth ? FLAG_AUTH : 0) | (priv ? FLAG_PRIV : 0);
+
+        const message = sequence([
+            encodeInteger(3),
+            sequence([encodeInteger(pdu.requestId), encodeInteger(MAX_MESSAGE_SIZE), encodeOctets(Buffer.from([flags])), encodeInteger(USM_SECURITY_MODEL)]),
+            encodeOctets(security),
+            scoped,
+        ]);
+
+        if (auth) {
+            // The MAC covers the whole message with the auth field zeroed, then fills it
+            const mac = createHmac(auth.hash, this.authKey!).update(message).digest().subarray(0, auth.macLength);
+            const position = message.indexOf(security) + security.length - privField.length - authField.length + 2;
+            mac.copy(message, position);
+        }
+        return message;
+    }
+
+    private decodeV2c(message: Buffer): Pdu {
+        const [version, , pdu] = children(readTlv(message, 0).node);
+        if (!pdu || decodeInteger(version.value) !== 1) throw new Error('Not an SNMPv2c response');
+        return decodePdu(pdu);
+    }
+
+    private decodeV3(message: Buffer, discovery: boolean = false): { pdu: Pdu; security: SecurityParameters } {
+        const [version, header, securityNode, scopedNode] = children(readTlv(message, 0).node);
+        if (!scopedNode || decodeInteger(version.value) !== 3) throw new Error('Not an SNMPv3 response');
+
+        const flags = children(header)[2]?.value[0] ?? 0;
+        const [engineId, boots, time, username, authParams, privParams] =
+            children(readTlv(securityNode.value, 0, securityNode.offset).node);
+        const security: SecurityParameters = {
+            engineId: Buffer.from(engineId.value),
+            engineBoots: decodeInteger(boots.value),
+            engineTime: decodeInteger(time.value),
+            username: username.value.toString('utf-8'),
+            authParams,
+            privParams: Buffer.from(privParams.value),
+        };
+
+        if (flags & FLAG_AUTH) {
+            if (!this.authKey) throw new Error('Unexpected authenticated response');
+            this.verify(message, authParams);
+        }
+
+        let scoped: BerNode;
+        if (flags & FLAG_PRIV) {
+            if (!this.privKey) throw new Error('Unexpected encrypted response');
+            const plain = this.decrypt(scopedNode.value, security);
+            scoped = readTlv(plain, 0).node; // DES padding after the PDU is ignored
+        } else {
+            scoped = scopedNode;
+        }
+
+        const pdu = decodePdu(children(scoped)[2]);
+        // Only reports may come back unauthenticated when auth was asked for
+        if (!discovery && this.authKey && !(flags & FLAG_AUTH) && pdu.type !== PDU_REPORT) {
+            throw new Error('Response was not authenticated');
+        }
+        if (pdu.type !== PDU_RESPONSE && pdu.type !== PDU_REPORT) throw new Error('Unexpected PDU type');
+        return { pdu, security };
+    }
+
+    private verify(message: Buffer, authParams: BerNode): void {
+        const auth = AUTH_PROTOCOLS[this.target.authProtocol ?? 'sha'];
+        if (authParams.value.length !== auth.macLength) throw new Error('Bad authentication parameters');
+
+        const received = Buffer.from(authParams.value);
+        const zeroed = Buffer.from(message);
+        zeroed.fill(0, authParams.offset, authParams.offset + auth.macLength);
+        const expected = createHmac(auth.hash, this.authKey!).update(zeroed).digest().subarray(0, auth.macLength);
+        if (!timingSafeEqual(received, expected)) throw new Error('Response failed authentication');
+    }
+
+    private encrypt(plain: Buffer, boots: number, time: number): { data: Buffer; salt: Buffer } {
+        this.salt = (this.salt + 1n) & 0xffffffffffffffffn;
+
+        if (this.target.privProtocol === 'des') {
+            // Salt: engine boots + a local counter; IV: pre-IV XOR salt
+            const salt = Buffer.alloc(8);
+            salt.writeUInt32BE(boots >>> 0, 0);
+            salt.writeUInt32BE(Number(this.salt & 0xffffffffn), 4);
+            const padded = Buffer.concat([plain, Buffer.alloc((8 - (plain.length % 8)) % 8)]);
+            const cipher = createCipheriv('des-ede3-cbc', this.desKey(), this.desIv(salt)).setAutoPadding(false);
+            return { data: Buffer.concat([cipher.update(padded), cipher.final()]), salt };
+        }
+
+        // AES: IV is boots + time + a 64-bit salt
+        const salt = Buffer.alloc(8);
+        salt.writeBigUInt64BE(this.salt);
+        const cipher = createCipheriv('aes-128-cfb', this.privKey!.subarray(0, 16), this.aesIv(boots, time, salt));
+        return { data: Buffer.concat([cipher.update(plain), cipher.final()]), salt };
+    }
+
+    private decrypt(data: Buffer, security: SecurityParameters): Buffer {
+        if (security.privParams.length !== 8) throw new Error('Bad privacy parameters');
+
+        if (this.target.privProtocol === 'des') {
+            if (data.length % 8 !== 0) throw new Error('Bad DES ciphertext length');
+            const decipher = createDecipheriv('des-ede3-cbc', this.desKey(), this.desIv(security.privParams)).setAutoPadding(false);
+            return Buffer.concat([decipher.update(data), decipher.final()]);
+        }
+
+        const iv = this.aesIv(security.engineBoots, security.engineTime, security.privParams);
+        const decipher = createDecipheriv('aes-128-cfb', this.privKey!.subarray(0, 16), iv);
+        return Buffer.concat([decipher.update(data), decipher.final()]);
+    }
+
+    private desKey(): Buffer {
+        const key = this.privKey!.subarray(0, 8);
+        return Buffer.concat([key, key, key]);
+    }
+
+    private desIv(salt: Buffer): Buffer {
+        const iv = Buffer.from(this.privKey!.subarray(8, 16));
+        for (let i = 0; i < 8; i++) iv[i] ^= salt[i];
+        return iv;
+    }
+
+    private aesIv(boots: number, time: number, salt: Buffer): Buffer {
+        const iv = Buffer.alloc(16);
+        iv.writeUInt32BE(boots >>> 0, 0);
+        iv.writeUInt32BE(time >>> 0, 4);
+        salt.copy(iv, 8);
+        return iv;
+    }
+
+    /**
+     * Send a message and wait for the reply with the same request ID,
+     * resending after each timeout
+     */
+    private async exchange(requestId: number, message: Buffer): Promise<Buffer> {
+        const socket = await this.open();
+        const timeoutMs = this.target.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const attempts = (this.target.retries ?? DEFAULT_RETRIES) + 1;
+
+        try {
+            for (let attempt = 0; attempt < attempts; attempt++) {
+                const reply = await new Promise<Buffer | null>((resolve) => {
+                    const timer = setTimeout(() => resolve(null), timeoutMs);
+                    this.pending.set(requestId, (response) => {
+                        clearTimeout(timer);
+                        resolve(response);
+                    });
+                    socket.send(message, this.target.port ?? SNMP_PORT, this.target.host);
+                });
+                if (reply) return reply;
+            }
+        } finally {
+            this.pending.delete(requestId);
+        }
+        throw new Error(`No SNMP response from ${this.target.host} after ${attempts} attempt(s)`);
+    }
+
+    private async open(): Promise<Socket> {
+        if (this.socket) return this.socket;
+
+        const socket = createSocket('udp4');
+        socket.on('message', (message: Buffer) => {
+            const id = this.responseId(message);
+            if (id !== null) this.pending.get(id)?.(message);
+        });
+        await new Promise<void>((resolve, reject) => {
+            socket.once('error', reject);
+            socket.bind(0, () => {
+                socket.off('error', reject);
+                resolve();
+            });
+        });
+        socket.on('error', (error) => console.error('SNMP socket error:', error.message));
+        this.socket = socket;
+        return socket;
+    }
+
+    /**
+     * The request ID a reply answers: the PDU's for v2c, msgID for v3
+     * (the PDU may be encrypted). Malformed packets give null.
+     */
+    private responseId(message: Buffer): number | null {
+        try {
+            const [version, second, third] = children(readTlv(message, 0).node);
+            if (decodeInteger(version.value) === 3) return decodeInteger(children(second)[0].value);
+            return decodeInteger(children(third)[0].value);
+        } catch {
+            return null;
+        }
+    }
+
+    private newId(): number {
+        this.nextId = (this.nextId + 1) & 0x3fffffff;
+        return this.nextId;
+    }
+}
+
+/**
+ * Compare two numeric OIDs arc by arc
+ */
+export function compareOids(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        if (left[i] !== right[i]) return left[i] - right[i];
+    }
+    return left.length - right.length;
+}
@@ -0,0 +1,556 @@
+/**
+ * Topology Graph
+ *
+ * Builds the network graph drawn by the dashboard from the data model alone:
+ * - Sites, linked by sites.connectsToSiteId
+ * - Networks, linked by networks.upstreamNetworkId and to the device in providerDeviceId
+ * - Devices, attached to their site and to networks through device_network_links
+ * - Physical device links (device_links) and connectivity chain links
+ * - Connections between discovered devices
+ *
+ * Every node and edge carries its provenance: the table and row it came from
+ * (null for the group of devices without a site, which has no row).
+ * Large sites are paged, and any site can be collapsed into a single node.
+ */
+
+import { db } from '../db/index.js';
+import {
+    sites, locations, vehicles, networks, topologies, devices, deviceNetworkLinks, deviceLinks,
+    connectivityChains, chainLinks, discoveredDevices, discoveredConnections,
+    type Device,
+} from '../db/schema.js';
+
+export type GraphNodeKind = 'site' | 'network' | 'device' | 'discovered' | 'group';
+export type GraphEdgeType = 'wired' | 'wireless' | 'vpn' | 'wan';
+
+export interface Provenance {
+    table: string;
+    id: string;
+    /** Column the relationship was read from, for edges */
+    column?: string;
+    platform?: string | null;
+}
+
+export interface GraphNode {
+    id: string;
+    kind: GraphNodeKind;
+    name: string;
+    type: string; // Icon type for the dashboard, e.g. "router", "site"
+    status: 'online' | 'offline' | 'degraded' | 'unknown';
+    layer: number; // Hops from the core, capped at 4
+    siteId: string | null;
+    ip?: string | null;
+    mac?: string | null;
+    vendor?: string | null;
+    /** Group nodes: how many devices they stand for */
+    count?: number;
+    provenance: Provenance | null;
+}
+
+export interface GraphEdge {
+    id: string;
+    source: string;
+    target: string;
+    type: GraphEdgeType;
+    status: 'active' | 'degraded' | 'down';
+    relation: 'site_uplink' | 'site_member' | 'network_upstream' | 'network_provider' | 'network_member'
+        | 'device_link' | 'chain' | 'discovered';
+    bandwidth?: string;
+    latency?: number;
+    // RF metrics of physical links
+    frequencyMhz?: number | null;
+    signalLocalDbm?: number | null;
+    signalRemoteDbm?: number | null;
+    distanceM?: number | null;
+    /** Discovered connections: 0-100 */
+    confidence?: number | null;
+    provenance: Provenance;
+}
+
+export interface SitePage {
+    siteId: string | null;
+    name: string;
+    totalDevices: number;
+    offset: number;
+    limit: number;
+    shownDevices: number;
+    collapsed: boolean;
+}
+
+export interface TopologyGraph {
+    nodes: GraphNode[];
+    links: GraphEdge[];
+    sites: SitePage[];
+}
+
+export interface TopologyGraphOptions {
+    /** Devices drawn per site before the rest are folded into a group node */
+    limit?: number;
+    /** Per-site offsets into the device list, keyed by site ID ("unassigned" for no site) */
+    offsets?: Record<string, number>;
+    /** Site IDs drawn as one node, or "all" */
+    collapse?: string[] | 'all';
+    /** Include discovered devices and their connections (default true) */
+    includeDiscovered?: boolean;
+}
+
+const DEFAULT_LIMIT = 50;
+const UNASSIGNED = 'unassigned';
+
+const OVERLAY_TOPOLOGIES = new Set(['zerotier', 'tailscale', 'wireguard', 'cloudflare']);
+
+function uplinkEdgeType(uplink: string | null | undefined): GraphEdgeType {
+    switch (uplink) {
+        case 'vpn':
+        case 'cloud_key':
+            return 'vpn';
+        case 'wireless':
+        case 'wireless_bridge':
+            return 'wireless';
+        case 'cellular':
+        case 'starlink':
+            return 'wan';
+        default:
+            return 'wired';
+    }
+}
+
+function chainEdgeType(linkType: string): GraphEdgeType {
+    switch (linkType) {
+        case 'zerotier':
+        case 'wireguard':
+        case 'tailscale':
+        case 'unifi_vpn':
+        case 'cloudflare_tunnel':
+            return 'vpn';
+        case 'wireless_bridge':
+            return 'wireless';
+        case 'starlink':
+        case 'cellular_4g':
+        case 'cellular_5g':
+            return 'wan';
+        default:
+            return 'wired';
+    }
+}
+
+function deviceNodeType(type: string): string {
+    switch (type) {
+        case 'router':
+        case 'switch':
+        case 'access_point':
+        case 'gateway':
+        case 'server':
+        case 'camera':
+        case 'workstation':
+        case 'iot':
+        case 'nas':
+            return type;
+        default:
+            return 'unknown';
+    }
+}
+
+function deviceStatus(status: Device['status']): GraphNode['status'] {
+    switch (status) {
+        case 'online': return 'online';
+        case 'offline':
+        case 'retired': return 'offline';
+        case 'degraded': return 'degraded';
+        default: return 'unknown';
+    }
+}
+
+function networkStatus(status: string | null): GraphNode['status'] {
+    switch (status) {
+        case 'active': return 'online';
+        case 'inactive': return 'offline';
+        case 'degraded': return 'degraded';
+        default: return 'unknown';
+    }
+}
+
+function edgeStatus(status: string | null | undefined): GraphEdge['status'] {
+    switch (status) {
+        case 'down':
+        case 'inactive':
+        case 'disconnected':
+        case 'offline':
+            return 'down';
+        case 'degraded':
+            return 'degraded';
+        default:
+            return 'active';
+    }
+}
+
+export class TopologyGraphBuilder {
+    async build(options: TopologyGraphOptions = {}): Promise<TopologyGraph> {
+        const limit = Math.max(1, options.limit ?? DEFAULT_LIMIT);
+        const collapseAll = options.collapse === 'all';
+        const collapsed = new Set(Array.isArray(options.collapse) ? options.collapse : []);
+
+        const [
+            allSites, allLocations, allVehicles, networkRows, allTopologies, deviceRows,
+            memberships, physicalLinks, chains, allChainLinks,
+        ] = await Promise.all([
+            db.select().from(sites),
+            db.select().from(locations),
+            db.select().from(vehicles),
+            db.select().from(networks),
+            db.select().from(topologies),
+            db.select().from(devices),
+            db.select().from(deviceNetworkLinks),
+            db.select().from(deviceLinks),
+            db.select().from(connectivityChains),
+            db.select().from(chainLinks),
+        ]);
+        // Retired rows are gone from their platform
+        const allNetworks = networkRows.filter(n => n.status !== 'retired');
+        const allDevices = deviceRows.filter(d => d.status !== 'retired');
+
+        const nodes = new Map<string, GraphNode>();
+        const edges = new Map<string, GraphEdge>();
+        // Where each device, hidden or not, is drawn
+        const deviceNodeId = new Map<string, string>();
+
+        const addEdge = (edge: Omit<GraphEdge, 'id'>) => {
+            if (!nodes.has(edge.source) || !nodes.has(edge.target) || edge.source === edge.target) return;
+            const id = `${edge.relation}:${edge.source}:${edge.target}`;
+            if (!edges.has(id)) edges.set(id, { id, ...edge });
+        };
+
+        // Sites
+        for (const site of allSites) {
+            nodes.set(`site:${site.id}`, {
+                id: `site:${site.id}`,
+                kind: 'site',
+                name: site.name,
+                type: 'site',
+                status: 'unknown',
+                layer: 0,
+                siteId: site.id,
+                provenance: { table: 'sites', id: site.id },
+            });
+        }
+
+        // Devices, grouped by site through their location or vehicle
+        const siteOfLocation = new Map(allLocations.map(l => [l.id, l.siteId]));
+        const siteOfVehicle = new Map(allVehicles.map(v => [v.id, v.currentSiteId]));
+        const siteOf = (device: Device): string | null =>
+            (device.locationId && siteOfLocation.get(device.locationId))
+            || (device.vehicleId && siteOfVehicle.get(device.vehicleId))
+            || null;
+
+        const bySite = new Map<string, Device[]>();
+        for (const device of allDevices) {
+            const key = siteOf(device) ?? UNASSIGNED;
+            if (!bySite.has(key)) bySite.set(key, []);
+            bySite.get(key)!.push(device);
+        }
+
+        const pages: SitePage[] = [];
+        for (const [key, siteDevices] of bySite) {
+            const siteId = key === UNASSIGNED ? null : key;
+            const site = allSites.find(s => s.id === siteId);
+            siteDevices.sort((a, b) => a.name.localeCompare(b.name));
+
+            const isCollapsed = collapseAll || collapsed.has(key);
+            const offset = Math.max(0, options.offsets?.[key] ?? 0);
+            const shown = isCollapsed ? [] : siteDevices.slice(offset, offset + limit);
+            const hidden = siteDevices.filter(d => !shown.includes(d));
+
+            for (const device of shown) {
+                nodes.set(device.id, {
+                    id: device.id,
+                    kind: 'device',
+                    name: device.name,
+                    type: deviceNodeType(device.type),
+                    status: deviceStatus(device.status),
+                    layer: 0,
+                    siteId,
+                    ip: device.primaryIp,
+                    mac: device.primaryMac,
+                    vendor: device.manufacturer,
+                    provenance: { table: 'devices', id: device.id, platform: device.platformType },
+                });
+                deviceNodeId.set(device.id, device.id);
+            }
+
+            if (hidden.length > 0) {
+                const groupId = `group:${key}`;
+                const online = hidden.filter(d => d.status === 'online').length;
+                nodes.set(groupId, {
+                    id: groupId,
+                    kind: 'group',
+                    name: isCollapsed
+                        ? `${site?.name ?? 'Unassigned'} (${hidden.length} devices)`
+                        : `${hidden.length} more device${hidden.length === 1 ? '' : 's'}`,
+                    type: 'group',
+                    status: online === hidden.length ? 'online' : online > 0 ? 'degraded' : 'offline',
+                    layer: 0,
+                    siteId,
+                    count: hidden.length,
+                    provenance: siteId ? { table: 'sites', id: siteId } : null,
+                });
+                for (const device of hidden) deviceNodeId.set(device.id, groupId);
+            }
+
+            pages.push({
+                siteId,
+                name: site?.name ?? 'Unassigned',
+                totalDevices: siteDevices.length,
+                offset,
+                limit,
+                shownDevices: shown.length,
+                collapsed: isCollapsed,
+            });
+
+            if (site) {
+                const siteNode = nodes.get(`site:${site.id}`)!;
+                const online = siteDevices.filter(d => d.status === 'online').length;
+                siteNode.status = online === siteDevices.length ? 'online' : online > 0 ? 'degraded' : 'offline';
+            }
+        }
+
+        // Networks
+        const topologyType = new Map(allTopologies.map(t => [t.id, t.type]));
+        for (const net of allNetworks) {
+            nodes.set(`network:${net.id}`, {
+                id: `network:${net.id}`,
+                kind: 'network',
+                name: net.cidr ? `${net.name} (${net.cidr})` : net.name,
+                type: 'network',
+                status: networkStatus(net.status),
+                layer: 0,
+                siteId: null,
+                provenance: { table: 'networks', id: net.id, platform: topologyType.get(net.topologyId) },
+            });
+        }
+
+        // Site uplinks
+        for (const site of allSites) {
+            if (!site.connectsToSiteId) continue;
+            addEdge({
+                source: `site:${site.connectsToSiteId}`,
+                target: `site:${site.id}`,
+                type: uplinkEdgeType(site.primaryUplinkType),
+                status: 'active',
+                relation: 'site_uplink',
+                provenance: { table: 'sites', id: site.id, column: 'connects_to_site_id' },
+            });
+        }
+
+        // Devices without a physical uplink hang off their site
+        const hasUplink = new Set(physicalLinks.map(l => l.targetDeviceId));
+        for (const device of allDevices) {
+            const site = siteOf(device);
+            if (!site || hasUplink.has(device.id)) continue;
+            addEdge({
+                source: `site:${site}`,
+                target: deviceNodeId.get(device.id)!,
+                type: 'wired',
+                status: device.status === 'online' ? 'active' : 'down',
+                relation: 'site_member',
+                provenance: {
+                    table: 'devices',
+                    id: device.id,
+                    column: device.locationId ? 'location_id' : 'vehicle_id',
+                },
+            });
+        }
+
+        // Network upstreams and providers
+        for (const net of allNetworks) {
+            if (net.upstreamNetworkId) {
+                addEdge({
+                    source: `network:${net.upstreamNetworkId}`,
+                    target: `network:${net.id}`,
+                    type: uplinkEdgeType(net.upstreamType),
+                    status: edgeStatus(net.status),
+                    relation: 'network_upstream',
+                    provenance: { table: 'networks', id: net.id, column: 'upstream_network_id' },
+                });
+            }
+            if (net.providerDeviceId && deviceNodeId.has(net.providerDeviceId)) {
+                addEdge({
+                    source: deviceNodeId.get(net.providerDeviceId)!,
+                    target: `network:${net.id}`,
+                    type: 'wired',
+                    status: edgeStatus(net.status),
+                    relation: 'network_provider',
+                    provenance: { table: 'networks', id: net.id, column: 'provider_device_id' },
+                });
+            }
+        }
+
+        // Network memberships
+        const networkTopology = new Map(allNetworks.map(n => [n.id, topologyType.get(n.topologyId)]));
+        for (const link of memberships) {
+            const device = deviceNodeId.get(link.deviceId);
+            if (!device) continue;
+            const platform = networkTopology.get(link.networkId);
+            addEdge({
+                source: `network:${link.networkId}`,
+                target: device,
+                type: platform && OVERLAY_TOPOLOGIES.has(platform) ? 'vpn' : 'wired',
+                status: edgeStatus(link.status),
+                relation: 'network_member',
+                provenance: { table: 'device_network_links', id: link.id, platform },
+            });
+        }
+
+        // Physical device links, e.g. UISP backhauls
+        for (const link of physicalLinks) {
+            const source = deviceNodeId.get(link.sourceDeviceId);
+            const target = deviceNodeId.get(link.targetDeviceId);
+            if (!source || !target) continue;
+            const capacity = link.downlinkCapacityMbps ?? link.uplinkCapacityMbps;
+            addEdge({
+                source,
+                target,
+                type: link.medium === 'wireless' ? 'wireless' : 'wired',
+                status: edgeStatus(link.status),
+                relation: 'device_link',
+                bandwidth: capacity != null ? `${capacity} Mbps` : undefined,
+                frequencyMhz: link.frequencyMhz,
+                signalLocalDbm: link.signalLocalDbm,
+                signalRemoteDbm: link.signalRemoteDbm,
+                distanceM: link.distanceM,
+                provenance: { table: 'device_links', id: link.id, platform: link.platformType },
+            });
+        }
+
+        // Connectivity chains: source, each link's device (or network), target
+        const chainNode = (type: string, id: string | null): string | undefined => {
+            if (!id) return undefined;
+            switch (type) {
+                case 'device': return deviceNodeId.get(id);
+                case 'network': return `network:${id}`;
+                case 'site': return `site:${id}`;
+                default: return undefined;
+            }
+        };
+        for (const chain of chains) {
+            const links = allChainLinks.filter(l => l.chainId === chain.id).sort((a, b) => a.order - b.order);
+            const hops: Array<{ node: string | undefined; link?: typeof links[number] }> = [
+                { node: chainNode(chain.sourceType, chain.sourceId) },
+                ...links.map(link => ({
+                    node: chainNode('device', link.deviceId) ?? chainNode('network', link.networkId),
+                    link,
+                })),
+                { node: chainNode(chain.targetType, chain.targetId) },
+            ];
+            const present = hops.filter(h => h.node && nodes.has(h.node));
+            for (let i = 1; i < present.length; i++) {
+                const link = present[i].link ?? present[i - 1].link;
+                addEdge({
+                    source: present[i - 1].node!,
+                    target: present[i].node!,
+                    type: link ? chainEdgeType(link.linkType) : 'wired',
+                    status: edgeStatus(link?.status ?? chain.status),
+                    relation: 'chain',
+                    latency: link?.latencyMs ?? undefined,
+                    bandwidth: link?.bandwidthMbps != null ? `${link.bandwidthMbps} Mbps` : undefined,
+                    provenance: link
+                        ? { table: 'chain_links', id: link.id }
+                        : { table: 'connectivity_chains', id: chain.id },
+                });
+            }
+        }
+
+        // Discovered connections; discovered devices matched to a device are drawn as that device
+        if (options.includeDiscovered !== false) {
+            const connections = await db.select().from(discoveredConnections);
+            if (connections.length > 0) {
+                const found = await db.select().from(discoveredDevices);
+                const byId = new Map(found.map(d => [d.id, d]));
+
+                const discoveredNode = (id: string): string | undefined => {
+                    const d = byId.get(id);
+                    if (!d) return undefined;
+                    if (d.linkedDeviceId) return deviceNodeId.get(d.linkedDeviceId);
+
+                    const nodeId = `discovered:${d.id}`;
+                    if (!nodes.has(nodeId)) {
+                        nodes.set(nodeId, {
+                            id: nodeId,
+                            kind: 'discovered',
+                            name: d.hostname || d.mdnsName || d.snmpSysName || d.ipAddress,
+                            type: deviceNodeType(d.deviceType ?? 'unknown'),
+                            status: d.isReachable ? 'online' : 'offline',
+                            layer: 0,
+                            siteId: d.siteId,
+                            ip: d.ipAddress,
+                            mac: d.macAddress,
+                            vendor: d.macVendor,
+                            provenance: { table: 'discovered_devices', id: d.id },
+                        });
+                    }
+                    return nodeId;
+                };
+
+                for (const conn of connections) {
+                    const source = discoveredNode(conn.sourceDeviceId);
+                    const target = discoveredNode(conn.targetDeviceId);
+                    if (!source || !target) continue;
+                    addEdge({
+                        source,
+                        target,
+                        type: conn.connectionType === 'wireless' ? 'wireless' : conn.connectionType === 'vpn' ? 'vpn' : 'wired',
+                        status: 'active',
+                        relation: 'discovered',
+                        confidence: conn.confidence,
+                        provenance: { table: 'discovered_connections', id: conn.id },
+                    });
+                }
+            }
+        }
+
+        this.assignLayers(nodes, edges, allSites);
+
+        return { nodes: [...nodes.values()], links: [...edges.values()], sites: pages };
+    }
+
+    /**
+     * Layer = hops from the core: primary / NOC sites, else sites with no
+     * uplink, else core networks. Unreachable nodes go to the edge layer.
+     */
+    private assignLayers(
+        nodes: Map<string, GraphNode>,
+        edges: Map<string, GraphEdge>,
+        allSites: Array<typeof sites.$inferSelect>
+    ): void {
+        let roots = allSites.filter(s => s.isPrimary || s.role === 'noc').map(s => `site:${s.id}`);
+        if (roots.length === 0) roots = allSites.filter(s => !s.connectsToSiteId).map(s => `site:${s.id}`);
+        if (roots.length === 0) {
+            roots = [...nodes.values()].filter(n => n.kind === 'network' && n.provenance?.platform && OVERLAY_TOPOLOGIES.has(n.provenance.platform)).map(n => n.id);
+        }
+
+        const adjacency = new Map<string, string[]>();
+        for (const edge of edges.values()) {
+            if (!adjacency.has(edge.source)) adjacency.set(edge.source, []);
+            if (!adjacency.has(edge.target)) adjacency.set(edge.target, []);
+            adjacency.get(edge.source)!.push(edge.target);
+            adjacency.get(edge.target)!.push(edge.source);
+        }
+
+        const depth = new Map<string, number>(roots.map(r => [r, 0]));
+        const queue = [...roots];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            for (const next of adjacency.get(id) || []) {
+                if (depth.has(next)) continue;
+                depth.set(next, depth.get(id)! + 1);
+                queue.push(next);
+            }
+        }
+
+        for (const node of nodes.values()) {
+            node.layer = Math.min(depth.get(node.id) ?? 4, 4);
+        }
+    }
+}
+
+// Export singleton instance
+export const topologyGraph = new TopologyGraphBuilder();
@@ -9,13 +9,22 @@ import express from 'express';
 import cors from 'cors';
 import { eq } from 'drizzle-orm';
 import { initializeDatabase, db, devices, networks, topologies, sites, locations } from './db/index.js';
-import { createConnectors, getConnectorConfigFromEnv } from './connectors/index.js';
+import { createConnectors, getConnectorConfigFromEnv, ZeroTierConnector } from './connectors/index.js';
 import sitesRouter from './routes/sites.js';
 import syncRoutes from './routes/sync.js';
 import servicesRouter from './routes/services.js';
 import mcpToolsRouter from './routes/mcp-tools.js';
 import devicesRouter from './routes/devices.js';
+import zerotierRouter from './routes/zerotier.js';
+import assignmentRulesRouter from './routes/assignment-rules.js';
+import alertsRouter from './routes/alerts.js';
+import metricsRouter from './routes/metrics.js';
+import uptimeRouter from './routes/uptime.js';
+import snmpRouter from './routes/snmp.js';
 import { syncService } from './services/sync-service.js';
+import { zeroTierMemberService } from './services/zerotier-members.js';
+import { deviceActionService } from './services/device-actions.js';
+import { alertService } from './services/alerting.js';
 import { startServiceDiscovery, stopServiceDiscovery, getServiceSummary, getServices } from './services/service-discovery.js';
 
 const app = express();
@@ -37,6 +46,12 @@ app.use('/api/v1/devices', devicesRouter);
 app.use('/api/v1/sync', syncRoutes);
 app.use('/api/v1/services', servicesRouter);
 app.use('/api/v1/tools', mcpToolsRouter);
+app.use('/api/v1/zerotier', zerotierRouter);
+app.use('/api/v1/assignment-rules', assignmentRulesRouter);
+app.use('/api/v1/alerts', alertsRouter);
+app.use('/api/v1/metrics', metricsRouter);
+app.use('/api/v1/uptime', uptimeRouter);
+app.use('/api/v1/snmp', snmpRouter);
 
 // API status
 app.get('/api/v1/status', (req, res) => {
@@ -71,6 +86,10 @@ app.get('/api/v1/status', (req, res) => {
             services: `http://${HOST}:${PORT}/api/v1/services`,
             servicesGrid: `http://${HOST}:${PORT}/api/v1/services/grid`,
             dashboard: `http://${HOST}:${PORT}/api/v1/dashboard`,
+            alerts: `http://${HOST}:${PORT}/api/v1/alerts`,
+            metrics: `http://${HOST}:${PORT}/api/v1/metrics`,
+            uptime: `http://${HOST}:${PORT}/api/v1/uptime`,
+            snmp: `http://${HOST}:${PORT}/api/v1/snmp`,
         },
     });
 });
@@ -181,8 +200,12 @@ app.get('/api/v1/dashboard', async (req, res) => {
             byPlatform: {
                 uisp: allDevices.filter(d => d.platformType === 'uisp').length,
                 unifi: allDevices.filter(d => d.platformType === 'unifi').length,
+                protect: allDevices.filter(d => d.platformType === 'protect').length,
+                starlink: allDevices.filter(d => d.platformType === 'starlink').length,
+                tailscale: allDevices.filter(d => d.platformType === 'tailscale').length,
+                wireguard: allDevices.filter(d => d.platformType === 'wireguard').length,
                 manual: allDevices.filter(d => d.platformType === 'manual').length,
-                other: allDevices.filter(d => !['uisp', 'unifi', 'manual'].includes(d.platformType || '')).length,
+                other: allDevices.filter(d => !['uisp', 'unifi', 'protect', 'starlink', 'tailscale', 'wireguard', 'manual'].includes(d.platformType || '')).length,
             },
             recentDevices: allDevices
                 .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0))
@@ -218,10 +241,33 @@ async function main() {
 
     console.log(`[NetOps] Loaded ${connectors.length} platform connector(s)`);
 
+    syncService.setConnectors(connectors);
+    deviceActionService.setConnectors(connectors);
+    zeroTierMemberService.setConnector(connectors.find(c => c instanceof ZeroTierConnector) as ZeroTierConnector ?? null);
+    await syncService.loadLastRuns();
+
     // Check if auto-sync is enabled via environment
     const autoSync = process.env.NETOPS_AUTO_SYNC !== 'false';
     const syncInterval = parseInt(process.env.NETOPS_SYNC_INTERVAL_MINUTES || '5', 10);
 
+    // Per-platform overrides, e.g. NETOPS_SYNC_INTERVAL_UISP_MINUTES=15
+    const platformIntervals: Record<string, number> = {};
+    for (const platform of syncService.getPlatforms()) {
+        const minutes = parseInt(process.env[`NETOPS_SYNC_INTERVAL_${platform.toUpperCase()}_MINUTES`] || '', 10);
+        if (minutes > 0) {
+            platformIntervals[platform] = minutes * 60 * 1000;
+        }
+    }
+    syncService.setConfig({ platformIntervals });
+
+    // Devices and networks missing from a platform are retired after a grace period
+    const graceHours = parseFloat(process.env.NETOPS_RETIRE_GRACE_HOURS || '');
+    const purgeDays = parseFloat(process.env.NETOPS_PURGE_RETIRED_DAYS || '');
+    syncService.setConfig({
+        ...(graceHours >= 0 ? { retireGraceMs: graceHours * 60 * 60 * 1000 } : {}),
+        ...(purgeDays >= 0 ? { purgeRetiredAfterMs: purgeDays * 24 * 60 * 60 * 1000 } : {}),
+    });
+
     if (autoSync) {
         // Configure sync interval
         syncService.setConfig({
@@ -236,6 +282,9 @@ async function main() {
         console.log('[NetOps] Auto-sync disabled. Use POST /api/v1/sync/start to enable.');
     }
 
+    // Fire pending alerts once their rule's duration has passed
+    alertService.start();
+
     // Start service discovery
     const serviceDiscoveryEnabled = process.env.NETOPS_SERVICE_DISCOVERY !== 'false';
     if (serviceDiscoveryEnabled) {
@@ -259,6 +308,8 @@ async function main() {
     // Graceful shutdown
     process.on('SIGTERM', () => {
         console.log('[NetOps] Shutting down...');
+        syncService.stopAllSyncTimers();
+        alertService.stop();
         stopServiceDiscovery();
         process.exit(0);
     });
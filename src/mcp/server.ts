@@ -11,9 +11,28 @@ import {
 import { db, initializeDatabase } from '../db/index.js';
 import { sites, locations, devices, networks, topologies, accessPaths, pathHops, vehicles, deviceNetworkLinks, deployments, connectivityChains, chainLinks, networkScans, discoveredDevices } from '../db/schema.js';
 import { eq, like, and, ne, desc } from 'drizzle-orm';
-import { generateId } from '../utils/helpers.js';
+import { generateId, isValidIpv4 } from '../utils/helpers.js';
 import { perspectiveService } from '../engine/perspective.js';
 import { networkScanner } from '../engine/scanner.js';
+import { fingerprinter } from '../engine/fingerprint.js';
+import { scanEngine, parsePortSpec, COMMON_PORTS } from '../engine/scan-engine.js';
+import { accessPathProber } from '../engine/prober.js';
+import { createConnectors, getConnectorConfigFromEnv, ZeroTierConnector } from '../connectors/index.js';
+import { zeroTierMemberService } from '../services/zerotier-members.js';
+import { deviceActionService, isDeviceAction } from '../services/device-actions.js';
+import { auditLogService } from '../services/audit-log.js';
+import { alertService, type AlertQuery } from '../services/alerting.js';
+import { metricsService, toMetricsQuery, METRICS } from '../services/metrics.js';
+import { macVendorService } from '../services/mac-vendors.js';
+import { snmpService } from '../services/snmp.js';
+
+// stdout carries the JSON-RPC stream, so everything logged (connectors,
+// migrations, sync) goes to stderr
+console.log = console.error;
+console.info = console.error;
+
+// Most ports fingerprint_host checks on one host
+const FINGERPRINT_MAX_PORTS = 1024;
 
 // Helper function for compass direction with arrows
 function getCompassDirection(bearing: number): string {
@@ -301,7 +320,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                     properties: {
                         topologyType: {
                             type: 'string',
-                            enum: ['zerotier', 'unifi', 'uisp', 'lan', 'wan', 'tailscale', 'wireguard', 'cloudflare', 'other'],
+                            enum: ['zerotier', 'unifi', 'uisp', 'protect', 'starlink', 'lan', 'wan', 'tailscale', 'wireguard', 'cloudflare', 'other'],
                             description: 'Filter by topology type'
                         },
                     },
@@ -316,7 +335,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                         name: { type: 'string', description: 'Name of the topology' },
                         type: {
                             type: 'string',
-                            enum: ['zerotier', 'unifi', 'uisp', 'lan', 'wan', 'tailscale', 'wireguard', 'cloudflare', 'other'],
+                            enum: ['zerotier', 'unifi', 'uisp', 'protect', 'starlink', 'lan', 'wan', 'tailscale', 'wireguard', 'cloudflare', 'other'],
                             description: 'Type of topology'
                         },
                         description: { type: 'string', description: 'Description' },
@@ -405,7 +424,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             {
                 name: 'test_access_path',
-                description: 'Test connectivity through an access path and report status of each hop',
+                description: 'Test connectivity through an access path hop by hop (TCP, HTTP, SSH), stopping at the first failed hop',
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -642,11 +661,19 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                         scanType: {
                             type: 'string',
                             enum: ['arp', 'mdns', 'port', 'snmp', 'full', 'quick'],
-                            description: 'Type of scan: arp (fast), full (comprehensive), quick (arp + common ports)',
+                            description: 'Type of scan: arp (fast), mdns (services advertised over multicast DNS), snmp (sweep, then SNMP system info, interfaces and LLDP neighbours of hosts with an agent), port (open ports and banner fingerprints), full (sweep, mDNS, SNMP, ports and fingerprints), quick (arp + common ports)',
                         },
                         targetNetwork: {
                             type: 'string',
-                            description: 'CIDR to scan (e.g., 192.168.1.0/24). Leave empty for auto-detect',
+                            description: 'CIDR to scan (e.g., 192.168.1.0/24, up to a /16). Leave empty for auto-detect',
+                        },
+                        portRange: {
+                            type: 'string',
+                            description: 'Ports for port and full scans, e.g. "22,80,443" or "1-1024" (default: 26 common ports)',
+                        },
+                        timeout: {
+                            type: 'number',
+                            description: 'Connect timeout per probe in ms (default 500)',
                         },
                     },
                     required: ['scanType'],
@@ -723,6 +750,181 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                     },
                 },
             },
+            {
+                name: 'device_action',
+                description: 'Restart, provision, block or unblock a device through its platform (UniFi, UISP). Omit action to list what the device supports. Destructive actions first return a confirmationToken; call again with it to go ahead.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        deviceId: { type: 'string', description: 'Device ID' },
+                        action: {
+                            type: 'string',
+                            enum: ['restart', 'provision', 'block', 'unblock'],
+                            description: 'Action to run',
+                        },
+                        confirmationToken: { type: 'string', description: 'Token from the first call of a destructive action' },
+                        reason: { type: 'string', description: 'Reason for the audit log' },
+                    },
+                    required: ['deviceId'],
+                },
+            },
+            {
+                name: 'get_device_metrics',
+                description: 'Telemetry trends for a device (CPU, memory, load, throughput, clients, signal, latency, ...) recorded on every sync, with avg/min/max per step and over the whole range. Omit metric to get every metric recorded for the device.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        deviceId: { type: 'string', description: 'Device ID' },
+                        metric: { type: 'string', description: `Comma-separated metrics: ${Object.keys(METRICS).join(', ')}` },
+                        from: { type: 'string', description: 'Start: ISO 8601 or relative like -12h (default -24h)' },
+                        to: { type: 'string', description: 'End: ISO 8601 or relative like -1h (default now)' },
+                        step: { type: 'string', description: 'Step between points, e.g. 5m, 1h (default about 100 points)' },
+                    },
+                    required: ['deviceId'],
+                },
+            },
+            {
+                name: 'lookup_mac',
+                description: 'Look up the vendor of a MAC address (IEEE MA-L/MA-M/MA-S, longest prefix wins) and whether it is locally administered or a randomized private address',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        mac: { type: 'string', description: 'MAC address, e.g. 00:1A:2B:3C:4D:5E' },
+                    },
+                    required: ['mac'],
+                },
+            },
+            {
+                name: 'fingerprint_host',
+                description: 'Identify a host from the banners of its open ports (SSH version, HTTP Server header and title, TLS certificate, RTSP): services with versions, plus vendor, product and device type with a confidence',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        ip: { type: 'string', description: 'IPv4 address' },
+                        ports: { type: 'string', description: 'Ports to check, e.g. "22,80,443" or "1-1024" (default: 26 common ports; at most 1024)' },
+                    },
+                    required: ['ip'],
+                },
+            },
+            {
+                name: 'snmp_poll',
+                description: 'Poll a device over SNMP (v2c/v3, using the configured credentials): system info, interfaces with traffic and error counters, and LLDP neighbours. With deviceId or discoveredDeviceId the results are stored and LLDP neighbours become discovered connections.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        ip: { type: 'string', description: 'IPv4 address to poll without storing anything' },
+                        deviceId: { type: 'string', description: 'Managed device to poll at its primary IP' },
+                        discoveredDeviceId: { type: 'string', description: 'Discovered device to poll' },
+                    },
+                },
+            },
+            // ZeroTier member management
+            {
+                name: 'list_zerotier_members',
+                description: 'List members of a ZeroTier network, or only pending join requests',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        networkId: { type: 'string', description: 'ZeroTier network ID' },
+                        pending: { type: 'boolean', description: 'Only unauthorized members waiting for approval' },
+                    },
+                    required: ['networkId'],
+                },
+            },
+            {
+                name: 'approve_zerotier_member',
+                description: 'Approve a pending ZeroTier join request. A reason is required and recorded in the audit log.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        networkId: { type: 'string', description: 'ZeroTier network ID' },
+                        memberId: { type: 'string', description: 'Member node ID' },
+                        reason: { type: 'string', description: 'Why this device is allowed on the network' },
+                        name: { type: 'string', description: 'Optional name for the member' },
+                    },
+                    required: ['networkId', 'memberId', 'reason'],
+                },
+            },
+            {
+                name: 'authorize_zerotier_member',
+                description: 'Authorize a ZeroTier member',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        networkId: { type: 'string', description: 'ZeroTier network ID' },
+                        memberId: { type: 'string', description: 'Member node ID' },
+                        reason: { type: 'string', description: 'Reason for the audit log' },
+                    },
+                    required: ['networkId', 'memberId'],
+                },
+            },
+            {
+                name: 'deauthorize_zerotier_member',
+                description: 'Deauthorize a ZeroTier member, cutting it off the network',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        networkId: { type: 'string', description: 'ZeroTier network ID' },
+                        memberId: { type: 'string', description: 'Member node ID' },
+                        reason: { type: 'string', description: 'Reason for the audit log' },
+                    },
+                    required: ['networkId', 'memberId'],
+                },
+            },
+            {
+                name: 'update_zerotier_member',
+                description: 'Rename a ZeroTier member or set its IP assignments and tags',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        networkId: { type: 'string', description: 'ZeroTier network ID' },
+                        memberId: { type: 'string', description: 'Member node ID' },
+                        name: { type: 'string' },
+                        description: { type: 'string' },
+                        ipAssignments: { type: 'array', items: { type: 'string' }, description: 'Replaces the managed IPs' },
+                        tags: {
+                            type: 'array',
+                            items: { type: 'array', items: { type: 'number' } },
+                            description: 'Replaces the tags, as [tagId, value] pairs',
+                        },
+                        reason: { type: 'string', description: 'Reason for the audit log' },
+                    },
+                    required: ['networkId', 'memberId'],
+                },
+            },
+            {
+                name: 'get_audit_log',
+                description: 'Get the audit log of changes made on external platforms, newest first',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        targetType: { type: 'string', description: 'e.g. zerotier_member' },
+                        targetId: { type: 'string', description: 'e.g. <networkId>/<memberId>' },
+                        limit: { type: 'number', description: 'Number of entries to return (default 50)' },
+                    },
+                },
+            },
+            {
+                name: 'list_alerts',
+                description: 'List alerts raised by the alert rules: devices offline, degraded networks, access path hops down, new or vanished discovered devices, failed syncs',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        status: {
+                            type: 'string',
+                            enum: ['open', 'pending', 'firing', 'acknowledged', 'resolved', 'all'],
+                            description: 'Default open (pending, firing or acknowledged)',
+                        },
+                        severity: { type: 'string', enum: ['info', 'warning', 'critical'] },
+                        eventType: {
+                            type: 'string',
+                            enum: ['device_offline', 'network_degraded', 'hop_down', 'new_device', 'device_disappeared', 'sync_failed', 'key_expiring'],
+                        },
+                        targetId: { type: 'string', description: 'Device, network, hop or platform ID' },
+                        limit: { type: 'number', description: 'Number of alerts to return (default 100)' },
+                    },
+                },
+            },
         ],
     };
 });
@@ -1227,40 +1429,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             case 'test_access_path': {
                 const { pathId } = args as { pathId: string };
 
-                // Get the path and its hops
-                const path = await db.select().from(accessPaths).where(eq(accessPaths.id, pathId));
-                if (path.length === 0) {
+                const result = await accessPathProber.testPath(pathId);
+                if (!result) {
                     return {
                         content: [{ type: 'text', text: JSON.stringify({ error: 'Access path not found' }) }],
                     };
                 }
 
-                const hops = await db.select().from(pathHops).where(eq(pathHops.pathId, pathId));
-                const sortedHops = hops.sort((a, b) => a.order - b.order);
-
-                // In a real implementation, this would actually test connectivity
-                // For now, we return a simulated result
-                const hopResults = sortedHops.map((hop, index) => ({
-                    order: hop.order,
-                    type: hop.type,
-                    targetAddress: hop.targetAddress,
-                    targetPort: hop.targetPort,
-                    status: 'unknown' as const,
-                    latencyMs: null,
-                    message: 'Connectivity testing not yet implemented - requires network access',
-                }));
-
                 return {
                     content: [{
                         type: 'text',
-                        text: JSON.stringify({
-                            pathId,
-                            pathName: path[0].name,
-                            testTime: new Date().toISOString(),
-                            overallStatus: 'unknown',
-                            hops: hopResults,
-                            note: 'Full connectivity testing requires implementation of network probing utilities',
-                        }, null, 2),
+                        text: JSON.stringify(result, null, 2),
                     }],
                 };
             }
@@ -1960,14 +2139,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             }
 
             case 'start_network_scan': {
-                const { scanType, targetNetwork } = args as {
+                const { scanType, targetNetwork, portRange, timeout } = args as {
                     scanType: 'arp' | 'mdns' | 'port' | 'snmp' | 'full' | 'quick';
                     targetNetwork?: string;
+                    portRange?: string;
+                    timeout?: number;
                 };
 
                 const scanId = await networkScanner.startScan({
                     scanType,
                     targetNetwork,
+                    portRange,
+                    timeout,
                 });
 
                 const banner = `
@@ -2092,6 +2275,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                         const icon = typeIcons[device.deviceType || 'unknown'] || '❓';
                         const ports = device.openPorts ? ` [${(device.openPorts as number[]).join(',')}]` : '';
                         output += `  │ ${icon} ${device.ipAddress.padEnd(16)} ${(device.macAddress || '').padEnd(18)} ${(device.macVendor || 'Unknown vendor').padEnd(20)}${ports}\n`;
+                        if (device.manufacturer || device.product) {
+                            output += `  │   ├─ ${[device.manufacturer, device.product].filter(Boolean).join(' ')} (${device.fingerprintConfidence ?? 0}% match)\n`;
+                        }
                         output += `  │   └─ ID: ${device.id}  │  Last seen: ${device.lastSeenAt?.toISOString().slice(0, 16) || 'N/A'}\n`;
                     }
                     output += '  └──────────────────────────────────────────────────────────────────────────┘\n';
@@ -2305,6 +2491,165 @@ Legend: 🟢 Known  🔴 Unknown  ⚠️ Suspicious  ✅ Authorized  🚫 Blocke
                 };
             }
 
+            // ========== DEVICE ACTIONS ==========
+            case 'get_device_metrics': {
+                const params = args as { deviceId?: string; metric?: string; from?: string; to?: string; step?: string };
+                const result = await metricsService.query(toMetricsQuery(params));
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                };
+            }
+
+            case 'lookup_mac': {
+                const { mac } = args as { mac: string };
+                const result = await macVendorService.lookup(mac);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                };
+            }
+
+            case 'fingerprint_host': {
+                const { ip, ports } = args as { ip: string; ports?: string };
+                if (typeof ip !== 'string' || !isValidIpv4(ip)) throw new Error(`Invalid IPv4 address: ${ip}`);
+                if (ports !== undefined && typeof ports !== 'string') throw new Error('ports must be a string');
+
+                const portList = ports ? parsePortSpec(ports) : COMMON_PORTS;
+                if (portList.length > FINGERPRINT_MAX_PORTS) {
+                    throw new Error(`${portList.length} ports given; at most ${FINGERPRINT_MAX_PORTS} can be checked at once`);
+                }
+                const open = (await scanEngine.scanPorts([ip], portList)).get(ip) ?? [];
+                const result = await fingerprinter.fingerprint(ip, open);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                };
+            }
+
+            case 'snmp_poll': {
+                const { ip, deviceId, discoveredDeviceId } = args as { ip?: string; deviceId?: string; discoveredDeviceId?: string };
+                let result;
+                if (deviceId) {
+                    result = await snmpService.pollDevice(deviceId);
+                } else if (discoveredDeviceId) {
+                    result = await snmpService.pollDiscovered(discoveredDeviceId);
+                } else if (ip) {
+                    result = await snmpService.poll(ip);
+                } else {
+                    throw new Error('Give ip, deviceId or discoveredDeviceId');
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                };
+            }
+
+            case 'device_action': {
+                const { deviceId, action, confirmationToken, reason } = args as {
+                    deviceId: string;
+                    action?: string;
+                    confirmationToken?: string;
+                    reason?: string;
+                };
+
+                if (!action) {
+                    const actions = await deviceActionService.getCapabilities(deviceId);
+                    const history = await deviceActionService.getHistory(deviceId, 5);
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ deviceId, actions, history }, null, 2) }],
+                    };
+                }
+                if (!isDeviceAction(action)) {
+                    return {
+                        content: [{ type: 'text', text: `Unknown action: ${action}` }],
+                        isError: true,
+                    };
+                }
+
+                const outcome = await deviceActionService.run(deviceId, action, { actor: 'mcp', reason, confirmationToken });
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(outcome, null, 2) }],
+                };
+            }
+
+            // ========== ZEROTIER MEMBERS ==========
+            case 'list_zerotier_members': {
+                const { networkId, pending } = args as { networkId: string; pending?: boolean };
+                const members = await zeroTierMemberService.listMembers(networkId, { pending });
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ count: members.length, members }, null, 2) }],
+                };
+            }
+
+            case 'approve_zerotier_member': {
+                const { networkId, memberId, reason, name: memberName } = args as {
+                    networkId: string;
+                    memberId: string;
+                    reason: string;
+                    name?: string;
+                };
+                const member = await zeroTierMemberService.approve(networkId, memberId, {
+                    actor: 'mcp',
+                    reason,
+                    name: memberName,
+                });
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, member }, null, 2) }],
+                };
+            }
+
+            case 'authorize_zerotier_member':
+            case 'deauthorize_zerotier_member': {
+                const { networkId, memberId, reason } = args as { networkId: string; memberId: string; reason?: string };
+                const context = { actor: 'mcp', reason };
+                const member = name === 'authorize_zerotier_member'
+                    ? await zeroTierMemberService.authorize(networkId, memberId, context)
+                    : await zeroTierMemberService.deauthorize(networkId, memberId, context);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, member }, null, 2) }],
+                };
+            }
+
+            case 'update_zerotier_member': {
+                const { networkId, memberId, reason, ...change } = args as {
+                    networkId: string;
+                    memberId: string;
+                    name?: string;
+                    description?: string;
+                    ipAssignments?: string[];
+                    tags?: Array<[number, number]>;
+                    reason?: string;
+                };
+                const member = await zeroTierMemberService.update(networkId, memberId, change, { actor: 'mcp', reason });
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, member }, null, 2) }],
+                };
+            }
+
+            case 'get_audit_log': {
+                const { targetType, targetId, limit } = args as { targetType?: string; targetId?: string; limit?: number };
+                const entries = await auditLogService.list({ targetType, targetId, limit: limit || 50 });
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ count: entries.length, entries }, null, 2) }],
+                };
+            }
+
+            case 'list_alerts': {
+                const query = args as AlertQuery;
+                const found = await alertService.list({ ...query, limit: query.limit || 100 });
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ count: found.length, alerts: found }, null, 2) }],
+                };
+            }
+
             default:
                 return {
                     content: [{ type: 'text', text: `Unknown tool: ${name}` }],
@@ -2325,6 +2670,11 @@ async function main() {
     // Initialize database
     await initializeDatabase();
 
+    // Device actions and ZeroTier member tools talk to the platforms directly
+    const connectors = createConnectors(getConnectorConfigFromEnv());
+    deviceActionService.setConnectors(connectors);
+    zeroTierMemberService.setConnector(connectors.find(c => c instanceof ZeroTierConnector) as ZeroTierConnector ?? null);
+
     // Start MCP server
     const transport = new StdioServerTransport();
     await server.connect(transport);
@@ -0,0 +1,247 @@
+/**
+ * Alerts API Routes
+ *
+ * Alerts and their acknowledge / resolve lifecycle, alert rules, and the
+ * channels notifications are delivered to.
+ */
+
+import { Router, Request, Response } from 'express';
+import { alertService, AlertError, isAlertEventType, type AlertQuery } from '../services/alerting.js';
+import { alertChannelService, AlertChannelError, REDACTED } from '../services/alert-channels.js';
+import type { Alert, AlertChannel, AlertSeverity } from '../db/index.js';
+
+const router = Router();
+
+/**
+ * Who is making the change; the UI or a script can send X-Actor
+ */
+function actorOf(req: Request): string {
+    return req.get('x-actor')?.trim() || 'api';
+}
+
+function handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof AlertError || error instanceof AlertChannelError) {
+        return res.status(error.code === 'not_found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('[Alerts] Error:', error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * Channel without its SMTP password and webhook header values
+ */
+function redact(channel: AlertChannel) {
+    const { password: _password, ...config } = channel.config;
+    if (config.headers) {
+        config.headers = Object.fromEntries(Object.keys(config.headers).map(name => [name, REDACTED]));
+    }
+    return { ...channel, config };
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * GET /api/v1/alerts/rules
+ */
+router.get('/rules', async (_req: Request, res: Response) => {
+    try {
+        const rules = await alertService.listRules();
+        res.json({ count: rules.length, rules });
+    } catch (error) {
+        handleError(res, error, 'Failed to list alert rules');
+    }
+});
+
+/**
+ * POST /api/v1/alerts/rules
+ * Body: { name, eventType, severity?, siteId?, platformType?, targetId?,
+ *         threshold?, forMs?, groupBy?, channelIds?, enabled?, description? }
+ */
+router.post('/rules', async (req: Request, res: Response) => {
+    try {
+        res.status(201).json(await alertService.createRule(req.body || {}));
+    } catch (error) {
+        handleError(res, error, 'Failed to create alert rule');
+    }
+});
+
+/**
+ * GET /api/v1/alerts/rules/:id
+ */
+router.get('/rules/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await alertService.getRule(req.params.id as string));
+    } catch (error) {
+        handleError(res, error, 'Failed to get alert rule');
+    }
+});
+
+/**
+ * PUT /api/v1/alerts/rules/:id
+ */
+router.put('/rules/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await alertService.updateRule(req.params.id as string, req.body || {}));
+    } catch (error) {
+        handleError(res, error, 'Failed to update alert rule');
+    }
+});
+
+/**
+ * DELETE /api/v1/alerts/rules/:id
+ * Also deletes the rule's alerts
+ */
+router.delete('/rules/:id', async (req: Request, res: Response) => {
+    try {
+        await alertService.deleteRule(req.params.id as string);
+        res.json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'Failed to delete alert rule');
+    }
+});
+
+// ============================================
+// CHANNELS
+// ============================================
+
+/**
+ * GET /api/v1/alerts/channels
+ */
+router.get('/channels', async (_req: Request, res: Response) => {
+    try {
+        const channels = await alertChannelService.list();
+        res.json({ count: channels.length, channels: channels.map(redact) });
+    } catch (error) {
+        handleError(res, error, 'Failed to list alert channels');
+    }
+});
+
+/**
+ * POST /api/v1/alerts/channels
+ * Body: { name, type: "webhook", config: { url, headers? } }
+ *    or { name, type: "smtp", config: { host, port?, secure?, username?, password?, allowInsecureAuth?, from, to: [] } }
+ */
+router.post('/channels', async (req: Request, res: Response) => {
+    try {
+        res.status(201).json(redact(await alertChannelService.create(req.body || {})));
+    } catch (error) {
+        handleError(res, error, 'Failed to create alert channel');
+    }
+});
+
+/**
+ * GET /api/v1/alerts/channels/:id
+ */
+router.get('/channels/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(redact(await alertChannelService.get(req.params.id as string)));
+    } catch (error) {
+        handleError(res, error, 'Failed to get alert channel');
+    }
+});
+
+/**
+ * PUT /api/v1/alerts/channels/:id
+ * A config without a password keeps the current one; header values left out
+ * or sent back as "[redacted]" keep theirs
+ */
+router.put('/channels/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(redact(await alertChannelService.update(req.params.id as string, req.body || {})));
+    } catch (error) {
+        handleError(res, error, 'Failed to update alert channel');
+    }
+});
+
+/**
+ * DELETE /api/v1/alerts/channels/:id
+ */
+router.delete('/channels/:id', async (req: Request, res: Response) => {
+    try {
+        await alertChannelService.delete(req.params.id as string);
+        res.json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'Failed to delete alert channel');
+    }
+});
+
+/**
+ * POST /api/v1/alerts/channels/:id/test
+ * Send a test notification
+ */
+router.post('/channels/:id/test', async (req: Request, res: Response) => {
+    try {
+        await alertChannelService.test(req.params.id as string);
+        res.json({ success: true });
+    } catch (error) {
+        if (error instanceof AlertChannelError) return handleError(res, error, 'Failed to test channel');
+        res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to test channel' });
+    }
+});
+
+// ============================================
+// ALERTS
+// ============================================
+
+/**
+ * GET /api/v1/alerts
+ * Query: status (open, pending, firing, acknowledged, resolved, all; default open),
+ *        severity, eventType, targetId, limit
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const { status, severity, eventType, targetId, limit } = req.query;
+        const query: AlertQuery = {
+            status: typeof status === 'string' ? status as AlertQuery['status'] : undefined,
+            severity: typeof severity === 'string' ? severity as AlertSeverity : undefined,
+            eventType: isAlertEventType(eventType) ? eventType : undefined,
+            targetId: typeof targetId === 'string' ? targetId : undefined,
+            limit: limit ? Math.min(parseInt(limit as string, 10) || 100, 1000) : undefined,
+        };
+
+        const list = await alertService.list(query);
+        const counts: Partial<Record<Alert['status'], number>> = {};
+        for (const alert of list) counts[alert.status] = (counts[alert.status] ?? 0) + 1;
+
+        res.json({ count: list.length, byStatus: counts, alerts: list });
+    } catch (error) {
+        handleError(res, error, 'Failed to list alerts');
+    }
+});
+
+/**
+ * GET /api/v1/alerts/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await alertService.get(req.params.id as string));
+    } catch (error) {
+        handleError(res, error, 'Failed to get alert');
+    }
+});
+
+/**
+ * POST /api/v1/alerts/:id/acknowledge
+ */
+router.post('/:id/acknowledge', async (req: Request, res: Response) => {
+    try {
+        res.json(await alertService.acknowledge(req.params.id as string, actorOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to acknowledge alert');
+    }
+});
+
+/**
+ * POST /api/v1/alerts/:id/resolve
+ */
+router.post('/:id/resolve', async (req: Request, res: Response) => {
+    try {
+        res.json(await alertService.resolve(req.params.id as string, actorOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to resolve alert');
+    }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+/**
+ * Assignment Rules API Routes
+ *
+ * CRUD for the rules that place devices at sites and locations, plus a
+ * dry-run preview and a manual apply.
+ */
+
+import { Router, Request, Response } from 'express';
+import { assignmentRuleService, AssignmentRuleError, type AssignmentScope } from '../services/assignment-rules.js';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof AssignmentRuleError) {
+        return res.status(error.code === 'not_found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('[AssignmentRules] Error:', error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * Devices to evaluate, from { deviceIds?, includeAssigned? }
+ */
+function scopeOf(req: Request): AssignmentScope {
+    const { deviceIds, includeAssigned } = req.body || {};
+    return {
+        deviceIds: Array.isArray(deviceIds) ? deviceIds.filter((id: unknown) => typeof id === 'string') : undefined,
+        includeAssigned: includeAssigned === true,
+    };
+}
+
+/**
+ * GET /api/v1/assignment-rules
+ * List rules in the order they are evaluated
+ */
+router.get('/', async (_req: Request, res: Response) => {
+    try {
+        const rules = await assignmentRuleService.list();
+        res.json({ count: rules.length, rules });
+    } catch (error) {
+        handleError(res, error, 'Failed to list assignment rules');
+    }
+});
+
+/**
+ * POST /api/v1/assignment-rules/preview
+ * Show where devices would be assigned, without changing anything
+ * Body: { deviceIds?: string[], includeAssigned?: boolean }
+ */
+router.post('/preview', async (req: Request, res: Response) => {
+    try {
+        res.json(await assignmentRuleService.preview(scopeOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to preview assignments');
+    }
+});
+
+/**
+ * POST /api/v1/assignment-rules/apply
+ * Assign devices now
+ * Body: { deviceIds?: string[], includeAssigned?: boolean }
+ */
+router.post('/apply', async (req: Request, res: Response) => {
+    try {
+        res.json(await assignmentRuleService.apply(scopeOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to apply assignment rules');
+    }
+});
+
+/**
+ * GET /api/v1/assignment-rules/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await assignmentRuleService.get(req.params.id as string));
+    } catch (error) {
+        handleError(res, error, 'Failed to get assignment rule');
+    }
+});
+
+/**
+ * POST /api/v1/assignment-rules
+ * Body: { name, siteId and/or locationId, priority?, enabled?, description?,
+ *         namePattern?, cidr?, platformType?, platformSiteId?, macOui?, tags? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const rule = await assignmentRuleService.create(req.body || {});
+        res.status(201).json(rule);
+    } catch (error) {
+        handleError(res, error, 'Failed to create assignment rule');
+    }
+});
+
+/**
+ * PUT /api/v1/assignment-rules/:id
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await assignmentRuleService.update(req.params.id as string, req.body || {}));
+    } catch (error) {
+        handleError(res, error, 'Failed to update assignment rule');
+    }
+});
+
+/**
+ * DELETE /api/v1/assignment-rules/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+        await assignmentRuleService.delete(req.params.id as string);
+        res.json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'Failed to delete assignment rule');
+    }
+});
+
+export default router;
@@ -4,11 +4,14 @@
  */
 
 import { Router } from 'express';
-import { eq, like, or, and, desc } from 'drizzle-orm';
-import { db, devices, deviceNetworkLinks, accessPaths, pathHops, locations, networks, generateId } from '../db/index.js';
+import { eq, like, or, and, desc, gte } from 'drizzle-orm';
+import { db, devices, deviceNetworkLinks, deviceLinks, deviceLinkMetrics, deviceIdentities, accessPaths, pathHops, locations, networks, generateId } from '../db/index.js';
+import { deviceActionService, DeviceActionError, isDeviceAction } from '../services/device-actions.js';
+import { topologyGraph } from '../engine/topology-graph.js';
+import { assignmentRuleService } from '../services/assignment-rules.js';
+import { uptimeService } from '../services/uptime.js';
 
 const router = Router();
-import { sites } from '../db/index.js';
 
 // ============================================
 // SPECIFIC ROUTES FIRST (before /:id)
@@ -45,108 +48,17 @@ router.get('/stats/summary', async (req, res) => {
     }
 });
 
-// Auto-assign devices to sites based on name patterns
+// Auto-assign devices to sites and locations using the assignment rules
+// Body: { dryRun?: boolean, includeAssigned?: boolean }
 router.post('/auto-assign', async (req, res) => {
     try {
-        // Get all sites
-        const allSites = await db.select().from(sites);
-        
-        // Site assignment rules based on device name patterns
-        const siteRules: { pattern: RegExp; siteName: string }[] = [
-            { pattern: /greenford/i, siteName: 'Greenford' },
-            { pattern: /kyle|rise/i, siteName: 'Kyle Rise' },
-            { pattern: /carling/i, siteName: 'Carling' },
-            { pattern: /radisson/i, siteName: 'Radisson Blu' },
-            { pattern: /noc|processing|pu2/i, siteName: 'Processing Unit Two (NOC)' },
-            { pattern: /farm|wisp/i, siteName: 'Kyle Rise' },
-        ];
-        
-        // Get unassigned site
-        const unassignedSite = allSites.find(s => s.name.toLowerCase() === 'unassigned');
-        
-        // Create default locations for each site if they don't exist
-        const siteLocations: Record<string, string> = {};
-        
-        for (const site of allSites) {
-            const existingLocations = await db.select().from(locations)
-                .where(eq(locations.siteId, site.id))
-                .limit(1);
-            
-            if (existingLocations.length > 0) {
-                siteLocations[site.id] = existingLocations[0].id;
-            } else {
-                const locId = generateId('loc');
-                const now = new Date();
-                await db.insert(locations).values({
-                    id: locId,
-                    siteId: site.id,
-                    name: 'Default',
-                    type: 'other',
-                    description: `Default location for ${site.name}`,
-                    createdAt: now,
-                    updatedAt: now,
-                });
-                siteLocations[site.id] = locId;
-            }
-        }
-        
-        // Get all devices
-        const allDevices = await db.select().from(devices);
-        
-        const results = {
-            processed: 0,
-            assigned: 0,
-            unchanged: 0,
-            assignments: [] as { deviceName: string; siteName: string }[],
-        };
-        
-        for (const device of allDevices) {
-            results.processed++;
-            
-            // Skip if already assigned
-            if (device.locationId) {
-                results.unchanged++;
-                continue;
-            }
-            
-            // Find matching site based on device name
-            let targetSiteId: string | null = null;
-            let targetSiteName = '';
-            
-            for (const rule of siteRules) {
-                if (rule.pattern.test(device.name)) {
-                    const site = allSites.find(s => s.name === rule.siteName);
-                    if (site) {
-                        targetSiteId = site.id;
-                        targetSiteName = site.name;
-                        break;
-                    }
-                }
-            }
-            
-            // If no match, assign to Unassigned site
-            if (!targetSiteId && unassignedSite) {
-                targetSiteId = unassignedSite.id;
-                targetSiteName = 'Unassigned';
-            }
-            
-            // Assign device to the location
-            if (targetSiteId && siteLocations[targetSiteId]) {
-                await db.update(devices)
-                    .set({ 
-                        locationId: siteLocations[targetSiteId],
-                        updatedAt: new Date()
-                    })
-                    .where(eq(devices.id, device.id));
-                
-                results.assigned++;
-                results.assignments.push({
-                    deviceName: device.name,
-                    siteName: targetSiteName,
-                });
-            }
-        }
-        
+        const { dryRun, includeAssigned } = req.body ?? {};
+        const scope = { includeAssigned: includeAssigned === true };
+
+        const results = dryRun === true
+            ? await assignmentRuleService.preview(scope)
+            : await assignmentRuleService.apply(scope);
+
         res.json(results);
     } catch (error) {
         console.error('[Devices] Auto-assign error:', error);
@@ -154,134 +66,29 @@ router.post('/auto-assign', async (req, res) => {
     }
 });
 
-// Get topology data for network visualization
+// Get topology data for network visualization, built from sites, networks,
+// device links, connectivity chains and discovered connections.
+// Query: limit (devices per site), offset[<siteId>] (page within a site),
+// collapse (comma-separated site IDs, or "all"), discovered=false
 router.get('/topology', async (req, res) => {
     try {
-        // Get all devices with status
-        const allDevices = await db.select().from(devices);
-        
-        // Get all sites for site-level nodes
-        const allSites = await db.select().from(sites);
-        
-        // Build topology nodes from real devices
-        const nodes: any[] = [];
-        const links: any[] = [];
-        
-        // Add Skynet node (NOC/core)
-        nodes.push({
-            id: 'skynet',
-            name: 'Skynet AI (NOC)',
-            type: 'skynet',
-            status: 'online',
-            ip: '192.168.195.33',
-            layer: 0,
-            vendor: 'Custom',
-        });
-        
-        // Add ZeroTier gateway
-        nodes.push({
-            id: 'zerotier-gw',
-            name: 'ZeroTier Gateway',
-            type: 'gateway',
-            status: 'online',
-            ip: '192.168.195.1',
-            layer: 1,
-            vendor: 'ZeroTier',
-        });
-        
-        // Link Skynet to ZeroTier
-        links.push({
-            source: 'skynet',
-            target: 'zerotier-gw',
-            type: 'vpn',
-            status: 'active',
-        });
-        
-        // Group devices by site
-        const devicesBySite: Record<string, typeof allDevices> = {};
-        
-        for (const device of allDevices) {
-            let siteKey = 'unassigned';
-            
-            if (device.locationId) {
-                const loc = await db.select().from(locations).where(eq(locations.id, device.locationId)).limit(1);
-                if (loc[0]) {
-                    const site = allSites.find(s => s.id === loc[0].siteId);
-                    if (site) siteKey = site.id;
-                }
-            } else {
-                if (/greenford/i.test(device.name)) siteKey = allSites.find(s => /greenford/i.test(s.name))?.id || 'unassigned';
-                else if (/kyle|rise/i.test(device.name)) siteKey = allSites.find(s => /kyle/i.test(s.name))?.id || 'unassigned';
-                else if (/carling/i.test(device.name)) siteKey = allSites.find(s => /carling/i.test(s.name))?.id || 'unassigned';
-            }
-            
-            if (!devicesBySite[siteKey]) devicesBySite[siteKey] = [];
-            devicesBySite[siteKey].push(device);
-        }
-        
-        // Create site gateway nodes and device nodes
-        let layerCounter = 2;
-        
-        for (const [siteId, siteDevices] of Object.entries(devicesBySite)) {
-            const site = allSites.find(s => s.id === siteId);
-            if (!site) continue;
-            
-            const siteGatewayId = `site-gw-${siteId}`;
-            nodes.push({
-                id: siteGatewayId,
-                name: `${site.name} Gateway`,
-                type: 'gateway',
-                status: siteDevices.some(d => d.status === 'online') ? 'online' : 'offline',
-                layer: layerCounter,
-                vendor: 'Site',
-            });
-            
-            links.push({
-                source: 'zerotier-gw',
-                target: siteGatewayId,
-                type: 'vpn',
-                status: 'active',
-            });
-            
-            const deviceLimit = 10;
-            for (const device of siteDevices.slice(0, deviceLimit)) {
-                const nodeType = (() => {
-                    switch (device.type) {
-                        case 'router': return 'router';
-                        case 'switch': return 'switch';
-                        case 'access_point': return 'access_point';
-                        case 'gateway': return 'gateway';
-                        case 'server': return 'server';
-                        case 'camera': return 'camera';
-                        case 'workstation': return 'workstation';
-                        case 'iot': return 'iot';
-                        default: return 'unknown';
-                    }
-                })();
-                
-                nodes.push({
-                    id: device.id,
-                    name: device.name,
-                    type: nodeType,
-                    status: device.status || 'unknown',
-                    ip: device.primaryIp,
-                    mac: device.primaryMac,
-                    vendor: device.manufacturer,
-                    layer: layerCounter + 1,
-                });
-                
-                links.push({
-                    source: siteGatewayId,
-                    target: device.id,
-                    type: device.platformType === 'zerotier' ? 'vpn' : 'wired',
-                    status: device.status === 'online' ? 'active' : 'down',
-                });
+        const { limit, offset, collapse, discovered } = req.query;
+
+        const offsets: Record<string, number> = {};
+        if (offset && typeof offset === 'object' && !Array.isArray(offset)) {
+            for (const [siteId, value] of Object.entries(offset)) {
+                offsets[siteId] = parseInt(value as string, 10) || 0;
             }
-            
-            layerCounter++;
         }
-        
-        res.json({ nodes, links });
+
+        const graph = await topologyGraph.build({
+            limit: limit ? parseInt(limit as string, 10) || undefined : undefined,
+            offsets,
+            collapse: collapse === 'all' ? 'all' : collapse ? (collapse as string).split(',').filter(Boolean) : undefined,
+            includeDiscovered: discovered !== 'false',
+        });
+
+        res.json(graph);
     } catch (error) {
         console.error('[Devices] Topology error:', error);
         res.status(500).json({ error: 'Failed to get topology data' });
@@ -389,6 +196,10 @@ router.get('/:id', async (req, res) => {
             location = loc[0] || null;
         }
 
+        // Per-platform identities (more than one after a cross-platform merge)
+        const identities = await db.select().from(deviceIdentities)
+            .where(eq(deviceIdentities.deviceId, id));
+
         res.json({
             ...device[0],
             networkLinks: networkLinks.map(nl => ({
@@ -397,6 +208,7 @@ router.get('/:id', async (req, res) => {
             })),
             accessPaths: pathsWithHops,
             location,
+            identities,
         });
     } catch (error) {
         console.error('[Devices] Get error:', error);
@@ -446,6 +258,7 @@ router.post('/', async (req, res) => {
             createdAt: now,
             updatedAt: now,
         });
+        await uptimeService.record(id, null, status);
 
         const created = await db.select().from(devices).where(eq(devices.id, id)).limit(1);
         res.status(201).json(created[0]);
@@ -466,6 +279,8 @@ router.put('/:id', async (req, res) => {
         delete updates.createdAt;
         updates.updatedAt = new Date();
 
+        const [existing] = await db.select({ status: devices.status }).from(devices).where(eq(devices.id, id));
+
         await db.update(devices).set(updates).where(eq(devices.id, id));
 
         const updated = await db.select().from(devices).where(eq(devices.id, id)).limit(1);
@@ -474,6 +289,10 @@ router.put('/:id', async (req, res) => {
             return res.status(404).json({ error: 'Device not found' });
         }
 
+        if (existing && updates.status !== undefined) {
+            await uptimeService.record(id, existing.status ?? 'unknown', updated[0].status);
+        }
+
         res.json(updated[0]);
     } catch (error) {
         console.error('[Devices] Update error:', error);
@@ -609,4 +428,87 @@ router.post('/:id/network-links', async (req, res) => {
     }
 });
 
+// Physical links to and from a device (e.g. UISP backhauls) with their latest RF metrics
+router.get('/:id/links', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const links = await db.select().from(deviceLinks)
+            .where(or(eq(deviceLinks.sourceDeviceId, id), eq(deviceLinks.targetDeviceId, id)));
+        res.json(links);
+    } catch (error) {
+        console.error('[Devices] Get links error:', error);
+        res.status(500).json({ error: 'Failed to get device links' });
+    }
+});
+
+// RF metrics history of a device link, newest first
+router.get('/links/:linkId/metrics', async (req, res) => {
+    try {
+        const { linkId } = req.params;
+        const { since, limit = '500' } = req.query;
+
+        const conditions = [eq(deviceLinkMetrics.linkId, linkId)];
+        if (since !== undefined) {
+            const sinceDate = typeof since === 'string' ? new Date(since) : null;
+            if (!sinceDate || isNaN(sinceDate.getTime())) {
+                return res.status(400).json({ error: 'since must be an ISO 8601 date' });
+            }
+            conditions.push(gte(deviceLinkMetrics.recordedAt, sinceDate));
+        }
+
+        const samples = await db.select().from(deviceLinkMetrics)
+            .where(and(...conditions))
+            .orderBy(desc(deviceLinkMetrics.recordedAt))
+            .limit(Math.min(parseInt(limit as string, 10) || 500, 5000));
+        res.json(samples);
+    } catch (error) {
+        console.error('[Devices] Get link metrics error:', error);
+        res.status(500).json({ error: 'Failed to get link metrics' });
+    }
+});
+
+// Actions available for a device, and the results of recent ones
+router.get('/:id/actions', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const actions = await deviceActionService.getCapabilities(id);
+        const history = await deviceActionService.getHistory(id);
+        res.json({ deviceId: id, actions, history });
+    } catch (error) {
+        if (error instanceof DeviceActionError && error.code === 'not_found') {
+            return res.status(404).json({ error: error.message });
+        }
+        console.error('[Devices] Get actions error:', error);
+        res.status(500).json({ error: 'Failed to get device actions' });
+    }
+});
+
+// Run an action on a device (restart, provision, block, unblock).
+// Destructive actions answer 428 with a confirmationToken first; repeat the
+// request with { confirmationToken } to go ahead.
+router.post('/:id/actions/:action', async (req, res) => {
+    try {
+        const { id, action } = req.params;
+        const { confirmationToken, reason } = req.body || {};
+
+        if (!isDeviceAction(action)) {
+            return res.status(400).json({ error: `Unknown action: ${action}` });
+        }
+
+        const outcome = await deviceActionService.run(id, action, {
+            actor: req.get('x-actor')?.trim() || 'api',
+            reason: typeof reason === 'string' ? reason : undefined,
+            confirmationToken: typeof confirmationToken === 'string' ? confirmationToken : undefined,
+        });
+
+        res.status(outcome.status === 'confirmation_required' ? 428 : 200).json(outcome);
+    } catch (error) {
+        if (error instanceof DeviceActionError) {
+            return res.status(error.code === 'not_found' ? 404 : 400).json({ error: error.message });
+        }
+        console.error('[Devices] Action error:', error);
+        res.status(502).json({ error: error instanceof Error ? error.message : 'Device action failed' });
+    }
+});
+
 export default router;
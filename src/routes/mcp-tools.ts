@@ -406,8 +406,12 @@ router.post('/get_network_overview', async (req: Request, res: Response) => {
             uisp: allDevices.filter(d => d.platformType === 'uisp').length,
             unifi: allDevices.filter(d => d.platformType === 'unifi').length,
             zerotier: allDevices.filter(d => d.platformType === 'zerotier').length,
+            protect: allDevices.filter(d => d.platformType === 'protect').length,
+            starlink: allDevices.filter(d => d.platformType === 'starlink').length,
+            tailscale: allDevices.filter(d => d.platformType === 'tailscale').length,
+            wireguard: allDevices.filter(d => d.platformType === 'wireguard').length,
             manual: allDevices.filter(d => d.platformType === 'manual').length,
-            other: allDevices.filter(d => !['uisp', 'unifi', 'zerotier', 'manual'].includes(d.platformType || '')).length,
+            other: allDevices.filter(d => !['uisp', 'unifi', 'zerotier', 'protect', 'starlink', 'tailscale', 'wireguard', 'manual'].includes(d.platformType || '')).length,
         };
 
         const topologyBreakdown = allTopologies.map(t => ({
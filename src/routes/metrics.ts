@@ -0,0 +1,52 @@
+/**
+ * Metrics API Routes
+ *
+ * Device telemetry time series recorded on every sync.
+ */
+
+import { Router, Request, Response } from 'express';
+import { metricsService, MetricsError, METRICS, toMetricsQuery } from '../services/metrics.js';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof MetricsError) {
+        return res.status(error.code === 'not_found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('[Metrics] Error:', error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * GET /api/v1/metrics
+ * Query: deviceId (required), metric (comma-separated; default all recorded),
+ *        from / to (ISO 8601, epoch ms or relative like -12h; default last 24h),
+ *        step (seconds or 5m, 1h, 1d; default about 100 points)
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const { deviceId, metric, from, to, step } = req.query as Record<string, string | undefined>;
+        const result = await metricsService.query(toMetricsQuery({ deviceId, metric, from, to, step }));
+        res.json(result);
+    } catch (error) {
+        handleError(res, error, 'Failed to query metrics');
+    }
+});
+
+/**
+ * GET /api/v1/metrics/catalog
+ * Known metrics; with ?deviceId= only those recorded for that device
+ */
+router.get('/catalog', async (req: Request, res: Response) => {
+    try {
+        const deviceId = req.query.deviceId as string | undefined;
+        const metrics = deviceId
+            ? await metricsService.available(deviceId)
+            : Object.entries(METRICS).map(([metric, { unit, description }]) => ({ metric, unit, description }));
+        res.json({ count: metrics.length, metrics });
+    } catch (error) {
+        handleError(res, error, 'Failed to list metrics');
+    }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+/**
+ * SNMP API Routes
+ *
+ * SNMP credentials, and on-demand polls of addresses, discovered devices
+ * and managed devices.
+ */
+
+import { Router, Request, Response } from 'express';
+import { snmpService, SnmpError } from '../services/snmp.js';
+import type { SnmpCredential } from '../db/index.js';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof SnmpError) {
+        const status = error.code === 'not_found' ? 404 : error.code === 'unreachable' ? 502 : 400;
+        return res.status(status).json({ error: error.message });
+    }
+    console.error('[SNMP] Error:', error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * Credential without its community and passwords
+ */
+function redact(credential: SnmpCredential) {
+    const { community: _community, authPassword: _authPassword, privPassword: _privPassword, ...rest } = credential;
+    return rest;
+}
+
+// ============================================
+// CREDENTIALS
+// ============================================
+
+/**
+ * GET /api/v1/snmp/credentials
+ */
+router.get('/credentials', async (_req: Request, res: Response) => {
+    try {
+        const credentials = await snmpService.listCredentials();
+        res.json({ count: credentials.length, credentials: credentials.map(redact) });
+    } catch (error) {
+        handleError(res, error, 'Failed to list SNMP credentials');
+    }
+});
+
+/**
+ * POST /api/v1/snmp/credentials
+ * Body: { name, version: "v2c", community, networkId?, priority?, port?, timeoutMs?, retries? }
+ *    or { name, version: "v3", username, securityLevel?, authProtocol?, authPassword?,
+ *         privProtocol?, privPassword?, networkId?, ... }
+ */
+router.post('/credentials', async (req: Request, res: Response) => {
+    try {
+        res.status(201).json(redact(await snmpService.createCredential(req.body || {})));
+    } catch (error) {
+        handleError(res, error, 'Failed to create SNMP credential');
+    }
+});
+
+/**
+ * GET /api/v1/snmp/credentials/:id
+ */
+router.get('/credentials/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(redact(await snmpService.getCredential(req.params.id as string)));
+    } catch (error) {
+        handleError(res, error, 'Failed to get SNMP credential');
+    }
+});
+
+/**
+ * PUT /api/v1/snmp/credentials/:id
+ * A community or password left out keeps the current one
+ */
+router.put('/credentials/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(redact(await snmpService.updateCredential(req.params.id as string, req.body || {})));
+    } catch (error) {
+        handleError(res, error, 'Failed to update SNMP credential');
+    }
+});
+
+/**
+ * DELETE /api/v1/snmp/credentials/:id
+ */
+router.delete('/credentials/:id', async (req: Request, res: Response) => {
+    try {
+        await snmpService.deleteCredential(req.params.id as string);
+        res.json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'Failed to delete SNMP credential');
+    }
+});
+
+// ============================================
+// POLLING
+// ============================================
+
+/**
+ * POST /api/v1/snmp/poll
+ * Body: { ip, credentialId? }
+ * Poll an address without storing anything, e.g. to test a credential
+ */
+router.post('/poll', async (req: Request, res: Response) => {
+    try {
+        const { ip, credentialId } = req.body || {};
+        if (typeof ip !== 'string') throw new SnmpError('ip is required');
+        res.json(await snmpService.poll(ip, typeof credentialId === 'string' ? credentialId : undefined));
+    } catch (error) {
+        handleError(res, error, 'Failed to poll');
+    }
+});
+
+/**
+ * POST /api/v1/snmp/discovered/:id/poll
+ * Poll a discovered device and store the results, LLDP neighbours included
+ */
+router.post('/discovered/:id/poll', async (req: Request, res: Response) => {
+    try {
+        res.json(await snmpService.pollDiscovered(req.params.id as string));
+    } catch (error) {
+        handleError(res, error, 'Failed to poll discovered device');
+    }
+});
+
+/**
+ * POST /api/v1/snmp/devices/:id/poll
+ * Poll a managed device at its primary IP; results go to its discovered device
+ */
+router.post('/devices/:id/poll', async (req: Request, res: Response) => {
+    try {
+        res.json(await snmpService.pollDevice(req.params.id as string));
+    } catch (error) {
+        handleError(res, error, 'Failed to poll device');
+    }
+});
+
+export default router;
@@ -6,27 +6,229 @@
 
 import { Router, Request, Response } from 'express';
 import { syncService, type SyncConfig } from '../services/sync-service.js';
+import { identityResolver, MergeError, DEFAULT_AUTO_MERGE_CONFIDENCE } from '../services/identity-resolver.js';
+import { WireGuardConnector, type SyncDiffItem, type SyncOptions } from '../connectors/index.js';
 
 const router = Router();
 
 /**
  * GET /api/v1/sync/status
- * Get sync status for all platforms
- */
-router.get('/status', (req: Request, res: Response) => {
-    const statuses = syncService.getAllStatuses();
-    const config = syncService.getConfig();
-    
-    res.json({
-        enabled: config.enabled,
-        intervalMs: config.intervalMs,
-        intervalHuman: `${Math.round(config.intervalMs / 1000 / 60)} minutes`,
-        platforms: statuses.map(s => ({
+ * Get sync status and recent run history for all platforms
+ */
+router.get('/status', async (req: Request, res: Response) => {
+    try {
+        const statuses = syncService.getAllStatuses();
+        const config = syncService.getConfig();
+        const historyLimit = Math.min(parseInt((req.query.history as string) || '10', 10) || 10, 100);
+
+        const platforms = await Promise.all(statuses.map(async s => ({
             ...s,
             lastSync: s.lastSync?.toISOString() || null,
             nextSync: s.nextSync?.toISOString() || null,
-        })),
-    });
+            history: await syncService.getHistory(s.platform, historyLimit),
+        })));
+
+        res.json({
+            enabled: config.enabled,
+            intervalMs: config.intervalMs,
+            intervalHuman: `${Math.round(config.intervalMs / 1000 / 60)} minutes`,
+            platforms,
+        });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get sync status'
+        });
+    }
+});
+
+/**
+ * GET /api/v1/sync/history
+ * Get recorded sync runs, newest first
+ */
+router.get('/history', async (req: Request, res: Response) => {
+    try {
+        const platform = req.query.platform as string | undefined;
+        const limit = Math.min(parseInt((req.query.limit as string) || '50', 10) || 50, 500);
+        const runs = await syncService.getHistory(platform, limit);
+        res.json({ count: runs.length, runs });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get sync history'
+        });
+    }
+});
+
+/**
+ * GET /api/v1/sync/platforms
+ * List configured platforms that can be previewed and imported
+ */
+router.get('/platforms', (req: Request, res: Response) => {
+    const platforms = syncService.getAllStatuses().map(s => ({
+        id: s.platform,
+        name: s.name,
+        status: s.status,
+        lastSync: s.lastSync?.toISOString() || null,
+    }));
+    res.json({ platforms });
+});
+
+function toPreviewItem(item: SyncDiffItem) {
+    return {
+        platformId: item.platformId,
+        name: item.name,
+        type: item.type || null,
+        status: item.action === 'create' ? 'new' : item.action,
+        localId: item.localId || null,
+        changes: item.changes,
+    };
+}
+
+/**
+ * GET /api/v1/sync/preview/:platform
+ * Dry-run a sync and return what would be created, updated or is stale
+ */
+router.get('/preview/:platform', async (req: Request, res: Response) => {
+    try {
+        const platform = req.params.platform as string;
+        const result = await syncService.previewPlatform(platform);
+        if (!result) {
+            return res.status(404).json({ error: `Platform ${platform} not found` });
+        }
+        if (!result.success) {
+            return res.status(502).json({ error: result.errors[0] || 'Preview failed', errors: result.errors });
+        }
+
+        const diff = result.diff || { devices: [], networks: [] };
+        const deviceItems = diff.devices.filter(d => d.action !== 'stale');
+        const networkItems = diff.networks.filter(n => n.action !== 'stale');
+
+        res.json({
+            platform,
+            devices: {
+                total: deviceItems.length,
+                new: deviceItems.filter(d => d.action === 'create').length,
+                existing: deviceItems.filter(d => d.action !== 'create').length,
+                changed: deviceItems.filter(d => d.action === 'update').length,
+                items: deviceItems.map(toPreviewItem),
+                stale: diff.devices.filter(d => d.action === 'stale').map(toPreviewItem),
+            },
+            networks: {
+                total: networkItems.length,
+                new: networkItems.filter(n => n.action === 'create').length,
+                existing: networkItems.filter(n => n.action !== 'create').length,
+                changed: networkItems.filter(n => n.action === 'update').length,
+                items: networkItems.map(n => ({ id: n.platformId, ...toPreviewItem(n) })),
+                stale: diff.networks.filter(n => n.action === 'stale').map(toPreviewItem),
+            },
+            errors: result.errors,
+        });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to preview sync'
+        });
+    }
+});
+
+/**
+ * POST /api/v1/sync/execute/:platform
+ * Apply a sync, limited to the platform IDs the operator selected
+ * Body: { deviceIds?: string[], networkIds?: string[], includeNetworks?: boolean, updateExisting?: boolean }
+ */
+router.post('/execute/:platform', async (req: Request, res: Response) => {
+    try {
+        const platform = req.params.platform as string;
+        const { deviceIds, networkIds, includeNetworks, updateExisting } = req.body || {};
+
+        for (const [field, value] of Object.entries({ deviceIds, networkIds })) {
+            if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+                return res.status(400).json({ error: `${field} must be an array of platform IDs` });
+            }
+        }
+
+        const options: SyncOptions = {
+            deviceIds,
+            networkIds,
+            includeNetworks: includeNetworks !== undefined ? Boolean(includeNetworks) : undefined,
+            updateExisting: updateExisting !== undefined ? Boolean(updateExisting) : undefined,
+        };
+
+        const result = await syncService.syncPlatform(platform, 'manual', options);
+        if (!result) {
+            return res.status(404).json({ error: `Platform ${platform} not found` });
+        }
+
+        res.json({
+            success: result.success,
+            platform,
+            devices: {
+                found: result.devicesFound,
+                created: result.devicesCreated,
+                updated: result.devicesUpdated,
+                removed: result.devicesRemoved,
+            },
+            networks: {
+                found: result.networksFound,
+                created: result.networksCreated,
+                updated: result.networksUpdated,
+                removed: result.networksRemoved,
+            },
+            errors: result.errors,
+        });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Sync failed'
+        });
+    }
+});
+
+/**
+ * POST /api/v1/sync/wireguard/import
+ * Import `wg show all dump` output captured on another host
+ * Body: { dump: string, host: string, dryRun?: boolean }
+ */
+router.post('/wireguard/import', async (req: Request, res: Response) => {
+    try {
+        const { dump, host, dryRun } = req.body || {};
+        if (typeof dump !== 'string' || !dump.trim()) {
+            return res.status(400).json({ error: 'dump must be the text of `wg show all dump`' });
+        }
+        if (typeof host !== 'string' || !host.trim()) {
+            return res.status(400).json({ error: 'host is required to tell interfaces on different machines apart' });
+        }
+
+        // Imports work without a local WireGuard; the connector then only syncs imported dumps
+        if (!syncService.getConnector('wireguard')) {
+            syncService.addConnector(new WireGuardConnector(), { scheduled: false });
+        }
+        const result = (await syncService.syncPlatform('wireguard', 'manual', {
+            dryRun: Boolean(dryRun),
+            dump,
+            host: host.trim(),
+        }))!;
+
+        res.status(result.success ? 200 : 400).json({
+            success: result.success,
+            host: host.trim(),
+            devices: {
+                found: result.devicesFound,
+                created: result.devicesCreated,
+                updated: result.devicesUpdated,
+                removed: result.devicesRemoved,
+            },
+            networks: {
+                found: result.networksFound,
+                created: result.networksCreated,
+                updated: result.networksUpdated,
+                removed: result.networksRemoved,
+            },
+            diff: result.diff,
+            errors: result.errors,
+        });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'WireGuard import failed'
+        });
+    }
 });
 
 /**
@@ -67,11 +269,43 @@ router.patch('/config', (req: Request, res: Response) => {
         }
 
         if (req.body.platforms !== undefined) {
-            updates.platforms = {
-                uisp: req.body.platforms.uisp ?? syncService.getConfig().platforms.uisp,
-                unifi: req.body.platforms.unifi ?? syncService.getConfig().platforms.unifi,
-                zerotier: req.body.platforms.zerotier ?? syncService.getConfig().platforms.zerotier,
-            };
+            updates.platforms = {};
+            for (const [platform, enabled] of Object.entries(req.body.platforms)) {
+                updates.platforms[platform.toLowerCase()] = Boolean(enabled);
+            }
+        }
+
+        // Per-platform interval overrides, in minutes
+        if (req.body.platformIntervalMinutes !== undefined) {
+            updates.platformIntervals = {};
+            for (const [platform, value] of Object.entries(req.body.platformIntervalMinutes)) {
+                const minutes = parseInt(String(value), 10);
+                if (!(minutes >= 1)) {
+                    return res.status(400).json({ error: `Interval for ${platform} must be at least 1 minute` });
+                }
+                updates.platformIntervals[platform.toLowerCase()] = minutes * 60 * 1000;
+            }
+        }
+
+        // Reconciliation of rows missing from a platform
+        if (req.body.retireGraceHours !== undefined) {
+            const hours = Number(req.body.retireGraceHours);
+            if (!(hours >= 0)) {
+                return res.status(400).json({ error: 'retireGraceHours must be 0 or more' });
+            }
+            updates.retireGraceMs = hours * 60 * 60 * 1000;
+        }
+
+        if (req.body.purgeRetiredDays !== undefined) {
+            if (req.body.purgeRetiredDays === null) {
+                updates.purgeRetiredAfterMs = null;
+            } else {
+                const days = Number(req.body.purgeRetiredDays);
+                if (!(days >= 0)) {
+                    return res.status(400).json({ error: 'purgeRetiredDays must be 0 or more, or null to never purge' });
+                }
+                updates.purgeRetiredAfterMs = days * 24 * 60 * 60 * 1000;
+            }
         }
 
         syncService.setConfig(updates);
@@ -138,32 +372,93 @@ router.post('/trigger', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/sync/merge
- * Trigger device merge manually
+ * Merge devices that are the same physical device on different platforms.
+ * Body: { deviceIds?: string[], minConfidence?: number }
+ * With deviceIds, exactly those devices are merged; otherwise every match at or
+ * above minConfidence (default 0.9) is merged.
  */
 router.post('/merge', async (req: Request, res: Response) => {
     try {
-        const result = await syncService.mergeDevices();
+        const { deviceIds, minConfidence } = req.body || {};
+
+        if (deviceIds !== undefined) {
+            if (!Array.isArray(deviceIds) || deviceIds.some(id => typeof id !== 'string')) {
+                return res.status(400).json({ error: 'deviceIds must be an array of device IDs' });
+            }
+            const merge = await identityResolver.mergeDevices(deviceIds, { trigger: 'manual' });
+            return res.json({ success: true, merge });
+        }
+
+        const threshold = minConfidence !== undefined ? Number(minConfidence) : DEFAULT_AUTO_MERGE_CONFIDENCE;
+        if (!(threshold > 0 && threshold <= 1)) {
+            return res.status(400).json({ error: 'minConfidence must be between 0 and 1' });
+        }
+
+        const result = await identityResolver.mergeMatches(threshold);
         res.json({
             success: result.errors.length === 0,
             ...result,
         });
     } catch (error) {
+        if (error instanceof MergeError) {
+            return res.status(400).json({ error: error.message });
+        }
         res.status(500).json({ 
             error: error instanceof Error ? error.message : 'Merge failed' 
         });
     }
 });
 
+/**
+ * GET /api/v1/sync/merges
+ * Get recorded merges, newest first
+ */
+router.get('/merges', async (req: Request, res: Response) => {
+    try {
+        const limit = Math.min(parseInt((req.query.limit as string) || '50', 10) || 50, 500);
+        const merges = await identityResolver.listMerges(limit);
+        res.json({ count: merges.length, merges });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get merges'
+        });
+    }
+});
+
+/**
+ * POST /api/v1/sync/merges/:id/undo
+ * Split a merge back into the original devices
+ */
+router.post('/merges/:id/undo', async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+        if (!(await identityResolver.getMerge(id))) {
+            return res.status(404).json({ error: `Merge ${id} not found` });
+        }
+        const merge = await identityResolver.undoMerge(id);
+        res.json({ success: true, merge });
+    } catch (error) {
+        if (error instanceof MergeError) {
+            return res.status(409).json({ error: error.message });
+        }
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Undo failed'
+        });
+    }
+});
+
 /**
  * GET /api/v1/sync/cross-platform
- * Get devices that appear in multiple platforms
+ * Get devices that appear to be the same device on multiple platforms
+ * Query: minConfidence (default 0.5)
  */
 router.get('/cross-platform', async (req: Request, res: Response) => {
     try {
-        const crossPlatformDevices = await syncService.getCrossPlatformDevices();
+        const minConfidence = req.query.minConfidence !== undefined ? Number(req.query.minConfidence) : 0.5;
+        const matches = await identityResolver.findMatches(Number.isFinite(minConfidence) ? minConfidence : 0.5);
         res.json({
-            count: crossPlatformDevices.length,
-            devices: crossPlatformDevices,
+            count: matches.length,
+            devices: matches,
         });
     } catch (error) {
         res.status(500).json({ 
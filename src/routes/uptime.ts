@@ -0,0 +1,106 @@
+/**
+ * Uptime API Routes
+ *
+ * Device status history, and availability / outage / MTTR reports for
+ * devices, sites and deployments.
+ */
+
+import { Router, Request, Response } from 'express';
+import { uptimeService, UptimeError, type UptimeWindow } from '../services/uptime.js';
+import { parseDuration, parseTime } from '../services/metrics.js';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof UptimeError) {
+        return res.status(error.code === 'not_found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('[Uptime] Error:', error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * Query: from / to (ISO 8601, epoch ms or relative like -7d; default last 30 days),
+ *        bucket (seconds or 1h, 1d; availability per bucket)
+ */
+function windowOf(req: Request): UptimeWindow {
+    const { from, to, bucket } = req.query as Record<string, string | undefined>;
+
+    const time = (name: string, value: string | undefined) => {
+        if (!value) return undefined;
+        const parsed = parseTime(value);
+        if (!parsed) throw new UptimeError(`Invalid ${name}: ${value} (use ISO 8601, epoch ms or e.g. -7d)`);
+        return parsed;
+    };
+
+    let bucketSeconds: number | undefined;
+    if (bucket) {
+        bucketSeconds = parseDuration(bucket) ?? undefined;
+        if (!bucketSeconds) throw new UptimeError(`Invalid bucket: ${bucket} (use e.g. 1h, 1d)`);
+    }
+
+    return { from: time('from', from), to: time('to', to), bucketSeconds };
+}
+
+/**
+ * GET /api/v1/uptime/sites
+ * Availability of every site
+ */
+router.get('/sites', async (req: Request, res: Response) => {
+    try {
+        const sites = await uptimeService.siteSummaries(windowOf(req));
+        res.json({ count: sites.length, sites });
+    } catch (error) {
+        handleError(res, error, 'Failed to report site uptime');
+    }
+});
+
+/**
+ * GET /api/v1/uptime/sites/:id
+ */
+router.get('/sites/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await uptimeService.siteReport(req.params.id as string, windowOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to report site uptime');
+    }
+});
+
+/**
+ * GET /api/v1/uptime/deployments/:id
+ * Limited to the deployment's actual start and end
+ */
+router.get('/deployments/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await uptimeService.deploymentReport(req.params.id as string, windowOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to report deployment uptime');
+    }
+});
+
+/**
+ * GET /api/v1/uptime/devices/:id
+ */
+router.get('/devices/:id', async (req: Request, res: Response) => {
+    try {
+        res.json(await uptimeService.deviceReport(req.params.id as string, windowOf(req)));
+    } catch (error) {
+        handleError(res, error, 'Failed to report device uptime');
+    }
+});
+
+/**
+ * GET /api/v1/uptime/devices/:id/events
+ * Status changes, newest first
+ */
+router.get('/devices/:id/events', async (req: Request, res: Response) => {
+    try {
+        const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string, 10) || 500, 5000) : undefined;
+        const events = await uptimeService.history(req.params.id as string, windowOf(req), limit);
+        res.json({ count: events.length, events });
+    } catch (error) {
+        handleError(res, error, 'Failed to get status history');
+    }
+});
+
+export default router;
@@ -0,0 +1,177 @@
+/**
+ * ZeroTier API Routes
+ *
+ * Member management on ZeroTier Central: join approvals, authorization,
+ * names, IP assignments and tags. Every change is audit logged.
+ */
+
+import { Router, Request, Response } from 'express';
+import { zeroTierMemberService, ZeroTierMemberError, type MemberChange } from '../services/zerotier-members.js';
+import { auditLogService } from '../services/audit-log.js';
+
+const router = Router();
+
+/**
+ * Who is making the change; the UI or a script can send X-Actor
+ */
+function actorOf(req: Request): string {
+    return req.get('x-actor')?.trim() || 'api';
+}
+
+/**
+ * Optional reason from the body; anything but a string is rejected
+ */
+function reasonOf(req: Request): string | undefined {
+    const reason = req.body?.reason;
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        throw new ZeroTierMemberError('reason must be a string');
+    }
+    return reason ?? undefined;
+}
+
+function handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof ZeroTierMemberError) {
+        return res.status(error.code === 'not_configured' ? 503 : 400).json({ error: error.message });
+    }
+    res.status(502).json({
+        error: error instanceof Error ? error.message : fallback
+    });
+}
+
+/**
+ * GET /api/v1/zerotier/networks/:networkId/members
+ * List members; ?pending=true for join requests waiting for approval
+ */
+router.get('/networks/:networkId/members', async (req: Request, res: Response) => {
+    try {
+        const members = await zeroTierMemberService.listMembers(req.params.networkId as string, {
+            pending: req.query.pending === 'true',
+        });
+        res.json({ count: members.length, members });
+    } catch (error) {
+        handleError(res, error, 'Failed to list members');
+    }
+});
+
+/**
+ * GET /api/v1/zerotier/networks/:networkId/members/:memberId
+ */
+router.get('/networks/:networkId/members/:memberId', async (req: Request, res: Response) => {
+    try {
+        const member = await zeroTierMemberService.getMember(req.params.networkId as string, req.params.memberId as string);
+        res.json(member);
+    } catch (error) {
+        handleError(res, error, 'Failed to get member');
+    }
+});
+
+/**
+ * POST /api/v1/zerotier/networks/:networkId/members/:memberId/approve
+ * Approve a pending join request
+ * Body: { reason: string, name?: string }
+ */
+router.post('/networks/:networkId/members/:memberId/approve', async (req: Request, res: Response) => {
+    try {
+        const { name } = req.body || {};
+        const member = await zeroTierMemberService.approve(req.params.networkId as string, req.params.memberId as string, {
+            actor: actorOf(req),
+            reason: reasonOf(req),
+            name: typeof name === 'string' ? name : undefined,
+        });
+        res.json({ success: true, member });
+    } catch (error) {
+        handleError(res, error, 'Failed to approve member');
+    }
+});
+
+/**
+ * POST /api/v1/zerotier/networks/:networkId/members/:memberId/authorize
+ * Body: { reason?: string }
+ */
+router.post('/networks/:networkId/members/:memberId/authorize', async (req: Request, res: Response) => {
+    try {
+        const member = await zeroTierMemberService.authorize(req.params.networkId as string, req.params.memberId as string, {
+            actor: actorOf(req),
+            reason: reasonOf(req),
+        });
+        res.json({ success: true, member });
+    } catch (error) {
+        handleError(res, error, 'Failed to authorize member');
+    }
+});
+
+/**
+ * POST /api/v1/zerotier/networks/:networkId/members/:memberId/deauthorize
+ * Body: { reason?: string }
+ */
+router.post('/networks/:networkId/members/:memberId/deauthorize', async (req: Request, res: Response) => {
+    try {
+        const member = await zeroTierMemberService.deauthorize(req.params.networkId as string, req.params.memberId as string, {
+            actor: actorOf(req),
+            reason: reasonOf(req),
+        });
+        res.json({ success: true, member });
+    } catch (error) {
+        handleError(res, error, 'Failed to deauthorize member');
+    }
+});
+
+/**
+ * PATCH /api/v1/zerotier/networks/:networkId/members/:memberId
+ * Body: { name?, description?, ipAssignments?: string[], tags?: [tagId, value][], reason? }
+ */
+router.patch('/networks/:networkId/members/:memberId', async (req: Request, res: Response) => {
+    try {
+        const { name, description, ipAssignments, tags } = req.body || {};
+        const reason = reasonOf(req);
+
+        if (ipAssignments !== undefined && (!Array.isArray(ipAssignments) || ipAssignments.some(ip => typeof ip !== 'string'))) {
+            return res.status(400).json({ error: 'ipAssignments must be an array of IP addresses' });
+        }
+        if (tags !== undefined && !Array.isArray(tags)) {
+            return res.status(400).json({ error: 'tags must be an array of [tagId, value] pairs' });
+        }
+
+        const change: MemberChange = {
+            name: typeof name === 'string' ? name : undefined,
+            description: typeof description === 'string' ? description : undefined,
+            ipAssignments,
+            tags,
+        };
+
+        const member = await zeroTierMemberService.update(req.params.networkId as string, req.params.memberId as string, change, {
+            actor: actorOf(req),
+            reason,
+        });
+        res.json({ success: true, member });
+    } catch (error) {
+        handleError(res, error, 'Failed to update member');
+    }
+});
+
+/**
+ * GET /api/v1/zerotier/audit
+ * Audit log of member changes, newest first; ?networkId= and ?memberId= narrow it
+ */
+router.get('/audit', async (req: Request, res: Response) => {
+    try {
+        const networkId = req.query.networkId as string | undefined;
+        const memberId = req.query.memberId as string | undefined;
+        const limit = Math.min(parseInt((req.query.limit as string) || '50', 10) || 50, 500);
+
+        const entries = await auditLogService.list({
+            targetType: 'zerotier_member',
+            targetId: networkId && memberId ? `${networkId}/${memberId}` : undefined,
+            targetPrefix: networkId && !memberId ? `${networkId}/` : undefined,
+            limit,
+        });
+
+        res.json({ count: entries.length, entries });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get audit log'
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,273 @@
+/**
+ * Alert Channels
+ *
+ * Where alert notifications are delivered: webhooks (JSON POST) and email
+ * over SMTP. A failed delivery is logged on the channel, not retried.
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { db, alertChannels, generateId, type Alert, type AlertChannel, type AlertRule } from '../db/index.js';
+import { isMailbox, sendMail } from '../utils/smtp.js';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Shown in place of webhook header values, which often carry tokens
+ */
+export const REDACTED = '[redacted]';
+
+export class AlertChannelError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'invalid' = 'invalid') {
+        super(message);
+        this.name = 'AlertChannelError';
+    }
+}
+
+export type ChannelInput = Partial<Pick<AlertChannel, 'name' | 'type' | 'enabled' | 'config'>>;
+
+/**
+ * One notification: alerts of the same rule and group that fired or resolved together
+ */
+export interface AlertNotification {
+    status: 'firing' | 'resolved';
+    rule: Pick<AlertRule, 'id' | 'name' | 'eventType' | 'severity'>;
+    groupKey: string;
+    alerts: Alert[];
+}
+
+function subjectOf(notification: AlertNotification): string {
+    const { status, rule, alerts } = notification;
+    const count = alerts.length > 1 ? ` (${alerts.length})` : '';
+    return `[NetOps] ${status.toUpperCase()}: ${rule.name}${count}`;
+}
+
+function textOf(notification: AlertNotification): string {
+    const { status, rule, alerts } = notification;
+    const lines = alerts.map(alert => {
+        const count = alert.count > 1 ? ` (${alert.count}x)` : '';
+        if (status === 'firing') {
+            return `- ${alert.message}${count} since ${(alert.firedAt ?? alert.firstSeenAt).toISOString()}`;
+        }
+        const by = alert.resolvedBy && alert.resolvedBy !== 'system' ? ` by ${alert.resolvedBy}` : '';
+        return `- Resolved${by} at ${alert.resolvedAt?.toISOString()}: ${alert.message}${count}`;
+    });
+    return [
+        `${rule.name} is ${status} (${rule.severity}, ${rule.eventType})`,
+        '',
+        ...lines,
+    ].join('\n');
+}
+
+export class AlertChannelService {
+    async list(): Promise<AlertChannel[]> {
+        return db.select().from(alertChannels).orderBy(asc(alertChannels.name));
+    }
+
+    async get(id: string): Promise<AlertChannel> {
+        const [channel] = await db.select().from(alertChannels).where(eq(alertChannels.id, id));
+        if (!channel) throw new AlertChannelError(`Channel ${id} not found`, 'not_found');
+        return channel;
+    }
+
+    async create(input: ChannelInput): Promise<AlertChannel> {
+        if (!input.name?.trim()) throw new AlertChannelError('name is required');
+        this.validate(input);
+
+        const now = new Date();
+        const channel: AlertChannel = {
+            id: generateId(),
+            name: input.name.trim(),
+            type: input.type!,
+            enabled: input.enabled ?? true,
+            config: input.config!,
+            lastSentAt: null,
+            lastError: null,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await db.insert(alertChannels).values(channel);
+        return channel;
+    }
+
+    async update(id: string, input: ChannelInput): Promise<AlertChannel> {
+        const existing = await this.get(id);
+
+        // The password is never returned, so a config sent back without one keeps it
+        if (input.config && input.config.password === undefined && existing.config.password) {
+            input = { ...input, config: { ...input.config, password: existing.config.password } };
+        }
+        // Likewise header values: left out or sent back redacted, the stored value is kept
+        if (input.config && existing.config.headers) {
+            const stored = existing.config.headers;
+            const sent = input.config.headers;
+            if (sent === undefined) {
+                input = { ...input, config: { ...input.config, headers: stored } };
+            } else if (sent && typeof sent === 'object') {
+                const headers = Object.fromEntries(Object.entries(sent).map(([name, value]) =>
+                    [name, value === REDACTED && stored[name] !== undefined ? stored[name] : value]));
+                input = { ...input, config: { ...input.config, headers } };
+            }
+        }
+        this.validate({ ...existing, ...input });
+
+        await db.update(alertChannels)
+            .set({
+                ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+                ...(input.type !== undefined ? { type: input.type } : {}),
+                ...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+                ...(input.config !== undefined ? { config: input.config } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(alertChannels.id, id));
+        return this.get(id);
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.get(id);
+        await db.delete(alertChannels).where(eq(alertChannels.id, id));
+    }
+
+    /**
+     * Send a test notification through a channel; throws when delivery fails
+     */
+    async test(id: string): Promise<void> {
+        const channel = await this.get(id);
+        const now = new Date();
+        await this.deliver(channel, {
+            status: 'firing',
+            rule: { id: 'test', name: 'Test notification', eventType: 'sync_failed', severity: 'info' },
+            groupKey: 'test',
+            alerts: [{
+                id: 'test',
+                ruleId: 'test',
+                eventType: 'sync_failed',
+                severity: 'info',
+                status: 'firing',
+                targetType: 'channel',
+                targetId: channel.id,
+                targetName: channel.name,
+                siteId: null,
+                platformType: null,
+                message: `Test notification from NetOps to ${channel.name}`,
+                details: null,
+                dedupeKey: 'test',
+                groupKey: 'test',
+                count: 1,
+                firstSeenAt: now,
+                lastSeenAt: now,
+                firedAt: now,
+                notifiedAt: null,
+                resolvedNotifiedAt: null,
+                acknowledgedAt: null,
+                acknowledgedBy: null,
+                resolvedAt: null,
+                resolvedBy: null,
+                createdAt: now,
+                updatedAt: now,
+            }],
+        });
+    }
+
+    /**
+     * Send a notification to every enabled channel in the list. Failures are
+     * recorded on the channel and do not stop the other channels.
+     */
+    async notify(channelIds: string[], notification: AlertNotification): Promise<void> {
+        for (const id of channelIds) {
+            const [channel] = await db.select().from(alertChannels).where(eq(alertChannels.id, id));
+            if (!channel?.enabled) continue;
+
+            try {
+                await this.deliver(channel, notification);
+            } catch (error) {
+                console.error(`[Alerts] Delivery to ${channel.name} failed:`, error instanceof Error ? error.message : error);
+            }
+        }
+    }
+
+    private async deliver(channel: AlertChannel, notification: AlertNotification): Promise<void> {
+        try {
+            if (channel.type === 'webhook') {
+                await this.sendWebhook(channel, notification);
+            } else {
+                await this.sendEmail(channel, notification);
+            }
+            await db.update(alertChannels)
+                .set({ lastSentAt: new Date(), lastError: null })
+                .where(eq(alertChannels.id, channel.id));
+        } catch (error) {
+            await db.update(alertChannels)
+                .set({ lastError: error instanceof Error ? error.message : 'Unknown error' })
+                .where(eq(alertChannels.id, channel.id));
+            throw error;
+        }
+    }
+
+    private async sendWebhook(channel: AlertChannel, notification: AlertNotification): Promise<void> {
+        const response = await fetch(channel.config.url!, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...channel.config.headers },
+            body: JSON.stringify({
+                ...notification,
+                title: subjectOf(notification),
+                text: textOf(notification),
+            }),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            throw new Error(`Webhook returned HTTP ${response.status}`);
+        }
+    }
+
+    private async sendEmail(channel: AlertChannel, notification: AlertNotification): Promise<void> {
+        const { host, port, secure, username, password, allowInsecureAuth, from, to } = channel.config;
+        await sendMail(
+            { host: host!, port, secure, username, password, allowInsecureAuth },
+            { from: from!, to: to!, subject: subjectOf(notification), text: textOf(notification) }
+        );
+    }
+
+    private validate(input: ChannelInput): void {
+        const config = input.config;
+        if (input.type !== 'webhook' && input.type !== 'smtp') {
+            throw new AlertChannelError('type must be webhook or smtp');
+        }
+        if (!config || typeof config !== 'object') {
+            throw new AlertChannelError('config is required');
+        }
+
+        if (input.type === 'webhook') {
+            try {
+                const url = new URL(config.url ?? '');
+                if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+            } catch {
+                throw new AlertChannelError('config.url must be an http(s) URL');
+            }
+            const headers: unknown = config.headers;
+            if (headers !== undefined && (!headers || typeof headers !== 'object' || Array.isArray(headers)
+                || Object.values(headers).some(value => typeof value !== 'string'))) {
+                throw new AlertChannelError('config.headers must map header names to string values');
+            }
+            return;
+        }
+
+        if (!config.host) throw new AlertChannelError('config.host is required');
+        if (!config.from) throw new AlertChannelError('config.from is required');
+        if (!isMailbox(config.from)) {
+            throw new AlertChannelError('config.from must be a single address such as "NetOps <netops@example.com>"');
+        }
+        if (config.allowInsecureAuth !== undefined && typeof config.allowInsecureAuth !== 'boolean') {
+            throw new AlertChannelError('config.allowInsecureAuth must be a boolean');
+        }
+        if (!Array.isArray(config.to) || config.to.length === 0) {
+            throw new AlertChannelError('config.to must list at least one recipient');
+        }
+        const invalid = config.to.filter(mailbox => !isMailbox(mailbox));
+        if (invalid.length > 0) {
+            throw new AlertChannelError(`config.to has invalid address(es): ${invalid.map(m => JSON.stringify(m)).join(', ')}`);
+        }
+    }
+}
+
+// Export singleton instance
+export const alertChannelService = new AlertChannelService();
@@ -0,0 +1,556 @@
+/**
+ * Alerting
+ *
+ * Turns state changes into alerts:
+ * - Sources report a condition (device went offline, hop is down, ...) or
+ *   clear it (device is back online)
+ * - Enabled rules for that event type decide whether it becomes an alert;
+ *   one open alert per rule and target, repeated reports bump its count
+ * - An alert stays pending until it has been reported `threshold` times and
+ *   held for `forMs`, then fires
+ * - Firing and resolved alerts are delivered to the rule's channels, grouped
+ *   per rule and group key
+ * - Alerts are acknowledged or resolved by hand, or resolve themselves when
+ *   the condition clears
+ */
+
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lt } from 'drizzle-orm';
+import {
+    db, alertRules, alerts, alertChannels, devices, networks, locations, topologies, generateId,
+    type Alert, type AlertRule, type AlertEventType, type AlertSeverity, type Device, type Network, type Topology,
+} from '../db/index.js';
+import { alertChannelService } from './alert-channels.js';
+
+const EVENT_TYPES: AlertEventType[] = ['device_offline', 'network_degraded', 'hop_down', 'new_device', 'device_disappeared', 'sync_failed', 'key_expiring'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const OPEN_STATUSES: Alert['status'][] = ['pending', 'firing', 'acknowledged'];
+
+// How long to wait for more alerts of the same group before notifying
+const GROUP_WAIT_MS = 10 * 1000;
+const EVALUATION_INTERVAL_MS = 30 * 1000;
+const RESOLVED_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export class AlertError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'invalid' = 'invalid') {
+        super(message);
+        this.name = 'AlertError';
+    }
+}
+
+/**
+ * A condition reported by a source
+ */
+export interface AlertEvent {
+    type: AlertEventType;
+    targetType: 'device' | 'network' | 'path_hop' | 'discovered_device' | 'platform';
+    targetId: string;
+    targetName?: string | null;
+    siteId?: string | null;
+    platformType?: string | null;
+    message: string;
+    details?: Record<string, unknown>;
+}
+
+export type AlertRuleInput = Partial<Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface AlertQuery {
+    /** A status, or "open" for pending, firing and acknowledged (default) */
+    status?: Alert['status'] | 'open' | 'all';
+    severity?: AlertSeverity;
+    eventType?: AlertEventType;
+    targetId?: string;
+    limit?: number;
+}
+
+/**
+ * Statuses before a sync, to compare with afterwards
+ */
+export interface StatusSnapshot {
+    devices: Map<string, Device['status']>;
+    networks: Map<string, Network['status']>;
+}
+
+export function isAlertEventType(value: unknown): value is AlertEventType {
+    return EVENT_TYPES.includes(value as AlertEventType);
+}
+
+export class AlertService {
+    private flushTimer: NodeJS.Timeout | null = null;
+    private evaluationTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Periodically fire pending alerts whose duration has passed, after
+     * delivering notifications a restart left unsent
+     */
+    start(): void {
+        if (this.evaluationTimer) return;
+        this.flush().catch(error => console.error('[Alerts] Delivery error:', error));
+        this.evaluationTimer = setInterval(() => {
+            this.evaluate().catch(error => console.error('[Alerts] Evaluation error:', error));
+        }, EVALUATION_INTERVAL_MS);
+        this.evaluationTimer.unref();
+    }
+
+    stop(): void {
+        if (this.evaluationTimer) clearInterval(this.evaluationTimer);
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.evaluationTimer = null;
+        this.flushTimer = null;
+    }
+
+    // ============================================
+    // RULES
+    // ============================================
+
+    async listRules(): Promise<AlertRule[]> {
+        return db.select().from(alertRules).orderBy(asc(alertRules.eventType), asc(alertRules.name));
+    }
+
+    async getRule(id: string): Promise<AlertRule> {
+        const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+        if (!rule) throw new AlertError(`Rule ${id} not found`, 'not_found');
+        return rule;
+    }
+
+    async createRule(input: AlertRuleInput): Promise<AlertRule> {
+        if (typeof input.name !== 'string' || !input.name.trim()) throw new AlertError('name is required');
+        await this.validateRule(input);
+
+        const now = new Date();
+        const rule: AlertRule = {
+            id: generateId(),
+            name: input.name.trim(),
+            description: input.description ?? null,
+            enabled: input.enabled ?? true,
+            eventType: input.eventType!,
+            severity: input.severity ?? 'warning',
+            siteId: input.siteId || null,
+            platformType: input.platformType || null,
+            targetId: input.targetId || null,
+            threshold: input.threshold ?? 1,
+            forMs: input.forMs ?? 0,
+            groupBy: input.groupBy ?? 'none',
+            channelIds: input.channelIds ?? [],
+            createdAt: now,
+            updatedAt: now,
+        };
+        await db.insert(alertRules).values(rule);
+        return rule;
+    }
+
+    async updateRule(id: string, input: AlertRuleInput): Promise<AlertRule> {
+        const existing = await this.getRule(id);
+        if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+            throw new AlertError('name must be a non-empty string');
+        }
+        await this.validateRule({ ...existing, ...input });
+
+        const fields = ['description', 'enabled', 'eventType', 'severity', 'siteId', 'platformType',
+            'targetId', 'threshold', 'forMs', 'groupBy', 'channelIds'] as const;
+        const changes: AlertRuleInput = {};
+        for (const field of fields) {
+            if (input[field] !== undefined) Object.assign(changes, { [field]: input[field] });
+        }
+
+        await db.update(alertRules)
+            .set({
+                ...changes,
+                ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(alertRules.id, id));
+        return this.getRule(id);
+    }
+
+    async deleteRule(id: string): Promise<void> {
+        await this.getRule(id);
+        await db.delete(alertRules).where(eq(alertRules.id, id));
+    }
+
+    private async validateRule(input: AlertRuleInput): Promise<void> {
+        if (!isAlertEventType(input.eventType)) {
+            throw new AlertError(`eventType must be one of ${EVENT_TYPES.join(', ')}`);
+        }
+        if (input.severity !== undefined && !SEVERITIES.includes(input.severity)) {
+            throw new AlertError(`severity must be one of ${SEVERITIES.join(', ')}`);
+        }
+        if (input.groupBy !== undefined && !['none', 'site', 'platform'].includes(input.groupBy)) {
+            throw new AlertError('groupBy must be none, site or platform');
+        }
+        if (input.threshold !== undefined && (!Number.isInteger(input.threshold) || input.threshold < 1)) {
+            throw new AlertError('threshold must be a positive integer');
+        }
+        if (input.forMs !== undefined && (!Number.isInteger(input.forMs) || input.forMs < 0)) {
+            throw new AlertError('forMs must be a non-negative integer');
+        }
+        if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+            throw new AlertError('enabled must be a boolean');
+        }
+        for (const field of ['description', 'siteId', 'platformType', 'targetId'] as const) {
+            if (input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+                throw new AlertError(`${field} must be a string`);
+            }
+        }
+        if (input.channelIds !== undefined && input.channelIds !== null
+            && (!Array.isArray(input.channelIds) || input.channelIds.some(id => typeof id !== 'string'))) {
+            throw new AlertError('channelIds must be an array of strings');
+        }
+        if (input.channelIds?.length) {
+            const found = await db.select({ id: alertChannels.id }).from(alertChannels)
+                .where(inArray(alertChannels.id, input.channelIds));
+            const missing = input.channelIds.filter(id => !found.some(c => c.id === id));
+            if (missing.length) throw new AlertError(`Unknown channel(s): ${missing.join(', ')}`);
+        }
+    }
+
+    // ============================================
+    // ALERTS
+    // ============================================
+
+    /**
+     * Get alerts, newest first
+     */
+    async list(query: AlertQuery = {}): Promise<Alert[]> {
+        const status = query.status ?? 'open';
+        const conditions = [
+            status === 'open' ? inArray(alerts.status, OPEN_STATUSES) : status !== 'all' ? eq(alerts.status, status) : undefined,
+            query.severity ? eq(alerts.severity, query.severity) : undefined,
+            query.eventType ? eq(alerts.eventType, query.eventType) : undefined,
+            query.targetId ? eq(alerts.targetId, query.targetId) : undefined,
+        ].filter(c => c !== undefined);
+
+        return db.select().from(alerts)
+            .where(conditions.length ? and(...conditions) : undefined)
+            .orderBy(desc(alerts.lastSeenAt))
+            .limit(query.limit ?? 100);
+    }
+
+    async get(id: string): Promise<Alert> {
+        const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
+        if (!alert) throw new AlertError(`Alert ${id} not found`, 'not_found');
+        return alert;
+    }
+
+    /**
+     * Someone is looking at it: stops it counting as unhandled, but it stays
+     * open until resolved
+     */
+    async acknowledge(id: string, actor: string): Promise<Alert> {
+        const alert = await this.get(id);
+        if (alert.status !== 'pending' && alert.status !== 'firing') {
+            throw new AlertError(`Alert is ${alert.status}`);
+        }
+
+        const now = new Date();
+        await db.update(alerts)
+            .set({ status: 'acknowledged', acknowledgedAt: now, acknowledgedBy: actor, updatedAt: now })
+            .where(eq(alerts.id, id));
+        return this.get(id);
+    }
+
+    /**
+     * Close an alert. If the condition is reported again, a new alert opens.
+     */
+    async resolve(id: string, actor: string): Promise<Alert> {
+        const alert = await this.get(id);
+        if (alert.status === 'resolved') {
+            throw new AlertError('Alert is already resolved');
+        }
+
+        await this.markResolved([alert], actor);
+        return this.get(id);
+    }
+
+    // ============================================
+    // EVENTS
+    // ============================================
+
+    /**
+     * A source saw a condition. Opens or bumps an alert for every enabled
+     * rule that matches.
+     */
+    async report(event: AlertEvent): Promise<void> {
+        const rules = await db.select().from(alertRules)
+            .where(and(eq(alertRules.eventType, event.type), eq(alertRules.enabled, true)));
+
+        const now = new Date();
+        for (const rule of rules) {
+            if (rule.siteId && rule.siteId !== event.siteId) continue;
+            if (rule.platformType && rule.platformType !== event.platformType) continue;
+            if (rule.targetId && rule.targetId !== event.targetId) continue;
+
+            const dedupeKey = `${rule.id}:${event.targetType}:${event.targetId}`;
+            const [open] = await db.select().from(alerts)
+                .where(and(eq(alerts.dedupeKey, dedupeKey), inArray(alerts.status, OPEN_STATUSES)));
+
+            let alert: Alert;
+            if (open) {
+                alert = { ...open, count: open.count + 1, lastSeenAt: now, message: event.message, details: event.details ?? open.details, updatedAt: now };
+                await db.update(alerts)
+                    .set({ count: alert.count, lastSeenAt: now, message: alert.message, details: alert.details, updatedAt: now })
+                    .where(eq(alerts.id, open.id));
+            } else {
+                alert = {
+                    id: generateId(),
+                    ruleId: rule.id,
+                    eventType: event.type,
+                    severity: rule.severity,
+                    status: 'pending',
+                    targetType: event.targetType,
+                    targetId: event.targetId,
+                    targetName: event.targetName ?? null,
+                    siteId: event.siteId ?? null,
+                    platformType: event.platformType ?? null,
+                    message: event.message,
+                    details: event.details ?? null,
+                    dedupeKey,
+                    groupKey: rule.groupBy === 'site' ? `site:${event.siteId ?? 'none'}`
+                        : rule.groupBy === 'platform' ? `platform:${event.platformType ?? 'none'}`
+                        : dedupeKey,
+                    count: 1,
+                    firstSeenAt: now,
+                    lastSeenAt: now,
+                    firedAt: null,
+                    notifiedAt: null,
+                    resolvedNotifiedAt: null,
+                    acknowledgedAt: null,
+                    acknowledgedBy: null,
+                    resolvedAt: null,
+                    resolvedBy: null,
+                    createdAt: now,
+                    updatedAt: now,
+                };
+                await db.insert(alerts).values(alert);
+            }
+
+            await this.fireIfDue(alert, rule, now);
+        }
+    }
+
+    /**
+     * A source saw the condition end. Pending alerts are dropped, the rest
+     * resolve.
+     */
+    async clear(type: AlertEventType, targetType: AlertEvent['targetType'], targetId: string): Promise<void> {
+        const open = await db.select().from(alerts)
+            .where(and(
+                eq(alerts.eventType, type),
+                eq(alerts.targetType, targetType),
+                eq(alerts.targetId, targetId),
+                inArray(alerts.status, OPEN_STATUSES)
+            ));
+        if (open.length === 0) return;
+
+        const pending = open.filter(a => a.status === 'pending').map(a => a.id);
+        if (pending.length) {
+            await db.delete(alerts).where(inArray(alerts.id, pending));
+        }
+        await this.markResolved(open.filter(a => a.status !== 'pending'), 'system');
+    }
+
+    /**
+     * Site of a device, through its location
+     */
+    async siteOfDevice(deviceId: string | null | undefined): Promise<string | null> {
+        if (!deviceId) return null;
+        const [row] = await db.select({ siteId: locations.siteId })
+            .from(devices)
+            .innerJoin(locations, eq(devices.locationId, locations.id))
+            .where(eq(devices.id, deviceId));
+        return row?.siteId ?? null;
+    }
+
+    /**
+     * Statuses of a platform's devices and networks, taken before a sync
+     */
+    async captureStatuses(platform: string): Promise<StatusSnapshot> {
+        const [deviceRows, networkRows] = await Promise.all([
+            db.select({ id: devices.id, status: devices.status }).from(devices)
+                .where(eq(devices.platformType, platform as NonNullable<Device['platformType']>)),
+            this.platformNetworks(platform),
+        ]);
+        return {
+            devices: new Map(deviceRows.map(d => [d.id, d.status])),
+            networks: new Map(networkRows.map(n => [n.id, n.status])),
+        };
+    }
+
+    /**
+     * Report devices that are offline and networks that are degraded, and
+     * clear them when they recover. Conditions are reported on every sync
+     * while they hold, so a rule's threshold counts syncs.
+     */
+    async detectTransitions(platform: string, before: StatusSnapshot): Promise<void> {
+        const [deviceRows, networkRows, locationRows] = await Promise.all([
+            db.select().from(devices).where(eq(devices.platformType, platform as NonNullable<Device['platformType']>)),
+            this.platformNetworks(platform),
+            db.select({ id: locations.id, siteId: locations.siteId }).from(locations),
+        ]);
+        const siteOf = new Map(locationRows.map(l => [l.id, l.siteId]));
+        const deviceSite = new Map(deviceRows.map(d => [d.id, d.locationId ? siteOf.get(d.locationId) ?? null : null]));
+
+        for (const device of deviceRows) {
+            const previous = before.devices.get(device.id);
+            if (previous === undefined) continue;
+
+            if (device.status === 'offline') {
+                await this.report({
+                    type: 'device_offline',
+                    targetType: 'device',
+                    targetId: device.id,
+                    targetName: device.name,
+                    siteId: deviceSite.get(device.id),
+                    platformType: platform,
+                    message: `${device.name} is offline`,
+                    details: { previousStatus: previous, primaryIp: device.primaryIp },
+                });
+            } else if (previous === 'offline' && (device.status === 'online' || device.status === 'retired')) {
+                await this.clear('device_offline', 'device', device.id);
+            }
+        }
+
+        for (const network of networkRows) {
+            const previous = before.networks.get(network.id);
+            if (previous === undefined) continue;
+
+            if (network.status === 'degraded') {
+                await this.report({
+                    type: 'network_degraded',
+                    targetType: 'network',
+                    targetId: network.id,
+                    targetName: network.name,
+                    siteId: network.providerDeviceId ? deviceSite.get(network.providerDeviceId) ?? await this.siteOfDevice(network.providerDeviceId) : null,
+                    platformType: platform,
+                    message: `${network.name} is degraded`,
+                    details: { previousStatus: previous, cidr: network.cidr },
+                });
+            } else if (previous === 'degraded' && (network.status === 'active' || network.status === 'retired')) {
+                await this.clear('network_degraded', 'network', network.id);
+            }
+        }
+    }
+
+    /**
+     * Networks a platform syncs: those in the topology of its type
+     */
+    private async platformNetworks(platform: string): Promise<Network[]> {
+        const rows = await db.select({ network: networks }).from(networks)
+            .innerJoin(topologies, eq(networks.topologyId, topologies.id))
+            .where(eq(topologies.type, platform as Topology['type']));
+        return rows.map(r => r.network);
+    }
+
+    // ============================================
+    // EVALUATION & DELIVERY
+    // ============================================
+
+    /**
+     * Fire pending alerts whose duration has passed, and forget old resolved ones
+     */
+    async evaluate(): Promise<void> {
+        const now = new Date();
+        const pending = await db.select().from(alerts).where(eq(alerts.status, 'pending'));
+        if (pending.length) {
+            const rules = await db.select().from(alertRules)
+                .where(inArray(alertRules.id, [...new Set(pending.map(a => a.ruleId))]));
+            for (const alert of pending) {
+                const rule = rules.find(r => r.id === alert.ruleId);
+                if (rule) await this.fireIfDue(alert, rule, now);
+            }
+        }
+
+        await db.delete(alerts).where(and(
+            eq(alerts.status, 'resolved'),
+            lt(alerts.resolvedAt, new Date(now.getTime() - RESOLVED_RETENTION_MS))
+        ));
+    }
+
+    /**
+     * Deliver alerts that fired or resolved since the last delivery, one
+     * notification per rule and group
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        const firing = await db.select().from(alerts)
+            .where(and(eq(alerts.status, 'firing'), isNull(alerts.notifiedAt)));
+        const resolved = await db.select().from(alerts)
+            .where(and(eq(alerts.status, 'resolved'), isNotNull(alerts.notifiedAt), isNull(alerts.resolvedNotifiedAt)));
+
+        await this.deliver('firing', firing, 'notifiedAt');
+        await this.deliver('resolved', resolved, 'resolvedNotifiedAt');
+    }
+
+    private async deliver(
+        status: 'firing' | 'resolved',
+        batch: Alert[],
+        mark: 'notifiedAt' | 'resolvedNotifiedAt'
+    ): Promise<void> {
+        if (batch.length === 0) return;
+
+        const groups = new Map<string, Alert[]>();
+        for (const alert of batch) {
+            const key = `${alert.ruleId}|${alert.groupKey}`;
+            groups.set(key, [...(groups.get(key) ?? []), alert]);
+        }
+
+        const rules = await db.select().from(alertRules)
+            .where(inArray(alertRules.id, [...new Set(batch.map(a => a.ruleId))]));
+
+        for (const group of groups.values()) {
+            const rule = rules.find(r => r.id === group[0].ruleId);
+            const ids = group.map(a => a.id);
+
+            // Mark first, so a slow or failing channel never sends twice
+            await db.update(alerts)
+                .set({ [mark]: new Date() })
+                .where(inArray(alerts.id, ids));
+
+            if (rule?.channelIds?.length) {
+                await alertChannelService.notify(rule.channelIds, {
+                    status,
+                    rule: { id: rule.id, name: rule.name, eventType: rule.eventType, severity: rule.severity },
+                    groupKey: group[0].groupKey,
+                    alerts: group,
+                });
+            }
+        }
+    }
+
+    private async fireIfDue(alert: Alert, rule: AlertRule, now: Date): Promise<void> {
+        if (alert.status !== 'pending') return;
+        if (alert.count < rule.threshold) return;
+        if (now.getTime() - alert.firstSeenAt.getTime() < rule.forMs) return;
+
+        await db.update(alerts)
+            .set({ status: 'firing', firedAt: now, updatedAt: now })
+            .where(eq(alerts.id, alert.id));
+        this.scheduleFlush();
+    }
+
+    private async markResolved(resolved: Alert[], actor: string): Promise<void> {
+        if (resolved.length === 0) return;
+
+        const now = new Date();
+        await db.update(alerts)
+            .set({ status: 'resolved', resolvedAt: now, resolvedBy: actor, updatedAt: now })
+            .where(inArray(alerts.id, resolved.map(a => a.id)));
+
+        if (resolved.some(a => a.notifiedAt)) this.scheduleFlush();
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush().catch(error => console.error('[Alerts] Delivery error:', error));
+        }, GROUP_WAIT_MS);
+        this.flushTimer.unref();
+    }
+}
+
+// Export singleton instance
+export const alertService = new AlertService();
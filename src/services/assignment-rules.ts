@@ -0,0 +1,339 @@
+/**
+ * Assignment Rules
+ *
+ * Places devices at a site / location from persisted rules instead of
+ * hard-coded name patterns. A rule can match on a name regex, a CIDR
+ * containing the primary IP, the platform's own site ID, MAC OUI and tags.
+ * Rules run in priority order and the first match wins.
+ */
+
+import { and, asc, eq, gte, isNull, inArray, type SQL } from 'drizzle-orm';
+import {
+    db, devices, sites, locations, assignmentRules, generateId,
+    type AssignmentRule, type Device,
+} from '../db/index.js';
+import { isIpInCidr, isValidCidr } from '../utils/helpers.js';
+
+export class AssignmentRuleError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'invalid' = 'invalid') {
+        super(message);
+        this.name = 'AssignmentRuleError';
+    }
+}
+
+export type RuleInput = Partial<Omit<AssignmentRule, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface AssignmentScope {
+    /** Only these devices (all when omitted) */
+    deviceIds?: string[];
+    /** Only devices created at or after this time, e.g. by the sync that just ran */
+    createdSince?: Date;
+    /** Re-evaluate devices that already have a location (default false) */
+    includeAssigned?: boolean;
+}
+
+export interface Assignment {
+    deviceId: string;
+    deviceName: string;
+    ruleId: string;
+    ruleName: string;
+    siteId: string;
+    siteName: string;
+    /** Null in a preview when the site's default location doesn't exist yet */
+    locationId: string | null;
+    previousLocationId: string | null;
+}
+
+export interface AssignmentResult {
+    dryRun: boolean;
+    processed: number;
+    assigned: number;
+    unchanged: number;
+    unmatched: number;
+    assignments: Assignment[];
+}
+
+/**
+ * First three bytes of a MAC or OUI, as "AA:BB:CC"
+ */
+function ouiOf(mac: string): string | null {
+    const hex = mac.replace(/[^0-9a-f]/gi, '').toUpperCase();
+    if (hex.length < 6) return null;
+    return hex.slice(0, 6).match(/../g)!.join(':');
+}
+
+/**
+ * The site ID a platform reports for a device: UISP `metadata.site.id`,
+ * UniFi `metadata.siteId`
+ */
+function platformSiteIdOf(device: Device): string | null {
+    const meta = device.metadata || {};
+    const site = meta.site as { id?: string } | undefined;
+    return site?.id || (meta.siteId as string | undefined) || null;
+}
+
+export function ruleMatches(rule: AssignmentRule, device: Device): boolean {
+    if (rule.namePattern && !new RegExp(rule.namePattern, 'i').test(device.name)) return false;
+
+    if (rule.cidr) {
+        const ip = device.primaryIp?.split('/')[0];
+        if (!ip || !isIpInCidr(ip, rule.cidr)) return false;
+    }
+
+    if (rule.platformType && device.platformType !== rule.platformType) return false;
+    if (rule.platformSiteId && platformSiteIdOf(device) !== rule.platformSiteId) return false;
+
+    if (rule.macOui) {
+        if (!device.primaryMac || ouiOf(device.primaryMac) !== ouiOf(rule.macOui)) return false;
+    }
+
+    if (rule.tags?.length) {
+        if (!device.tags?.some(tag => rule.tags!.includes(tag))) return false;
+    }
+
+    return true;
+}
+
+export class AssignmentRuleService {
+    async list(): Promise<AssignmentRule[]> {
+        return db.select().from(assignmentRules).orderBy(asc(assignmentRules.priority), asc(assignmentRules.createdAt));
+    }
+
+    async get(id: string): Promise<AssignmentRule> {
+        const [rule] = await db.select().from(assignmentRules).where(eq(assignmentRules.id, id));
+        if (!rule) throw new AssignmentRuleError(`Rule ${id} not found`, 'not_found');
+        return rule;
+    }
+
+    async create(input: RuleInput): Promise<AssignmentRule> {
+        if (typeof input.name !== 'string' || !input.name.trim()) throw new AssignmentRuleError('name is required');
+        this.validateFields(input);
+        const values = await this.validate(input);
+
+        const now = new Date();
+        const rule = {
+            id: generateId(),
+            name: input.name.trim(),
+            description: input.description ?? null,
+            priority: input.priority ?? 100,
+            enabled: input.enabled ?? true,
+            ...values,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await db.insert(assignmentRules).values(rule);
+        return rule;
+    }
+
+    async update(id: string, input: RuleInput): Promise<AssignmentRule> {
+        const existing = await this.get(id);
+        if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+            throw new AssignmentRuleError('name must be a non-empty string');
+        }
+        this.validateFields(input);
+        const values = await this.validate({ ...existing, ...input });
+
+        await db.update(assignmentRules)
+            .set({
+                ...values,
+                ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+                ...(input.description !== undefined ? { description: input.description } : {}),
+                ...(input.priority !== undefined ? { priority: input.priority } : {}),
+                ...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(assignmentRules.id, id));
+        return this.get(id);
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.get(id);
+        await db.delete(assignmentRules).where(eq(assignmentRules.id, id));
+    }
+
+    /**
+     * Which rule would place each device where, without writing anything
+     */
+    async preview(scope: AssignmentScope = {}): Promise<AssignmentResult> {
+        return this.run(scope, true);
+    }
+
+    /**
+     * Assign devices in scope to the target of their first matching rule
+     */
+    async apply(scope: AssignmentScope = {}): Promise<AssignmentResult> {
+        return this.run(scope, false);
+    }
+
+    private async run(scope: AssignmentScope, dryRun: boolean): Promise<AssignmentResult> {
+        const rules = (await this.list()).filter(r => r.enabled);
+        const result: AssignmentResult = { dryRun, processed: 0, assigned: 0, unchanged: 0, unmatched: 0, assignments: [] };
+
+        const conditions: SQL[] = [];
+        if (scope.deviceIds) {
+            if (scope.deviceIds.length === 0) return result;
+            conditions.push(inArray(devices.id, scope.deviceIds));
+        }
+        if (scope.createdSince) conditions.push(gte(devices.createdAt, scope.createdSince));
+        if (!scope.includeAssigned) conditions.push(isNull(devices.locationId));
+
+        const candidates = await db.select().from(devices)
+            .where(conditions.length ? and(...conditions) : undefined);
+        if (rules.length === 0 || candidates.length === 0) {
+            result.processed = candidates.length;
+            result.unmatched = candidates.length;
+            return result;
+        }
+
+        const siteNames = new Map((await db.select().from(sites)).map(s => [s.id, s.name]));
+        const defaultLocations = new Map<string, string | null>();
+
+        for (const device of candidates) {
+            result.processed++;
+
+            const rule = rules.find(r => ruleMatches(r, device));
+            if (!rule) {
+                result.unmatched++;
+                continue;
+            }
+
+            let locationId = rule.locationId;
+            if (!locationId) {
+                if (!defaultLocations.has(rule.siteId)) {
+                    defaultLocations.set(rule.siteId, await this.defaultLocation(rule.siteId, dryRun));
+                }
+                locationId = defaultLocations.get(rule.siteId)!;
+            }
+
+            if (locationId && locationId === device.locationId) {
+                result.unchanged++;
+                continue;
+            }
+
+            if (!dryRun) {
+                await db.update(devices)
+                    .set({ locationId, updatedAt: new Date() })
+                    .where(eq(devices.id, device.id));
+            }
+
+            result.assigned++;
+            result.assignments.push({
+                deviceId: device.id,
+                deviceName: device.name,
+                ruleId: rule.id,
+                ruleName: rule.name,
+                siteId: rule.siteId,
+                siteName: siteNames.get(rule.siteId) ?? rule.siteId,
+                locationId,
+                previousLocationId: device.locationId,
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * The site's first location, creating a "Default" one when it has none
+     * (unless this is a dry run)
+     */
+    private async defaultLocation(siteId: string, dryRun: boolean): Promise<string | null> {
+        const [existing] = await db.select().from(locations)
+            .where(eq(locations.siteId, siteId))
+            .orderBy(asc(locations.createdAt))
+            .limit(1);
+        if (existing) return existing.id;
+        if (dryRun) return null;
+
+        const [site] = await db.select().from(sites).where(eq(sites.id, siteId));
+        const id = generateId();
+        const now = new Date();
+        await db.insert(locations).values({
+            id,
+            siteId,
+            name: 'Default',
+            type: 'other',
+            description: `Default location for ${site?.name ?? siteId}`,
+            createdAt: now,
+            updatedAt: now,
+        });
+        return id;
+    }
+
+    /**
+     * Check the types of the fields besides name
+     */
+    private validateFields(input: RuleInput): void {
+        if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+            throw new AssignmentRuleError('priority must be an integer');
+        }
+        if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+            throw new AssignmentRuleError('enabled must be a boolean');
+        }
+        if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+            throw new AssignmentRuleError('description must be a string');
+        }
+        for (const field of ['namePattern', 'cidr', 'platformType', 'platformSiteId', 'macOui', 'siteId', 'locationId'] as const) {
+            const value = input[field];
+            if (value !== undefined && value !== null && typeof value !== 'string') {
+                throw new AssignmentRuleError(`${field} must be a string`);
+            }
+        }
+    }
+
+    /**
+     * Check conditions and target; returns the condition and target columns
+     */
+    private async validate(input: RuleInput) {
+        const values = {
+            namePattern: input.namePattern || null,
+            cidr: input.cidr || null,
+            platformType: input.platformType || null,
+            platformSiteId: input.platformSiteId || null,
+            macOui: input.macOui || null,
+            tags: input.tags?.length ? input.tags : null,
+            siteId: input.siteId || null,
+            locationId: input.locationId || null,
+        };
+
+        if (!values.namePattern && !values.cidr && !values.platformSiteId && !values.macOui && !values.tags && !values.platformType) {
+            throw new AssignmentRuleError('A rule needs at least one condition');
+        }
+        if (values.namePattern) {
+            try {
+                new RegExp(values.namePattern, 'i');
+            } catch {
+                throw new AssignmentRuleError(`Invalid name pattern: ${values.namePattern}`);
+            }
+        }
+        if (values.cidr && !isValidCidr(values.cidr)) {
+            throw new AssignmentRuleError(`Invalid CIDR: ${values.cidr}`);
+        }
+        if (values.macOui) {
+            const oui = ouiOf(values.macOui);
+            if (!oui) throw new AssignmentRuleError(`Invalid MAC OUI: ${values.macOui}`);
+            values.macOui = oui;
+        }
+        if (values.tags && (!Array.isArray(values.tags) || values.tags.some(t => typeof t !== 'string'))) {
+            throw new AssignmentRuleError('tags must be an array of strings');
+        }
+
+        if (values.locationId) {
+            const [location] = await db.select().from(locations).where(eq(locations.id, values.locationId));
+            if (!location) throw new AssignmentRuleError(`Location ${values.locationId} not found`);
+            if (values.siteId && values.siteId !== location.siteId) {
+                throw new AssignmentRuleError(`Location ${values.locationId} is not at site ${values.siteId}`);
+            }
+            values.siteId = location.siteId;
+        }
+        const siteId = values.siteId;
+        if (!siteId) throw new AssignmentRuleError('siteId or locationId is required');
+
+        const [site] = await db.select().from(sites).where(eq(sites.id, siteId));
+        if (!site) throw new AssignmentRuleError(`Site ${siteId} not found`);
+
+        return { ...values, siteId };
+    }
+}
+
+// Export singleton instance
+export const assignmentRuleService = new AssignmentRuleService();
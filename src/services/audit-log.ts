@@ -0,0 +1,87 @@
+/**
+ * Audit Log Service
+ *
+ * Records every change NetOps makes on an external platform, who asked for
+ * it and why, including attempts that failed.
+ */
+
+import { db, auditLog, generateId, type AuditLogEntry } from '../db/index.js';
+import { and, desc, eq, like } from 'drizzle-orm';
+
+export interface AuditRecord {
+    actor: string;
+    action: string;
+    targetType: string;
+    targetId: string;
+    reason?: string | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+    error?: string | null;
+}
+
+export interface AuditQuery {
+    targetType?: string;
+    targetId?: string;
+    /** Match target IDs starting with this, e.g. "<networkId>/" */
+    targetPrefix?: string;
+    action?: string;
+    limit?: number;
+}
+
+export class AuditLogService {
+    async record(entry: AuditRecord): Promise<AuditLogEntry> {
+        const row = {
+            id: generateId(),
+            actor: entry.actor,
+            action: entry.action,
+            targetType: entry.targetType,
+            targetId: entry.targetId,
+            reason: entry.reason || null,
+            before: entry.before || null,
+            after: entry.after || null,
+            status: entry.error ? 'failed' as const : 'success' as const,
+            error: entry.error || null,
+            createdAt: new Date(),
+        };
+        await db.insert(auditLog).values(row);
+        return row;
+    }
+
+    /**
+     * Run a change and record it whether or not it succeeds.
+     * `change` returns the state after the change.
+     */
+    async track<T extends Record<string, unknown>>(
+        entry: Omit<AuditRecord, 'after' | 'error'>,
+        change: () => Promise<T>
+    ): Promise<T> {
+        try {
+            const after = await change();
+            await this.record({ ...entry, after });
+            return after;
+        } catch (error) {
+            await this.record({ ...entry, error: error instanceof Error ? error.message : 'Unknown error' });
+            throw error;
+        }
+    }
+
+    /**
+     * Get audit entries, newest first
+     */
+    async list(query: AuditQuery = {}): Promise<AuditLogEntry[]> {
+        const conditions = [
+            query.targetType ? eq(auditLog.targetType, query.targetType) : undefined,
+            query.targetId ? eq(auditLog.targetId, query.targetId) : undefined,
+            query.targetPrefix ? like(auditLog.targetId, `${query.targetPrefix.replace(/[%_]/g, '')}%`) : undefined,
+            query.action ? eq(auditLog.action, query.action) : undefined,
+        ].filter(c => c !== undefined);
+
+        return db.select().from(auditLog)
+            .where(conditions.length ? and(...conditions) : undefined)
+            .orderBy(desc(auditLog.createdAt))
+            .limit(query.limit ?? 50);
+    }
+}
+
+// Export singleton instance
+export const auditLogService = new AuditLogService();
@@ -0,0 +1,206 @@
+/**
+ * Device Actions
+ *
+ * Platform-neutral restart / provision / block / unblock for local devices.
+ * The platform is resolved from the device's platform identities, so a
+ * device merged from several platforms can use any of them. Destructive
+ * actions need a short-lived confirmation token from a first, dry call.
+ * Every action that runs is written to the audit log with its result.
+ */
+
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db, devices, deviceIdentities, type Device, type AuditLogEntry } from '../db/index.js';
+import type { BaseConnector, DeviceActionName, DeviceActionTarget } from '../connectors/index.js';
+import { auditLogService } from './audit-log.js';
+
+export class DeviceActionError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'unsupported' | 'invalid_token') {
+        super(message);
+        this.name = 'DeviceActionError';
+    }
+}
+
+export interface DeviceCapability {
+    action: DeviceActionName;
+    description: string;
+    destructive: boolean;
+    platform: string;
+}
+
+export interface ActionContext {
+    actor: string;
+    reason?: string;
+    confirmationToken?: string;
+}
+
+export type ActionOutcome =
+    | { status: 'confirmation_required'; action: DeviceActionName; deviceId: string; confirmationToken: string; expiresAt: Date; message: string }
+    | { status: 'completed'; action: DeviceActionName; deviceId: string; platform: string; message: string };
+
+const ACTIONS: Record<DeviceActionName, { description: string; destructive: boolean }> = {
+    restart: { description: 'Reboot the device', destructive: true },
+    provision: { description: 'Push the current configuration to the device again', destructive: true },
+    block: { description: 'Block the client from the network', destructive: true },
+    unblock: { description: 'Let a blocked client back on the network', destructive: false },
+};
+
+const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+
+export function isDeviceAction(action: string): action is DeviceActionName {
+    return Object.hasOwn(ACTIONS, action);
+}
+
+interface PendingConfirmation {
+    deviceId: string;
+    action: DeviceActionName;
+    expiresAt: Date;
+}
+
+export class DeviceActionService {
+    private connectors: BaseConnector[] = [];
+    private confirmations = new Map<string, PendingConfirmation>();
+
+    setConnectors(connectors: BaseConnector[]): void {
+        this.connectors = connectors;
+    }
+
+    /**
+     * What can be done to a device, and through which platform
+     */
+    async getCapabilities(deviceId: string): Promise<DeviceCapability[]> {
+        const device = await this.getDevice(deviceId);
+        const resolved = await this.resolve(device);
+        return [...resolved.entries()].map(([action, { connector }]) => ({
+            action,
+            ...ACTIONS[action],
+            platform: connector.getType(),
+        }));
+    }
+
+    /**
+     * Run an action. Destructive actions without a confirmation token only
+     * return a token; call again with it within two minutes to go ahead.
+     */
+    async run(deviceId: string, action: DeviceActionName, context: ActionContext): Promise<ActionOutcome> {
+        const device = await this.getDevice(deviceId);
+        const resolved = (await this.resolve(device)).get(action);
+        if (!resolved) {
+            throw new DeviceActionError(`${action} is not available for ${device.name}`, 'unsupported');
+        }
+
+        if (ACTIONS[action].destructive) {
+            if (!context.confirmationToken) {
+                return this.requestConfirmation(device, action);
+            }
+            this.consumeConfirmation(context.confirmationToken, deviceId, action);
+        }
+
+        const { connector, target } = resolved;
+        await auditLogService.track({
+            actor: context.actor,
+            action: `device.${action}`,
+            targetType: 'device',
+            targetId: deviceId,
+            reason: context.reason,
+            before: { name: device.name, status: device.status, platform: connector.getType(), ...target },
+        }, async () => {
+            await connector.runDeviceAction(action, target);
+            return { platform: connector.getType(), result: 'ok' };
+        });
+
+        return {
+            status: 'completed',
+            action,
+            deviceId,
+            platform: connector.getType(),
+            message: `${action} sent to ${device.name} via ${connector.getName()}`,
+        };
+    }
+
+    /**
+     * Results of past actions on a device, newest first
+     */
+    async getHistory(deviceId: string, limit = 20): Promise<AuditLogEntry[]> {
+        return auditLogService.list({ targetType: 'device', targetId: deviceId, limit });
+    }
+
+    private async getDevice(deviceId: string): Promise<Device> {
+        const rows = await db.select().from(devices).where(eq(devices.id, deviceId)).limit(1);
+        if (rows.length === 0) {
+            throw new DeviceActionError(`Device ${deviceId} not found`, 'not_found');
+        }
+        return rows[0];
+    }
+
+    /**
+     * Pick a connector for each action. The device's own platform is asked
+     * first, then the platforms of its other identities. Other platforms only
+     * see a device by MAC (e.g. as a client), which is only offered for devices
+     * no platform manages, so one platform's gear is never blocked by another.
+     */
+    private async resolve(device: Device): Promise<Map<DeviceActionName, { connector: BaseConnector; target: DeviceActionTarget }>> {
+        const identities = await db.select().from(deviceIdentities).where(eq(deviceIdentities.deviceId, device.id));
+
+        const rank = (connector: BaseConnector) => connector.getType() === device.platformType ? 2
+            : identities.some(i => i.platformType === connector.getType()) ? 1 : 0;
+        const ordered = [...this.connectors]
+            .filter(connector => !device.platformType || rank(connector) > 0)
+            .sort((a, b) => rank(b) - rank(a));
+
+        const resolved = new Map<DeviceActionName, { connector: BaseConnector; target: DeviceActionTarget }>();
+        for (const connector of ordered) {
+            const identity = identities.find(i => i.platformType === connector.getType());
+            const platformDeviceId = identity?.platformDeviceId
+                ?? (device.platformType === connector.getType() ? device.platformDeviceId : null);
+            const target: DeviceActionTarget = {
+                platformDeviceId,
+                macAddress: identity?.macAddress || device.primaryMac || null,
+            };
+
+            for (const action of connector.getDeviceActions(target)) {
+                if (!resolved.has(action)) resolved.set(action, { connector, target });
+            }
+        }
+        return resolved;
+    }
+
+    private requestConfirmation(device: Device, action: DeviceActionName): ActionOutcome {
+        this.pruneConfirmations();
+
+        const confirmationToken = randomUUID();
+        const expiresAt = new Date(Date.now() + CONFIRMATION_TTL_MS);
+        this.confirmations.set(confirmationToken, { deviceId: device.id, action, expiresAt });
+
+        return {
+            status: 'confirmation_required',
+            action,
+            deviceId: device.id,
+            confirmationToken,
+            expiresAt,
+            message: `${ACTIONS[action].description}: repeat with this confirmation token to ${action} ${device.name}`,
+        };
+    }
+
+    private consumeConfirmation(token: string, deviceId: string, action: DeviceActionName): void {
+        const pending = this.confirmations.get(token);
+        this.confirmations.delete(token);
+
+        if (!pending || pending.expiresAt.getTime() < Date.now()) {
+            throw new DeviceActionError('Confirmation token is invalid or has expired', 'invalid_token');
+        }
+        if (pending.deviceId !== deviceId || pending.action !== action) {
+            throw new DeviceActionError('Confirmation token was issued for a different action', 'invalid_token');
+        }
+    }
+
+    private pruneConfirmations(): void {
+        const now = Date.now();
+        for (const [token, pending] of this.confirmations) {
+            if (pending.expiresAt.getTime() < now) this.confirmations.delete(token);
+        }
+    }
+}
+
+// Export singleton instance
+export const deviceActionService = new DeviceActionService();
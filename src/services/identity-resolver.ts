@@ -0,0 +1,611 @@
+/**
+ * Device Identity Resolver
+ *
+ * Finds devices that are the same physical box seen through different
+ * platforms (ZeroTier, UISP, UniFi, manual entries) and merges them into one
+ * canonical device. Each platform keeps its own row in `device_identities`.
+ *
+ * Evidence and weights (combined as 1 - Π(1 - weight)):
+ * - serial number  0.95
+ * - MAC address    0.90
+ * - hostname       0.50
+ * - IP address     0.30
+ *
+ * Metric buckets of removed devices move to the canonical device; buckets
+ * both devices have are combined.
+ *
+ * Every merge is recorded in `device_merges` with enough state to undo it.
+ * Devices split apart by an undo are never merged automatically again.
+ */
+
+import {
+    db, devices, deviceIdentities, deviceMerges, deviceNetworkLinks, generateId,
+    type Device, type DeviceMerge,
+} from '../db/index.js';
+import { desc, eq, getTableColumns, inArray, sql } from 'drizzle-orm';
+
+export interface IdentityMatch {
+    matchKey: string;
+    confidence: number;
+    reasons: string[];
+    platforms: string[];
+    devices: Device[];
+}
+
+export interface MergeResult {
+    groupsFound: number;
+    devicesMerged: number;
+    merges: Array<{
+        mergeId: string;
+        keptDeviceId: string;
+        removedDeviceIds: string[];
+        matchedOn: string;
+        confidence: number;
+    }>;
+    errors: string[];
+}
+
+export class MergeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MergeError';
+    }
+}
+
+type Evidence = 'serial' | 'mac' | 'hostname' | 'ip';
+
+const EVIDENCE_WEIGHTS: Record<Evidence, number> = {
+    serial: 0.95,
+    mac: 0.9,
+    hostname: 0.5,
+    ip: 0.3,
+};
+
+// Values shared by more devices than this (e.g. 192.168.1.1, "localhost") prove nothing
+const MAX_SHARED_VALUE = 4;
+
+export const DEFAULT_AUTO_MERGE_CONFIDENCE = 0.9;
+
+// Columns pointing at devices.id that a merge moves to the canonical device
+const DEVICE_REFERENCES = [
+    { table: 'device_network_links', column: 'device_id' },
+    { table: 'access_paths', column: 'target_device_id' },
+    { table: 'path_hops', column: 'host_device_id' },
+    { table: 'networks', column: 'provider_device_id' },
+    { table: 'chain_links', column: 'device_id' },
+    { table: 'device_links', column: 'source_device_id' },
+    { table: 'device_links', column: 'target_device_id' },
+    { table: 'network_scans', column: 'source_device_id' },
+    { table: 'discovered_devices', column: 'linked_device_id' },
+    { table: 'device_status_events', column: 'device_id' },
+];
+
+type MetricRow = NonNullable<DeviceMerge['snapshot']['metrics']>[number];
+
+// Columns of device_metrics, with the bucket time left in epoch seconds
+const METRIC_COLUMNS = sql.raw(
+    'device_id AS deviceId, metric, resolution, bucket_at AS bucketAt, avg, min, max, count'
+);
+
+// Canonical fields a merge fills in when the canonical device has no value
+const FILLABLE_FIELDS = [
+    'manufacturer', 'model', 'serialNumber', 'firmwareVersion', 'locationId', 'vehicleId',
+    'primaryIp', 'primaryMac', 'hostname', 'managementUrl', 'sshPort', 'httpPort', 'notes',
+] as const;
+
+// Device fields stored as timestamps, which a JSON snapshot turns into strings
+const TIMESTAMP_FIELDS = Object.entries(getTableColumns(devices))
+    .filter(([, column]) => column.dataType === 'date')
+    .map(([field]) => field);
+
+function normalizeMac(mac: string | null | undefined): string | null {
+    if (!mac) return null;
+    const hex = mac.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return hex.length === 12 && hex !== '000000000000' ? hex : null;
+}
+
+function normalizeSerial(serial: string | null | undefined): string | null {
+    const value = serial?.trim().toUpperCase();
+    return value ? value : null;
+}
+
+function normalizeHostname(hostname: string | null | undefined): string | null {
+    const value = hostname?.trim().toLowerCase().split('.')[0];
+    return value && value !== 'localhost' ? value : null;
+}
+
+function combine(evidence: Iterable<Evidence>): number {
+    let miss = 1;
+    for (const kind of new Set(evidence)) {
+        miss *= 1 - EVIDENCE_WEIGHTS[kind];
+    }
+    return Math.round((1 - miss) * 100) / 100;
+}
+
+function pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Turn a JSON snapshot of a device row back into insertable values
+ */
+function reviveDevice(row: Record<string, unknown>): Device {
+    const revived: Record<string, unknown> = { ...row };
+    for (const field of TIMESTAMP_FIELDS) {
+        if (revived[field] !== null && revived[field] !== undefined) {
+            revived[field] = new Date(revived[field] as string);
+        }
+    }
+    return revived as Device;
+}
+
+interface DeviceEvidence {
+    device: Device;
+    platforms: Set<string>;
+    values: Record<Evidence, Set<string>>;
+}
+
+export class IdentityResolver {
+    /**
+     * Find groups of devices on different platforms that look like the same device
+     */
+    async findMatches(minConfidence = 0.5): Promise<IdentityMatch[]> {
+        const evidence = await this.collectEvidence();
+        const pairs = await this.scorePairs(evidence);
+
+        // Union-find over pairs above the threshold
+        const parent = new Map<string, string>();
+        const find = (id: string): string => {
+            let root = id;
+            while (parent.get(root) && parent.get(root) !== root) root = parent.get(root)!;
+            parent.set(id, root);
+            return root;
+        };
+
+        // Strongest pairs first; never join two groups that share a platform
+        const groupPlatforms = new Map<string, Set<string>>();
+        const platformsOf = (root: string) => groupPlatforms.get(root) || evidence.get(root)!.platforms;
+
+        const accepted = [...pairs.values()]
+            .filter(p => p.confidence >= minConfidence)
+            .sort((x, y) => y.confidence - x.confidence)
+            .filter(pair => {
+                const ra = find(pair.a);
+                const rb = find(pair.b);
+                if (ra === rb) return true;
+                const pa = platformsOf(ra);
+                const pb = platformsOf(rb);
+                if ([...pa].some(p => pb.has(p))) return false;
+                parent.set(ra, rb);
+                groupPlatforms.set(rb, new Set([...pa, ...pb]));
+                return true;
+            });
+
+        const groups = new Map<string, typeof accepted>();
+        for (const pair of accepted) {
+            const root = find(pair.a);
+            groups.set(root, [...(groups.get(root) || []), pair]);
+        }
+
+        const matches: IdentityMatch[] = [];
+        for (const groupPairs of groups.values()) {
+            const ids = new Set(groupPairs.flatMap(p => [p.a, p.b]));
+            const members = [...ids].map(id => evidence.get(id)!);
+            const strongest = [...groupPairs].sort((x, y) => y.confidence - x.confidence)[0];
+
+            matches.push({
+                matchKey: strongest.reasons[0],
+                confidence: Math.min(...groupPairs.map(p => p.confidence)),
+                reasons: [...new Set(groupPairs.flatMap(p => p.reasons))],
+                platforms: [...new Set(members.flatMap(m => [...m.platforms]))],
+                devices: members.map(m => m.device),
+            });
+        }
+
+        return matches.sort((a, b) => b.confidence - a.confidence);
+    }
+
+    /**
+     * Merge every match at or above the confidence threshold
+     */
+    async mergeMatches(minConfidence = DEFAULT_AUTO_MERGE_CONFIDENCE): Promise<MergeResult> {
+        const result: MergeResult = { groupsFound: 0, devicesMerged: 0, merges: [], errors: [] };
+        const matches = await this.findMatches(minConfidence);
+        result.groupsFound = matches.length;
+
+        for (const match of matches) {
+            try {
+                const merge = await this.mergeDevices(match.devices.map(d => d.id), {
+                    confidence: match.confidence,
+                    reasons: match.reasons,
+                    trigger: 'auto',
+                });
+                result.devicesMerged += merge.mergedDeviceIds.length;
+                result.merges.push({
+                    mergeId: merge.id,
+                    keptDeviceId: merge.canonicalDeviceId,
+                    removedDeviceIds: merge.mergedDeviceIds,
+                    matchedOn: match.matchKey,
+                    confidence: match.confidence,
+                });
+            } catch (error) {
+                result.errors.push(`Merge ${match.matchKey}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Merge the given devices into the oldest of them. Without an explicit
+     * confidence, the evidence between the devices is scored.
+     */
+    async mergeDevices(
+        deviceIds: string[],
+        options: { confidence?: number; reasons?: string[]; trigger?: 'auto' | 'manual' } = {}
+    ): Promise<DeviceMerge> {
+        const ids = [...new Set(deviceIds)];
+        if (ids.length < 2) {
+            throw new MergeError('At least two devices are needed for a merge');
+        }
+
+        const rows = await db.select().from(devices).where(inArray(devices.id, ids));
+        if (rows.length !== ids.length) {
+            const found = new Set(rows.map(r => r.id));
+            throw new MergeError(`Device(s) not found: ${ids.filter(id => !found.has(id)).join(', ')}`);
+        }
+
+        let { confidence, reasons } = options;
+        if (confidence === undefined) {
+            const evidence = await this.collectEvidence(ids);
+            const pairs = [...(await this.scorePairs(evidence, false)).values()];
+            confidence = pairs.length > 0 ? Math.max(...pairs.map(p => p.confidence)) : 0;
+            reasons = reasons ?? [...new Set(pairs.flatMap(p => p.reasons))];
+        }
+
+        for (const row of rows) {
+            await this.ensureIdentity(row);
+        }
+
+        const [canonical, ...removed] = rows.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const mergeId = generateId();
+        const now = new Date();
+
+        const filled: Record<string, unknown> = {};
+        for (const field of FILLABLE_FIELDS) {
+            if (canonical[field] !== null && canonical[field] !== undefined) continue;
+            const donor = removed.find(d => d[field] !== null && d[field] !== undefined);
+            if (donor) filled[field] = donor[field];
+        }
+        const tags = [...new Set([...(canonical.tags || []), ...removed.flatMap(d => d.tags || [])])];
+
+        const snapshot: DeviceMerge['snapshot'] = {
+            canonical: { ...canonical },
+            filled,
+            removed: removed.map(d => ({ ...d })),
+            identities: [],
+            references: [],
+            metrics: [],
+        };
+
+        db.transaction((tx) => {
+            // Canonical buckets a removed device also has, as they were before being combined
+            snapshot.metrics!.push(...tx.all<MetricRow>(sql`
+                SELECT ${METRIC_COLUMNS} FROM device_metrics AS c
+                WHERE c.device_id = ${canonical.id} AND EXISTS (
+                    SELECT 1 FROM device_metrics AS d
+                    WHERE d.device_id IN ${removed.map(d => d.id)}
+                        AND d.metric = c.metric AND d.resolution = c.resolution AND d.bucket_at = c.bucket_at
+                )
+            `));
+
+            for (const dup of removed) {
+                const identities = tx.select().from(deviceIdentities)
+                    .where(eq(deviceIdentities.deviceId, dup.id)).all();
+                for (const identity of identities) {
+                    snapshot.identities.push({ id: identity.id, deviceId: dup.id });
+                }
+                tx.update(deviceIdentities)
+                    .set({ deviceId: canonical.id, mergeId, updatedAt: now })
+                    .where(eq(deviceIdentities.deviceId, dup.id))
+                    .run();
+
+                for (const ref of DEVICE_REFERENCES) {
+                    const refRows = tx.all<{ id: string }>(
+                        sql`SELECT id FROM ${sql.identifier(ref.table)} WHERE ${sql.identifier(ref.column)} = ${dup.id}`
+                    );
+                    for (const row of refRows) {
+                        snapshot.references.push({ table: ref.table, column: ref.column, id: row.id, deviceId: dup.id });
+                    }
+                    tx.run(
+                        sql`UPDATE ${sql.identifier(ref.table)} SET ${sql.identifier(ref.column)} = ${canonical.id} WHERE ${sql.identifier(ref.column)} = ${dup.id}`
+                    );
+                }
+
+                snapshot.metrics!.push(...tx.all<MetricRow>(
+                    sql`SELECT ${METRIC_COLUMNS} FROM device_metrics WHERE device_id = ${dup.id}`
+                ));
+                tx.run(sql`
+                    INSERT INTO device_metrics (device_id, metric, resolution, bucket_at, avg, min, max, count)
+                    SELECT ${canonical.id}, metric, resolution, bucket_at, avg, min, max, count
+                    FROM device_metrics WHERE device_id = ${dup.id}
+                    ON CONFLICT (device_id, metric, resolution, bucket_at) DO UPDATE SET
+                        avg = (avg * count + excluded.avg * excluded.count) / (count + excluded.count),
+                        min = min(min, excluded.min),
+                        max = max(max, excluded.max),
+                        count = count + excluded.count
+                `);
+
+                // Cascades to the device's remaining metric buckets
+                tx.delete(devices).where(eq(devices.id, dup.id)).run();
+            }
+
+            tx.update(devices)
+                .set({ ...filled, tags: tags.length > 0 ? tags : canonical.tags, updatedAt: now })
+                .where(eq(devices.id, canonical.id))
+                .run();
+
+            tx.insert(deviceMerges).values({
+                id: mergeId,
+                canonicalDeviceId: canonical.id,
+                mergedDeviceIds: removed.map(d => d.id),
+                confidence,
+                reasons: reasons || [],
+                trigger: options.trigger || 'manual',
+                status: 'applied',
+                snapshot,
+                createdAt: now,
+            }).run();
+        });
+
+        console.log(`[Identity] Merged ${removed.length} device(s) into ${canonical.name} (${canonical.id})`);
+
+        const [merge] = await db.select().from(deviceMerges).where(eq(deviceMerges.id, mergeId));
+        return merge;
+    }
+
+    /**
+     * Split a merge back into the original devices
+     */
+    async undoMerge(mergeId: string): Promise<DeviceMerge> {
+        const merge = await this.getMerge(mergeId);
+        if (!merge) {
+            throw new MergeError(`Merge ${mergeId} not found`);
+        }
+        if (merge.status === 'undone') {
+            throw new MergeError(`Merge ${mergeId} was already undone`);
+        }
+
+        const [canonical] = await db.select().from(devices).where(eq(devices.id, merge.canonicalDeviceId));
+        if (!canonical) {
+            throw new MergeError(
+                `Canonical device ${merge.canonicalDeviceId} no longer exists; undo the merge or delete that removed it first`
+            );
+        }
+
+        const { snapshot } = merge;
+        const now = new Date();
+
+        // Only revert fields the merge filled in and nothing has changed since
+        const revert: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(snapshot.filled)) {
+            if ((canonical as Record<string, unknown>)[field] === value) {
+                revert[field] = snapshot.canonical[field] ?? null;
+            }
+        }
+
+        db.transaction((tx) => {
+            for (const row of snapshot.removed) {
+                tx.insert(devices).values(reviveDevice(row)).run();
+            }
+
+            // Split combined buckets back into the buckets of each device
+            for (const row of snapshot.metrics ?? []) {
+                tx.run(sql`
+                    DELETE FROM device_metrics WHERE device_id = ${canonical.id}
+                        AND metric = ${row.metric} AND resolution = ${row.resolution} AND bucket_at = ${row.bucketAt}
+                `);
+            }
+            for (const row of snapshot.metrics ?? []) {
+                tx.run(sql`
+                    INSERT INTO device_metrics (device_id, metric, resolution, bucket_at, avg, min, max, count)
+                    VALUES (${row.deviceId}, ${row.metric}, ${row.resolution}, ${row.bucketAt}, ${row.avg}, ${row.min}, ${row.max}, ${row.count})
+                `);
+            }
+
+            for (const identity of snapshot.identities) {
+                tx.update(deviceIdentities)
+                    .set({ deviceId: identity.deviceId, mergeId: null, updatedAt: now })
+                    .where(eq(deviceIdentities.id, identity.id))
+                    .run();
+            }
+
+            for (const ref of snapshot.references) {
+                tx.run(
+                    sql`UPDATE ${sql.identifier(ref.table)} SET ${sql.identifier(ref.column)} = ${ref.deviceId} WHERE id = ${ref.id}`
+                );
+            }
+
+            tx.update(devices)
+                .set({ ...revert, tags: (snapshot.canonical.tags as string[] | null) ?? null, updatedAt: now })
+                .where(eq(devices.id, canonical.id))
+                .run();
+
+            tx.update(deviceMerges)
+                .set({ status: 'undone', undoneAt: now })
+                .where(eq(deviceMerges.id, mergeId))
+                .run();
+        });
+
+        console.log(`[Identity] Undid merge ${mergeId}: restored ${snapshot.removed.length} device(s)`);
+
+        return (await this.getMerge(mergeId))!;
+    }
+
+    async getMerge(mergeId: string): Promise<DeviceMerge | null> {
+        const [merge] = await db.select().from(deviceMerges).where(eq(deviceMerges.id, mergeId));
+        return merge || null;
+    }
+
+    /**
+     * Get recorded merges, newest first
+     */
+    async listMerges(limit = 50): Promise<DeviceMerge[]> {
+        return db.select().from(deviceMerges)
+            .orderBy(desc(deviceMerges.createdAt))
+            .limit(limit);
+    }
+
+    /**
+     * Get the per-platform identities of a device
+     */
+    async getIdentities(deviceId: string) {
+        return db.select().from(deviceIdentities).where(eq(deviceIdentities.deviceId, deviceId));
+    }
+
+    // ============================================
+    // Internals
+    // ============================================
+
+    /**
+     * Devices synced before identities existed have no identity row yet
+     */
+    private async ensureIdentity(device: Device): Promise<void> {
+        if (!device.platformType || !device.platformDeviceId) return;
+
+        const now = new Date();
+        await db.insert(deviceIdentities).values({
+            id: generateId(),
+            deviceId: device.id,
+            platformType: device.platformType,
+            platformDeviceId: device.platformDeviceId,
+            name: device.name,
+            macAddress: device.primaryMac,
+            serialNumber: device.serialNumber,
+            hostname: device.hostname,
+            ipAddress: device.primaryIp,
+            status: device.status === 'retired' ? 'unknown' : device.status,
+            lastSeen: device.lastSeen,
+            createdAt: now,
+            updatedAt: now,
+        }).onConflictDoNothing();
+    }
+
+    private async collectEvidence(deviceIds?: string[]): Promise<Map<string, DeviceEvidence>> {
+        const allDevices = deviceIds
+            ? await db.select().from(devices).where(inArray(devices.id, deviceIds))
+            : await db.select().from(devices);
+        const identities = await db.select().from(deviceIdentities);
+        const links = await db.select().from(deviceNetworkLinks);
+
+        const result = new Map<string, DeviceEvidence>();
+        for (const device of allDevices) {
+            result.set(device.id, {
+                device,
+                platforms: new Set([device.platformType || 'manual']),
+                values: { serial: new Set(), mac: new Set(), hostname: new Set(), ip: new Set() },
+            });
+        }
+
+        const add = (deviceId: string, kind: Evidence, value: string | null) => {
+            if (value) result.get(deviceId)?.values[kind].add(value);
+        };
+
+        for (const { device } of result.values()) {
+            add(device.id, 'serial', normalizeSerial(device.serialNumber));
+            add(device.id, 'mac', normalizeMac(device.primaryMac));
+            add(device.id, 'hostname', normalizeHostname(device.hostname));
+            add(device.id, 'ip', device.primaryIp || null);
+        }
+        for (const identity of identities) {
+            const entry = result.get(identity.deviceId);
+            if (!entry) continue;
+            entry.platforms.add(identity.platformType);
+            add(identity.deviceId, 'serial', normalizeSerial(identity.serialNumber));
+            add(identity.deviceId, 'mac', normalizeMac(identity.macAddress));
+            add(identity.deviceId, 'hostname', normalizeHostname(identity.hostname));
+            add(identity.deviceId, 'ip', identity.ipAddress || null);
+        }
+        for (const link of links) {
+            add(link.deviceId, 'mac', normalizeMac(link.macAddress));
+            add(link.deviceId, 'ip', link.ipAddress || null);
+        }
+
+        return result;
+    }
+
+    /**
+     * Score every pair of devices sharing at least one identifying value
+     */
+    private async scorePairs(
+        evidence: Map<string, DeviceEvidence>,
+        crossPlatformOnly = true
+    ): Promise<Map<string, { a: string; b: string; confidence: number; reasons: string[] }>> {
+        const buckets = new Map<string, string[]>();
+        for (const [id, entry] of evidence) {
+            for (const kind of Object.keys(entry.values) as Evidence[]) {
+                for (const value of entry.values[kind]) {
+                    const key = `${kind}:${value}`;
+                    buckets.set(key, [...(buckets.get(key) || []), id]);
+                }
+            }
+        }
+
+        const rejected = crossPlatformOnly ? await this.loadRejectedPairs() : new Set<string>();
+        const found = new Map<string, { a: string; b: string; kinds: Evidence[]; reasons: string[] }>();
+
+        for (const [key, ids] of buckets) {
+            if (ids.length < 2 || ids.length > MAX_SHARED_VALUE) continue;
+            const kind = key.split(':')[0] as Evidence;
+
+            for (let i = 0; i < ids.length; i++) {
+                for (let j = i + 1; j < ids.length; j++) {
+                    const a = evidence.get(ids[i])!;
+                    const b = evidence.get(ids[j])!;
+                    const pk = pairKey(ids[i], ids[j]);
+
+                    if (crossPlatformOnly) {
+                        // Two rows from the same platform are two devices as far as that platform knows
+                        if ([...a.platforms].some(p => b.platforms.has(p))) continue;
+                        if (rejected.has(pk)) continue;
+                    }
+
+                    const pair = found.get(pk) || { a: ids[i], b: ids[j], kinds: [], reasons: [] };
+                    pair.kinds.push(kind);
+                    pair.reasons.push(key);
+                    found.set(pk, pair);
+                }
+            }
+        }
+
+        const scored = new Map<string, { a: string; b: string; confidence: number; reasons: string[] }>();
+        for (const [key, pair] of found) {
+            // Strongest evidence first so it becomes the match key
+            const reasons = [...pair.reasons].sort((x, y) =>
+                EVIDENCE_WEIGHTS[y.split(':')[0] as Evidence] - EVIDENCE_WEIGHTS[x.split(':')[0] as Evidence]
+            );
+            scored.set(key, { a: pair.a, b: pair.b, confidence: combine(pair.kinds), reasons });
+        }
+        return scored;
+    }
+
+    /**
+     * Device pairs split apart by an undo; these are never merged automatically again
+     */
+    private async loadRejectedPairs(): Promise<Set<string>> {
+        const undone = await db.select().from(deviceMerges).where(eq(deviceMerges.status, 'undone'));
+        const rejected = new Set<string>();
+        for (const merge of undone) {
+            const ids = [merge.canonicalDeviceId, ...merge.mergedDeviceIds];
+            for (let i = 0; i < ids.length; i++) {
+                for (let j = i + 1; j < ids.length; j++) {
+                    rejected.add(pairKey(ids[i], ids[j]));
+                }
+            }
+        }
+        return rejected;
+    }
+}
+
+// Export singleton instance
+export const identityResolver = new IdentityResolver();
@@ -0,0 +1,432 @@
+/**
+ * MAC Vendor Service
+ *
+ * Vendor lookups for MAC addresses from the IEEE registries (MA-L 24-bit,
+ * MA-M 28-bit, MA-S and IAB 36-bit prefixes), imported from the CSV files
+ * IEEE publishes. The longest matching prefix wins. A small built-in list
+ * covers common vendors until the registries are imported.
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { and, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+import { db, devices, macVendors, type Device, type MacVendor } from '../db/index.js';
+
+// Common vendors, used when the IEEE registries have no match (or aren't imported)
+const BUILTIN_VENDORS: Record<string, string> = {
+    '00:50:56': 'VMware',
+    '00:0C:29': 'VMware',
+    '00:1C:42': 'Parallels',
+    '00:16:3E': 'Xen',
+    'AC:DE:48': 'Private',
+    '00:1A:79': 'Ubiquiti',
+    '00:27:22': 'Ubiquiti',
+    '24:5A:4C': 'Ubiquiti',
+    '78:8A:20': 'Ubiquiti',
+    'DC:9F:DB': 'Ubiquiti',
+    'E0:63:DA': 'Ubiquiti',
+    'F0:9F:C2': 'Ubiquiti',
+    '18:E8:29': 'Ubiquiti',
+    '80:2A:A8': 'Ubiquiti',
+    '74:83:C2': 'Ubiquiti',
+    'B4:FB:E4': 'Ubiquiti',
+    '44:D9:E7': 'Ubiquiti',
+    '60:22:32': 'Ubiquiti',
+    '68:D7:9A': 'Ubiquiti',
+    '78:45:58': 'Ubiquiti',
+    'AC:8B:A9': 'Ubiquiti',
+    'D0:21:F9': 'Synology',
+    '00:11:32': 'Synology',
+    '00:1E:C9': 'Dell',
+    '00:14:22': 'Dell',
+    '00:21:9B': 'Dell',
+    '14:FE:B5': 'Dell',
+    '00:0D:3A': 'Microsoft',
+    '00:15:5D': 'Microsoft Hyper-V',
+    '00:17:F2': 'Apple',
+    '00:1C:B3': 'Apple',
+    '00:1D:4F': 'Apple',
+    '00:21:E9': 'Apple',
+    '00:23:12': 'Apple',
+    '00:25:00': 'Apple',
+    '00:26:08': 'Apple',
+    '28:E0:2C': 'Apple',
+    '3C:D0:F8': 'Apple',
+    '40:6C:8F': 'Apple',
+    '48:60:BC': 'Apple',
+    '50:BC:96': 'Apple',
+    '54:26:96': 'Apple',
+    '60:03:08': 'Apple',
+    '64:A3:CB': 'Apple',
+    '68:5B:35': 'Apple',
+    '70:56:81': 'Apple',
+    '78:4F:43': 'Apple',
+    '80:E6:50': 'Apple',
+    '84:38:35': 'Apple',
+    '88:66:A5': 'Apple',
+    '8C:85:90': 'Apple',
+    '9C:20:7B': 'Apple',
+    'A4:83:E7': 'Apple',
+    'A8:88:08': 'Apple',
+    'AC:87:A3': 'Apple',
+    'B8:17:C2': 'Apple',
+    'B8:E8:56': 'Apple',
+    'BC:54:36': 'Apple',
+    'C8:69:CD': 'Apple',
+    'D4:61:9D': 'Apple',
+    'D8:30:62': 'Apple',
+    'DC:A4:CA': 'Apple',
+    'E0:B5:2D': 'Apple',
+    'E4:25:E7': 'Apple',
+    'F0:99:BF': 'Apple',
+    'F4:5C:89': 'Apple',
+    'F8:1E:DF': 'Apple',
+    '00:1E:58': 'D-Link',
+    '00:05:5D': 'D-Link',
+    '00:0F:3D': 'D-Link',
+    '00:13:46': 'D-Link',
+    '00:17:9A': 'D-Link',
+    '00:1B:11': 'D-Link',
+    '00:40:05': 'Ani Communications',
+    '00:E0:4C': 'Realtek',
+    '00:00:00': 'Xerox',
+    '08:00:20': 'Sun',
+    '08:00:27': 'VirtualBox',
+    '52:54:00': 'QEMU/KVM',
+    'B8:27:EB': 'Raspberry Pi',
+    'DC:A6:32': 'Raspberry Pi',
+    'E4:5F:01': 'Raspberry Pi',
+    '28:CD:C1': 'Raspberry Pi',
+    '00:04:4B': 'Nvidia',
+    '00:24:8C': 'Nvidia',
+    '2C:26:17': 'Oculus',
+    '00:09:0F': 'Fortinet',
+    '00:60:6E': 'Davicom',
+    '08:00:2B': 'DEC',
+    'B0:5A:DA': 'TP-Link',
+    '14:CC:20': 'TP-Link',
+    '60:E3:27': 'TP-Link',
+    'AC:84:C6': 'TP-Link',
+    'C0:25:E9': 'TP-Link',
+    'E8:94:F6': 'TP-Link',
+    'F4:F2:6D': 'TP-Link',
+    '00:1F:33': 'Netgear',
+    '00:1E:2A': 'Netgear',
+    '00:22:3F': 'Netgear',
+    '00:24:B2': 'Netgear',
+    '00:26:F2': 'Netgear',
+    '2C:B0:5D': 'Netgear',
+    '84:1B:5E': 'Netgear',
+    'A4:2B:8C': 'Netgear',
+    'C0:FF:D4': 'Netgear',
+    'E0:91:F5': 'Netgear',
+    '30:46:9C': 'Netgear',
+    '00:18:4D': 'Netgear',
+    '00:0F:B5': 'Netgear',
+    '00:09:5B': 'Netgear',
+    '00:14:6C': 'Netgear',
+    '00:1B:2F': 'Netgear',
+    '18:31:BF': 'Starlink',
+    '66:48:E6': 'Starlink',
+    '98:25:4A': 'Starlink',
+    'E4:F0:42': 'Google',
+    '94:EB:2C': 'Google',
+    'F4:F5:D8': 'Google',
+    '00:1A:11': 'Google',
+    '54:60:09': 'Google Nest',
+    'F8:0F:F9': 'Google Nest',
+    '18:D6:C7': 'Google Nest',
+    '1C:F2:9A': 'Google Nest',
+    '54:C8:0F': 'TP-Link',
+    'B0:A7:B9': 'TP-Link',
+    '30:D3:2D': 'TP-Link',
+    '74:DA:38': 'TP-Link',
+    '3C:52:82': 'Hewlett Packard',
+    '00:0A:57': 'Hewlett Packard',
+    '00:1E:0B': 'Hewlett Packard',
+    '2C:44:FD': 'Hewlett Packard',
+    '3C:D9:2B': 'Hewlett Packard',
+    '48:0F:CF': 'Hewlett Packard',
+    '68:B5:99': 'Hewlett Packard',
+    'A0:2B:B8': 'Hewlett Packard',
+    'A4:5D:36': 'Hewlett Packard',
+    'B4:B5:2F': 'Hewlett Packard',
+    'C8:CB:B8': 'Hewlett Packard',
+    'E4:11:5B': 'Hewlett Packard',
+    'F4:39:09': 'Hewlett Packard',
+    '00:50:C2': 'IEEE Registration Auth',
+    'CE:8C:0E': 'QNAP',
+    '00:08:9B': 'QNAP',
+    '24:5E:BE': 'QNAP',
+};
+
+// Assignment length in hex digits -> prefix size in bits
+const PREFIX_BITS: Record<number, number> = { 6: 24, 7: 28, 9: 36 };
+
+const REGISTRIES = new Set<MacVendor['registry']>(['MA-L', 'MA-M', 'MA-S', 'IAB']);
+
+// Legal-form suffixes dropped from organization names for the short name
+const LEGAL_SUFFIX = /[\s,.]+(inc|incorporated|corp|corporation|co|company|ltd|limited|llc|l\.l\.c|gmbh|ag|sa|s\.a|srl|s\.r\.l|bv|b\.v|nv|oy|ab|as|a\/s|plc|pty|kg|spa|s\.p\.a|sas|kk|k\.k)\.?$/i;
+
+export class MacVendorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MacVendorError';
+    }
+}
+
+export interface MacLookup {
+    mac: string; // Normalized, e.g. "00:1A:2B:3C:4D:5E"
+    vendor: string | null;
+    vendorFull: string | null;
+    prefix: string | null;
+    prefixBits: number | null;
+    source: 'ieee' | 'builtin' | null;
+    /** The U/L bit is set: the address was not assigned by the manufacturer */
+    locallyAdministered: boolean;
+    multicast: boolean;
+    /** Locally administered unicast with no known vendor: most likely a private (randomized) address */
+    randomized: boolean;
+}
+
+export interface OuiImportResult {
+    files: { path: string; rows: number }[];
+    imported: number;
+    skipped: number;
+    byRegistry: Partial<Record<MacVendor['registry'], number>>;
+}
+
+/**
+ * The 12 hex digits of a MAC address, upper case; null when it isn't one
+ */
+function macHex(mac: string): string | null {
+    const hex = mac.trim().toUpperCase().replace(/[^0-9A-F]/g, '');
+    return hex.length === 12 ? hex : null;
+}
+
+/**
+ * "70B3D51" -> "70:B3:D5:1"
+ */
+function formatPrefix(hex: string): string {
+    return hex.match(/.{1,2}/g)!.join(':');
+}
+
+/**
+ * "Ubiquiti Networks Inc." -> "Ubiquiti Networks"
+ */
+export function shortVendorName(organization: string): string {
+    let name = organization.replace(/\s+/g, ' ').trim();
+    for (let previous = ''; previous !== name;) {
+        previous = name;
+        name = name.replace(LEGAL_SUFFIX, '').replace(/[\s,.]+$/, '');
+    }
+    return name || organization.trim();
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with commas, doubled
+ * quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f.trim()));
+}
+
+export class MacVendorService {
+    /**
+     * Vendor and address properties of a MAC address
+     */
+    async lookup(mac: string): Promise<MacLookup> {
+        const hex = macHex(mac);
+        if (!hex) throw new MacVendorError(`Invalid MAC address: ${mac}`);
+
+        const firstOctet = parseInt(hex.slice(0, 2), 16);
+        const result: MacLookup = {
+            mac: formatPrefix(hex),
+            vendor: null,
+            vendorFull: null,
+            prefix: null,
+            prefixBits: null,
+            source: null,
+            locallyAdministered: (firstOctet & 0x02) !== 0,
+            multicast: (firstOctet & 0x01) !== 0,
+            randomized: false,
+        };
+
+        const candidates = [9, 7, 6].map(length => formatPrefix(hex.slice(0, length)));
+        const matches = await db.select().from(macVendors).where(inArray(macVendors.id, candidates));
+        const best = matches.sort((a, b) => b.prefixBits - a.prefixBits)[0];
+
+        if (best) {
+            Object.assign(result, {
+                vendor: best.vendorShort,
+                vendorFull: best.vendorFull,
+                prefix: best.id,
+                prefixBits: best.prefixBits,
+                source: 'ieee',
+            });
+        } else if (BUILTIN_VENDORS[candidates[2]]) {
+            Object.assign(result, {
+                vendor: BUILTIN_VENDORS[candidates[2]],
+                prefix: candidates[2],
+                prefixBits: 24,
+                source: 'builtin',
+            });
+        }
+
+        result.randomized = result.locallyAdministered && !result.multicast && !result.source;
+        return result;
+    }
+
+    /**
+     * Short vendor name, or undefined for unknown and invalid addresses
+     */
+    async vendorOf(mac: string | null | undefined): Promise<string | undefined> {
+        if (!mac || !macHex(mac)) return undefined;
+        return (await this.lookup(mac)).vendor ?? undefined;
+    }
+
+    /**
+     * Import IEEE registry CSVs (oui.csv, mam.csv, oui36.csv, iab.csv).
+     * A directory imports every .csv file in it. Existing prefixes are updated.
+     */
+    async importFiles(paths: string[]): Promise<OuiImportResult> {
+        const files: string[] = [];
+        for (const path of paths) {
+            const info = await stat(path).catch(() => null);
+            if (!info) throw new MacVendorError(`No such file or directory: ${path}`);
+            if (info.isDirectory()) {
+                const entries = (await readdir(path)).filter(name => name.toLowerCase().endsWith('.csv')).sort();
+                files.push(...entries.map(name => join(path, name)));
+            } else {
+                files.push(path);
+            }
+        }
+        if (files.length === 0) throw new MacVendorError('No CSV files to import');
+
+        const result: OuiImportResult = { files: [], imported: 0, skipped: 0, byRegistry: {} };
+        for (const file of files) {
+            const rows = parseCsv(await readFile(file, 'utf-8'));
+            const header = rows.shift()?.map(h => h.trim().toLowerCase()) ?? [];
+            const column = (name: string) => header.indexOf(name);
+            const [registryCol, assignmentCol, nameCol, addressCol] =
+                ['registry', 'assignment', 'organization name', 'organization address'].map(column);
+            if (registryCol < 0 || assignmentCol < 0 || nameCol < 0) {
+                throw new MacVendorError(`${file} is not an IEEE registry CSV (expected Registry, Assignment, Organization Name columns)`);
+            }
+
+            const entries: MacVendor[] = [];
+            for (const row of rows) {
+                const registry = row[registryCol]?.trim() as MacVendor['registry'];
+                const assignment = row[assignmentCol]?.trim().toUpperCase() ?? '';
+                const organization = row[nameCol]?.trim() ?? '';
+                const prefixBits = PREFIX_BITS[assignment.length];
+
+                if (!REGISTRIES.has(registry) || !prefixBits || !/^[0-9A-F]+$/.test(assignment) || !organization) {
+                    result.skipped++;
+                    continue;
+                }
+
+                entries.push({
+                    id: formatPrefix(assignment),
+                    prefixBits,
+                    registry,
+                    vendorShort: shortVendorName(organization),
+                    vendorFull: organization,
+                    address: addressCol >= 0 ? row[addressCol]?.replace(/\s+/g, ' ').trim() || null : null,
+                    createdAt: new Date(),
+                });
+                result.byRegistry[registry] = (result.byRegistry[registry] ?? 0) + 1;
+            }
+
+            db.transaction((tx) => {
+                for (const entry of entries) {
+                    tx.insert(macVendors).values(entry).onConflictDoUpdate({
+                        target: macVendors.id,
+                        set: {
+                            prefixBits: entry.prefixBits,
+                            registry: entry.registry,
+                            vendorShort: entry.vendorShort,
+                            vendorFull: entry.vendorFull,
+                            address: entry.address,
+                        },
+                    }).run();
+                }
+            });
+
+            result.files.push({ path: file, rows: entries.length });
+            result.imported += entries.length;
+        }
+        return result;
+    }
+
+    /**
+     * Imported prefixes per registry
+     */
+    async stats(): Promise<Partial<Record<MacVendor['registry'], number>>> {
+        const rows = await db.select({ registry: macVendors.registry, count: sql<number>`count(*)` })
+            .from(macVendors)
+            .groupBy(macVendors.registry);
+        return Object.fromEntries(rows.map(r => [r.registry, r.count]));
+    }
+
+    /**
+     * Set the manufacturer of a platform's devices that have a MAC address
+     * but no manufacturer. Returns how many were filled in.
+     */
+    async fillManufacturers(platform: string): Promise<number> {
+        const rows = await db.select({ id: devices.id, primaryMac: devices.primaryMac })
+            .from(devices)
+            .where(and(
+                eq(devices.platformType, platform as NonNullable<Device['platformType']>),
+                isNull(devices.manufacturer),
+                isNotNull(devices.primaryMac)
+            ));
+
+        let filled = 0;
+        for (const device of rows) {
+            const vendor = await this.vendorOf(device.primaryMac);
+            if (!vendor) continue;
+            await db.update(devices).set({ manufacturer: vendor }).where(eq(devices.id, device.id));
+            filled++;
+        }
+        return filled;
+    }
+}
+
+// Export singleton instance
+export const macVendorService = new MacVendorService();
@@ -0,0 +1,330 @@
+/**
+ * Device Metrics
+ *
+ * Keeps the telemetry connectors put in device metadata (CPU, memory, load,
+ * throughput, signal, ...) as time series instead of overwriting it on
+ * every sync:
+ * - Each sync adds one sample per metric to a raw, an hourly and a daily bucket
+ * - Raw samples are kept for two days, hourly buckets for 30 days and
+ *   daily buckets for a year
+ * - Queries read the finest resolution that still covers the range and
+ *   re-bucket it to the requested step, raised to the bucket size if finer
+ */
+
+import { and, asc, eq, gte, inArray, lt, lte, sql } from 'drizzle-orm';
+import { db, devices, deviceMetrics, type Device, type DeviceMetric } from '../db/index.js';
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+/**
+ * Metrics recorded, and the metadata keys each platform reports them under
+ */
+export const METRICS: Record<string, { unit: string; description: string; keys: string[] }> = {
+    cpu_pct: { unit: '%', description: 'CPU utilization', keys: ['cpuUtilizationPct', 'cpu'] },
+    memory_pct: { unit: '%', description: 'Memory utilization', keys: ['memoryUtilizationPct', 'ram'] },
+    load_1m: { unit: '', description: 'Load average (1 min)', keys: ['loadAverage1Min'] },
+    load_5m: { unit: '', description: 'Load average (5 min)', keys: ['loadAverage5Min'] },
+    load_15m: { unit: '', description: 'Load average (15 min)', keys: ['loadAverage15Min'] },
+    uplink_tx_bps: { unit: 'bps', description: 'Uplink transmit rate', keys: ['uplinkTxBps', 'uplinkThroughputBps'] },
+    uplink_rx_bps: { unit: 'bps', description: 'Uplink receive rate', keys: ['uplinkRxBps', 'downlinkThroughputBps'] },
+    clients: { unit: '', description: 'Connected clients', keys: ['clientCount'] },
+    signal_dbm: { unit: 'dBm', description: 'Wireless signal', keys: ['signal'] },
+    latency_ms: { unit: 'ms', description: 'Latency to the point of presence', keys: ['popPingLatencyMs'] },
+    packet_loss: { unit: 'ratio', description: 'Ping drop rate', keys: ['popPingDropRate'] },
+    obstruction: { unit: 'ratio', description: 'Fraction of sky obstructed', keys: ['obstructionFraction'] },
+    battery_pct: { unit: '%', description: 'Battery level', keys: ['batteryPercentage'] },
+};
+
+/**
+ * Bucket size (seconds) and how long buckets of that size are kept
+ */
+const RESOLUTIONS = [
+    { seconds: 0, retentionMs: 2 * DAY * 1000 },
+    { seconds: HOUR, retentionMs: 30 * DAY * 1000 },
+    { seconds: DAY, retentionMs: 365 * DAY * 1000 },
+];
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class MetricsError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'invalid' = 'invalid') {
+        super(message);
+        this.name = 'MetricsError';
+    }
+}
+
+export interface MetricsQuery {
+    deviceId: string;
+    /** Metric names (all recorded metrics when omitted) */
+    metrics?: string[];
+    from?: Date;
+    to?: Date;
+    /** Step between points, in seconds */
+    stepSeconds?: number;
+}
+
+export interface MetricPoint {
+    t: Date;
+    avg: number;
+    min: number;
+    max: number;
+    count: number;
+}
+
+export interface MetricSeries {
+    metric: string;
+    unit: string;
+    description: string;
+    /** Bucket size the points were built from, in seconds (0 = raw samples) */
+    resolution: number;
+    summary: { avg: number; min: number; max: number; count: number } | null;
+    points: MetricPoint[];
+}
+
+export interface MetricsResult {
+    deviceId: string;
+    deviceName: string;
+    from: Date;
+    to: Date;
+    step: number;
+    series: MetricSeries[];
+}
+
+/**
+ * Parse a duration such as "300", "5m", "1h" or "7d" into seconds
+ */
+export function parseDuration(value: string): number | null {
+    const match = /^(\d+)(s|m|h|d)?$/.exec(value.trim());
+    if (!match) return null;
+    const unit = { s: 1, m: 60, h: HOUR, d: DAY }[match[2] as 's' | 'm' | 'h' | 'd' ?? 's'];
+    return parseInt(match[1], 10) * unit;
+}
+
+/**
+ * Parse a time: ISO 8601, epoch milliseconds, or relative to now such as "-12h"
+ */
+export function parseTime(value: string, now = new Date()): Date | null {
+    if (value.startsWith('-')) {
+        const seconds = parseDuration(value.slice(1));
+        return seconds === null ? null : new Date(now.getTime() - seconds * 1000);
+    }
+    const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Build a query from string parameters (API query string, MCP arguments)
+ */
+export function toMetricsQuery(params: { deviceId?: string; metric?: string; from?: string; to?: string; step?: string }): MetricsQuery {
+    if (!params.deviceId) throw new MetricsError('deviceId is required');
+
+    const time = (name: 'from' | 'to') => {
+        const value = params[name];
+        if (!value) return undefined;
+        const parsed = parseTime(value);
+        if (!parsed) throw new MetricsError(`Invalid ${name}: ${value} (use ISO 8601, epoch ms or e.g. -12h)`);
+        return parsed;
+    };
+
+    let stepSeconds: number | undefined;
+    if (params.step) {
+        stepSeconds = parseDuration(params.step) ?? undefined;
+        if (!stepSeconds) throw new MetricsError(`Invalid step: ${params.step} (use e.g. 300, 5m, 1h)`);
+    }
+
+    return {
+        deviceId: params.deviceId,
+        metrics: params.metric ? params.metric.split(',').map(m => m.trim()).filter(Boolean) : undefined,
+        from: time('from'),
+        to: time('to'),
+        stepSeconds,
+    };
+}
+
+/**
+ * Metric values in a device's metadata
+ */
+function extract(metadata: Record<string, unknown> | null): Map<string, number> {
+    const values = new Map<string, number>();
+    if (!metadata) return values;
+
+    for (const [metric, { keys }] of Object.entries(METRICS)) {
+        for (const key of keys) {
+            const value = metadata[key];
+            if (typeof value === 'number' && Number.isFinite(value)) {
+                values.set(metric, value);
+                break;
+            }
+        }
+    }
+    return values;
+}
+
+function bucketStart(at: Date, seconds: number): Date {
+    if (seconds === 0) return new Date(Math.floor(at.getTime() / 1000) * 1000);
+    const epoch = Math.floor(at.getTime() / 1000);
+    return new Date((epoch - (epoch % seconds)) * 1000);
+}
+
+export class MetricsService {
+    private lastPrunedAt = 0;
+
+    /**
+     * Record the metrics of these devices as samples taken at `at`
+     */
+    async record(rows: Pick<Device, 'id' | 'metadata'>[], at = new Date()): Promise<number> {
+        let recorded = 0;
+
+        for (const device of rows) {
+            for (const [metric, value] of extract(device.metadata)) {
+                for (const { seconds } of RESOLUTIONS) {
+                    await db.insert(deviceMetrics).values({
+                        deviceId: device.id,
+                        metric,
+                        resolution: seconds,
+                        bucketAt: bucketStart(at, seconds),
+                        avg: value,
+                        min: value,
+                        max: value,
+                        count: 1,
+                    }).onConflictDoUpdate({
+                        target: [deviceMetrics.deviceId, deviceMetrics.metric, deviceMetrics.resolution, deviceMetrics.bucketAt],
+                        set: {
+                            avg: sql`(${deviceMetrics.avg} * ${deviceMetrics.count} + ${value}) / (${deviceMetrics.count} + 1)`,
+                            min: sql`min(${deviceMetrics.min}, ${value})`,
+                            max: sql`max(${deviceMetrics.max}, ${value})`,
+                            count: sql`${deviceMetrics.count} + 1`,
+                        },
+                    });
+                }
+                recorded++;
+            }
+        }
+
+        if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+            await this.prune();
+        }
+        return recorded;
+    }
+
+    /**
+     * Record the devices of a platform that a sync updated since `since`
+     */
+    async recordSync(platform: string, since: Date): Promise<number> {
+        const updated = await db.select({ id: devices.id, metadata: devices.metadata }).from(devices)
+            .where(and(
+                eq(devices.platformType, platform as NonNullable<Device['platformType']>),
+                gte(devices.updatedAt, since)
+            ));
+        return this.record(updated);
+    }
+
+    /**
+     * Drop buckets older than their resolution's retention
+     */
+    async prune(now = new Date()): Promise<void> {
+        this.lastPrunedAt = now.getTime();
+        for (const { seconds, retentionMs } of RESOLUTIONS) {
+            await db.delete(deviceMetrics).where(and(
+                eq(deviceMetrics.resolution, seconds),
+                lt(deviceMetrics.bucketAt, new Date(now.getTime() - retentionMs))
+            ));
+        }
+    }
+
+    /**
+     * Metrics recorded for a device, with their units
+     */
+    async available(deviceId: string): Promise<{ metric: string; unit: string; description: string }[]> {
+        const rows = await db.selectDistinct({ metric: deviceMetrics.metric }).from(deviceMetrics)
+            .where(eq(deviceMetrics.deviceId, deviceId));
+        return rows
+            .filter(r => METRICS[r.metric])
+            .map(r => ({ metric: r.metric, unit: METRICS[r.metric].unit, description: METRICS[r.metric].description }));
+    }
+
+    /**
+     * Time series for a device, one point per step (default: about 100 points)
+     */
+    async query(query: MetricsQuery): Promise<MetricsResult> {
+        const [device] = await db.select({ id: devices.id, name: devices.name }).from(devices)
+            .where(eq(devices.id, query.deviceId));
+        if (!device) throw new MetricsError(`Device ${query.deviceId} not found`, 'not_found');
+
+        const to = query.to ?? new Date();
+        const from = query.from ?? new Date(to.getTime() - DAY * 1000);
+        if (from >= to) throw new MetricsError('from must be before to');
+
+        const unknown = query.metrics?.filter(m => !METRICS[m]) ?? [];
+        if (unknown.length) {
+            throw new MetricsError(`Unknown metric(s): ${unknown.join(', ')}. Known: ${Object.keys(METRICS).join(', ')}`);
+        }
+
+        const rangeSeconds = (to.getTime() - from.getTime()) / 1000;
+        const requestedStep = Math.max(query.stepSeconds ?? Math.ceil(rangeSeconds / 100), 60);
+
+        // Resolutions still kept at `from`; the coarsest that isn't coarser
+        // than the step, else the finest, with the step raised to match
+        const now = Date.now();
+        const covering = RESOLUTIONS.filter(r => from.getTime() >= now - r.retentionMs);
+        const resolution = covering.filter(r => r.seconds <= requestedStep).pop()
+            ?? covering[0]
+            ?? RESOLUTIONS[RESOLUTIONS.length - 1];
+        const step = Math.max(requestedStep, resolution.seconds);
+
+        const metrics = query.metrics?.length ? query.metrics : (await this.available(device.id)).map(m => m.metric);
+        if (metrics.length === 0) {
+            return { deviceId: device.id, deviceName: device.name, from, to, step, series: [] };
+        }
+
+        const rows = await db.select().from(deviceMetrics)
+            .where(and(
+                eq(deviceMetrics.deviceId, device.id),
+                inArray(deviceMetrics.metric, metrics),
+                eq(deviceMetrics.resolution, resolution.seconds),
+                gte(deviceMetrics.bucketAt, bucketStart(from, resolution.seconds)),
+                lte(deviceMetrics.bucketAt, to)
+            ))
+            .orderBy(asc(deviceMetrics.bucketAt));
+
+        const series = metrics.map(metric => {
+            const points = this.rebucket(rows.filter(r => r.metric === metric), step);
+            return {
+                metric,
+                unit: METRICS[metric].unit,
+                description: METRICS[metric].description,
+                resolution: resolution.seconds,
+                summary: points.length ? this.merge(points) : null,
+                points,
+            };
+        });
+
+        return { deviceId: device.id, deviceName: device.name, from, to, step, series };
+    }
+
+    /**
+     * Combine buckets into points `step` seconds apart
+     */
+    private rebucket(rows: DeviceMetric[], step: number): MetricPoint[] {
+        const groups = new Map<number, DeviceMetric[]>();
+        for (const row of rows) {
+            const t = bucketStart(row.bucketAt, step).getTime();
+            groups.set(t, [...(groups.get(t) ?? []), row]);
+        }
+        return [...groups.entries()].map(([t, group]) => ({ t: new Date(t), ...this.merge(group) }));
+    }
+
+    private merge(points: { avg: number; min: number; max: number; count: number }[]) {
+        const count = points.reduce((n, p) => n + p.count, 0);
+        return {
+            avg: Math.round(points.reduce((sum, p) => sum + p.avg * p.count, 0) / count * 1000) / 1000,
+            min: Math.min(...points.map(p => p.min)),
+            max: Math.max(...points.map(p => p.max)),
+            count,
+        };
+    }
+}
+
+// Export singleton instance
+export const metricsService = new MetricsService();
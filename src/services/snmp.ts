@@ -0,0 +1,656 @@
+/**
+ * SNMP Polling
+ *
+ * Per-network SNMP credentials, and polls of the system group, interface
+ * table (ifTable / ifXTable) and LLDP neighbour table. Results are written
+ * to the discovered device; LLDP neighbours that are discovered devices
+ * too become discovered connections. Communities and passwords are
+ * encrypted at rest when NETOPS_SECRET_KEY is set.
+ */
+
+import { and, asc, eq, inArray, ne, or } from 'drizzle-orm';
+import {
+    db, devices, discoveredConnections, discoveredDevices, generateId, networks, snmpCredentials,
+    type DiscoveredConnection, type DiscoveredDevice, type SnmpCredential,
+} from '../db/index.js';
+import { SnmpSession, type SnmpTarget, type Varbind } from '../engine/snmp.js';
+import { isIpInCidr, isValidCidr, isValidIpv4 } from '../utils/helpers.js';
+import { decryptSecret, encryptSecret } from '../utils/secrets.js';
+
+// SNMPv2-MIB system group
+const SYSTEM_OIDS = {
+    sysDescr: '1.3.6.1.2.1.1.1.0',
+    sysObjectId: '1.3.6.1.2.1.1.2.0',
+    sysUpTime: '1.3.6.1.2.1.1.3.0',
+    sysContact: '1.3.6.1.2.1.1.4.0',
+    sysName: '1.3.6.1.2.1.1.5.0',
+    sysLocation: '1.3.6.1.2.1.1.6.0',
+    sysServices: '1.3.6.1.2.1.1.7.0',
+};
+
+// Table entries; a column's OID is <entry>.<column>.<index>
+const IF_ENTRY = '1.3.6.1.2.1.2.2.1';
+const IFX_ENTRY = '1.3.6.1.2.1.31.1.1.1';
+const LLDP_LOC_PORT_ENTRY = '1.0.8802.1.1.2.1.3.7.1';
+const LLDP_REM_ENTRY = '1.0.8802.1.1.2.1.4.1.1';
+const LLDP_REM_MAN_ADDR_ENTRY = '1.0.8802.1.1.2.1.4.2.1';
+
+const IF_STATUS = ['', 'up', 'down', 'testing', 'unknown', 'dormant', 'notPresent', 'lowerLayerDown'];
+const CHASSIS_ID_TYPES = ['', 'chassisComponent', 'interfaceAlias', 'portComponent', 'macAddress', 'networkAddress', 'interfaceName', 'local'];
+const PORT_ID_TYPES = ['', 'interfaceAlias', 'portComponent', 'macAddress', 'networkAddress', 'interfaceName', 'agentCircuitId', 'local'];
+
+/** An LLDP adjacency is a direct observation of the link */
+const LLDP_CONFIDENCE = 95;
+
+export class SnmpError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'invalid' | 'unreachable' = 'invalid') {
+        super(message);
+        this.name = 'SnmpError';
+    }
+}
+
+export type CredentialInput = Partial<Pick<SnmpCredential,
+    'name' | 'networkId' | 'priority' | 'version' | 'community' | 'username' | 'securityLevel' |
+    'authProtocol' | 'authPassword' | 'privProtocol' | 'privPassword' | 'port' | 'timeoutMs' | 'retries' | 'enabled'
+>>;
+
+export interface SnmpSystem {
+    sysDescr: string | null;
+    sysObjectId: string | null;
+    sysUpTimeSeconds: number | null;
+    sysContact: string | null;
+    sysName: string | null;
+    sysLocation: string | null;
+    sysServices: number | null; // OSI layer bits: 2 = bridging, 4 = routing, 64 = applications
+}
+
+export interface SnmpInterface {
+    index: number;
+    name: string | null; // ifName, or ifDescr when the agent has no ifXTable
+    description: string | null;
+    alias: string | null;
+    type: number | null; // IANAifType, e.g. 6 = ethernetCsmacd
+    mtu: number | null;
+    speedMbps: number | null;
+    macAddress: string | null;
+    adminStatus: string | null;
+    operStatus: string | null;
+    // 64-bit ifXTable octet counters when the agent has them
+    inOctets: number | null;
+    outOctets: number | null;
+    inErrors: number | null;
+    outErrors: number | null;
+    inDiscards: number | null;
+    outDiscards: number | null;
+}
+
+export interface LldpNeighbor {
+    localPort: number;
+    localPortName: string | null;
+    chassisId: string;
+    chassisIdType: string; // e.g. macAddress, networkAddress, local
+    portId: string;
+    portIdType: string;
+    portDescription: string | null;
+    sysName: string | null;
+    sysDescription: string | null;
+    managementAddress: string | null; // First IPv4 management address
+}
+
+export interface SnmpPollResult {
+    ipAddress: string;
+    credentialId: string;
+    credentialName: string;
+    polledAt: Date;
+    system: SnmpSystem;
+    interfaces: SnmpInterface[];
+    lldpNeighbors: LldpNeighbor[];
+}
+
+export interface SnmpDeviceUpdate {
+    discoveredDeviceId: string;
+    result: SnmpPollResult;
+    /** LLDP neighbours matched to discovered devices */
+    linkedNeighbors: number;
+}
+
+/**
+ * Text of an octet string; binary values come back as colon-separated hex
+ */
+function textOf(vb: Varbind | undefined): string | null {
+    if (!vb || !Buffer.isBuffer(vb.value)) return null;
+    return bufferText(vb.value);
+}
+
+function bufferText(value: Buffer): string | null {
+    const text = value.toString('utf-8').replace(/\0+$/, '');
+    if (!text.includes('\uFFFD') && !/[\x00-\x08\x0e-\x1f]/.test(text)) return text.trim() || null;
+    return [...value].map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+}
+
+function numberOf(vb: Varbind | undefined): number | null {
+    return typeof vb?.value === 'number' ? vb.value : null;
+}
+
+function macOf(value: unknown): string | null {
+    if (!Buffer.isBuffer(value) || value.length !== 6 || value.every(byte => byte === 0)) return null;
+    return [...value].map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+}
+
+/**
+ * LLDP chassis and port IDs: MACs and IPv4 addresses are formatted, the rest is text
+ */
+function lldpId(type: string, vb: Varbind | undefined): string {
+    if (!vb || !Buffer.isBuffer(vb.value)) return '';
+    if (type === 'macAddress') return macOf(vb.value) ?? bufferText(vb.value) ?? '';
+    // IANA address family 1 = IPv4
+    if (type === 'networkAddress' && vb.value.length === 5 && vb.value[0] === 1) return [...vb.value.subarray(1)].join('.');
+    return bufferText(vb.value) ?? '';
+}
+
+/**
+ * Group a walked table into rows: index -> column -> varbind
+ */
+function rowsOf(varbinds: Varbind[], entry: string): Map<string, Map<number, Varbind>> {
+    const rows = new Map<string, Map<number, Varbind>>();
+    for (const vb of varbinds) {
+        const rest = vb.oid.slice(entry.length + 1);
+        const dot = rest.indexOf('.');
+        if (dot < 0) continue;
+        const index = rest.slice(dot + 1);
+        const row = rows.get(index) ?? new Map<number, Varbind>();
+        row.set(parseInt(rest.slice(0, dot), 10), vb);
+        rows.set(index, row);
+    }
+    return rows;
+}
+
+/**
+ * Guess a type from sysServices: bridges and routers that don't also run applications
+ */
+function deviceTypeOf(sysServices: number | null): DiscoveredDevice['deviceType'] | null {
+    if (sysServices === null || sysServices & 64) return null;
+    if (sysServices & 4) return 'router';
+    if (sysServices & 2) return 'switch';
+    return null;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export class SnmpService {
+    // ============================================
+    // CREDENTIALS
+    // ============================================
+
+    async listCredentials(): Promise<SnmpCredential[]> {
+        return db.select().from(snmpCredentials).orderBy(asc(snmpCredentials.priority), asc(snmpCredentials.name));
+    }
+
+    async getCredential(id: string): Promise<SnmpCredential> {
+        const [credential] = await db.select().from(snmpCredentials).where(eq(snmpCredentials.id, id));
+        if (!credential) throw new SnmpError(`SNMP credential ${id} not found`, 'not_found');
+        return credential;
+    }
+
+    async createCredential(input: CredentialInput): Promise<SnmpCredential> {
+        if (!input.name?.trim()) throw new SnmpError('name is required');
+
+        const now = new Date();
+        const credential = this.withDefaults({
+            id: generateId(),
+            name: input.name.trim(),
+            networkId: input.networkId ?? null,
+            priority: input.priority ?? 100,
+            version: input.version!,
+            community: input.community ?? null,
+            username: input.username ?? null,
+            securityLevel: input.securityLevel ?? null,
+            authProtocol: input.authProtocol ?? null,
+            authPassword: input.authPassword ?? null,
+            privProtocol: input.privProtocol ?? null,
+            privPassword: input.privPassword ?? null,
+            port: input.port ?? 161,
+            timeoutMs: input.timeoutMs ?? 2000,
+            retries: input.retries ?? 1,
+            enabled: input.enabled ?? true,
+            lastUsedAt: null,
+            createdAt: now,
+            updatedAt: now,
+        });
+        await this.validate(credential);
+
+        await db.insert(snmpCredentials).values(this.sealed(credential));
+        return credential;
+    }
+
+    /**
+     * Secrets are never returned, so ones left out of `input` are kept
+     */
+    async updateCredential(id: string, input: CredentialInput): Promise<SnmpCredential> {
+        const existing = await this.getCredential(id);
+        const changes = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)) as CredentialInput;
+        const credential = this.withDefaults({
+            ...existing,
+            ...changes,
+            name: changes.name !== undefined ? changes.name.trim() : existing.name,
+            updatedAt: new Date(),
+        });
+        if (!credential.name) throw new SnmpError('name is required');
+        await this.validate(credential);
+
+        const { id: _id, createdAt: _createdAt, lastUsedAt: _lastUsedAt, ...fields } = this.sealed(credential);
+        await db.update(snmpCredentials).set(fields).where(eq(snmpCredentials.id, id));
+        return this.getCredential(id);
+    }
+
+    async deleteCredential(id: string): Promise<void> {
+        await this.getCredential(id);
+        await db.delete(snmpCredentials).where(eq(snmpCredentials.id, id));
+    }
+
+    /**
+     * Enabled credentials to try for an address: those of networks that
+     * contain it, then those without a network, each by priority
+     */
+    async credentialsFor(ip: string): Promise<SnmpCredential[]> {
+        const enabled = await db.select().from(snmpCredentials)
+            .where(eq(snmpCredentials.enabled, true))
+            .orderBy(asc(snmpCredentials.priority), asc(snmpCredentials.name));
+
+        const networkIds = [...new Set(enabled.map(c => c.networkId).filter((id): id is string => !!id))];
+        const scoped = networkIds.length === 0 ? [] : await db.select({ id: networks.id, cidr: networks.cidr })
+            .from(networks)
+            .where(inArray(networks.id, networkIds));
+        const containing = new Set(scoped.filter(n => n.cidr && isValidCidr(n.cidr) && isIpInCidr(ip, n.cidr)).map(n => n.id));
+
+        return [
+            ...enabled.filter(c => c.networkId && containing.has(c.networkId)),
+            ...enabled.filter(c => !c.networkId),
+        ];
+    }
+
+    async hasCredentials(): Promise<boolean> {
+        const [any] = await db.select({ id: snmpCredentials.id }).from(snmpCredentials)
+            .where(eq(snmpCredentials.enabled, true))
+            .limit(1);
+        return !!any;
+    }
+
+    // ============================================
+    // POLLING
+    // ============================================
+
+    /**
+     * Poll an address with the first credential that answers, or with the
+     * given one. Nothing is stored.
+     */
+    async poll(ip: string, credentialId?: string): Promise<SnmpPollResult> {
+        if (!isValidIpv4(ip)) throw new SnmpError(`Invalid IPv4 address: ${ip}`);
+
+        const candidates = credentialId ? [await this.getCredential(credentialId)] : await this.credentialsFor(ip);
+        if (candidates.length === 0) throw new SnmpError(`No SNMP credentials apply to ${ip}`);
+
+        const failures: string[] = [];
+        for (const credential of candidates) {
+            const session = new SnmpSession(this.targetOf(credential, ip));
+            try {
+                let system: SnmpSystem;
+                try {
+                    system = await this.fetchSystem(session);
+                } catch (error) {
+                    failures.push(`${credential.name}: ${errorMessage(error)}`);
+                    continue;
+                }
+
+                // The credential works, so failures from here on are the agent's
+                try {
+                    const interfaces = await this.fetchInterfaces(session);
+                    const lldpNeighbors = await this.fetchLldp(session);
+                    const polledAt = new Date();
+                    await db.update(snmpCredentials).set({ lastUsedAt: polledAt }).where(eq(snmpCredentials.id, credential.id));
+                    return { ipAddress: ip, credentialId: credential.id, credentialName: credential.name, polledAt, system, interfaces, lldpNeighbors };
+                } catch (error) {
+                    throw new SnmpError(`SNMP poll of ${ip} failed: ${errorMessage(error)}`, 'unreachable');
+                }
+            } finally {
+                session.close();
+            }
+        }
+        throw new SnmpError(`No SNMP answer from ${ip} (${failures.join('; ')})`, 'unreachable');
+    }
+
+    /**
+     * Poll a discovered device and store the results on it
+     */
+    async pollDiscovered(id: string): Promise<SnmpDeviceUpdate> {
+        const [device] = await db.select().from(discoveredDevices).where(eq(discoveredDevices.id, id));
+        if (!device) throw new SnmpError(`Discovered device ${id} not found`, 'not_found');
+        return this.apply(device, await this.poll(device.ipAddress));
+    }
+
+    /**
+     * Poll a managed device at its primary IP. Results go to its discovered
+     * device, which is created (and linked) when there is none yet.
+     */
+    async pollDevice(deviceId: string): Promise<SnmpDeviceUpdate> {
+        const [device] = await db.select().from(devices).where(eq(devices.id, deviceId));
+        if (!device) throw new SnmpError(`Device ${deviceId} not found`, 'not_found');
+
+        const ip = device.primaryIp?.split('/')[0];
+        if (!ip || !isValidIpv4(ip)) throw new SnmpError(`Device ${device.name} has no IPv4 address`);
+        const result = await this.poll(ip);
+
+        let [discovered] = await db.select().from(discoveredDevices).where(eq(discoveredDevices.linkedDeviceId, deviceId));
+        if (!discovered) {
+            [discovered] = await db.select().from(discoveredDevices).where(eq(discoveredDevices.ipAddress, ip));
+        }
+        if (!discovered) {
+            const now = new Date();
+            [discovered] = await db.insert(discoveredDevices).values({
+                id: generateId(),
+                ipAddress: ip,
+                macAddress: device.primaryMac?.toUpperCase() ?? null,
+                hostname: device.hostname,
+                classification: 'known',
+                linkedDeviceId: device.id,
+                firstSeenAt: now,
+                lastSeenAt: now,
+                createdAt: now,
+                updatedAt: now,
+            }).returning();
+        } else if (!discovered.linkedDeviceId) {
+            await db.update(discoveredDevices).set({ linkedDeviceId: device.id }).where(eq(discoveredDevices.id, discovered.id));
+        }
+
+        return this.apply(discovered, result);
+    }
+
+    private targetOf(credential: SnmpCredential, host: string): SnmpTarget {
+        let secrets: Pick<SnmpCredential, 'community' | 'authPassword' | 'privPassword'>;
+        try {
+            secrets = {
+                community: decryptSecret(credential.community),
+                authPassword: decryptSecret(credential.authPassword),
+                privPassword: decryptSecret(credential.privPassword),
+            };
+        } catch (error) {
+            throw new SnmpError(`${credential.name}: ${errorMessage(error)}`);
+        }
+
+        return {
+            host,
+            port: credential.port,
+            version: credential.version,
+            timeoutMs: credential.timeoutMs,
+            retries: credential.retries,
+            community: secrets.community ?? undefined,
+            username: credential.username ?? undefined,
+            securityLevel: credential.securityLevel ?? undefined,
+            authProtocol: credential.authProtocol ?? undefined,
+            authPassword: secrets.authPassword ?? undefined,
+            privProtocol: credential.privProtocol ?? undefined,
+            privPassword: secrets.privPassword ?? undefined,
+        };
+    }
+
+    private async fetchSystem(session: SnmpSession): Promise<SnmpSystem> {
+        const varbinds = await session.get(Object.values(SYSTEM_OIDS));
+        const byOid = new Map(varbinds.map(vb => [vb.oid, vb]));
+        const uptime = numberOf(byOid.get(SYSTEM_OIDS.sysUpTime));
+        const objectId = byOid.get(SYSTEM_OIDS.sysObjectId)?.value;
+
+        return {
+            sysDescr: textOf(byOid.get(SYSTEM_OIDS.sysDescr)),
+            sysObjectId: typeof objectId === 'string' ? objectId : null,
+            sysUpTimeSeconds: uptime === null ? null : Math.floor(uptime / 100), // TimeTicks are 1/100 s
+            sysContact: textOf(byOid.get(SYSTEM_OIDS.sysContact)),
+            sysName: textOf(byOid.get(SYSTEM_OIDS.sysName)),
+            sysLocation: textOf(byOid.get(SYSTEM_OIDS.sysLocation)),
+            sysServices: numberOf(byOid.get(SYSTEM_OIDS.sysServices)),
+        };
+    }
+
+    private async fetchInterfaces(session: SnmpSession): Promise<SnmpInterface[]> {
+        const ifTable = rowsOf(await session.walk(IF_ENTRY), IF_ENTRY);
+        const ifXTable = rowsOf(await session.walk(IFX_ENTRY), IFX_ENTRY);
+
+        return [...ifTable].map(([index, row]) => {
+            const x = ifXTable.get(index) ?? new Map<number, Varbind>();
+            const highSpeed = numberOf(x.get(15));
+            const speed = numberOf(row.get(5));
+
+            return {
+                index: parseInt(index, 10),
+                name: textOf(x.get(1)) ?? textOf(row.get(2)),
+                description: textOf(row.get(2)),
+                alias: textOf(x.get(18)),
+                type: numberOf(row.get(3)),
+                mtu: numberOf(row.get(4)),
+                // ifSpeed tops out at 4.29 Gbps; ifHighSpeed is already in Mbps
+                speedMbps: highSpeed || (speed === null ? null : Math.round(speed / 1e6)),
+                macAddress: macOf(row.get(6)?.value),
+                adminStatus: IF_STATUS[numberOf(row.get(7)) ?? 0] || null,
+                operStatus: IF_STATUS[numberOf(row.get(8)) ?? 0] || null,
+                inOctets: numberOf(x.get(6)) ?? numberOf(row.get(10)),
+                outOctets: numberOf(x.get(10)) ?? numberOf(row.get(16)),
+                inErrors: numberOf(row.get(14)),
+                outErrors: numberOf(row.get(20)),
+                inDiscards: numberOf(row.get(13)),
+                outDiscards: numberOf(row.get(19)),
+            };
+        }).sort((a, b) => a.index - b.index);
+    }
+
+    private async fetchLldp(session: SnmpSession): Promise<LldpNeighbor[]> {
+        const remote = rowsOf(await session.walk(LLDP_REM_ENTRY), LLDP_REM_ENTRY);
+        if (remote.size === 0) return [];
+
+        const localPorts = rowsOf(await session.walk(LLDP_LOC_PORT_ENTRY), LLDP_LOC_PORT_ENTRY);
+
+        // Index: timeMark.localPortNum.remIndex.addrSubtype.addrLength.addr...
+        const addresses = new Map<string, string>();
+        for (const index of rowsOf(await session.walk(LLDP_REM_MAN_ADDR_ENTRY), LLDP_REM_MAN_ADDR_ENTRY).keys()) {
+            const parts = index.split('.').map(Number);
+            const key = parts.slice(0, 3).join('.');
+            if (parts[3] === 1 && parts[4] === 4 && !addresses.has(key)) addresses.set(key, parts.slice(5, 9).join('.'));
+        }
+
+        // Index: timeMark.localPortNum.remIndex
+        return [...remote].map(([index, row]) => {
+            const localPort = parseInt(index.split('.')[1], 10);
+            const local = localPorts.get(String(localPort));
+            const chassisIdType = CHASSIS_ID_TYPES[numberOf(row.get(4)) ?? 0] || 'unknown';
+            const portIdType = PORT_ID_TYPES[numberOf(row.get(6)) ?? 0] || 'unknown';
+
+            return {
+                localPort,
+                localPortName: textOf(local?.get(4)) ?? textOf(local?.get(3)),
+                chassisId: lldpId(chassisIdType, row.get(5)),
+                chassisIdType,
+                portId: lldpId(portIdType, row.get(7)),
+                portIdType,
+                portDescription: textOf(row.get(8)),
+                sysName: textOf(row.get(9)),
+                sysDescription: textOf(row.get(10)),
+                managementAddress: addresses.get(index) ?? null,
+            };
+        });
+    }
+
+    /**
+     * Store a poll on a discovered device and link its LLDP neighbours
+     */
+    private async apply(device: DiscoveredDevice, result: SnmpPollResult): Promise<SnmpDeviceUpdate> {
+        const { system } = result;
+        const deviceType = device.deviceType === 'unknown' ? deviceTypeOf(system.sysServices) ?? 'unknown' : device.deviceType;
+
+        await db.update(discoveredDevices)
+            .set({
+                hostname: device.hostname || system.sysName,
+                deviceType,
+                snmpSysName: system.sysName,
+                snmpSysDescr: system.sysDescr,
+                snmpSysContact: system.sysContact,
+                snmpSysLocation: system.sysLocation,
+                isReachable: true,
+                lastSeenAt: result.polledAt,
+                metadata: {
+                    ...device.metadata,
+                    snmp: {
+                        polledAt: result.polledAt.toISOString(),
+                        credentialId: result.credentialId,
+                        sysObjectId: system.sysObjectId,
+                        sysUpTimeSeconds: system.sysUpTimeSeconds,
+                        sysServices: system.sysServices,
+                        interfaces: result.interfaces,
+                        lldpNeighbors: result.lldpNeighbors,
+                    },
+                },
+                updatedAt: new Date(),
+            })
+            .where(eq(discoveredDevices.id, device.id));
+
+        let linkedNeighbors = 0;
+        for (const neighbor of result.lldpNeighbors) {
+            const target = await this.findNeighbor(device.id, neighbor);
+            if (!target) continue;
+            await this.recordAdjacency({ ...device, deviceType }, target, result.polledAt);
+            linkedNeighbors++;
+        }
+
+        return { discoveredDeviceId: device.id, result, linkedNeighbors };
+    }
+
+    /**
+     * The discovered device an LLDP neighbour is: by management address,
+     * then chassis MAC, then system name. Neighbours no scan has found are
+     * left in the polled device's metadata.
+     */
+    private async findNeighbor(selfId: string, neighbor: LldpNeighbor): Promise<DiscoveredDevice | null> {
+        const candidates = [
+            neighbor.managementAddress ? eq(discoveredDevices.ipAddress, neighbor.managementAddress) : null,
+            neighbor.chassisIdType === 'macAddress' ? eq(discoveredDevices.macAddress, neighbor.chassisId) : null,
+            neighbor.sysName ? eq(discoveredDevices.snmpSysName, neighbor.sysName) : null,
+        ];
+        for (const condition of candidates) {
+            if (!condition) continue;
+            const [match] = await db.select().from(discoveredDevices)
+                .where(and(condition, ne(discoveredDevices.id, selfId)))
+                .limit(1);
+            if (match) return match;
+        }
+        return null;
+    }
+
+    /**
+     * Create or confirm the connection between two LLDP neighbours, whichever
+     * way round it was recorded
+     */
+    private async recordAdjacency(device: DiscoveredDevice, neighbor: DiscoveredDevice, at: Date): Promise<void> {
+        const [existing]: DiscoveredConnection[] = await db.select().from(discoveredConnections).where(or(
+            and(eq(discoveredConnections.sourceDeviceId, device.id), eq(discoveredConnections.targetDeviceId, neighbor.id)),
+            and(eq(discoveredConnections.sourceDeviceId, neighbor.id), eq(discoveredConnections.targetDeviceId, device.id))
+        ));
+        const connectionType = device.deviceType === 'switch' || neighbor.deviceType === 'switch' ? 'switch' : 'peer';
+
+        if (existing) {
+            await db.update(discoveredConnections)
+                .set({
+                    connectionType: existing.connectionType && existing.connectionType !== 'unknown' ? existing.connectionType : connectionType,
+                    confidence: Math.max(existing.confidence ?? 0, LLDP_CONFIDENCE),
+                    evidence: { ...existing.evidence, lldp: true },
+                    lastVerifiedAt: at,
+                    updatedAt: new Date(),
+                })
+                .where(eq(discoveredConnections.id, existing.id));
+            return;
+        }
+
+        const now = new Date();
+        await db.insert(discoveredConnections).values({
+            id: generateId(),
+            sourceDeviceId: device.id,
+            targetDeviceId: neighbor.id,
+            connectionType,
+            confidence: LLDP_CONFIDENCE,
+            evidence: { lldp: true },
+            lastVerifiedAt: at,
+            createdAt: now,
+            updatedAt: now,
+        });
+    }
+
+    /**
+     * The credential as stored, with its secrets encrypted
+     */
+    private sealed(credential: SnmpCredential): SnmpCredential {
+        return {
+            ...credential,
+            community: encryptSecret(credential.community),
+            authPassword: encryptSecret(credential.authPassword),
+            privPassword: encryptSecret(credential.privPassword),
+        };
+    }
+
+    /**
+     * v3 security level and protocols implied by the secrets given
+     */
+    private withDefaults(credential: SnmpCredential): SnmpCredential {
+        if (credential.version !== 'v3') return credential;
+        const securityLevel = credential.securityLevel
+            ?? (credential.privPassword ? 'authPriv' : credential.authPassword ? 'authNoPriv' : 'noAuthNoPriv');
+        return {
+            ...credential,
+            securityLevel,
+            authProtocol: securityLevel !== 'noAuthNoPriv' ? credential.authProtocol ?? 'sha' : credential.authProtocol,
+            privProtocol: securityLevel === 'authPriv' ? credential.privProtocol ?? 'aes' : credential.privProtocol,
+        };
+    }
+
+    private async validate(credential: SnmpCredential): Promise<void> {
+        if (credential.version !== 'v2c' && credential.version !== 'v3') {
+            throw new SnmpError('version must be v2c or v3');
+        }
+
+        if (credential.version === 'v2c') {
+            if (!credential.community) throw new SnmpError('community is required for v2c');
+        } else {
+            if (!credential.username) throw new SnmpError('username is required for v3');
+            if (!['noAuthNoPriv', 'authNoPriv', 'authPriv'].includes(credential.securityLevel ?? '')) {
+                throw new SnmpError('securityLevel must be noAuthNoPriv, authNoPriv or authPriv');
+            }
+            if (credential.securityLevel !== 'noAuthNoPriv') {
+                if (!['md5', 'sha', 'sha256'].includes(credential.authProtocol ?? '')) {
+                    throw new SnmpError('authProtocol must be md5, sha or sha256');
+                }
+                // RFC 3414 asks for at least 8 characters, and agents reject shorter ones
+                if ((credential.authPassword ?? '').length < 8) throw new SnmpError('authPassword must be at least 8 characters');
+            }
+            if (credential.securityLevel === 'authPriv') {
+                if (!['des', 'aes'].includes(credential.privProtocol ?? '')) throw new SnmpError('privProtocol must be des or aes');
+                if ((credential.privPassword ?? '').length < 8) throw new SnmpError('privPassword must be at least 8 characters');
+            }
+        }
+
+        if (!Number.isInteger(credential.port) || credential.port < 1 || credential.port > 65535) {
+            throw new SnmpError('port must be between 1 and 65535');
+        }
+        if (!Number.isInteger(credential.timeoutMs) || credential.timeoutMs < 100 || credential.timeoutMs > 60000) {
+            throw new SnmpError('timeoutMs must be between 100 and 60000');
+        }
+        if (!Number.isInteger(credential.retries) || credential.retries < 0 || credential.retries > 5) {
+            throw new SnmpError('retries must be between 0 and 5');
+        }
+        if (!Number.isInteger(credential.priority)) throw new SnmpError('priority must be an integer');
+
+        if (credential.networkId) {
+            const [network] = await db.select({ id: networks.id }).from(networks).where(eq(networks.id, credential.networkId));
+            if (!network) throw new SnmpError(`Network ${credential.networkId} not found`);
+        }
+    }
+}
+
+// Export singleton instance
+export const snmpService = new SnmpService();
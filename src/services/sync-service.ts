@@ -0,0 +1,496 @@
+/**
+ * Sync Service
+ *
+ * Schedules platform connector syncs:
+ * - Per-platform intervals (falling back to a global default)
+ * - Exponential backoff while a platform keeps failing
+ * - A per-platform mutex so one platform never runs two syncs at once
+ *   (previews and selective syncs wait for the running one)
+ * - Every run recorded in `sync_runs` for history
+ * - Rows missing from a platform retired after a grace period (see BaseConnector.reconcile)
+ * - New devices placed at a site / location by the assignment rules
+ * - Status changes and failed runs reported to alerting
+ * - Device telemetry recorded as time series (see MetricsService)
+ */
+
+import { db, syncRuns, generateId, type SyncRun } from '../db/index.js';
+import { desc, eq } from 'drizzle-orm';
+import { DEFAULT_RECONCILE_POLICY } from '../connectors/base.js';
+import type { BaseConnector, SyncOptions, SyncResult } from '../connectors/index.js';
+import { assignmentRuleService } from './assignment-rules.js';
+import { alertService, type StatusSnapshot } from './alerting.js';
+import { uptimeService } from './uptime.js';
+import { macVendorService } from './mac-vendors.js';
+import { metricsService } from './metrics.js';
+
+export type SyncTrigger = 'scheduled' | 'manual';
+
+export interface SyncConfig {
+    enabled: boolean;
+    /** Default interval between syncs */
+    intervalMs: number;
+    /** Platforms that take part in scheduled syncs, keyed by connector type */
+    platforms: Record<string, boolean>;
+    /** Per-platform interval overrides, keyed by connector type */
+    platformIntervals: Record<string, number>;
+    /** Upper bound for the delay after repeated failures */
+    maxBackoffMs: number;
+    /** How long a device or network may be missing from its platform before it is retired */
+    retireGraceMs: number;
+    /** How long retired rows are kept before they are deleted (null = keep forever) */
+    purgeRetiredAfterMs: number | null;
+}
+
+export interface PlatformSyncStatus {
+    platform: string;
+    name: string;
+    status: 'idle' | 'syncing' | 'success' | 'error' | 'backoff' | 'disabled';
+    intervalMs: number;
+    lastSync?: Date;
+    nextSync?: Date;
+    lastResult?: SyncResult;
+    consecutiveFailures: number;
+    error?: string;
+}
+
+interface PlatformState {
+    connector: BaseConnector;
+    status: PlatformSyncStatus;
+    timer: NodeJS.Timeout | null;
+    running: { promise: Promise<SyncResult>; full: boolean } | null;
+}
+
+const DEFAULT_CONFIG: SyncConfig = {
+    enabled: false,
+    intervalMs: 5 * 60 * 1000,
+    platforms: {},
+    platformIntervals: {},
+    maxBackoffMs: 60 * 60 * 1000,
+    retireGraceMs: DEFAULT_RECONCILE_POLICY.graceMs,
+    purgeRetiredAfterMs: DEFAULT_RECONCILE_POLICY.purgeAfterMs,
+};
+
+export class SyncService {
+    private config: SyncConfig = { ...DEFAULT_CONFIG, platforms: {}, platformIntervals: {} };
+    private states = new Map<string, PlatformState>();
+
+    /**
+     * Register the connectors created from configuration
+     */
+    setConnectors(connectors: BaseConnector[]): void {
+        this.stopAllSyncTimers();
+        this.states.clear();
+
+        for (const connector of connectors) {
+            this.addConnector(connector);
+        }
+    }
+
+    /**
+     * Register one more connector. An unscheduled one only syncs on request,
+     * e.g. WireGuard that only receives dumps imported from other hosts.
+     */
+    addConnector(connector: BaseConnector, options: { scheduled?: boolean } = {}): void {
+        const platform = connector.getType();
+        if (this.states.has(platform)) {
+            console.warn(`[Sync] Ignoring duplicate ${platform} connector "${connector.getName()}"`);
+            return;
+        }
+
+        if (this.config.platforms[platform] === undefined) {
+            this.config.platforms[platform] = options.scheduled ?? true;
+        }
+
+        this.states.set(platform, {
+            connector,
+            status: {
+                platform,
+                name: connector.getName(),
+                status: 'idle',
+                intervalMs: this.getInterval(platform),
+                consecutiveFailures: 0,
+            },
+            timer: null,
+            running: null,
+        });
+    }
+
+    /**
+     * Restore last-sync info from history so status survives restarts
+     */
+    async loadLastRuns(): Promise<void> {
+        for (const [platform, state] of this.states) {
+            const [last] = await db.select().from(syncRuns)
+                .where(eq(syncRuns.platform, platform))
+                .orderBy(desc(syncRuns.startedAt))
+                .limit(1);
+
+            if (last && last.status !== 'running') {
+                state.status.lastSync = last.completedAt || last.startedAt;
+                state.status.lastResult = this.toSyncResult(last);
+                state.status.status = last.status === 'success' ? 'success' : 'error';
+            }
+        }
+    }
+
+    getConfig(): SyncConfig {
+        return {
+            ...this.config,
+            platforms: { ...this.config.platforms },
+            platformIntervals: { ...this.config.platformIntervals },
+        };
+    }
+
+    setConfig(updates: Partial<SyncConfig>): void {
+        this.config = {
+            ...this.config,
+            ...updates,
+            platforms: { ...this.config.platforms, ...updates.platforms },
+            platformIntervals: { ...this.config.platformIntervals, ...updates.platformIntervals },
+        };
+
+        for (const [platform, state] of this.states) {
+            state.status.intervalMs = this.getInterval(platform);
+            if (!this.isPlatformEnabled(platform)) {
+                this.clearTimer(state);
+                state.status.status = 'disabled';
+                state.status.nextSync = undefined;
+            } else if (state.status.status === 'disabled') {
+                state.status.status = 'idle';
+            }
+        }
+
+        // Reschedule running timers so interval changes apply immediately
+        if (this.config.enabled) {
+            for (const [platform, state] of this.states) {
+                if (state.timer && !state.running) {
+                    this.schedule(platform, this.nextDelay(platform));
+                }
+            }
+        }
+    }
+
+    getStatus(platform: string): PlatformSyncStatus | null {
+        const state = this.states.get(platform.toLowerCase());
+        return state ? { ...state.status } : null;
+    }
+
+    getAllStatuses(): PlatformSyncStatus[] {
+        return [...this.states.values()].map(s => ({ ...s.status }));
+    }
+
+    getPlatforms(): string[] {
+        return [...this.states.keys()];
+    }
+
+    getConnector(platform: string): BaseConnector | null {
+        return this.states.get(platform.toLowerCase())?.connector || null;
+    }
+
+    /**
+     * Get recorded sync runs, newest first
+     */
+    async getHistory(platform?: string, limit = 20): Promise<SyncRun[]> {
+        return db.select().from(syncRuns)
+            .where(platform ? eq(syncRuns.platform, platform.toLowerCase()) : undefined)
+            .orderBy(desc(syncRuns.startedAt))
+            .limit(limit);
+    }
+
+    /**
+     * Sync a single platform. If a full sync for that platform is already
+     * running, the in-flight run is returned instead of starting another.
+     * A selective sync (options given) waits for the running one instead.
+     */
+    async syncPlatform(platform: string, trigger: SyncTrigger = 'manual', options?: SyncOptions): Promise<SyncResult | null> {
+        const key = platform.toLowerCase();
+        const state = this.states.get(key);
+        if (!state) return null;
+
+        const full = options === undefined;
+        while (state.running) {
+            if (full && state.running.full) {
+                return state.running.promise;
+            }
+            await state.running.promise.catch(() => undefined);
+        }
+
+        const promise = this.runSync(key, state, trigger, options);
+        state.running = { promise, full };
+        try {
+            return await promise;
+        } finally {
+            state.running = null;
+            if (this.config.enabled && this.isPlatformEnabled(key)) {
+                this.schedule(key, this.nextDelay(key));
+            }
+        }
+    }
+
+    /**
+     * Compute what a sync of the platform would change, without writing
+     */
+    async previewPlatform(platform: string): Promise<SyncResult | null> {
+        const state = this.states.get(platform.toLowerCase());
+        if (!state) return null;
+
+        while (state.running) {
+            await state.running.promise.catch(() => undefined);
+        }
+
+        const promise = state.connector.sync({ dryRun: true });
+        state.running = { promise, full: false };
+        try {
+            return await promise;
+        } finally {
+            state.running = null;
+        }
+    }
+
+    /**
+     * Sync all platforms in sequence
+     */
+    async syncAll(trigger: SyncTrigger = 'manual'): Promise<Map<string, SyncResult | null>> {
+        const results = new Map<string, SyncResult | null>();
+        for (const platform of this.states.keys()) {
+            results.set(platform, await this.syncPlatform(platform, trigger));
+        }
+        return results;
+    }
+
+    startAllSyncTimers(): void {
+        if (!this.config.enabled) {
+            console.warn('[Sync] Scheduled sync is disabled; not starting timers');
+            return;
+        }
+
+        for (const platform of this.states.keys()) {
+            if (this.isPlatformEnabled(platform)) {
+                this.schedule(platform, 0);
+            }
+        }
+    }
+
+    stopAllSyncTimers(): void {
+        for (const state of this.states.values()) {
+            this.clearTimer(state);
+            state.status.nextSync = undefined;
+        }
+    }
+
+    // ============================================
+    // Internals
+    // ============================================
+
+    private isPlatformEnabled(platform: string): boolean {
+        return this.config.platforms[platform] !== false;
+    }
+
+    private getInterval(platform: string): number {
+        return this.config.platformIntervals[platform] || this.config.intervalMs;
+    }
+
+    /**
+     * Delay before the next scheduled run: the platform interval, doubled for
+     * each consecutive failure up to maxBackoffMs
+     */
+    private nextDelay(platform: string): number {
+        const state = this.states.get(platform)!;
+        const interval = this.getInterval(platform);
+        const failures = state.status.consecutiveFailures;
+        if (failures === 0) return interval;
+        return Math.min(interval * 2 ** failures, Math.max(this.config.maxBackoffMs, interval));
+    }
+
+    private schedule(platform: string, delayMs: number): void {
+        const state = this.states.get(platform);
+        if (!state) return;
+
+        this.clearTimer(state);
+        state.status.nextSync = new Date(Date.now() + delayMs);
+        state.timer = setTimeout(() => {
+            state.timer = null;
+            this.syncPlatform(platform, 'scheduled').catch(error => {
+                console.error(`[Sync] Scheduled ${platform} sync failed:`, error);
+            });
+        }, delayMs);
+    }
+
+    private clearTimer(state: PlatformState): void {
+        if (state.timer) {
+            clearTimeout(state.timer);
+            state.timer = null;
+        }
+    }
+
+    private async runSync(
+        platform: string,
+        state: PlatformState,
+        trigger: SyncTrigger,
+        options?: SyncOptions
+    ): Promise<SyncResult> {
+        const runId = generateId();
+        const startedAt = new Date();
+
+        state.status.status = 'syncing';
+        state.status.nextSync = undefined;
+
+        await db.insert(syncRuns).values({
+            id: runId,
+            platform,
+            trigger,
+            status: 'running',
+            startedAt,
+            createdAt: startedAt,
+        });
+
+        // Dry runs change nothing, so they never raise alerts
+        const before = options?.dryRun ? null : await alertService.captureStatuses(platform).catch((): StatusSnapshot => ({
+            devices: new Map(),
+            networks: new Map(),
+        }));
+
+        let result: SyncResult;
+        try {
+            result = await state.connector.sync({
+                ...options,
+                reconcile: {
+                    graceMs: this.config.retireGraceMs,
+                    purgeAfterMs: this.config.purgeRetiredAfterMs,
+                },
+            });
+        } catch (error) {
+            result = {
+                success: false,
+                devicesFound: 0,
+                devicesCreated: 0,
+                devicesUpdated: 0,
+                networksFound: 0,
+                networksCreated: 0,
+                networksUpdated: 0,
+                devicesRemoved: 0,
+                networksRemoved: 0,
+                errors: [error instanceof Error ? error.message : 'Unknown error'],
+            };
+        }
+
+        // Keep a history of the status changes this run made
+        if (before) {
+            try {
+                await uptimeService.recordSync(platform, before.devices, startedAt);
+            } catch (error) {
+                result.errors.push(`Recording status history failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        // Keep this run's device telemetry as time series
+        if (result.success && !options?.dryRun) {
+            try {
+                await metricsService.recordSync(platform, startedAt);
+            } catch (error) {
+                result.errors.push(`Recording metrics failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        // Fill in manufacturers the platform didn't report from the MAC vendor database
+        if (result.success && !options?.dryRun) {
+            try {
+                await macVendorService.fillManufacturers(platform);
+            } catch (error) {
+                result.errors.push(`MAC vendor lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        // Place devices this run created using the assignment rules
+        if (result.success && !options?.dryRun && result.devicesCreated > 0) {
+            try {
+                const assigned = await assignmentRuleService.apply({ createdSince: startedAt });
+                if (assigned.assigned > 0) {
+                    console.log(`[Sync] Assigned ${assigned.assigned} new ${platform} device(s) by rule`);
+                }
+            } catch (error) {
+                result.errors.push(`Auto-assignment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        const completedAt = new Date();
+        await db.update(syncRuns).set({
+            status: result.success ? 'success' : 'failed',
+            devicesFound: result.devicesFound,
+            devicesCreated: result.devicesCreated,
+            devicesUpdated: result.devicesUpdated,
+            networksFound: result.networksFound,
+            networksCreated: result.networksCreated,
+            networksUpdated: result.networksUpdated,
+            devicesRemoved: result.devicesRemoved,
+            networksRemoved: result.networksRemoved,
+            errors: result.errors,
+            completedAt,
+            durationMs: completedAt.getTime() - startedAt.getTime(),
+        }).where(eq(syncRuns.id, runId));
+
+        state.status.lastSync = completedAt;
+        state.status.lastResult = result;
+
+        if (before) {
+            await this.reportToAlerting(platform, result, before);
+        }
+
+        if (result.success) {
+            state.status.consecutiveFailures = 0;
+            state.status.status = 'success';
+            state.status.error = undefined;
+        } else {
+            state.status.consecutiveFailures++;
+            state.status.status = this.config.enabled ? 'backoff' : 'error';
+            state.status.error = result.errors[0];
+            console.warn(`[Sync] ${platform} sync failed (${state.status.consecutiveFailures} in a row): ${state.status.error}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Raise or clear alerts for this run: failed syncs, and devices and
+     * networks whose status changed
+     */
+    private async reportToAlerting(platform: string, result: SyncResult, before: StatusSnapshot): Promise<void> {
+        try {
+            if (result.success) {
+                await alertService.clear('sync_failed', 'platform', platform);
+            } else {
+                await alertService.report({
+                    type: 'sync_failed',
+                    targetType: 'platform',
+                    targetId: platform,
+                    targetName: platform,
+                    platformType: platform,
+                    message: `${platform} sync failed: ${result.errors[0] ?? 'Unknown error'}`,
+                    details: { errors: result.errors },
+                });
+            }
+
+            await alertService.detectTransitions(platform, before);
+        } catch (error) {
+            console.error(`[Sync] Alerting for ${platform} failed:`, error);
+        }
+    }
+
+    private toSyncResult(run: SyncRun): SyncResult {
+        return {
+            success: run.status === 'success',
+            devicesFound: run.devicesFound ?? 0,
+            devicesCreated: run.devicesCreated ?? 0,
+            devicesUpdated: run.devicesUpdated ?? 0,
+            networksFound: run.networksFound ?? 0,
+            networksCreated: run.networksCreated ?? 0,
+            networksUpdated: run.networksUpdated ?? 0,
+            devicesRemoved: run.devicesRemoved ?? 0,
+            networksRemoved: run.networksRemoved ?? 0,
+            errors: run.errors ?? [],
+        };
+    }
+}
+
+// Export singleton instance
+export const syncService = new SyncService();
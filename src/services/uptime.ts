@@ -0,0 +1,458 @@
+/**
+ * Uptime Service
+ *
+ * Records every device status change and reports availability, outages and
+ * MTTR for a device, a site or a deployment over a time window. Online and
+ * degraded count as up, offline as down; unknown and retired time is left
+ * out of the availability figures.
+ */
+
+import { and, asc, desc, eq, gte, inArray, lt, lte, max, min } from 'drizzle-orm';
+import {
+    db, devices, deviceStatusEvents, locations, sites, deployments, syncRuns, generateId,
+    type Device, type DeviceStatusEvent,
+} from '../db/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_MS = 30 * DAY_MS;
+const MAX_BUCKETS = 400;
+
+type DeviceStatus = NonNullable<Device['status']>;
+
+export class UptimeError extends Error {
+    constructor(message: string, public readonly code: 'not_found' | 'invalid' = 'invalid') {
+        super(message);
+        this.name = 'UptimeError';
+    }
+}
+
+export interface UptimeWindow {
+    from?: Date;
+    to?: Date;
+    /** Also report availability per bucket of this many seconds (e.g. 86400 for daily) */
+    bucketSeconds?: number;
+}
+
+export interface Outage {
+    deviceId: string;
+    deviceName: string;
+    start: Date;
+    end: Date | null; // null when still offline at the end of the window
+    durationMs: number;
+}
+
+export interface AvailabilityStats {
+    availabilityPct: number | null; // null when the window has no monitored time
+    upMs: number;
+    downMs: number;
+    monitoredMs: number;
+    outageCount: number;
+    mttrMs: number | null; // Mean duration of outages that ended within the window
+    longestOutageMs: number | null;
+}
+
+export interface DeviceUptime extends AvailabilityStats {
+    deviceId: string;
+    deviceName: string;
+    status: Device['status'];
+}
+
+export interface UptimeBucket {
+    start: Date;
+    end: Date;
+    availabilityPct: number | null;
+}
+
+export interface UptimeReport extends AvailabilityStats {
+    scope: 'device' | 'site' | 'deployment';
+    id: string;
+    name: string;
+    from: Date;
+    to: Date;
+    devices: DeviceUptime[];
+    outages: Outage[];
+    buckets?: UptimeBucket[];
+}
+
+/**
+ * A stretch of time a device spent in one status (null = not known)
+ */
+interface Segment {
+    start: number;
+    end: number;
+    status: DeviceStatus | null;
+}
+
+function isUp(status: DeviceStatus | null): boolean {
+    return status === 'online' || status === 'degraded';
+}
+
+function percent(upMs: number, monitoredMs: number): number | null {
+    return monitoredMs > 0 ? Math.round((upMs / monitoredMs) * 10000) / 100 : null;
+}
+
+/**
+ * Up and down time of a device's segments within [from, to)
+ */
+function measure(segments: Segment[], from: number, to: number): { upMs: number; downMs: number } {
+    let upMs = 0;
+    let downMs = 0;
+    for (const segment of segments) {
+        const ms = Math.min(segment.end, to) - Math.max(segment.start, from);
+        if (ms <= 0) continue;
+        if (isUp(segment.status)) upMs += ms;
+        else if (segment.status === 'offline') downMs += ms;
+    }
+    return { upMs, downMs };
+}
+
+/**
+ * Consecutive offline time; a segment ending at the window end is still ongoing
+ */
+function outagesOf(device: Device, segments: Segment[], to: number): Outage[] {
+    const outages: Outage[] = [];
+    let current: Outage | null = null;
+    for (const segment of segments) {
+        if (segment.status !== 'offline') {
+            current = null;
+            continue;
+        }
+        if (!current) {
+            current = { deviceId: device.id, deviceName: device.name, start: new Date(segment.start), end: null, durationMs: 0 };
+            outages.push(current);
+        }
+        current.end = segment.end >= to ? null : new Date(segment.end);
+        current.durationMs = segment.end - current.start.getTime();
+    }
+    return outages;
+}
+
+function summarize(upMs: number, downMs: number, outages: Outage[]): AvailabilityStats {
+    const ended = outages.filter(o => o.end !== null);
+    return {
+        availabilityPct: percent(upMs, upMs + downMs),
+        upMs,
+        downMs,
+        monitoredMs: upMs + downMs,
+        outageCount: outages.length,
+        mttrMs: ended.length > 0 ? Math.round(ended.reduce((sum, o) => sum + o.durationMs, 0) / ended.length) : null,
+        longestOutageMs: outages.length > 0 ? Math.max(...outages.map(o => o.durationMs)) : null,
+    };
+}
+
+export class UptimeService {
+    // ============================================
+    // RECORDING
+    // ============================================
+
+    /**
+     * Record the status changes a sync made to a platform's devices.
+     * `before` holds their statuses from before the sync; devices missing
+     * from it and created since `since` are recorded as first seen.
+     */
+    async recordSync(platform: string, before: Map<string, Device['status']>, since: Date): Promise<number> {
+        const rows = await db.select({ id: devices.id, status: devices.status, createdAt: devices.createdAt })
+            .from(devices)
+            .where(eq(devices.platformType, platform as NonNullable<Device['platformType']>));
+
+        const now = new Date();
+        const events: DeviceStatusEvent[] = [];
+        for (const device of rows) {
+            const toStatus = device.status ?? 'unknown';
+            const known = before.has(device.id);
+            if (!known && device.createdAt < since) continue;
+
+            const fromStatus = known ? before.get(device.id) ?? 'unknown' : null;
+            if (fromStatus === toStatus) continue;
+
+            events.push({
+                id: generateId(),
+                deviceId: device.id,
+                fromStatus,
+                toStatus,
+                source: 'sync',
+                platformType: platform,
+                changedAt: now,
+            });
+        }
+
+        if (events.length > 0) {
+            await db.insert(deviceStatusEvents).values(events);
+        }
+        return events.length;
+    }
+
+    /**
+     * Record a status change made outside a sync, e.g. through the API
+     */
+    async record(deviceId: string, fromStatus: Device['status'] | null, toStatus: Device['status'], source: DeviceStatusEvent['source'] = 'manual'): Promise<void> {
+        const to = toStatus ?? 'unknown';
+        if (fromStatus === to) return;
+        await db.insert(deviceStatusEvents).values({
+            id: generateId(),
+            deviceId,
+            fromStatus,
+            toStatus: to,
+            source,
+            changedAt: new Date(),
+        });
+    }
+
+    /**
+     * A device's status changes, newest first
+     */
+    async history(deviceId: string, window: UptimeWindow = {}, limit = 500): Promise<DeviceStatusEvent[]> {
+        await this.getDevice(deviceId);
+        const { from, to } = this.resolveWindow(window);
+        return db.select().from(deviceStatusEvents)
+            .where(and(
+                eq(deviceStatusEvents.deviceId, deviceId),
+                gte(deviceStatusEvents.changedAt, from),
+                lte(deviceStatusEvents.changedAt, to)
+            ))
+            .orderBy(desc(deviceStatusEvents.changedAt))
+            .limit(limit);
+    }
+
+    // ============================================
+    // REPORTS
+    // ============================================
+
+    async deviceReport(deviceId: string, window: UptimeWindow = {}): Promise<UptimeReport> {
+        const device = await this.getDevice(deviceId);
+        return this.report('device', device.id, device.name, [device], this.resolveWindow(window));
+    }
+
+    async siteReport(siteId: string, window: UptimeWindow = {}): Promise<UptimeReport> {
+        const [site] = await db.select().from(sites).where(eq(sites.id, siteId));
+        if (!site) throw new UptimeError(`Site ${siteId} not found`, 'not_found');
+        return this.report('site', site.id, site.name, await this.siteDevices(site.id), this.resolveWindow(window));
+    }
+
+    /**
+     * Devices of the deployed vehicle (or of its site when no vehicle is set),
+     * limited to the time the deployment was active
+     */
+    async deploymentReport(deploymentId: string, window: UptimeWindow = {}): Promise<UptimeReport> {
+        const [deployment] = await db.select().from(deployments).where(eq(deployments.id, deploymentId));
+        if (!deployment) throw new UptimeError(`Deployment ${deploymentId} not found`, 'not_found');
+
+        let members: Device[];
+        if (deployment.vehicleId) {
+            members = await db.select().from(devices).where(eq(devices.vehicleId, deployment.vehicleId));
+        } else if (deployment.siteId) {
+            members = await this.siteDevices(deployment.siteId);
+        } else {
+            throw new UptimeError(`Deployment ${deployment.name} has no vehicle or site`);
+        }
+
+        const resolved = this.resolveWindow(window);
+        const from = deployment.actualStart && deployment.actualStart > resolved.from ? deployment.actualStart : resolved.from;
+        const to = deployment.actualEnd && deployment.actualEnd < resolved.to ? deployment.actualEnd : resolved.to;
+        if (from >= to) {
+            throw new UptimeError(`Deployment ${deployment.name} was not active between ${resolved.from.toISOString()} and ${resolved.to.toISOString()}`);
+        }
+        return this.report('deployment', deployment.id, deployment.name, members, { ...resolved, from, to });
+    }
+
+    /**
+     * Availability of every site, without outage lists
+     */
+    async siteSummaries(window: UptimeWindow = {}): Promise<Omit<UptimeReport, 'devices' | 'outages' | 'buckets'>[]> {
+        const resolved = this.resolveWindow({ ...window, bucketSeconds: undefined });
+        const siteRows = await db.select().from(sites).orderBy(asc(sites.name));
+
+        const summaries = [];
+        for (const site of siteRows) {
+            const { devices: _devices, outages: _outages, buckets: _buckets, ...summary } =
+                await this.report('site', site.id, site.name, await this.siteDevices(site.id), resolved);
+            summaries.push(summary);
+        }
+        return summaries;
+    }
+
+    private async report(
+        scope: UptimeReport['scope'],
+        id: string,
+        name: string,
+        members: Device[],
+        window: Required<Pick<UptimeWindow, 'from' | 'to'>> & Pick<UptimeWindow, 'bucketSeconds'>
+    ): Promise<UptimeReport> {
+        const from = window.from.getTime();
+        const to = window.to.getTime();
+        const timelines = await this.timelines(members, window.from, window.to);
+
+        let upMs = 0;
+        let downMs = 0;
+        const outages: Outage[] = [];
+        const deviceStats: DeviceUptime[] = [];
+        for (const device of members) {
+            const segments = timelines.get(device.id) ?? [];
+            const time = measure(segments, from, to);
+            const deviceOutages = outagesOf(device, segments, to);
+
+            upMs += time.upMs;
+            downMs += time.downMs;
+            outages.push(...deviceOutages);
+            deviceStats.push({
+                deviceId: device.id,
+                deviceName: device.name,
+                status: device.status,
+                ...summarize(time.upMs, time.downMs, deviceOutages),
+            });
+        }
+
+        const report: UptimeReport = {
+            scope,
+            id,
+            name,
+            from: window.from,
+            to: window.to,
+            ...summarize(upMs, downMs, outages),
+            devices: deviceStats.sort((a, b) => (a.availabilityPct ?? 101) - (b.availabilityPct ?? 101)),
+            outages: outages.sort((a, b) => b.start.getTime() - a.start.getTime()),
+        };
+
+        // Buckets are aligned to multiples of their size (daily buckets are UTC days),
+        // so the first and last may be partial
+        if (window.bucketSeconds) {
+            report.buckets = [];
+            const size = window.bucketSeconds * 1000;
+            for (let start = from - (from % size); start < to; start += size) {
+                const end = Math.min(start + size, to);
+                let bucketUp = 0;
+                let bucketDown = 0;
+                for (const segments of timelines.values()) {
+                    const time = measure(segments, start, end);
+                    bucketUp += time.upMs;
+                    bucketDown += time.downMs;
+                }
+                report.buckets.push({
+                    start: new Date(Math.max(start, from)),
+                    end: new Date(end),
+                    availabilityPct: percent(bucketUp, bucketUp + bucketDown),
+                });
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Each device's statuses over the window. The status at the start is the
+     * last change before it. Without one, the status is only known from the
+     * device's first change or its platform's first sync, whichever is
+     * earlier: from there it is the `fromStatus` of the first change in the
+     * window, or the current status when nothing changed. Time before that,
+     * or before the device was created, is unknown.
+     */
+    private async timelines(members: Device[], from: Date, to: Date): Promise<Map<string, Segment[]>> {
+        const timelines = new Map<string, Segment[]>();
+        if (members.length === 0) return timelines;
+        const ids = members.map(d => d.id);
+
+        // Latest change of each device before the window
+        const latest = db.select({ deviceId: deviceStatusEvents.deviceId, changedAt: max(deviceStatusEvents.changedAt).as('latest_changed_at') })
+            .from(deviceStatusEvents)
+            .where(and(inArray(deviceStatusEvents.deviceId, ids), lt(deviceStatusEvents.changedAt, from)))
+            .groupBy(deviceStatusEvents.deviceId)
+            .as('latest');
+
+        const [events, previousRows, firstSyncs] = await Promise.all([
+            db.select().from(deviceStatusEvents)
+                .where(and(
+                    inArray(deviceStatusEvents.deviceId, ids),
+                    gte(deviceStatusEvents.changedAt, from),
+                    lt(deviceStatusEvents.changedAt, to)
+                ))
+                .orderBy(asc(deviceStatusEvents.changedAt)),
+            db.select({ event: deviceStatusEvents }).from(deviceStatusEvents)
+                .innerJoin(latest, and(
+                    eq(deviceStatusEvents.deviceId, latest.deviceId),
+                    eq(deviceStatusEvents.changedAt, latest.changedAt)
+                )),
+            db.select({ platform: syncRuns.platform, startedAt: min(syncRuns.startedAt) }).from(syncRuns)
+                .groupBy(syncRuns.platform),
+        ]);
+
+        const byDevice = new Map<string, DeviceStatusEvent[]>();
+        for (const event of events) {
+            const list = byDevice.get(event.deviceId) ?? [];
+            list.push(event);
+            byDevice.set(event.deviceId, list);
+        }
+        const previousOf = new Map(previousRows.map(r => [r.event.deviceId, r.event]));
+        const firstSyncOf = new Map(firstSyncs.map(r => [r.platform, r.startedAt]));
+
+        for (const device of members) {
+            const changes = byDevice.get(device.id) ?? [];
+            const previous = previousOf.get(device.id);
+
+            const segments: Segment[] = [];
+            let cursor = from.getTime();
+            let status: DeviceStatus | null = previous
+                ? previous.toStatus
+                : changes.length > 0 ? changes[0].fromStatus : device.status ?? 'unknown';
+
+            if (!previous) {
+                const firstSync = device.platformType ? firstSyncOf.get(device.platformType)?.getTime() ?? Infinity : Infinity;
+                const firstChange = changes.length > 0 ? changes[0].changedAt.getTime() : Infinity;
+                const known = Math.min(Math.max(device.createdAt.getTime(), Math.min(firstSync, firstChange)), to.getTime());
+                if (known > cursor) {
+                    segments.push({ start: cursor, end: known, status: null });
+                    cursor = known;
+                }
+            }
+
+            for (const change of changes) {
+                const at = change.changedAt.getTime();
+                if (at > cursor) {
+                    segments.push({ start: cursor, end: at, status });
+                    cursor = at;
+                }
+                status = change.toStatus;
+            }
+            if (cursor < to.getTime()) {
+                segments.push({ start: cursor, end: to.getTime(), status });
+            }
+
+            timelines.set(device.id, segments);
+        }
+        return timelines;
+    }
+
+    private async siteDevices(siteId: string): Promise<Device[]> {
+        const rows = await db.select({ device: devices })
+            .from(devices)
+            .innerJoin(locations, eq(devices.locationId, locations.id))
+            .where(eq(locations.siteId, siteId));
+        return rows.map(r => r.device);
+    }
+
+    private async getDevice(deviceId: string): Promise<Device> {
+        const [device] = await db.select().from(devices).where(eq(devices.id, deviceId));
+        if (!device) throw new UptimeError(`Device ${deviceId} not found`, 'not_found');
+        return device;
+    }
+
+    /**
+     * Default to the last 30 days; the window never extends past now
+     */
+    private resolveWindow(window: UptimeWindow): Required<Pick<UptimeWindow, 'from' | 'to'>> & Pick<UptimeWindow, 'bucketSeconds'> {
+        const now = new Date();
+        const to = window.to && window.to < now ? window.to : now;
+        const from = window.from ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+        if (from >= to) throw new UptimeError('from must be before to');
+
+        if (window.bucketSeconds !== undefined) {
+            if (!(window.bucketSeconds > 0)) throw new UptimeError('bucket must be positive');
+            if ((to.getTime() - from.getTime()) / (window.bucketSeconds * 1000) >= MAX_BUCKETS) {
+                throw new UptimeError(`bucket is too small for this window (at most ${MAX_BUCKETS} buckets)`);
+            }
+        }
+        return { from, to, bucketSeconds: window.bucketSeconds };
+    }
+}
+
+// Export singleton instance
+export const uptimeService = new UptimeService();
@@ -0,0 +1,195 @@
+/**
+ * ZeroTier Member Management
+ *
+ * Authorize, deauthorize, rename and re-address ZeroTier members from NetOps
+ * instead of my.zerotier.com. Every change goes to the audit log with the
+ * member's state before and after.
+ */
+
+import { isIP } from 'net';
+import type { ZeroTierConnector, ZeroTierMember } from '../connectors/zerotier.js';
+import { auditLogService } from './audit-log.js';
+
+export class ZeroTierMemberError extends Error {
+    constructor(message: string, public readonly code: 'not_configured' | 'invalid' = 'invalid') {
+        super(message);
+        this.name = 'ZeroTierMemberError';
+    }
+}
+
+export interface MemberSummary {
+    networkId: string;
+    memberId: string;
+    name: string | null;
+    description: string | null;
+    authorized: boolean;
+    ipAssignments: string[];
+    tags: Array<[number, number]>;
+    online: boolean;
+    lastOnline: string | null;
+    physicalAddress: string | null;
+    clientVersion: string | null;
+}
+
+export interface MemberChange {
+    name?: string;
+    description?: string;
+    authorized?: boolean;
+    ipAssignments?: string[];
+    tags?: Array<[number, number]>;
+}
+
+export interface ChangeContext {
+    actor: string;
+    reason?: string;
+}
+
+const ONLINE_WINDOW_MS = 5 * 60 * 1000;
+
+const NETWORK_ID = /^[0-9a-f]{16}$/i;
+const MEMBER_ID = /^[0-9a-f]{10}$/i;
+
+/**
+ * IDs go into the Central API path, so only ZeroTier's hex IDs are accepted
+ */
+function checkIds(networkId: string, memberId?: string): void {
+    if (!NETWORK_ID.test(networkId)) {
+        throw new ZeroTierMemberError(`Invalid network ID: ${networkId} (expected 16 hex digits)`);
+    }
+    if (memberId !== undefined && !MEMBER_ID.test(memberId)) {
+        throw new ZeroTierMemberError(`Invalid member ID: ${memberId} (expected 10 hex digits)`);
+    }
+}
+
+function summarize(member: ZeroTierMember): MemberSummary {
+    return {
+        networkId: member.networkId,
+        memberId: member.nodeId,
+        name: member.name || null,
+        description: member.description || null,
+        authorized: member.config.authorized,
+        ipAssignments: member.config.ipAssignments || [],
+        tags: member.config.tags || [],
+        online: Date.now() - member.lastOnline < ONLINE_WINDOW_MS,
+        lastOnline: member.lastOnline ? new Date(member.lastOnline).toISOString() : null,
+        physicalAddress: member.physicalAddress || null,
+        clientVersion: member.clientVersion || null,
+    };
+}
+
+export class ZeroTierMemberService {
+    private connector: ZeroTierConnector | null = null;
+
+    setConnector(connector: ZeroTierConnector | null): void {
+        this.connector = connector;
+    }
+
+    private getConnector(): ZeroTierConnector {
+        if (!this.connector) {
+            throw new ZeroTierMemberError('ZeroTier is not configured (set ZEROTIER_API_TOKEN)', 'not_configured');
+        }
+        return this.connector;
+    }
+
+    /**
+     * List members of a network. Pending members are join requests that are
+     * not authorized yet (hidden members are left out).
+     */
+    async listMembers(networkId: string, options: { pending?: boolean } = {}): Promise<MemberSummary[]> {
+        checkIds(networkId);
+        const members = await this.getConnector().listMembers(networkId);
+        return members
+            .filter(m => !options.pending || (!m.config.authorized && !m.hidden))
+            .map(summarize);
+    }
+
+    async getMember(networkId: string, memberId: string): Promise<MemberSummary> {
+        checkIds(networkId, memberId);
+        return summarize(await this.getConnector().getMember(networkId, memberId));
+    }
+
+    /**
+     * Approve a pending join request. A reason is required so the audit log
+     * says why a device was let onto the network.
+     */
+    async approve(networkId: string, memberId: string, context: ChangeContext & { name?: string }): Promise<MemberSummary> {
+        if (!context.reason?.trim()) {
+            throw new ZeroTierMemberError('A reason is required to approve a join request');
+        }
+
+        const before = await this.getMember(networkId, memberId);
+        if (before.authorized) {
+            throw new ZeroTierMemberError(`Member ${memberId} is already authorized on ${networkId}`);
+        }
+
+        return this.apply('zerotier.member.approve', networkId, memberId, {
+            authorized: true,
+            ...(context.name ? { name: context.name } : {}),
+        }, context, before);
+    }
+
+    async authorize(networkId: string, memberId: string, context: ChangeContext): Promise<MemberSummary> {
+        return this.apply('zerotier.member.authorize', networkId, memberId, { authorized: true }, context);
+    }
+
+    async deauthorize(networkId: string, memberId: string, context: ChangeContext): Promise<MemberSummary> {
+        return this.apply('zerotier.member.deauthorize', networkId, memberId, { authorized: false }, context);
+    }
+
+    /**
+     * Rename, re-address or re-tag a member
+     */
+    async update(networkId: string, memberId: string, change: MemberChange, context: ChangeContext): Promise<MemberSummary> {
+        if (Object.values(change).every(v => v === undefined)) {
+            throw new ZeroTierMemberError('Nothing to change');
+        }
+        if (change.ipAssignments) {
+            const invalid = change.ipAssignments.filter(ip => isIP(ip) === 0);
+            if (invalid.length > 0) {
+                throw new ZeroTierMemberError(`Invalid IP assignment(s): ${invalid.join(', ')}`);
+            }
+        }
+        if (change.tags && (!Array.isArray(change.tags) || !change.tags.every(t => Array.isArray(t) && t.length === 2 && t.every(Number.isInteger)))) {
+            throw new ZeroTierMemberError('Tags must be [tagId, value] pairs of integers');
+        }
+
+        return this.apply('zerotier.member.update', networkId, memberId, change, context);
+    }
+
+    private async apply(
+        action: string,
+        networkId: string,
+        memberId: string,
+        change: MemberChange,
+        context: ChangeContext,
+        before?: MemberSummary
+    ): Promise<MemberSummary> {
+        checkIds(networkId, memberId);
+        const connector = this.getConnector();
+        const entry = {
+            actor: context.actor,
+            action,
+            targetType: 'zerotier_member',
+            targetId: `${networkId}/${memberId}`,
+            reason: context.reason,
+        };
+
+        let previous = before;
+        if (!previous) {
+            try {
+                previous = await this.getMember(networkId, memberId);
+            } catch (error) {
+                await auditLogService.record({ ...entry, error: error instanceof Error ? error.message : 'Unknown error' });
+                throw error;
+            }
+        }
+
+        return auditLogService.track(
+            { ...entry, before: { ...previous } },
+            async () => ({ ...summarize(await connector.updateMember(networkId, memberId, change)) })
+        );
+    }
+}
+
+// Export singleton instance
+export const zeroTierMemberService = new ZeroTierMemberService();
@@ -0,0 +1,252 @@
+/**
+ * Minimal gRPC Client
+ *
+ * Just enough protobuf and gRPC to talk to devices that expose a gRPC API
+ * without shipping .proto files: unary calls over HTTP/2 and a field-number
+ * based protobuf reader/writer.
+ */
+
+import http2 from 'node:http2';
+
+type WireValue = { wireType: number; value: number | Buffer };
+
+/**
+ * Decoded protobuf message, read by field number
+ */
+export class ProtoMessage {
+    private fields = new Map<number, WireValue[]>();
+
+    static decode(buf: Buffer): ProtoMessage {
+        const msg = new ProtoMessage();
+        let pos = 0;
+
+        const readVarint = (): number => {
+            let result = 0;
+            let multiplier = 1;
+            while (pos < buf.length) {
+                const byte = buf[pos++];
+                result += (byte & 0x7f) * multiplier;
+                if ((byte & 0x80) === 0) return result;
+                multiplier *= 128;
+            }
+            throw new Error('Truncated protobuf varint');
+        };
+
+        while (pos < buf.length) {
+            const tag = readVarint();
+            const field = Math.floor(tag / 8);
+            const wireType = tag & 7;
+            let value: number | Buffer;
+
+            switch (wireType) {
+                case 0: value = readVarint(); break;
+                case 1: value = buf.subarray(pos, pos += 8); break;
+                case 2: {
+                    const length = readVarint();
+                    value = buf.subarray(pos, pos += length);
+                    break;
+                }
+                case 5: value = buf.subarray(pos, pos += 4); break;
+                default: throw new Error(`Unsupported protobuf wire type ${wireType}`);
+            }
+            if (pos > buf.length) throw new Error('Truncated protobuf message');
+
+            const values = msg.fields.get(field) || [];
+            values.push({ wireType, value });
+            msg.fields.set(field, values);
+        }
+
+        return msg;
+    }
+
+    has(field: number): boolean {
+        return this.fields.has(field);
+    }
+
+    uint(field: number): number | undefined {
+        const last = this.last(field);
+        return last?.wireType === 0 ? last.value as number : undefined;
+    }
+
+    bool(field: number): boolean {
+        return (this.uint(field) ?? 0) !== 0;
+    }
+
+    float(field: number): number | undefined {
+        const last = this.last(field);
+        if (last?.wireType === 5) return (last.value as Buffer).readFloatLE(0);
+        if (last?.wireType === 1) return (last.value as Buffer).readDoubleLE(0);
+        return undefined;
+    }
+
+    string(field: number): string | undefined {
+        const last = this.last(field);
+        return last?.wireType === 2 ? (last.value as Buffer).toString('utf8') : undefined;
+    }
+
+    message(field: number): ProtoMessage | null {
+        const last = this.last(field);
+        return last?.wireType === 2 ? ProtoMessage.decode(last.value as Buffer) : null;
+    }
+
+    /**
+     * Repeated float field, packed or not
+     */
+    floats(field: number): number[] {
+        const result: number[] = [];
+        for (const { wireType, value } of this.fields.get(field) || []) {
+            const buf = value as Buffer;
+            if (wireType === 5) {
+                result.push(buf.readFloatLE(0));
+            } else if (wireType === 2) {
+                for (let i = 0; i + 4 <= buf.length; i += 4) {
+                    result.push(buf.readFloatLE(i));
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Field numbers of every boolean field that is set to true
+     */
+    trueFields(): number[] {
+        return [...this.fields.entries()]
+            .filter(([, values]) => values.some(v => v.wireType === 0 && v.value !== 0))
+            .map(([field]) => field);
+    }
+
+    private last(field: number): WireValue | undefined {
+        const values = this.fields.get(field);
+        return values?.[values.length - 1];
+    }
+}
+
+/**
+ * Builds a protobuf message field by field
+ */
+export class ProtoWriter {
+    private parts: Buffer[] = [];
+
+    uint(field: number, value: number): this {
+        this.parts.push(varint(field * 8), varint(value));
+        return this;
+    }
+
+    bool(field: number, value: boolean): this {
+        return this.uint(field, value ? 1 : 0);
+    }
+
+    float(field: number, value: number): this {
+        const buf = Buffer.alloc(4);
+        buf.writeFloatLE(value, 0);
+        this.parts.push(varint(field * 8 + 5), buf);
+        return this;
+    }
+
+    bytes(field: number, value: Buffer): this {
+        this.parts.push(varint(field * 8 + 2), varint(value.length), value);
+        return this;
+    }
+
+    string(field: number, value: string): this {
+        return this.bytes(field, Buffer.from(value, 'utf8'));
+    }
+
+    message(field: number, value: ProtoWriter): this {
+        return this.bytes(field, value.finish());
+    }
+
+    finish(): Buffer {
+        return Buffer.concat(this.parts);
+    }
+}
+
+function varint(value: number): Buffer {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value % 128) | 0x80);
+        value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+}
+
+/**
+ * Make a unary gRPC call and return the raw response message
+ *
+ * @param address e.g. "http://192.168.100.1:9200"
+ * @param path    e.g. "/SpaceX.API.Device.Device/Handle"
+ */
+export function grpcUnary(address: string, path: string, message: Buffer, timeoutMs = 10000): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        let settled = false;
+        const session = http2.connect(address);
+
+        const finish = (error: Error | null, data?: Buffer) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            session.close();
+            if (error) {
+                session.destroy();
+                reject(error);
+            } else {
+                resolve(data!);
+            }
+        };
+
+        const timer = setTimeout(() => finish(new Error(`gRPC call ${path} timed out after ${timeoutMs}ms`)), timeoutMs);
+        session.on('error', err => finish(err));
+
+        const req = session.request({
+            ':method': 'POST',
+            ':path': path,
+            'content-type': 'application/grpc',
+            'te': 'trailers',
+        });
+
+        const chunks: Buffer[] = [];
+        let grpcStatus: string | undefined;
+        let grpcMessage: string | undefined;
+        const readStatus = (headers: http2.IncomingHttpHeaders) => {
+            if (headers['grpc-status'] !== undefined) grpcStatus = String(headers['grpc-status']);
+            if (headers['grpc-message'] !== undefined) {
+                // Percent-encoded per the spec, but a broken server may send anything
+                const raw = String(headers['grpc-message']);
+                try {
+                    grpcMessage = decodeURIComponent(raw);
+                } catch {
+                    grpcMessage = raw;
+                }
+            }
+        };
+
+        // Trailers-only responses carry the status in the headers
+        req.on('response', readStatus);
+        req.on('trailers', readStatus);
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('error', err => finish(err));
+        req.on('end', () => {
+            if (grpcStatus && grpcStatus !== '0') {
+                finish(new Error(`gRPC call ${path} failed with status ${grpcStatus}${grpcMessage ? `: ${grpcMessage}` : ''}`));
+                return;
+            }
+
+            const body = Buffer.concat(chunks);
+            if (body.length < 5) {
+                finish(new Error(`gRPC call ${path} returned no message`));
+                return;
+            }
+            if (body[0] !== 0) {
+                finish(new Error(`gRPC call ${path} returned a compressed message`));
+                return;
+            }
+            finish(null, body.subarray(5, 5 + body.readUInt32BE(1)));
+        });
+
+        const frame = Buffer.alloc(5);
+        frame.writeUInt32BE(message.length, 1);
+        req.end(Buffer.concat([frame, message]));
+    });
+}
@@ -66,3 +66,22 @@ export function isValidIpv4(ip: string): boolean {
     const octets = ip.split('.').map(Number);
     return octets.every(o => o >= 0 && o <= 255);
 }
+
+/**
+ * Convert a dotted IPv4 address to an unsigned 32-bit number
+ */
+export function ipv4ToNumber(ip: string): number {
+    return ip.split('.').reduce((acc, octet) => ((acc << 8) | parseInt(octet, 10)) >>> 0, 0);
+}
+
+/**
+ * Check whether an IPv4 address falls inside a CIDR block
+ */
+export function isIpInCidr(ip: string, cidr: string): boolean {
+    if (!isValidIpv4(ip) || !isValidCidr(cidr)) return false;
+
+    const [base, prefix] = cidr.split('/');
+    const bits = parseInt(prefix, 10);
+    const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+    return (ipv4ToNumber(ip) & mask) >>> 0 === (ipv4ToNumber(base) & mask) >>> 0;
+}
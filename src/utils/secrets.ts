@@ -0,0 +1,58 @@
+/**
+ * Secrets at Rest
+ *
+ * Stored secrets are encrypted with AES-256-GCM under a key derived from
+ * NETOPS_SECRET_KEY. Without the variable they are stored as given. Values
+ * stored in plain text keep working once a key is set, and are encrypted
+ * the next time they are written.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const KEY_SALT = 'netops-secrets';
+
+let cached: { secret: string; key: Buffer } | null = null;
+
+function key(): Buffer | null {
+    const secret = process.env.NETOPS_SECRET_KEY;
+    if (!secret) return null;
+    if (cached?.secret !== secret) cached = { secret, key: scryptSync(secret, KEY_SALT, 32) };
+    return cached.key;
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+    return !!value?.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage; unchanged without a key or when already encrypted
+ */
+export function encryptSecret(value: string | null): string | null {
+    const secretKey = key();
+    if (value === null || !secretKey || isEncrypted(value)) return value;
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', secretKey, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+    return `${PREFIX}${[iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':')}`;
+}
+
+/**
+ * Plain text of a stored secret
+ */
+export function decryptSecret(value: string | null): string | null {
+    if (value === null || !isEncrypted(value)) return value;
+
+    const secretKey = key();
+    if (!secretKey) throw new Error('NETOPS_SECRET_KEY is not set, so a stored secret cannot be decrypted');
+
+    try {
+        const [iv, tag, data] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+        const decipher = createDecipheriv('aes-256-gcm', secretKey, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf-8');
+    } catch {
+        throw new Error('A stored secret could not be decrypted; NETOPS_SECRET_KEY may have changed');
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Just enough SMTP to send plain-text notifications: implicit TLS or
+ * STARTTLS, AUTH PLAIN, one message per connection. Credentials are only
+ * sent over TLS unless the caller allows otherwise.
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const TIMEOUT_MS = 15000;
+
+export interface SmtpOptions {
+    host: string;
+    port?: number;
+    /** Implicit TLS (usually port 465); otherwise STARTTLS is used when offered */
+    secure?: boolean;
+    username?: string;
+    password?: string;
+    /** Send credentials even when the connection isn't encrypted */
+    allowInsecureAuth?: boolean;
+}
+
+export interface MailMessage {
+    from: string;
+    to: string[];
+    subject: string;
+    text: string;
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+/**
+ * Line-based reader for multi-line SMTP replies ("250-..." ... "250 ...")
+ */
+class SmtpSession {
+    private buffer = '';
+    private lines: string[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    constructor(private socket: net.Socket) {
+        this.attach(socket);
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.setTimeout(TIMEOUT_MS);
+        socket.on('data', (chunk: Buffer) => {
+            this.buffer += chunk.toString('utf8');
+            let newline: number;
+            while ((newline = this.buffer.indexOf('\r\n')) >= 0) {
+                this.lines.push(this.buffer.slice(0, newline));
+                this.buffer = this.buffer.slice(newline + 2);
+            }
+            this.deliver();
+        });
+        socket.on('timeout', () => this.fail(new Error('SMTP server timed out')));
+        socket.on('error', (error) => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    }
+
+    private fail(error: Error): void {
+        this.failure ??= error;
+        if (this.waiting) {
+            this.waiting.reject(this.failure);
+            this.waiting = null;
+        }
+    }
+
+    private deliver(): void {
+        if (!this.waiting) return;
+        const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+        if (last < 0) return;
+
+        const lines = this.lines.splice(0, last + 1);
+        const reply = { code: parseInt(lines[last].slice(0, 3), 10), lines: lines.map(l => l.slice(4)) };
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve(reply);
+    }
+
+    read(): Promise<SmtpReply> {
+        if (this.failure) return Promise.reject(this.failure);
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+            this.deliver();
+        });
+    }
+
+    /**
+     * Send a command and check the reply code
+     */
+    async command(line: string, expected: number[]): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return this.expect(expected, line.split(' ')[0]);
+    }
+
+    async expect(expected: number[], what: string): Promise<SmtpReply> {
+        const reply = await this.read();
+        if (!expected.includes(reply.code)) {
+            throw new Error(`SMTP ${what} failed: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    }
+
+    /**
+     * Switch the connection to TLS after STARTTLS
+     */
+    async upgrade(host: string): Promise<void> {
+        this.socket.removeAllListeners();
+        const secure = tls.connect({ socket: this.socket, servername: host });
+        // The listeners removed above included the timeout, so the handshake needs its own
+        secure.setTimeout(TIMEOUT_MS);
+        await new Promise<void>((resolve, reject) => {
+            const done = () => {
+                secure.off('secureConnect', onConnect);
+                secure.off('error', onError);
+                secure.off('timeout', onTimeout);
+            };
+            const onConnect = () => {
+                done();
+                resolve();
+            };
+            const onError = (error: Error) => {
+                done();
+                secure.on('error', () => {});
+                secure.destroy();
+                reject(error);
+            };
+            const onTimeout = () => onError(new Error('SMTP server timed out during the TLS handshake'));
+            secure.once('secureConnect', onConnect);
+            secure.once('error', onError);
+            secure.once('timeout', onTimeout);
+        });
+        this.socket = secure;
+        this.attach(secure);
+    }
+
+    write(data: string): void {
+        this.socket.write(data);
+    }
+
+    close(): void {
+        this.socket.removeAllListeners();
+        this.socket.on('error', () => {});
+        this.socket.end();
+    }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+    const port = options.port ?? (options.secure ? 465 : 587);
+    return new Promise((resolve, reject) => {
+        const socket = options.secure
+            ? tls.connect({ host: options.host, port, servername: options.host }, () => resolve(socket))
+            : net.connect({ host: options.host, port }, () => resolve(socket));
+        socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+        socket.once('error', reject);
+    });
+}
+
+/**
+ * Headers and body, with CRLF line endings and leading dots escaped
+ */
+function formatMessage(message: MailMessage): string {
+    const domain = message.from.split('@')[1]?.replace(/>.*$/, '') || 'localhost';
+    const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to.join(', ')}`,
+        `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+    ];
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+/**
+ * Address part of "Name <user@example.com>"
+ */
+function addressOf(mailbox: string): string {
+    return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * A single-line "user@example.com" or "Name <user@example.com>"; anything
+ * else could inject SMTP commands or headers
+ */
+export function isMailbox(value: unknown): value is string {
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) return false;
+    return /^[^\s<>@]+@[^\s<>@]+$/.test(addressOf(value));
+}
+
+/**
+ * Send one message
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+    if (message.to.length === 0) throw new Error('No recipients');
+    for (const mailbox of [message.from, ...message.to]) {
+        if (!isMailbox(mailbox)) throw new Error(`Invalid mailbox: ${JSON.stringify(mailbox)}`);
+    }
+
+    const session = new SmtpSession(await connect(options));
+    try {
+        await session.expect([220], 'greeting');
+        let ehlo = await session.command(`EHLO ${hostname()}`, [250]);
+
+        let encrypted = !!options.secure;
+        const offersStartTls = ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS');
+        if (!encrypted && offersStartTls) {
+            await session.command('STARTTLS', [220]);
+            await session.upgrade(options.host);
+            ehlo = await session.command(`EHLO ${hostname()}`, [250]);
+            encrypted = true;
+        }
+
+        if (options.username) {
+            if (!encrypted && !options.allowInsecureAuth) {
+                throw new Error('SMTP server offers no STARTTLS; refusing to send credentials in clear text');
+            }
+            const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`).toString('base64');
+            await session.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await session.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+        for (const recipient of message.to) {
+            await session.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251]);
+        }
+        await session.command('DATA', [354]);
+        session.write(formatMessage(message));
+        await session.expect([250], 'DATA');
+        await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+        session.close();
+    }
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+        // Each test file gets its own in-memory database, migrated on first use
+        env: {
+            DATABASE_URL: 'sqlite::memory:',
+        },
+    },
+});